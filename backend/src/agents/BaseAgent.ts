@@ -1,74 +1,194 @@
 // backend/src/agents/BaseAgent.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { openai, calculateCost } from '../config/openai';
+import { config as appConfig } from '../config/app';
 import { query } from '../config/database';
-import { AgentType, TaskType, TaskStatus, AITask } from '@smartdocs/common';
+import { calculateCost } from '../config/openai';
+import {
+  buildRepairPrompt,
+  getAgentSettings,
+  getProvider,
+  LLMProviderType,
+  LLMRequest,
+  LLMResponse,
+  OutputSchema,
+  parseStructuredOutput,
+  StructuredOutputError,
+  TokenUsage,
+} from '../llm';
+import { aiBudgetService } from '../services/AIBudgetService';
+import { aiCacheService } from '../services/AICacheService';
+import { AgentType, TaskType, TaskStatus, AITask, OutputValidationFailure } from '@smartdocs/common';
+
+// Receives each piece of generated text as it arrives
+export type DeltaHandler = (delta: string) => void;
+
+// Who and what a task is run for, recorded with its usage
+export interface AITaskContext {
+  userId?: string;
+  documentId?: string;
+}
+
+interface TaskUsage extends TokenUsage {
+  cost: number;
+}
+
+// What the running task records besides its output
+interface TaskRun {
+  usage: TaskUsage;
+  validationFailures: OutputValidationFailure[];
+  callFailed: boolean;      // An LLM call failed, so the output may be an agent's fallback
+}
+
+// The task running in the current async context; agent instances are shared
+// between requests, so it cannot live on the agent
+const taskRun = new AsyncLocalStorage<TaskRun>();
 
 export abstract class BaseAgent {
   public readonly name: string;
   public readonly type: AgentType;
   public readonly model: string;
+  public readonly provider: LLMProviderType;
+  public readonly promptVersion: string;
   protected systemPrompt: string;
   protected config: Record<string, any>;
 
   constructor(name: string, type: AgentType, model: string, systemPrompt: string = '', config: Record<string, any> = {}) {
     this.name = name;
     this.type = type;
-    this.model = model;
+    // LLM_PROVIDER and LLM_AGENTS can move an agent to another provider or model
+    const settings = getAgentSettings(name);
+    this.model = settings.model || model;
+    this.provider = settings.provider;
     this.systemPrompt = systemPrompt;
     this.config = {
       temperature: 0.7,
       max_tokens: 2000,
       ...config
     };
+    // Part of the cache key: set `prompt_version` when changing how the user
+    // prompt is built, so output cached for the old prompt is not reused
+    this.promptVersion = this.config.prompt_version
+      || createHash('sha256').update(systemPrompt).digest('hex').slice(0, 16);
   }
 
-  abstract execute(input: any): Promise<any>;
+  /**
+   * Run the agent on an input
+   * Agents that support streaming pass generated text to `onDelta` as it
+   * arrives; others ignore it.
+   */
+  abstract execute(input: any, onDelta?: DeltaHandler): Promise<any>;
+
+  /**
+   * Run the agent and record the task
+   * The tokens of every LLM call made during the task, their cost and any
+   * responses that failed validation are stored with it, whether it completes
+   * or fails. A task for a user over their AI budget is refused with a
+   * QuotaExceededError before anything is recorded.
+   *
+   * Output is cached by agent, model, prompt version and input unless the agent
+   * opts out (`cache: false` or AI_CACHE_DISABLED_AGENTS). Input keys listed in
+   * `cache_ignored_keys` are left out of the cache key. A cached answer is
+   * recorded as a task marked as a cache hit, without tokens or cost, and is
+   * not held against the budget; nothing is streamed to `onDelta`.
+   */
+  async runTask(taskType: TaskType, input: any, onDelta?: DeltaHandler, context: AITaskContext = {}): Promise<AITask> {
+    const cacheKey = this.config.cache !== false && aiCacheService.isEnabledFor(this.name)
+      ? aiCacheService.buildKey(this.name, this.model, this.promptVersion, input, this.config.cache_ignored_keys)
+      : undefined;
+    const cached = cacheKey ? await aiCacheService.get(cacheKey) : undefined;
+
+    if (cached === undefined && context.userId) {
+      await aiBudgetService.checkBudget(context.userId);
+    }
 
-  async runTask(taskType: TaskType, input: any): Promise<AITask> {
     const taskId = uuidv4();
+    const run: TaskRun = {
+      usage: { prompt: 0, completion: 0, total: 0, cost: 0 },
+      validationFailures: [],
+      callFailed: false,
+    };
 
     try {
       // Get or create agent in database
       const agentId = await this.getOrCreateAgent();
 
       // Create task record
-      await this.createTaskRecord(taskId, agentId, taskType, input);
+      await this.createTaskRecord(taskId, agentId, taskType, input, context, cached !== undefined);
 
       // Execute the task
-      const output = await this.execute(input);
+      let output = cached;
+      if (output === undefined) {
+        output = await taskRun.run(run, () => this.execute(input, onDelta));
+
+        // Fallback output after a failed call is not worth keeping
+        if (cacheKey && !run.callFailed) {
+          await aiCacheService.set(cacheKey, { agent: this.name, model: this.model, promptVersion: this.promptVersion, output });
+        }
+      }
 
       // Complete task record
-      await this.completeTaskRecord(taskId, output);
+      await this.completeTaskRecord(taskId, output, run);
 
       // Return completed task
       const result = await query('SELECT * FROM ai_tasks WHERE id = $1', [taskId]);
       return this.mapRowToTask(result.rows[0]);
     } catch (error) {
-      await this.failTaskRecord(taskId, error as Error);
+      await this.failTaskRecord(taskId, error as Error, run);
       throw error;
     }
   }
 
-  protected async callOpenAI(userPrompt: string): Promise<any> {
-    const response = await openai.chat.completions.create({
-      model: this.model,
-      messages: [
-        { role: 'system', content: this.systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: this.config.temperature,
-      max_tokens: this.config.max_tokens,
-    });
+  protected async callLLM(userPrompt: string): Promise<LLMResponse> {
+    const response = await this.trackFailure(getProvider(this.provider).complete(this.buildRequest(userPrompt)));
+    this.recordUsage(response.tokens);
+    return response;
+  }
 
-    return {
-      content: response.choices[0].message.content,
-      tokens: {
-        prompt: response.usage?.prompt_tokens || 0,
-        completion: response.usage?.completion_tokens || 0,
-        total: response.usage?.total_tokens || 0
+  /**
+   * Same as callLLM, but streams the completion
+   * Each piece of content is passed to `onDelta` as it arrives; the full content
+   * and token usage are returned once the stream ends.
+   */
+  protected async callLLMStream(userPrompt: string, onDelta: DeltaHandler): Promise<LLMResponse> {
+    const response = await this.trackFailure(getProvider(this.provider).stream(this.buildRequest(userPrompt), onDelta));
+    this.recordUsage(response.tokens);
+    return response;
+  }
+
+  /**
+   * Call the LLM for JSON output and validate it against a schema
+   * A response that fails validation is sent back with what is wrong with it,
+   * up to LLM_REPAIR_ATTEMPTS times; every failure is recorded on the task.
+   * With `onDelta` the first response is streamed (and not retried on errors,
+   * as streamed text can't be taken back); repairs are not streamed.
+   * @throws StructuredOutputError - If the last repair still fails validation
+   */
+  protected async callLLMStructured<T>(userPrompt: string, schema: OutputSchema<T>, onDelta?: DeltaHandler): Promise<T> {
+    const run = taskRun.getStore();
+    let response = onDelta
+      ? await this.callLLMStream(userPrompt, onDelta)
+      : await this.retryWithBackoff(() => this.callLLM(userPrompt));
+
+    for (let attempt = 1; ; attempt++) {
+      const result = parseStructuredOutput(response.content, schema);
+      if (result.success) {
+        return result.data;
       }
-    };
+
+      run?.validationFailures.push({ attempt, errors: result.errors });
+
+      if (attempt > appConfig.llmRepairAttempts) {
+        if (run) {
+          run.callFailed = true;
+        }
+        throw new StructuredOutputError(this.name, result.errors);
+      }
+
+      const repairPrompt = buildRepairPrompt(userPrompt, response.content, result.errors);
+      response = await this.retryWithBackoff(() => this.callLLM(repairPrompt));
+    }
   }
 
   protected async retryWithBackoff<T>(
@@ -93,6 +213,52 @@ export abstract class BaseAgent {
     throw lastError!;
   }
 
+  /**
+   * Mark the running task when an LLM call fails
+   * @private
+   */
+  private async trackFailure<T>(call: Promise<T>): Promise<T> {
+    try {
+      return await call;
+    } catch (error) {
+      const run = taskRun.getStore();
+      if (run) {
+        run.callFailed = true;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Add a call's tokens to the running task
+   * Fixture responses cost nothing; models without known pricing are counted
+   * at zero cost.
+   */
+  private recordUsage(tokens: TokenUsage): void {
+    const usage = taskRun.getStore()?.usage;
+    if (!usage) {
+      return;
+    }
+
+    usage.prompt += tokens.prompt;
+    usage.completion += tokens.completion;
+    usage.total += tokens.total;
+    if (this.provider !== 'fixture') {
+      usage.cost += calculateCost(tokens, this.model);
+    }
+  }
+
+  private buildRequest(userPrompt: string): LLMRequest {
+    return {
+      agent: this.name,
+      model: this.model,
+      systemPrompt: this.systemPrompt,
+      userPrompt,
+      temperature: this.config.temperature,
+      maxTokens: this.config.max_tokens,
+    };
+  }
+
   private async getOrCreateAgent(): Promise<string> {
     const result = await query(
       'SELECT id FROM ai_agents WHERE name = $1',
@@ -113,29 +279,47 @@ export abstract class BaseAgent {
     return insertResult.rows[0].id;
   }
 
-  private async createTaskRecord(taskId: string, agentId: string, taskType: TaskType, input: any): Promise<void> {
+  private async createTaskRecord(
+    taskId: string,
+    agentId: string,
+    taskType: TaskType,
+    input: any,
+    context: AITaskContext,
+    cacheHit: boolean
+  ): Promise<void> {
     await query(
-      `INSERT INTO ai_tasks (id, agent_id, task_type, input_data, status, created_at)
-       VALUES ($1, $2, $3, $4, $5, NOW())`,
-      [taskId, agentId, taskType, JSON.stringify(input), TaskStatus.PROCESSING]
+      `INSERT INTO ai_tasks (id, agent_id, task_type, input_data, status, user_id, document_id, model, cache_hit, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())`,
+      [
+        taskId, agentId, taskType, JSON.stringify(input), TaskStatus.PROCESSING,
+        context.userId || null, context.documentId || null, this.model, cacheHit,
+      ]
     );
   }
 
-  private async completeTaskRecord(taskId: string, output: any): Promise<void> {
+  private async completeTaskRecord(taskId: string, output: any, { usage, validationFailures }: TaskRun): Promise<void> {
     await query(
       `UPDATE ai_tasks
-       SET output_data = $1, status = $2, completed_at = NOW()
-       WHERE id = $3`,
-      [JSON.stringify(output), TaskStatus.COMPLETED, taskId]
+       SET output_data = $1, status = $2, prompt_tokens = $3, completion_tokens = $4, tokens_used = $5, cost = $6,
+           validation_errors = $7, completed_at = NOW()
+       WHERE id = $8`,
+      [
+        JSON.stringify(output), TaskStatus.COMPLETED, usage.prompt, usage.completion, usage.total, usage.cost,
+        validationFailures.length > 0 ? JSON.stringify(validationFailures) : null, taskId,
+      ]
     );
   }
 
-  private async failTaskRecord(taskId: string, error: Error): Promise<void> {
+  private async failTaskRecord(taskId: string, error: Error, { usage, validationFailures }: TaskRun): Promise<void> {
     await query(
       `UPDATE ai_tasks
-       SET status = $1, error = $2, completed_at = NOW()
-       WHERE id = $3`,
-      [TaskStatus.FAILED, error.message, taskId]
+       SET status = $1, error = $2, prompt_tokens = $3, completion_tokens = $4, tokens_used = $5, cost = $6,
+           validation_errors = $7, completed_at = NOW()
+       WHERE id = $8`,
+      [
+        TaskStatus.FAILED, error.message, usage.prompt, usage.completion, usage.total, usage.cost,
+        validationFailures.length > 0 ? JSON.stringify(validationFailures) : null, taskId,
+      ]
     );
   }
 
@@ -147,8 +331,15 @@ export abstract class BaseAgent {
       inputData: row.input_data,
       outputData: row.output_data,
       status: row.status,
+      userId: row.user_id || undefined,
+      documentId: row.document_id || undefined,
+      model: row.model || undefined,
+      promptTokens: row.prompt_tokens ?? undefined,
+      completionTokens: row.completion_tokens ?? undefined,
       tokensUsed: row.tokens_used,
       cost: row.cost ? parseFloat(row.cost) : undefined,
+      validationErrors: row.validation_errors || undefined,
+      cacheHit: row.cache_hit ?? undefined,
       createdAt: row.created_at,
       completedAt: row.completed_at,
       error: row.error
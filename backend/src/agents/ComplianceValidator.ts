@@ -1,7 +1,9 @@
 // backend/src/agents/ComplianceValidator.ts
+import { z } from 'zod';
 import { BaseAgent } from './BaseAgent';
 import { AgentType } from '@smartdocs/common';
 import { MODELS } from '../config/openai';
+import { clampedNumber, lenientArray, OutputSchema, optionalField } from '../llm';
 
 interface ComplianceValidatorInput {
   documentId: string;
@@ -25,6 +27,19 @@ export interface ValidationResult {
   summary: string;
 }
 
+// Issues missing a field or with an unknown severity are dropped
+const validationResultSchema: OutputSchema<ValidationResult> = z.object({
+  isValid: z.boolean(),
+  overallScore: clampedNumber(0, 100, true),
+  issues: lenientArray(z.object({
+    severity: z.enum(['critical', 'warning', 'info']),
+    fieldName: optionalField(z.string()),
+    issue: z.string().min(1),
+    suggestion: z.string().min(1),
+  })),
+  summary: z.string().min(1),
+});
+
 export class ComplianceValidator extends BaseAgent {
   constructor() {
     const systemPrompt = `You are an expert legal compliance validator. Your task is to validate filled legal documents for completeness, format compliance, and potential issues.
@@ -99,16 +114,9 @@ Be thorough but practical - focus on real issues that could cause problems.`;
         throw new Error('documentId, documentType, and placeholders are required');
       }
 
-      // Use retry with backoff for API call
-      const response = await this.retryWithBackoff(async () => {
-        const userPrompt = this.buildValidationPrompt(documentType, placeholders);
-        return await this.callOpenAI(userPrompt);
-      });
-
-      // Parse JSON response
-      const validationResult = this.parseValidationResponse(response.content);
+      const userPrompt = this.buildValidationPrompt(documentType, placeholders);
 
-      return validationResult;
+      return await this.callLLMStructured(userPrompt, validationResultSchema);
     } catch (error) {
       console.error('ComplianceValidator error:', error);
 
@@ -153,46 +161,4 @@ Validate this document for compliance and completeness:`;
 
     return prompt;
   }
-
-  private parseValidationResponse(content: string): ValidationResult {
-    try {
-      // Remove markdown code blocks if present
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith('```json')) {
-        cleanContent = cleanContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      } else if (cleanContent.startsWith('```')) {
-        cleanContent = cleanContent.replace(/```\n?/g, '');
-      }
-
-      const parsed = JSON.parse(cleanContent);
-
-      // Validate required fields
-      if (
-        typeof parsed.isValid !== 'boolean' ||
-        typeof parsed.overallScore !== 'number' ||
-        !Array.isArray(parsed.issues) ||
-        !parsed.summary
-      ) {
-        throw new Error('Invalid response format: missing required fields');
-      }
-
-      // Ensure score is between 0 and 100
-      parsed.overallScore = Math.max(0, Math.min(100, Math.round(parsed.overallScore)));
-
-      // Validate each issue
-      parsed.issues = parsed.issues.filter((issue: any) => {
-        const validSeverities = ['critical', 'warning', 'info'];
-        return (
-          validSeverities.includes(issue.severity) &&
-          issue.issue &&
-          issue.suggestion
-        );
-      });
-
-      return parsed as ValidationResult;
-    } catch (error) {
-      console.error('JSON parsing error:', error);
-      throw new Error(`Failed to parse validation response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 }
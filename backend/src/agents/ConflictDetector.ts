@@ -1,7 +1,9 @@
 // backend/src/agents/ConflictDetector.ts
+import { z } from 'zod';
 import { BaseAgent } from './BaseAgent';
 import { AgentType } from '@smartdocs/common';
 import { MODELS } from '../config/openai';
+import { clampedNumber, enumWithFallback, lenientArray, OutputSchema, optionalField } from '../llm';
 
 interface ConflictDetectorInput {
   documentId: string;
@@ -38,6 +40,29 @@ export interface ConflictDetection {
   recommendations: string[];
 }
 
+// Conflicts missing a field are dropped; the counts follow the conflicts kept
+const conflictDetectionSchema: OutputSchema<ConflictDetection> = z.object({
+  hasConflicts: z.boolean(),
+  conflictCount: z.number(),
+  conflicts: lenientArray(z.object({
+    type: enumWithFallback(['internal', 'cross_document', 'validation', 'logical'] as const, 'internal'),
+    severity: enumWithFallback(['critical', 'warning', 'info'] as const, 'warning'),
+    field1: z.string().min(1),
+    field2: optionalField(z.string()),
+    value1: z.string().default(''),
+    value2: optionalField(z.string()),
+    description: z.string().min(1),
+    suggestion: z.string().min(1),
+    relatedDocumentId: optionalField(z.string()),
+  })),
+  consistencyScore: clampedNumber(0, 100, true),
+  recommendations: z.array(z.string()),
+}).transform(detection => ({
+  ...detection,
+  conflictCount: detection.conflicts.length,
+  hasConflicts: detection.conflicts.length > 0,
+}));
+
 export class ConflictDetector extends BaseAgent {
   constructor() {
     const systemPrompt = `You are an expert legal document conflict and consistency detector. Your task is to identify inconsistencies, conflicts, and logical errors within a document or across multiple related documents.
@@ -146,16 +171,9 @@ Be thorough but practical - focus on conflicts that matter legally or operationa
         throw new Error('documentId and placeholders array are required');
       }
 
-      // Use retry with backoff for API call
-      const response = await this.retryWithBackoff(async () => {
-        const userPrompt = this.buildConflictPrompt(placeholders, relatedDocuments);
-        return await this.callOpenAI(userPrompt);
-      });
-
-      // Parse JSON response
-      const detection = this.parseConflictResponse(response.content);
+      const userPrompt = this.buildConflictPrompt(placeholders, relatedDocuments);
 
-      return detection;
+      return await this.callLLMStructured(userPrompt, conflictDetectionSchema);
     } catch (error) {
       console.error('ConflictDetector error:', error);
 
@@ -198,66 +216,4 @@ Be thorough but practical - focus on conflicts that matter legally or operationa
 
     return prompt;
   }
-
-  private parseConflictResponse(content: string): ConflictDetection {
-    try {
-      // Remove markdown code blocks if present
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith('```json')) {
-        cleanContent = cleanContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      } else if (cleanContent.startsWith('```')) {
-        cleanContent = cleanContent.replace(/```\n?/g, '');
-      }
-
-      const parsed = JSON.parse(cleanContent);
-
-      // Validate required fields
-      if (
-        typeof parsed.hasConflicts !== 'boolean' ||
-        typeof parsed.conflictCount !== 'number' ||
-        !Array.isArray(parsed.conflicts) ||
-        typeof parsed.consistencyScore !== 'number' ||
-        !Array.isArray(parsed.recommendations)
-      ) {
-        throw new Error('Invalid response format: missing required fields');
-      }
-
-      // Validate conflict count matches array length
-      parsed.conflictCount = parsed.conflicts.length;
-      parsed.hasConflicts = parsed.conflictCount > 0;
-
-      // Validate consistency score
-      parsed.consistencyScore = Math.max(0, Math.min(100, Math.round(parsed.consistencyScore)));
-
-      // Validate each conflict
-      const validTypes = ['internal', 'cross_document', 'validation', 'logical'];
-      const validSeverities = ['critical', 'warning', 'info'];
-
-      parsed.conflicts = parsed.conflicts.filter((conflict: any) => {
-        // Ensure required fields exist
-        if (!conflict.type || !conflict.severity || !conflict.field1 || !conflict.description || !conflict.suggestion) {
-          return false;
-        }
-
-        // Validate type and severity
-        if (!validTypes.includes(conflict.type)) {
-          conflict.type = 'internal';
-        }
-        if (!validSeverities.includes(conflict.severity)) {
-          conflict.severity = 'warning';
-        }
-
-        return true;
-      });
-
-      // Recalculate after filtering
-      parsed.conflictCount = parsed.conflicts.length;
-      parsed.hasConflicts = parsed.conflictCount > 0;
-
-      return parsed as ConflictDetection;
-    } catch (error) {
-      console.error('JSON parsing error:', error);
-      throw new Error(`Failed to parse conflict detection response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 }
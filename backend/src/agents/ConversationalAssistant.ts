@@ -1,9 +1,12 @@
 // backend/src/agents/ConversationalAssistant.ts
-import { BaseAgent } from './BaseAgent';
+import { z } from 'zod';
+import { BaseAgent, DeltaHandler } from './BaseAgent';
 import { AgentType } from '@smartdocs/common';
 import { MODELS } from '../config/openai';
+import { clampedNumber, enumWithFallback, lenientArray, OutputSchema, optionalField } from '../llm';
+import { createJsonStringStream } from '../utils/jsonStringStream';
 
-interface ConversationalAssistantInput {
+export interface ConversationalAssistantInput {
   conversationHistory: Array<{
     role: 'user' | 'assistant';
     content: string;
@@ -14,6 +17,10 @@ interface ConversationalAssistantInput {
     suggestedQuestion: string;
     suggestedValue?: string;
   };
+  openFields?: Array<{  // Other fields still to fill, for messages that give several values
+    fieldName: string;
+    fieldType: string;
+  }>;
   documentContext: {
     documentType: string;
     completionPercentage: number;
@@ -22,14 +29,35 @@ interface ConversationalAssistantInput {
   };
 }
 
+export interface ExtractedFieldValue {
+  fieldName: string;
+  value: string;
+}
+
 export interface ConversationalResponse {
   message: string;
-  suggestedAction?: 'fill_field' | 'next_field' | 'review' | 'complete' | 'clarify';
+  suggestedAction?: 'fill_field' | 'fill_fields' | 'answer' | 'next_field' | 'review' | 'complete' | 'clarify';
   fieldName?: string;
   extractedValue?: string;
+  extractedValues?: ExtractedFieldValue[];  // fill_fields: a value for each field given
   confidence: number;
 }
 
+const SUGGESTED_ACTIONS = ['fill_field', 'fill_fields', 'answer', 'next_field', 'review', 'complete', 'clarify'] as const;
+
+const conversationalResponseSchema: OutputSchema<ConversationalResponse> = z.object({
+  message: z.string().min(1),
+  suggestedAction: optionalField(enumWithFallback(SUGGESTED_ACTIONS, 'clarify')),
+  fieldName: optionalField(z.string()),
+  extractedValue: optionalField(z.string()),
+  // Only well-formed extracted values are kept
+  extractedValues: optionalField(lenientArray(z.object({
+    fieldName: z.string(),
+    value: z.string().refine(value => value.trim() !== ''),
+  }))),
+  confidence: clampedNumber(0, 1),
+});
+
 export class ConversationalAssistant extends BaseAgent {
   constructor() {
     const systemPrompt = `You are a friendly, professional conversational assistant helping lawyers fill legal documents. Your role is to:
@@ -57,7 +85,10 @@ When asking about a field:
 
 When receiving a response:
 - Extract the value from natural language
-- Confirm if unclear
+- Only extract a value when the user actually gives one for the current field
+- If the user asks a question (e.g. "what's a valuation cap?"), answer it briefly, then ask for the field again; do not extract a value
+- If the user is unsure ("not sure yet") or the answer is ambiguous, ask a clarifying question; do not extract a value
+- If the user gives values for several fields at once (e.g. "Company: Acme Inc., investor Jane Doe, $250k"), extract each one into extractedValues, using the field names from the current and other open fields; leave out anything you can't match to a field
 - Validate format (dates, emails, currency)
 - Acknowledge and move forward
 
@@ -67,17 +98,20 @@ Respond ONLY with valid JSON in this exact format:
   "suggestedAction": "fill_field",
   "fieldName": "field_name_here",
   "extractedValue": "extracted value if applicable",
+  "extractedValues": [{ "fieldName": "field_name_here", "value": "value" }],
   "confidence": 0.9
 }
 
 suggestedAction can be:
 - "fill_field": Ready to fill current field with extracted value
+- "fill_fields": The user gave values for more than one field; list them all in extractedValues
+- "answer": Answering the user's question; no value given
 - "next_field": Move to next placeholder
 - "review": User wants to review previous answers
 - "complete": Document is complete
 - "clarify": Need clarification from user
 
-If extractedValue is provided, confidence should reflect how certain you are about the extraction (0-1).`;
+If extractedValue is provided, confidence should reflect how certain you are about the extraction (0-1). Use a low confidence when you had to interpret or reformat what the user said; low-confidence values are confirmed with the user before they are saved.`;
 
     super(
       'ConversationalAssistant',
@@ -87,13 +121,19 @@ If extractedValue is provided, confidence should reflect how certain you are abo
       {
         temperature: 0.7, // Higher temperature for more natural conversation
         max_tokens: 300,
+        cache: false, // Replies are streamed and should follow the conversation, not repeat it
       }
     );
   }
 
-  async execute(input: ConversationalAssistantInput): Promise<ConversationalResponse> {
+  /**
+   * Interpret the latest user message
+   * With `onDelta`, the text of the reply's `message` is streamed as it is
+   * generated; the rest of the JSON is only used once complete.
+   */
+  async execute(input: ConversationalAssistantInput, onDelta?: DeltaHandler): Promise<ConversationalResponse> {
     try {
-      const { conversationHistory, currentPlaceholder, documentContext } = input;
+      const { conversationHistory, currentPlaceholder, openFields, documentContext } = input;
 
       if (!conversationHistory || !documentContext) {
         throw new Error('conversationHistory and documentContext are required');
@@ -103,18 +143,15 @@ If extractedValue is provided, confidence should reflect how certain you are abo
       const userPrompt = this.buildConversationalPrompt(
         conversationHistory,
         currentPlaceholder,
-        documentContext
+        documentContext,
+        openFields
       );
 
-      // Use retry with backoff for API call
-      const response = await this.retryWithBackoff(async () => {
-        return await this.callOpenAI(userPrompt);
-      });
-
-      // Parse JSON response
-      const conversationalResponse = this.parseConversationalResponse(response.content);
-
-      return conversationalResponse;
+      return await this.callLLMStructured(
+        userPrompt,
+        conversationalResponseSchema,
+        onDelta && createJsonStringStream('message', onDelta)
+      );
     } catch (error) {
       console.error('ConversationalAssistant error:', error);
 
@@ -140,7 +177,8 @@ If extractedValue is provided, confidence should reflect how certain you are abo
       completionPercentage: number;
       totalPlaceholders: number;
       filledPlaceholders: number;
-    }
+    },
+    openFields: Array<{ fieldName: string; fieldType: string }> = []
   ): string {
     let prompt = `Document Context:
 - Type: ${documentContext?.documentType || 'Unknown'}
@@ -155,6 +193,13 @@ If extractedValue is provided, confidence should reflect how certain you are abo
 - Suggested Question: ${currentPlaceholder.suggestedQuestion}
 ${currentPlaceholder.suggestedValue ? `- Suggested Value: ${currentPlaceholder.suggestedValue}` : ''}
 
+`;
+    }
+
+    if (openFields.length > 0) {
+      prompt += `Other Open Fields:
+${openFields.map(field => `- ${field.fieldName} (${field.fieldType})`).join('\n')}
+
 `;
     }
 
@@ -167,37 +212,4 @@ ${conversationHistory.map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}:
 
     return prompt;
   }
-
-  private parseConversationalResponse(content: string): ConversationalResponse {
-    try {
-      // Remove markdown code blocks if present
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith('```json')) {
-        cleanContent = cleanContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      } else if (cleanContent.startsWith('```')) {
-        cleanContent = cleanContent.replace(/```\n?/g, '');
-      }
-
-      const parsed = JSON.parse(cleanContent);
-
-      // Validate required fields
-      if (!parsed.message || typeof parsed.confidence !== 'number') {
-        throw new Error('Invalid response format: missing required fields');
-      }
-
-      // Ensure confidence is between 0 and 1
-      parsed.confidence = Math.max(0, Math.min(1, parsed.confidence));
-
-      // Validate suggestedAction if present
-      const validActions = ['fill_field', 'next_field', 'review', 'complete', 'clarify'];
-      if (parsed.suggestedAction && !validActions.includes(parsed.suggestedAction)) {
-        parsed.suggestedAction = 'clarify';
-      }
-
-      return parsed as ConversationalResponse;
-    } catch (error) {
-      console.error('JSON parsing error:', error);
-      throw new Error(`Failed to parse conversational response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 }
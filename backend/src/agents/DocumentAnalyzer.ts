@@ -1,7 +1,9 @@
 // backend/src/agents/DocumentAnalyzer.ts
+import { z } from 'zod';
 import { BaseAgent } from './BaseAgent';
 import { AgentType } from '@smartdocs/common';
 import { MODELS } from '../config/openai';
+import { clampedNumber, OutputSchema } from '../llm';
 
 interface DocumentAnalyzerInput {
   documentId: string;
@@ -20,6 +22,13 @@ interface DocumentAnalysis {
   };
 }
 
+const documentAnalysisSchema: OutputSchema<DocumentAnalysis> = z.object({
+  documentType: z.string().min(1),
+  confidence: clampedNumber(0, 1),
+  complexity: z.string().min(1),
+  metadata: z.record(z.string(), z.any()).catch({}),
+});
+
 export class DocumentAnalyzer extends BaseAgent {
   constructor() {
     const systemPrompt = `You are an expert legal document analyzer. Your task is to analyze legal documents and extract key information.
@@ -57,6 +66,7 @@ Be precise and thorough. If information is not clearly visible, omit it from the
       {
         temperature: 0.3, // Lower temperature for more consistent analysis
         max_tokens: 1500,
+        cache_ignored_keys: ['documentId'], // Neither prompt nor output uses it, so re-uploads share a cache entry
       }
     );
   }
@@ -69,16 +79,9 @@ Be precise and thorough. If information is not clearly visible, omit it from the
         throw new Error('documentId and text are required');
       }
 
-      // Use retry with backoff for API call
-      const response = await this.retryWithBackoff(async () => {
-        const userPrompt = `Analyze the following legal document:\n\n${text.slice(0, 10000)}`; // Limit text to 10k chars
-        return await this.callOpenAI(userPrompt);
-      });
-
-      // Parse JSON response
-      const analysis = this.parseAnalysisResponse(response.content);
+      const userPrompt = `Analyze the following legal document:\n\n${text.slice(0, 10000)}`; // Limit text to 10k chars
 
-      return analysis;
+      return await this.callLLMStructured(userPrompt, documentAnalysisSchema);
     } catch (error) {
       console.error('DocumentAnalyzer error:', error);
 
@@ -91,36 +94,4 @@ Be precise and thorough. If information is not clearly visible, omit it from the
       };
     }
   }
-
-  private parseAnalysisResponse(content: string): DocumentAnalysis {
-    try {
-      // Remove markdown code blocks if present
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith('```json')) {
-        cleanContent = cleanContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      } else if (cleanContent.startsWith('```')) {
-        cleanContent = cleanContent.replace(/```\n?/g, '');
-      }
-
-      const parsed = JSON.parse(cleanContent);
-
-      // Validate required fields
-      if (!parsed.documentType || typeof parsed.confidence !== 'number' || !parsed.complexity) {
-        throw new Error('Invalid response format: missing required fields');
-      }
-
-      // Ensure confidence is between 0 and 1
-      parsed.confidence = Math.max(0, Math.min(1, parsed.confidence));
-
-      // Ensure metadata exists
-      if (!parsed.metadata) {
-        parsed.metadata = {};
-      }
-
-      return parsed as DocumentAnalysis;
-    } catch (error) {
-      console.error('JSON parsing error:', error);
-      throw new Error(`Failed to parse analysis response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 }
@@ -1,7 +1,9 @@
 // backend/src/agents/EntityMatcher.ts
+import { z } from 'zod';
 import { BaseAgent } from './BaseAgent';
 import { AgentType } from '@smartdocs/common';
 import { MODELS } from '../config/openai';
+import { clampedNumber, OutputSchema } from '../llm';
 
 interface EntityMatcherInput {
   placeholderId: string;
@@ -16,12 +18,19 @@ interface EntityMatcherInput {
 }
 
 export interface EntityMatch {
-  suggestedValue: string;
+  suggestedValue: string | null;  // null when nothing matches
   confidence: number;
   source: string;
   reasoning: string;
 }
 
+const entityMatchSchema: OutputSchema<EntityMatch> = z.object({
+  suggestedValue: z.string().nullish().transform(value => value ?? null),
+  confidence: clampedNumber(0, 1),
+  source: z.string().min(1),
+  reasoning: z.string().min(1),
+});
+
 export class EntityMatcher extends BaseAgent {
   constructor() {
     const systemPrompt = `You are an expert entity matching system for legal documents. Your task is to match document placeholders with relevant entities from a knowledge graph.
@@ -79,29 +88,22 @@ Be conservative with matches - only suggest values when confidence is reasonably
       // If no entities available, return no match
       if (!knowledgeGraphEntities || knowledgeGraphEntities.length === 0) {
         return {
-          suggestedValue: null as any,
+          suggestedValue: null,
           confidence: 0.0,
           source: 'none',
           reasoning: 'No entities available in knowledge graph'
         };
       }
 
-      // Use retry with backoff for API call
-      const response = await this.retryWithBackoff(async () => {
-        const userPrompt = this.buildMatchPrompt(fieldName, fieldType, knowledgeGraphEntities);
-        return await this.callOpenAI(userPrompt);
-      });
-
-      // Parse JSON response
-      const match = this.parseMatchResponse(response.content);
+      const userPrompt = this.buildMatchPrompt(fieldName, fieldType, knowledgeGraphEntities);
 
-      return match;
+      return await this.callLLMStructured(userPrompt, entityMatchSchema);
     } catch (error) {
       console.error('EntityMatcher error:', error);
 
       // Return no match if matching fails
       return {
-        suggestedValue: null as any,
+        suggestedValue: null,
         confidence: 0.0,
         source: 'error',
         reasoning: 'Entity matching failed'
@@ -127,36 +129,4 @@ ${entitiesSummary}
 
 Which entity (if any) should be suggested for this field?`;
   }
-
-  private parseMatchResponse(content: string): EntityMatch {
-    try {
-      // Remove markdown code blocks if present
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith('```json')) {
-        cleanContent = cleanContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      } else if (cleanContent.startsWith('```')) {
-        cleanContent = cleanContent.replace(/```\n?/g, '');
-      }
-
-      const parsed = JSON.parse(cleanContent);
-
-      // Validate required fields
-      if (typeof parsed.confidence !== 'number' || !parsed.source || !parsed.reasoning) {
-        throw new Error('Invalid response format: missing required fields');
-      }
-
-      // Ensure confidence is between 0 and 1
-      parsed.confidence = Math.max(0, Math.min(1, parsed.confidence));
-
-      // Handle null suggestedValue
-      if (parsed.suggestedValue === null || parsed.suggestedValue === undefined) {
-        parsed.suggestedValue = null;
-      }
-
-      return parsed as EntityMatch;
-    } catch (error) {
-      console.error('JSON parsing error:', error);
-      throw new Error(`Failed to parse entity match response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 }
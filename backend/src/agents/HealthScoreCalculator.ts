@@ -1,7 +1,9 @@
 // backend/src/agents/HealthScoreCalculator.ts
+import { z } from 'zod';
 import { BaseAgent } from './BaseAgent';
 import { AgentType } from '@smartdocs/common';
 import { MODELS } from '../config/openai';
+import { clampedNumber, OutputSchema } from '../llm';
 
 interface HealthScoreInput {
   documentId: string;
@@ -28,6 +30,30 @@ export interface HealthScore {
   status: 'excellent' | 'good' | 'fair' | 'needs_attention' | 'critical';
 }
 
+const HEALTH_STATUSES: HealthScore['status'][] = ['excellent', 'good', 'fair', 'needs_attention', 'critical'];
+
+// An unknown status is derived from the overall score
+const healthScoreSchema: OutputSchema<HealthScore> = z.object({
+  overallScore: clampedNumber(0, 100, true),
+  completenessScore: clampedNumber(0, 100, true),
+  consistencyScore: clampedNumber(0, 100, true),
+  riskScore: clampedNumber(0, 100, true),
+  issues: z.array(z.string()),
+  recommendations: z.array(z.string()),
+  status: z.string().min(1),
+}).transform(score => ({
+  ...score,
+  status: HEALTH_STATUSES.find(status => status === score.status) || statusForScore(score.overallScore),
+}));
+
+function statusForScore(overallScore: number): HealthScore['status'] {
+  if (overallScore >= 90) return 'excellent';
+  if (overallScore >= 75) return 'good';
+  if (overallScore >= 60) return 'fair';
+  if (overallScore >= 40) return 'needs_attention';
+  return 'critical';
+}
+
 export class HealthScoreCalculator extends BaseAgent {
   constructor() {
     const systemPrompt = `You are an expert document health score calculator. Your task is to calculate comprehensive health metrics for legal documents.
@@ -91,22 +117,15 @@ Respond ONLY with valid JSON in this exact format:
         throw new Error('documentId, totalPlaceholders, and filledPlaceholders are required');
       }
 
-      // Use retry with backoff for API call
-      const response = await this.retryWithBackoff(async () => {
-        const userPrompt = this.buildHealthPrompt(
-          documentType,
-          totalPlaceholders,
-          filledPlaceholders,
-          validationIssues || [],
-          conflicts || []
-        );
-        return await this.callOpenAI(userPrompt);
-      });
-
-      // Parse JSON response
-      const healthScore = this.parseHealthResponse(response.content);
-
-      return healthScore;
+      const userPrompt = this.buildHealthPrompt(
+        documentType,
+        totalPlaceholders,
+        filledPlaceholders,
+        validationIssues || [],
+        conflicts || []
+      );
+
+      return await this.callLLMStructured(userPrompt, healthScoreSchema);
     } catch (error) {
       console.error('HealthScoreCalculator error:', error);
 
@@ -157,53 +176,4 @@ Conflicts Detected:
 
 Calculate comprehensive health scores and provide specific issues and recommendations.`;
   }
-
-  private parseHealthResponse(content: string): HealthScore {
-    try {
-      // Remove markdown code blocks if present
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith('```json')) {
-        cleanContent = cleanContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      } else if (cleanContent.startsWith('```')) {
-        cleanContent = cleanContent.replace(/```\n?/g, '');
-      }
-
-      const parsed = JSON.parse(cleanContent);
-
-      // Validate required fields
-      if (
-        typeof parsed.overallScore !== 'number' ||
-        typeof parsed.completenessScore !== 'number' ||
-        typeof parsed.consistencyScore !== 'number' ||
-        typeof parsed.riskScore !== 'number' ||
-        !Array.isArray(parsed.issues) ||
-        !Array.isArray(parsed.recommendations) ||
-        !parsed.status
-      ) {
-        throw new Error('Invalid response format: missing required fields');
-      }
-
-      // Ensure all scores are between 0 and 100
-      parsed.overallScore = Math.max(0, Math.min(100, Math.round(parsed.overallScore)));
-      parsed.completenessScore = Math.max(0, Math.min(100, Math.round(parsed.completenessScore)));
-      parsed.consistencyScore = Math.max(0, Math.min(100, Math.round(parsed.consistencyScore)));
-      parsed.riskScore = Math.max(0, Math.min(100, Math.round(parsed.riskScore)));
-
-      // Validate status
-      const validStatuses = ['excellent', 'good', 'fair', 'needs_attention', 'critical'];
-      if (!validStatuses.includes(parsed.status)) {
-        // Derive status from overall score
-        if (parsed.overallScore >= 90) parsed.status = 'excellent';
-        else if (parsed.overallScore >= 75) parsed.status = 'good';
-        else if (parsed.overallScore >= 60) parsed.status = 'fair';
-        else if (parsed.overallScore >= 40) parsed.status = 'needs_attention';
-        else parsed.status = 'critical';
-      }
-
-      return parsed as HealthScore;
-    } catch (error) {
-      console.error('JSON parsing error:', error);
-      throw new Error(`Failed to parse health score response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 }
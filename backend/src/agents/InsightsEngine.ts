@@ -1,7 +1,9 @@
 // backend/src/agents/InsightsEngine.ts
+import { z } from 'zod';
 import { BaseAgent } from './BaseAgent';
 import { AgentType } from '@smartdocs/common';
 import { MODELS } from '../config/openai';
+import { clampedNumber, enumWithFallback, lenientArray, OutputSchema, optionalField } from '../llm';
 
 interface InsightsEngineInput {
   userId: string;
@@ -70,6 +72,49 @@ export interface BusinessInsights {
   };
 }
 
+const SIGNIFICANCES = ['high', 'medium', 'low'] as const;
+
+// Entries missing a field are dropped; unknown kinds and levels get a default
+const businessInsightsSchema: OutputSchema<BusinessInsights> = z.object({
+  summary: z.object({
+    totalDocuments: z.number(),
+    completedDocuments: z.number(),
+    averageHealthScore: clampedNumber(0, 100, true).catch(0),
+    mostCommonDocumentType: z.string().catch(''),
+    documentsByType: z.record(z.string(), z.number()),
+    documentsByStatus: z.record(z.string(), z.number()),
+  }),
+  patterns: lenientArray(z.object({
+    type: enumWithFallback(['trend', 'anomaly', 'correlation', 'frequency'] as const, 'trend'),
+    title: z.string().min(1),
+    description: z.string().min(1),
+    significance: enumWithFallback(SIGNIFICANCES, 'medium'),
+    affectedDocuments: z.array(z.string()).catch([]),
+    dataPoints: optionalField(z.record(z.string(), z.any())),
+  })),
+  recommendations: lenientArray(z.object({
+    category: enumWithFallback(['efficiency', 'compliance', 'process', 'data_quality'] as const, 'process'),
+    priority: enumWithFallback(SIGNIFICANCES, 'medium'),
+    recommendation: z.string().min(1),
+    reasoning: z.string().min(1),
+    expectedImpact: z.string().min(1),
+  })),
+  risks: lenientArray(z.object({
+    severity: enumWithFallback(['critical', 'warning', 'info'] as const, 'info'),
+    riskType: z.string().min(1),
+    description: z.string().min(1),
+    affectedDocuments: z.array(z.string()).catch([]),
+    mitigation: z.string().min(1),
+  })),
+  opportunities: lenientArray(z.object({
+    opportunityType: z.string().min(1),
+    description: z.string().min(1),
+    potentialValue: z.string().min(1),
+    actionItems: z.array(z.string()).catch([]),
+  })),
+  metrics: z.record(z.string(), z.any()),
+});
+
 export class InsightsEngine extends BaseAgent {
   constructor() {
     const systemPrompt = `You are an expert business intelligence and insights engine for legal document workflows. Your task is to analyze document patterns and generate actionable insights for law firms and legal teams.
@@ -243,16 +288,9 @@ Be insightful, practical, and business-focused. Prioritize high-value, actionabl
         return this.getMinimalInsights();
       }
 
-      // Use retry with backoff for API call
-      const response = await this.retryWithBackoff(async () => {
-        const userPrompt = this.buildInsightsPrompt(documents, timeRange);
-        return await this.callOpenAI(userPrompt);
-      });
-
-      // Parse JSON response
-      const insights = this.parseInsightsResponse(response.content);
+      const userPrompt = this.buildInsightsPrompt(documents, timeRange);
 
-      return insights;
+      return await this.callLLMStructured(userPrompt, businessInsightsSchema);
     } catch (error) {
       console.error('InsightsEngine error:', error);
 
@@ -325,117 +363,4 @@ Be insightful, practical, and business-focused. Prioritize high-value, actionabl
       }
     };
   }
-
-  private parseInsightsResponse(content: string): BusinessInsights {
-    try {
-      // Remove markdown code blocks if present
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith('```json')) {
-        cleanContent = cleanContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      } else if (cleanContent.startsWith('```')) {
-        cleanContent = cleanContent.replace(/```\n?/g, '');
-      }
-
-      const parsed = JSON.parse(cleanContent);
-
-      // Validate required top-level fields
-      if (
-        !parsed.summary ||
-        !Array.isArray(parsed.patterns) ||
-        !Array.isArray(parsed.recommendations) ||
-        !Array.isArray(parsed.risks) ||
-        !Array.isArray(parsed.opportunities) ||
-        !parsed.metrics
-      ) {
-        throw new Error('Invalid response format: missing required fields');
-      }
-
-      // Validate summary
-      if (
-        typeof parsed.summary.totalDocuments !== 'number' ||
-        typeof parsed.summary.completedDocuments !== 'number' ||
-        !parsed.summary.documentsByType ||
-        !parsed.summary.documentsByStatus
-      ) {
-        throw new Error('Invalid summary format');
-      }
-
-      // Ensure averageHealthScore is a number
-      if (typeof parsed.summary.averageHealthScore !== 'number') {
-        parsed.summary.averageHealthScore = 0;
-      }
-      parsed.summary.averageHealthScore = Math.max(0, Math.min(100, Math.round(parsed.summary.averageHealthScore)));
-
-      // Validate patterns
-      const validPatternTypes = ['trend', 'anomaly', 'correlation', 'frequency'];
-      const validSignificances = ['high', 'medium', 'low'];
-      parsed.patterns = parsed.patterns.filter((pattern: any) => {
-        if (!pattern.type || !pattern.title || !pattern.description || !pattern.significance) {
-          return false;
-        }
-        if (!validPatternTypes.includes(pattern.type)) {
-          pattern.type = 'trend';
-        }
-        if (!validSignificances.includes(pattern.significance)) {
-          pattern.significance = 'medium';
-        }
-        if (!Array.isArray(pattern.affectedDocuments)) {
-          pattern.affectedDocuments = [];
-        }
-        return true;
-      });
-
-      // Validate recommendations
-      const validCategories = ['efficiency', 'compliance', 'process', 'data_quality'];
-      const validPriorities = ['high', 'medium', 'low'];
-      parsed.recommendations = parsed.recommendations.filter((rec: any) => {
-        if (!rec.category || !rec.priority || !rec.recommendation || !rec.reasoning || !rec.expectedImpact) {
-          return false;
-        }
-        if (!validCategories.includes(rec.category)) {
-          rec.category = 'process';
-        }
-        if (!validPriorities.includes(rec.priority)) {
-          rec.priority = 'medium';
-        }
-        return true;
-      });
-
-      // Validate risks
-      const validSeverities = ['critical', 'warning', 'info'];
-      parsed.risks = parsed.risks.filter((risk: any) => {
-        if (!risk.severity || !risk.riskType || !risk.description || !risk.mitigation) {
-          return false;
-        }
-        if (!validSeverities.includes(risk.severity)) {
-          risk.severity = 'info';
-        }
-        if (!Array.isArray(risk.affectedDocuments)) {
-          risk.affectedDocuments = [];
-        }
-        return true;
-      });
-
-      // Validate opportunities
-      parsed.opportunities = parsed.opportunities.filter((opp: any) => {
-        if (!opp.opportunityType || !opp.description || !opp.potentialValue) {
-          return false;
-        }
-        if (!Array.isArray(opp.actionItems)) {
-          opp.actionItems = [];
-        }
-        return true;
-      });
-
-      // Validate metrics
-      if (!parsed.metrics || typeof parsed.metrics !== 'object') {
-        parsed.metrics = {};
-      }
-
-      return parsed as BusinessInsights;
-    } catch (error) {
-      console.error('JSON parsing error:', error);
-      throw new Error(`Failed to parse insights response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 }
@@ -1,7 +1,9 @@
 // backend/src/agents/MultiDocIntelligence.ts
+import { z } from 'zod';
 import { BaseAgent } from './BaseAgent';
 import { AgentType } from '@smartdocs/common';
 import { MODELS } from '../config/openai';
+import { clampedNumber, enumWithFallback, lenientArray, OutputSchema } from '../llm';
 
 interface MultiDocIntelligenceInput {
   documentId: string;
@@ -51,6 +53,42 @@ export interface MultiDocIntelligenceResult {
   }>;
 }
 
+// Entries missing a field are dropped; the counts follow the relationships kept
+const multiDocIntelligenceSchema: OutputSchema<MultiDocIntelligenceResult> = z.object({
+  hasRelationships: z.boolean(),
+  relationshipCount: z.number(),
+  relationships: lenientArray(z.object({
+    relatedDocumentId: z.string().min(1),
+    relatedDocumentType: z.string().min(1),
+    relationshipType: enumWithFallback(
+      ['same_party', 'related_transaction', 'dependent', 'complementary', 'conflicting'] as const,
+      'related_transaction'
+    ),
+    strength: clampedNumber(0, 1).catch(0.5),
+    sharedEntities: z.array(z.string()).catch([]),
+    description: z.string().min(1),
+  })),
+  suggestions: lenientArray(z.object({
+    targetDocumentId: z.string().min(1),
+    targetFieldName: z.string().min(1),
+    suggestedValue: z.string().min(1),
+    sourceFieldName: z.string().catch(''),
+    reasoning: z.string().min(1),
+    confidence: clampedNumber(0, 1).catch(0.5),
+    autoApply: z.boolean().catch(false),
+  })),
+  insights: z.array(z.string()),
+  potentialIssues: lenientArray(z.object({
+    severity: enumWithFallback(['critical', 'warning', 'info'] as const, 'info'),
+    description: z.string().min(1),
+    affectedDocuments: z.array(z.string()),
+  })),
+}).transform(result => ({
+  ...result,
+  relationshipCount: result.relationships.length,
+  hasRelationships: result.relationships.length > 0,
+}));
+
 export class MultiDocIntelligence extends BaseAgent {
   constructor() {
     const systemPrompt = `You are an expert multi-document intelligence system for legal documents. Your task is to analyze relationships between documents and suggest cross-document updates for consistency.
@@ -174,21 +212,14 @@ Focus on high-value relationships and actionable suggestions. Be conservative wi
         };
       }
 
-      // Use retry with backoff for API call
-      const response = await this.retryWithBackoff(async () => {
-        const userPrompt = this.buildIntelligencePrompt(
-          documentId,
-          documentType,
-          placeholders,
-          allUserDocuments
-        );
-        return await this.callOpenAI(userPrompt);
-      });
-
-      // Parse JSON response
-      const intelligence = this.parseIntelligenceResponse(response.content);
+      const userPrompt = this.buildIntelligencePrompt(
+        documentId,
+        documentType,
+        placeholders,
+        allUserDocuments
+      );
 
-      return intelligence;
+      return await this.callLLMStructured(userPrompt, multiDocIntelligenceSchema);
     } catch (error) {
       console.error('MultiDocIntelligence error:', error);
 
@@ -247,103 +278,4 @@ ${otherDocsSummary || '(no other documents)'}
 
 Identify relationships, suggest updates, provide insights, and flag potential issues.`;
   }
-
-  private parseIntelligenceResponse(content: string): MultiDocIntelligenceResult {
-    try {
-      // Remove markdown code blocks if present
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith('```json')) {
-        cleanContent = cleanContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      } else if (cleanContent.startsWith('```')) {
-        cleanContent = cleanContent.replace(/```\n?/g, '');
-      }
-
-      const parsed = JSON.parse(cleanContent);
-
-      // Validate required fields
-      if (
-        typeof parsed.hasRelationships !== 'boolean' ||
-        typeof parsed.relationshipCount !== 'number' ||
-        !Array.isArray(parsed.relationships) ||
-        !Array.isArray(parsed.suggestions) ||
-        !Array.isArray(parsed.insights) ||
-        !Array.isArray(parsed.potentialIssues)
-      ) {
-        throw new Error('Invalid response format: missing required fields');
-      }
-
-      // Validate relationship count matches array length
-      parsed.relationshipCount = parsed.relationships.length;
-      parsed.hasRelationships = parsed.relationshipCount > 0;
-
-      // Validate each relationship
-      const validRelationshipTypes = ['same_party', 'related_transaction', 'dependent', 'complementary', 'conflicting'];
-      parsed.relationships = parsed.relationships.filter((rel: any) => {
-        if (!rel.relatedDocumentId || !rel.relatedDocumentType || !rel.relationshipType || !rel.description) {
-          return false;
-        }
-
-        // Validate and normalize relationship type
-        if (!validRelationshipTypes.includes(rel.relationshipType)) {
-          rel.relationshipType = 'related_transaction';
-        }
-
-        // Validate strength
-        if (typeof rel.strength !== 'number') {
-          rel.strength = 0.5;
-        }
-        rel.strength = Math.max(0, Math.min(1, rel.strength));
-
-        // Ensure sharedEntities is an array
-        if (!Array.isArray(rel.sharedEntities)) {
-          rel.sharedEntities = [];
-        }
-
-        return true;
-      });
-
-      // Validate each suggestion
-      parsed.suggestions = parsed.suggestions.filter((sug: any) => {
-        if (!sug.targetDocumentId || !sug.targetFieldName || !sug.suggestedValue || !sug.reasoning) {
-          return false;
-        }
-
-        // Validate confidence
-        if (typeof sug.confidence !== 'number') {
-          sug.confidence = 0.5;
-        }
-        sug.confidence = Math.max(0, Math.min(1, sug.confidence));
-
-        // Validate autoApply
-        if (typeof sug.autoApply !== 'boolean') {
-          sug.autoApply = false;
-        }
-
-        return true;
-      });
-
-      // Validate potential issues
-      const validSeverities = ['critical', 'warning', 'info'];
-      parsed.potentialIssues = parsed.potentialIssues.filter((issue: any) => {
-        if (!issue.severity || !issue.description || !Array.isArray(issue.affectedDocuments)) {
-          return false;
-        }
-
-        if (!validSeverities.includes(issue.severity)) {
-          issue.severity = 'info';
-        }
-
-        return true;
-      });
-
-      // Recalculate counts after filtering
-      parsed.relationshipCount = parsed.relationships.length;
-      parsed.hasRelationships = parsed.relationshipCount > 0;
-
-      return parsed as MultiDocIntelligenceResult;
-    } catch (error) {
-      console.error('JSON parsing error:', error);
-      throw new Error(`Failed to parse multi-doc intelligence response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 }
@@ -1,7 +1,9 @@
 // backend/src/agents/NLSearchAgent.ts
+import { z } from 'zod';
 import { BaseAgent } from './BaseAgent';
 import { AgentType } from '@smartdocs/common';
 import { MODELS } from '../config/openai';
+import { clampedNumber, lenientArray, OutputSchema, optionalField } from '../llm';
 
 interface NLSearchAgentInput {
   query: string;
@@ -39,6 +41,42 @@ export interface NLSearchResult {
   suggestions?: string[]; // Alternative interpretations if confidence is low
 }
 
+const filterValueSchema = z.union([z.string(), z.number()]);
+
+// Malformed lists become empty, and placeholder filters missing a field are dropped
+const nlSearchResultSchema: OutputSchema<NLSearchResult> = z.object({
+  understood: z.boolean(),
+  intent: z.string().min(1),
+  filters: z.object({
+    documentTypes: optionalField(z.array(z.string()).catch([])),
+    statuses: optionalField(z.array(z.string()).catch([])),
+    dateRange: optionalField(z.object({
+      field: z.enum(['created_at', 'updated_at', 'any_date_field']),
+      start: optionalField(z.string()),
+      end: optionalField(z.string()),
+    })),
+    placeholderFilters: optionalField(lenientArray(z.object({
+      fieldName: z.string().min(1),
+      operator: z.enum(['equals', 'contains', 'greater_than', 'less_than', 'between']),
+      value: filterValueSchema,
+      value2: optionalField(filterValueSchema),
+    })).catch([])),
+    textSearch: optionalField(z.string()),
+    sortBy: optionalField(z.string()),
+    sortOrder: optionalField(z.enum(['asc', 'desc'])),
+    limit: optionalField(z.number()),
+  }),
+  // Basic SQL injection prevention check
+  sqlWhere: z.string().min(1).refine(
+    sql => !/;\s*(DROP|DELETE|INSERT|UPDATE|ALTER|CREATE|TRUNCATE)/i.test(sql),
+    'Potentially dangerous SQL detected'
+  ),
+  sqlParams: z.array(filterValueSchema),
+  humanReadable: z.string().min(1),
+  confidence: clampedNumber(0, 1),
+  suggestions: optionalField(z.array(z.string()).catch([])),
+});
+
 export class NLSearchAgent extends BaseAgent {
   constructor() {
     const systemPrompt = `You are an expert natural language to SQL conversion system for legal document search. Your task is to convert user queries in plain English to structured database filters and SQL WHERE clauses.
@@ -140,18 +178,13 @@ Be intelligent about interpreting business terms:
         throw new Error('query and userId are required');
       }
 
-      // Use retry with backoff for API call
-      const response = await this.retryWithBackoff(async () => {
-        const userPrompt = this.buildSearchPrompt(
-          query,
-          availableDocumentTypes || [],
-          availableStatuses || []
-        );
-        return await this.callOpenAI(userPrompt);
-      });
+      const userPrompt = this.buildSearchPrompt(
+        query,
+        availableDocumentTypes || [],
+        availableStatuses || []
+      );
 
-      // Parse JSON response
-      const searchResult = this.parseSearchResponse(response.content);
+      const searchResult = await this.callLLMStructured(userPrompt, nlSearchResultSchema);
 
       // Ensure user_id filter is always added for security
       searchResult.sqlWhere = this.addUserIdFilter(searchResult.sqlWhere, searchResult.sqlParams, userId);
@@ -212,69 +245,4 @@ Generate structured filters and a safe parameterized SQL WHERE clause.`;
       return `user_id = $1`;
     }
   }
-
-  private parseSearchResponse(content: string): NLSearchResult {
-    try {
-      // Remove markdown code blocks if present
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith('```json')) {
-        cleanContent = cleanContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      } else if (cleanContent.startsWith('```')) {
-        cleanContent = cleanContent.replace(/```\n?/g, '');
-      }
-
-      const parsed = JSON.parse(cleanContent);
-
-      // Validate required fields
-      if (
-        typeof parsed.understood !== 'boolean' ||
-        !parsed.intent ||
-        !parsed.filters ||
-        !parsed.sqlWhere ||
-        !Array.isArray(parsed.sqlParams) ||
-        !parsed.humanReadable ||
-        typeof parsed.confidence !== 'number'
-      ) {
-        throw new Error('Invalid response format: missing required fields');
-      }
-
-      // Validate confidence
-      parsed.confidence = Math.max(0, Math.min(1, parsed.confidence));
-
-      // Validate filters object
-      if (parsed.filters.documentTypes && !Array.isArray(parsed.filters.documentTypes)) {
-        parsed.filters.documentTypes = [];
-      }
-      if (parsed.filters.statuses && !Array.isArray(parsed.filters.statuses)) {
-        parsed.filters.statuses = [];
-      }
-      if (parsed.filters.placeholderFilters && !Array.isArray(parsed.filters.placeholderFilters)) {
-        parsed.filters.placeholderFilters = [];
-      }
-
-      // Validate placeholder filters
-      if (parsed.filters.placeholderFilters) {
-        const validOperators = ['equals', 'contains', 'greater_than', 'less_than', 'between'];
-        parsed.filters.placeholderFilters = parsed.filters.placeholderFilters.filter((filter: any) => {
-          return filter.fieldName && filter.operator && validOperators.includes(filter.operator) && filter.value !== undefined;
-        });
-      }
-
-      // Validate suggestions if present
-      if (parsed.suggestions && !Array.isArray(parsed.suggestions)) {
-        parsed.suggestions = [];
-      }
-
-      // Basic SQL injection prevention check
-      const dangerousPatterns = /;\s*(DROP|DELETE|INSERT|UPDATE|ALTER|CREATE|TRUNCATE)/i;
-      if (dangerousPatterns.test(parsed.sqlWhere)) {
-        throw new Error('Potentially dangerous SQL detected');
-      }
-
-      return parsed as NLSearchResult;
-    } catch (error) {
-      console.error('JSON parsing error:', error);
-      throw new Error(`Failed to parse search response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 }
@@ -1,7 +1,9 @@
 // backend/src/agents/PlaceholderExtractor.ts
+import { z } from 'zod';
 import { BaseAgent } from './BaseAgent';
 import { AgentType, PlaceholderFieldType } from '@smartdocs/common';
 import { MODELS } from '../config/openai';
+import { enumWithFallback, lenientArray, OutputSchema } from '../llm';
 
 interface PlaceholderExtractorInput {
   documentId: string;
@@ -16,6 +18,15 @@ export interface PlaceholderData {
   suggestedQuestion: string;
 }
 
+// Placeholders missing a field are dropped; unknown field types become text
+const placeholdersSchema: OutputSchema<PlaceholderData[]> = lenientArray(z.object({
+  fieldName: z.string().min(1),
+  fieldType: enumWithFallback(Object.values(PlaceholderFieldType), PlaceholderFieldType.TEXT),
+  originalText: z.string().min(1),
+  position: z.number(),
+  suggestedQuestion: z.string().min(1),
+}));
+
 export class PlaceholderExtractor extends BaseAgent {
   constructor() {
     const systemPrompt = `You are an expert legal document placeholder extraction system. Your task is to identify ALL placeholders, blanks, and fillable fields in legal documents.
@@ -69,6 +80,7 @@ Be thorough and identify all possible fillable fields. Common patterns include:
       {
         temperature: 0.2, // Low temperature for consistent extraction
         max_tokens: 2000,
+        cache_ignored_keys: ['documentId'], // Neither prompt nor output uses it, so re-uploads share a cache entry
       }
     );
   }
@@ -81,16 +93,9 @@ Be thorough and identify all possible fillable fields. Common patterns include:
         throw new Error('documentId and text are required');
       }
 
-      // Use retry with backoff for API call
-      const response = await this.retryWithBackoff(async () => {
-        const userPrompt = `Extract all placeholders from the following legal document:\n\n${text.slice(0, 15000)}`; // Limit text to 15k chars
-        return await this.callOpenAI(userPrompt);
-      });
-
-      // Parse JSON response
-      const placeholders = this.parsePlaceholderResponse(response.content);
+      const userPrompt = `Extract all placeholders from the following legal document:\n\n${text.slice(0, 15000)}`; // Limit text to 15k chars
 
-      return placeholders;
+      return await this.callLLMStructured(userPrompt, placeholdersSchema);
     } catch (error) {
       console.error('PlaceholderExtractor error:', error);
 
@@ -98,50 +103,4 @@ Be thorough and identify all possible fillable fields. Common patterns include:
       return [];
     }
   }
-
-  private parsePlaceholderResponse(content: string): PlaceholderData[] {
-    try {
-      // Remove markdown code blocks if present
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith('```json')) {
-        cleanContent = cleanContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      } else if (cleanContent.startsWith('```')) {
-        cleanContent = cleanContent.replace(/```\n?/g, '');
-      }
-
-      const parsed = JSON.parse(cleanContent);
-
-      // Handle case where response is not an array
-      if (!Array.isArray(parsed)) {
-        throw new Error('Response is not an array');
-      }
-
-      // Validate each placeholder has required fields
-      const validPlaceholders = parsed.filter((placeholder: any) => {
-        return (
-          placeholder.fieldName &&
-          placeholder.fieldType &&
-          placeholder.originalText &&
-          typeof placeholder.position === 'number' &&
-          placeholder.suggestedQuestion
-        );
-      });
-
-      // Validate field types are valid enum values
-      const validatedPlaceholders = validPlaceholders.map((placeholder: any) => {
-        // Ensure fieldType is a valid PlaceholderFieldType
-        const validFieldTypes = Object.values(PlaceholderFieldType);
-        if (!validFieldTypes.includes(placeholder.fieldType)) {
-          placeholder.fieldType = PlaceholderFieldType.TEXT; // Default to TEXT if invalid
-        }
-
-        return placeholder as PlaceholderData;
-      });
-
-      return validatedPlaceholders;
-    } catch (error) {
-      console.error('JSON parsing error:', error);
-      throw new Error(`Failed to parse placeholder response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 }
@@ -1,7 +1,9 @@
 // backend/src/agents/TemplateAnalyzer.ts
+import { z } from 'zod';
 import { BaseAgent } from './BaseAgent';
 import { AgentType, PlaceholderFieldType } from '@smartdocs/common';
 import { MODELS } from '../config/openai';
+import { enumWithFallback, lenientArray, OutputSchema, optionalField } from '../llm';
 
 interface TemplateAnalyzerInput {
   templateId: string;
@@ -39,6 +41,31 @@ export interface TemplateAnalysis {
   tags: string[];
 }
 
+// Placeholders missing a field are dropped; unknown field types become text
+const templateAnalysisSchema: OutputSchema<TemplateAnalysis> = z.object({
+  documentType: z.string().min(1),
+  category: z.string().min(1),
+  description: z.string().min(1),
+  complexity: enumWithFallback(['simple', 'moderate', 'complex'] as const, 'moderate'),
+  estimatedFillTime: z.number().transform(minutes => Math.max(1, Math.round(minutes))),
+  placeholders: lenientArray(z.object({
+    fieldName: z.string().min(1),
+    fieldType: enumWithFallback(Object.values(PlaceholderFieldType), PlaceholderFieldType.TEXT),
+    originalText: z.string(),
+    position: z.number(),
+    required: z.boolean().catch(true),
+    defaultValue: optionalField(z.string()),
+    validationRules: optionalField(z.array(z.string())),
+  })),
+  sections: z.array(z.object({
+    name: z.string(),
+    order: z.number(),
+    placeholderCount: z.number(),
+  })),
+  metadata: z.record(z.string(), z.any()),
+  tags: z.array(z.string()),
+});
+
 export class TemplateAnalyzer extends BaseAgent {
   constructor() {
     const systemPrompt = `You are an expert legal document template analyzer. Your task is to comprehensively analyze document templates to extract structure, placeholders, and metadata for pre-processing.
@@ -130,16 +157,9 @@ Be thorough and precise. This analysis will be used for template pre-processing
         throw new Error('templateId and text are required');
       }
 
-      // Use retry with backoff for API call
-      const response = await this.retryWithBackoff(async () => {
-        const userPrompt = `Analyze the following legal document template:\n\nTemplate Name: ${templateName || 'Untitled'}\n\n${text.slice(0, 15000)}`; // Limit to 15k chars
-        return await this.callOpenAI(userPrompt);
-      });
-
-      // Parse JSON response
-      const analysis = this.parseTemplateResponse(response.content);
+      const userPrompt = `Analyze the following legal document template:\n\nTemplate Name: ${templateName || 'Untitled'}\n\n${text.slice(0, 15000)}`; // Limit to 15k chars
 
-      return analysis;
+      return await this.callLLMStructured(userPrompt, templateAnalysisSchema);
     } catch (error) {
       console.error('TemplateAnalyzer error:', error);
 
@@ -157,59 +177,4 @@ Be thorough and precise. This analysis will be used for template pre-processing
       };
     }
   }
-
-  private parseTemplateResponse(content: string): TemplateAnalysis {
-    try {
-      // Remove markdown code blocks if present
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith('```json')) {
-        cleanContent = cleanContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      } else if (cleanContent.startsWith('```')) {
-        cleanContent = cleanContent.replace(/```\n?/g, '');
-      }
-
-      const parsed = JSON.parse(cleanContent);
-
-      // Validate required fields
-      if (
-        !parsed.documentType ||
-        !parsed.category ||
-        !parsed.description ||
-        !parsed.complexity ||
-        typeof parsed.estimatedFillTime !== 'number' ||
-        !Array.isArray(parsed.placeholders) ||
-        !Array.isArray(parsed.sections) ||
-        !parsed.metadata ||
-        !Array.isArray(parsed.tags)
-      ) {
-        throw new Error('Invalid response format: missing required fields');
-      }
-
-      // Validate complexity
-      const validComplexities = ['simple', 'moderate', 'complex'];
-      if (!validComplexities.includes(parsed.complexity)) {
-        parsed.complexity = 'moderate';
-      }
-
-      // Validate placeholders
-      const validFieldTypes = Object.values(PlaceholderFieldType);
-      parsed.placeholders = parsed.placeholders.map((p: any) => {
-        if (!validFieldTypes.includes(p.fieldType)) {
-          p.fieldType = PlaceholderFieldType.TEXT;
-        }
-        if (typeof p.required !== 'boolean') {
-          p.required = true; // Default to required
-        }
-        return p;
-      });
-
-      // Ensure estimatedFillTime is positive
-      parsed.estimatedFillTime = Math.max(1, Math.round(parsed.estimatedFillTime));
-
-      return parsed as TemplateAnalysis;
-    } catch (error) {
-      console.error('JSON parsing error:', error);
-      throw new Error(`Failed to parse template analysis response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 }
@@ -11,6 +11,18 @@ export const config = {
   maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760', 10), // 10MB
   rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 min
   rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+  conversationIdleTimeoutMs: parseInt(process.env.CONVERSATION_IDLE_TIMEOUT_MS || '1800000', 10), // 30 min
+  fieldLockTtlMs: parseInt(process.env.FIELD_LOCK_TTL_MS || '90000', 10), // 90 s
+  llmProvider: process.env.LLM_PROVIDER || 'openai', // openai, openai-compatible or fixture
+  llmBaseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1', // For openai-compatible
+  llmApiKey: process.env.LLM_API_KEY || '', // For openai-compatible; most local servers need none
+  llmFixturesPath: process.env.LLM_FIXTURES_PATH || './fixtures/llm',
+  llmAgents: process.env.LLM_AGENTS || '', // JSON, e.g. {"ConversationalAssistant":{"provider":"openai-compatible","model":"llama3.1"}}
+  llmRepairAttempts: parseInt(process.env.LLM_REPAIR_ATTEMPTS || '2', 10), // Retries of output that fails its schema
+  aiCacheTtlHours: parseFloat(process.env.AI_CACHE_TTL_HOURS || '168'), // 7 days; 0 turns the cache off
+  aiCacheDisabledAgents: (process.env.AI_CACHE_DISABLED_AGENTS || '').split(',').map(a => a.trim()).filter(Boolean),
+  aiBudgetWarningThresholds: (process.env.AI_BUDGET_WARNING_THRESHOLDS || '0.8,0.95') // Fractions of a budget
+    .split(',').map(Number).filter(n => n > 0 && n < 1).sort((a, b) => a - b),
 };
 
 // Validate required config
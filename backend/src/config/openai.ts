@@ -1,15 +1,4 @@
-import OpenAI from 'openai';
-import dotenv from 'dotenv';
-
-dotenv.config();
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('Missing required environment variable: OPENAI_API_KEY');
-}
-
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Clients are created by the LLM providers in ../llm; this file only describes OpenAI's models
 
 export const MODELS = {
   GPT4_TURBO: 'gpt-4-turbo-preview',
@@ -1,4 +1,6 @@
+import { UserRole } from '@smartdocs/common';
 import { Request, Response } from 'express';
+import { aiBudgetService } from '../services/AIBudgetService';
 import { AnalyticsService } from '../services/AnalyticsService';
 import { logger } from '../utils/logger';
 import { asyncHandler, createError } from '../middleware/errorHandler';
@@ -61,6 +63,114 @@ export const getDocumentInsights = asyncHandler(async (req: Request, res: Respon
   }
 });
 
+/**
+ * Get token usage and cost of AI tasks
+ * GET /api/analytics/ai-usage?from=&to=
+ * Admins see every user's usage; other users see their own.
+ */
+export const getAIUsage = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const parseDate = (value: unknown, name: string): Date | undefined => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const date = new Date(String(value));
+    if (isNaN(date.getTime())) {
+      throw createError(`${name} must be a date`, 400, 'INVALID_DATE');
+    }
+    return date;
+  };
+
+  const from = parseDate(req.query.from, 'from');
+  const to = parseDate(req.query.to, 'to');
+
+  try {
+    const usage = await analyticsService.getAIUsage(req.user.id, {
+      from,
+      to,
+      allUsers: req.user.role === UserRole.ADMIN,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { usage },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid date range') {
+      throw createError('from must be before to', 400, 'INVALID_DATE_RANGE');
+    }
+    throw error;
+  }
+});
+
+/**
+ * List AI budgets with their use this month (admins only)
+ * GET /api/analytics/ai-budgets
+ */
+export const getAIBudgets = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const budgets = await aiBudgetService.listBudgets();
+
+  res.status(200).json({
+    success: true,
+    data: { budgets },
+  });
+});
+
+/**
+ * Set the monthly AI budget of a user or organization (admins only)
+ * PUT /api/analytics/ai-budgets
+ * Body: { scope, userId | organization, monthlyTokenLimit?, monthlyCostLimit? }
+ */
+export const setAIBudget = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { scope, userId, organization, monthlyTokenLimit, monthlyCostLimit } = req.body;
+
+  try {
+    const budget = await aiBudgetService.setBudget(
+      { scope, userId, organization, monthlyTokenLimit, monthlyCostLimit },
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      data: { budget },
+    });
+  } catch (error) {
+    handleBudgetError(error);
+  }
+});
+
+/**
+ * Remove an AI budget (admins only)
+ * DELETE /api/analytics/ai-budgets/:id
+ */
+export const deleteAIBudget = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  try {
+    await aiBudgetService.deleteBudget(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Budget removed',
+    });
+  } catch (error) {
+    handleBudgetError(error);
+  }
+});
+
 /**
  * Get analytics for a specific company
  * GET /api/analytics/companies/:company
@@ -95,3 +205,25 @@ export const getCompanyAnalytics = asyncHandler(async (req: Request, res: Respon
     throw error;
   }
 });
+
+function handleBudgetError(error: unknown): never {
+  if (error instanceof Error && error.message === 'Invalid budget scope') {
+    throw createError('scope must be "user" or "organization"', 400, 'INVALID_SCOPE');
+  }
+  if (error instanceof Error && error.message === 'A token or cost limit is required') {
+    throw createError('Set monthlyTokenLimit, monthlyCostLimit or both', 400, 'MISSING_LIMIT');
+  }
+  if (error instanceof Error && error.message === 'Invalid limit') {
+    throw createError('Limits must be non-negative numbers; token limits whole numbers', 400, 'INVALID_LIMIT');
+  }
+  if (error instanceof Error && error.message === 'Organization is required') {
+    throw createError('Organization is required', 400, 'MISSING_ORGANIZATION');
+  }
+  if (error instanceof Error && error.message === 'User not found') {
+    throw createError('User not found', 404, 'USER_NOT_FOUND');
+  }
+  if (error instanceof Error && error.message === 'Budget not found') {
+    throw createError('Budget not found', 404, 'BUDGET_NOT_FOUND');
+  }
+  throw error;
+}
@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
-import { ConversationService } from '../services/ConversationService';
+import { LIVE_SESSION_HEADER } from '../services/CollaborationService';
+import { ConversationEvent, ConversationService, MAX_HISTORY_LIMIT } from '../services/ConversationService';
 import { logger } from '../utils/logger';
-import { asyncHandler, createError } from '../middleware/errorHandler';
+import { ApiError, asyncHandler, createError } from '../middleware/errorHandler';
+import { CONVERSATION_ACTIONS, ConversationAction } from '../utils/conversationCommands';
 
 const conversationService = new ConversationService();
 
@@ -54,23 +56,129 @@ export const sendMessage = asyncHandler(async (req: Request, res: Response): Pro
     throw createError('Message is required', 400, 'MISSING_MESSAGE');
   }
 
-  const response = await conversationService.sendMessage(id, req.user.id, message);
+  try {
+    const response = await conversationService.sendMessage(id, req.user.id, message, undefined, req.get(LIVE_SESSION_HEADER));
+
+    logger.info('Message sent in conversation', {
+      userId: req.user.id,
+      conversationId: id,
+      messageLength: message.length,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { response },
+    });
+  } catch (error) {
+    handleConversationError(error);
+  }
+});
+
+/**
+ * Send a message and stream the reply as Server-Sent Events
+ * POST /api/conversations/:id/message/stream
+ *
+ * Events: `delta` with each piece of assistant text, `value_captured`,
+ * `validation_failed` and `field_advanced` as they happen, then `message` with
+ * the saved assistant response. A failure before the first event is a normal
+ * JSON error; after it, an `error` event ends the stream.
+ */
+export const streamMessage = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+  const { message } = req.body;
+
+  if (!id) {
+    throw createError('Conversation ID is required', 400, 'MISSING_ID');
+  }
+
+  if (!message) {
+    throw createError('Message is required', 400, 'MISSING_MESSAGE');
+  }
+
+  const send = (event: string, data: unknown) => {
+    if (!res.headersSent) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  let response;
+  try {
+    response = await conversationService.sendMessage(id, req.user.id, message, ({ type, ...data }: ConversationEvent) => {
+      send(type, data);
+    }, req.get(LIVE_SESSION_HEADER));
+  } catch (error) {
+    if (!res.headersSent) {
+      handleConversationError(error);
+    }
+
+    // The response has started, so report the error in the stream as errorHandler would
+    const apiError = error as ApiError;
+    const statusCode = apiError.statusCode || 500;
+    logger.error('Error streaming conversation message', { message: apiError.message, conversationId: id });
 
-  logger.info('Message sent in conversation', {
+    send('error', {
+      code: apiError.code || 'INTERNAL_ERROR',
+      message: statusCode === 500 && process.env.NODE_ENV === 'production'
+        ? 'An internal server error occurred'
+        : apiError.message,
+    });
+    res.end();
+    return;
+  }
+
+  logger.info('Message streamed in conversation', {
     userId: req.user.id,
     conversationId: id,
     messageLength: message.length,
   });
 
-  res.status(200).json({
-    success: true,
-    data: { response },
-  });
+  send('message', { response });
+  res.end();
+});
+
+/**
+ * List the conversations held on a document
+ * GET /api/conversations?documentId=:documentId
+ */
+export const getConversations = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const documentId = req.query.documentId;
+
+  if (!documentId || typeof documentId !== 'string') {
+    throw createError('Document ID is required', 400, 'MISSING_DOCUMENT_ID');
+  }
+
+  try {
+    const conversations = await conversationService.getConversations(documentId, req.user.id);
+
+    res.status(200).json({
+      success: true,
+      data: { conversations },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Document not found') {
+      throw createError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+    }
+    throw error;
+  }
 });
 
 /**
  * Get conversation history
- * GET /api/conversations/:id/history
+ * GET /api/conversations/:id/history?limit=50&offset=0
  */
 export const getConversationHistory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   if (!req.user) {
@@ -83,12 +191,15 @@ export const getConversationHistory = asyncHandler(async (req: Request, res: Res
     throw createError('Conversation ID is required', 400, 'MISSING_ID');
   }
 
+  const limit = parsePageParam(req.query.limit, 'limit', 1, MAX_HISTORY_LIMIT);
+  const offset = parsePageParam(req.query.offset, 'offset', 0);
+
   try {
-    const history = await conversationService.getConversationHistory(id, req.user.id);
+    const history = await conversationService.getConversationHistory(id, req.user.id, { limit, offset });
 
     res.status(200).json({
       success: true,
-      data: { history },
+      data: history,
     });
   } catch (error) {
     if (error instanceof Error && error.message === 'Conversation not found') {
@@ -126,7 +237,26 @@ export const fillPlaceholder = asyncHandler(async (req: Request, res: Response):
     throw createError('Value is required', 400, 'MISSING_VALUE');
   }
 
-  await conversationService.fillPlaceholder(documentId, placeholderId, value, req.user.id);
+  let validation;
+  try {
+    validation = await conversationService.fillPlaceholder(documentId, placeholderId, String(value), req.user.id, req.get(LIVE_SESSION_HEADER));
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Document not found') {
+      throw createError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+    }
+    if (error instanceof Error && error.message === 'Placeholder not found') {
+      throw createError('Placeholder not found', 404, 'PLACEHOLDER_NOT_FOUND');
+    }
+    if (error instanceof Error && error.message === 'Placeholder is locked') {
+      throw createError('Someone else is editing this field', 409, 'FIELD_LOCKED');
+    }
+    throw error;
+  }
+
+  // The field has been flagged with the reason
+  if (!validation.valid) {
+    throw createError(validation.notes || 'Invalid value', 400, 'INVALID_FIELD_VALUE');
+  }
 
   logger.info('Placeholder filled', {
     userId: req.user.id,
@@ -136,10 +266,183 @@ export const fillPlaceholder = asyncHandler(async (req: Request, res: Response):
 
   res.status(200).json({
     success: true,
-    data: { message: 'Placeholder filled successfully' },
+    data: { message: 'Placeholder filled successfully', value: validation.value },
   });
 });
 
+/**
+ * Navigate a conversation: skip, go back, go to or change a field, or review
+ * POST /api/conversations/:id/actions
+ */
+export const performAction = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+  const { action, field, value } = req.body;
+
+  if (!id) {
+    throw createError('Conversation ID is required', 400, 'MISSING_ID');
+  }
+
+  if (!CONVERSATION_ACTIONS.includes(action)) {
+    throw createError(`Action must be one of: ${CONVERSATION_ACTIONS.join(', ')}`, 400, 'INVALID_ACTION');
+  }
+
+  if ((action === 'goto' || action === 'change') && (typeof field !== 'string' || !field.trim())) {
+    throw createError('Field name is required', 400, 'MISSING_FIELD');
+  }
+
+  if (action === 'change' && (value === undefined || value === null)) {
+    throw createError('Value is required', 400, 'MISSING_VALUE');
+  }
+
+  try {
+    const response = await conversationService.performAction(id, req.user.id, {
+      action: action as ConversationAction,
+      field: field !== undefined ? String(field).trim() : undefined,
+      value: value !== undefined && value !== null ? String(value) : undefined,
+    }, req.get(LIVE_SESSION_HEADER));
+
+    logger.info('Conversation action performed', {
+      userId: req.user.id,
+      conversationId: id,
+      action,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { response },
+    });
+  } catch (error) {
+    handleConversationError(error);
+  }
+});
+
+/**
+ * Review every field captured so far
+ * GET /api/conversations/:id/review
+ */
+export const getReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    throw createError('Conversation ID is required', 400, 'MISSING_ID');
+  }
+
+  try {
+    const fields = await conversationService.getReview(id, req.user.id);
+
+    res.status(200).json({
+      success: true,
+      data: { fields },
+    });
+  } catch (error) {
+    handleConversationError(error);
+  }
+});
+
+/**
+ * Pause a conversation to resume it later
+ * POST /api/conversations/:id/pause
+ */
+export const pauseConversation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    throw createError('Conversation ID is required', 400, 'MISSING_ID');
+  }
+
+  try {
+    const conversation = await conversationService.pauseConversation(id, req.user.id);
+
+    logger.info('Conversation paused', {
+      userId: req.user.id,
+      conversationId: id,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { conversation },
+    });
+  } catch (error) {
+    handleConversationError(error);
+  }
+});
+
+/**
+ * Resume a paused conversation where it left off
+ * POST /api/conversations/:id/resume
+ */
+export const resumeConversation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    throw createError('Conversation ID is required', 400, 'MISSING_ID');
+  }
+
+  try {
+    const result = await conversationService.resumeConversation(id, req.user.id);
+
+    logger.info('Conversation resumed', {
+      userId: req.user.id,
+      conversationId: id,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    handleConversationError(error);
+  }
+});
+
+/**
+ * Abandon a conversation without completing the document
+ * POST /api/conversations/:id/abandon
+ */
+export const abandonConversation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    throw createError('Conversation ID is required', 400, 'MISSING_ID');
+  }
+
+  try {
+    await conversationService.abandonConversation(id, req.user.id);
+
+    logger.info('Conversation abandoned', {
+      userId: req.user.id,
+      conversationId: id,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { message: 'Conversation abandoned successfully' },
+    });
+  } catch (error) {
+    handleConversationError(error);
+  }
+});
+
 /**
  * Complete a conversation
  * POST /api/conversations/:id/complete
@@ -174,3 +477,43 @@ export const completeConversation = asyncHandler(async (req: Request, res: Respo
     throw error;
   }
 });
+
+/**
+ * Parse an optional integer pagination parameter
+ */
+function parsePageParam(value: unknown, name: string, min: number, max?: number): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+
+  if (!Number.isInteger(parsed) || parsed < min || (max !== undefined && parsed > max)) {
+    const range = max !== undefined ? `between ${min} and ${max}` : `at least ${min}`;
+    throw createError(`Parameter "${name}" must be an integer ${range}`, 400, 'INVALID_PAGINATION');
+  }
+
+  return parsed;
+}
+
+function handleConversationError(error: unknown): never {
+  if (error instanceof Error && error.message === 'Conversation not found') {
+    throw createError('Conversation not found', 404, 'CONVERSATION_NOT_FOUND');
+  }
+  if (error instanceof Error && error.message === 'Conversation is not active') {
+    throw createError('Conversation is not active', 409, 'CONVERSATION_NOT_ACTIVE');
+  }
+  if (error instanceof Error && error.message === 'Conversation is paused') {
+    throw createError('Conversation is paused; resume it to continue', 409, 'CONVERSATION_PAUSED');
+  }
+  if (error instanceof Error && error.message === 'Conversation is not paused') {
+    throw createError('Conversation is not paused', 409, 'CONVERSATION_NOT_PAUSED');
+  }
+  if (error instanceof Error && error.message === 'Conversation is closed') {
+    throw createError('Conversation is already completed or abandoned', 409, 'CONVERSATION_CLOSED');
+  }
+  if (error instanceof Error && error.message === 'No placeholders to fill') {
+    throw createError('No fields left to fill', 409, 'NO_PLACEHOLDERS');
+  }
+  throw error;
+}
@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
+import * as fs from 'fs';
 import { asyncHandler, createError } from '../middleware/errorHandler';
 import { DataRoomService } from '../services/DataRoomService';
 import { logger } from '../utils/logger';
+import { getSupportedExtensions, sniffFileType } from '../utils/parsers';
 
 const dataRoomService = new DataRoomService();
 
@@ -28,13 +30,14 @@ export const uploadDocument = asyncHandler(async (req: Request, res: Response):
     throw createError('Document type is required', 400, 'MISSING_DOCUMENT_TYPE');
   }
 
-  // Validate file type (only .docx files)
-  const allowedMimeTypes = [
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  ];
-
-  if (!allowedMimeTypes.includes(req.file.mimetype)) {
-    throw createError('Invalid file type. Only .docx files are allowed', 400, 'INVALID_FILE_TYPE');
+  // Validate the file contents, not just the reported MIME type
+  if (!(await sniffFileType(req.file.path))) {
+    await fs.promises.unlink(req.file.path).catch(() => undefined);
+    throw createError(
+      `Invalid file type. Supported formats: ${getSupportedExtensions().join(', ')}`,
+      400,
+      'INVALID_FILE_TYPE'
+    );
   }
 
   const document = await dataRoomService.uploadDocument(
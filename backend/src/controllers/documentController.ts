@@ -1,9 +1,32 @@
+import { PlaceholderFieldType } from '@smartdocs/common';
 import { Request, Response } from 'express';
+import * as fs from 'fs';
 import { asyncHandler, createError } from '../middleware/errorHandler';
-import { DocumentService } from '../services/DocumentService';
+import { LIVE_SESSION_HEADER } from '../services/CollaborationService';
+import { ConversationAuditService, TRANSCRIPT_FORMATS, TranscriptFormat } from '../services/ConversationAuditService';
+import { DocumentService, EXPORT_FORMATS, ExportFormat, PlaceholderUpdate } from '../services/DocumentService';
+import { DocumentVersionService } from '../services/DocumentVersionService';
+import { KnowledgeGraphService } from '../services/KnowledgeGraphService';
 import { logger } from '../utils/logger';
+import { getSupportedExtensions, sniffFileType } from '../utils/parsers';
+import { PDF_PAGE_SIZES, PdfPageSize } from '../utils/pdfRenderer';
 
 const documentService = new DocumentService();
+const versionService = new DocumentVersionService();
+const knowledgeGraphService = new KnowledgeGraphService();
+const auditService = new ConversationAuditService();
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  redline: DOCX_MIME_TYPE,
+};
+
+const TRANSCRIPT_MIME_TYPES: Record<TranscriptFormat, string> = {
+  markdown: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
 
 /**
  * Upload a new document
@@ -18,13 +41,14 @@ export const uploadDocument = asyncHandler(async (req: Request, res: Response):
     throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
   }
 
-  // Validate file type (only .docx files)
-  const allowedMimeTypes = [
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  ];
-
-  if (!allowedMimeTypes.includes(req.file.mimetype)) {
-    throw createError('Invalid file type. Only .docx files are allowed', 400, 'INVALID_FILE_TYPE');
+  // Validate the file contents, not just the reported MIME type
+  if (!(await sniffFileType(req.file.path))) {
+    await fs.promises.unlink(req.file.path).catch(() => undefined);
+    throw createError(
+      `Invalid file type. Supported formats: ${getSupportedExtensions().join(', ')}`,
+      400,
+      'INVALID_FILE_TYPE'
+    );
   }
 
   const document = await documentService.uploadDocument(req.user.id, req.file);
@@ -140,7 +164,7 @@ export const extractPlaceholders = asyncHandler(async (req: Request, res: Respon
   }
 
   try {
-    const placeholders = await documentService.extractPlaceholders(id, req.user.id);
+    const { placeholders, summary } = await documentService.extractPlaceholders(id, req.user.id);
 
     logger.info('Placeholders extracted', {
       userId: req.user.id,
@@ -150,7 +174,7 @@ export const extractPlaceholders = asyncHandler(async (req: Request, res: Respon
 
     res.status(200).json({
       success: true,
-      data: { placeholders },
+      data: { placeholders, summary },
     });
   } catch (error) {
     if (error instanceof Error && error.message === 'Document not found') {
@@ -189,3 +213,519 @@ export const getPlaceholders = asyncHandler(async (req: Request, res: Response):
     throw error;
   }
 });
+
+/**
+ * Get values from the data room that could fill a placeholder
+ * GET /api/documents/:id/placeholders/:placeholderId/suggestions
+ */
+export const getPlaceholderSuggestions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id, placeholderId } = req.params;
+
+  if (!id) {
+    throw createError('Document ID is required', 400, 'MISSING_ID');
+  }
+
+  let placeholders;
+  try {
+    placeholders = await documentService.getPlaceholders(id, req.user.id);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Document not found') {
+      throw createError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+    }
+    throw error;
+  }
+
+  const placeholder = placeholders.find(p => p.id === placeholderId);
+
+  if (!placeholder) {
+    throw createError('Placeholder not found', 404, 'PLACEHOLDER_NOT_FOUND');
+  }
+
+  const suggestions = await knowledgeGraphService.getEntitySuggestions(
+    placeholder.id,
+    placeholder.fieldName,
+    placeholder.fieldType,
+    req.user.id
+  );
+
+  res.status(200).json({
+    success: true,
+    data: { suggestions },
+  });
+});
+
+/**
+ * Edit a single placeholder
+ * PATCH /api/documents/:id/placeholders/:placeholderId
+ */
+export const updatePlaceholder = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id, placeholderId } = req.params;
+
+  if (!id) {
+    throw createError('Document ID is required', 400, 'MISSING_ID');
+  }
+
+  const update = parsePlaceholderUpdate({ ...req.body, id: placeholderId });
+
+  try {
+    const [placeholder] = await documentService.updatePlaceholders(id, req.user.id, [update], req.get(LIVE_SESSION_HEADER));
+
+    logger.info('Placeholder updated', {
+      userId: req.user.id,
+      documentId: id,
+      placeholderId,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { placeholder },
+    });
+  } catch (error) {
+    handlePlaceholderUpdateError(error);
+  }
+});
+
+/**
+ * Edit several placeholders at once
+ * PATCH /api/documents/:id/placeholders
+ */
+export const updatePlaceholders = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+  const { updates } = req.body;
+
+  if (!id) {
+    throw createError('Document ID is required', 400, 'MISSING_ID');
+  }
+
+  if (!Array.isArray(updates) || updates.length === 0) {
+    throw createError('Updates must be a non-empty array', 400, 'MISSING_UPDATES');
+  }
+
+  const parsed = updates.map(parsePlaceholderUpdate);
+
+  try {
+    const placeholders = await documentService.updatePlaceholders(id, req.user.id, parsed, req.get(LIVE_SESSION_HEADER));
+
+    logger.info('Placeholders updated', {
+      userId: req.user.id,
+      documentId: id,
+      count: placeholders.length,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { placeholders },
+    });
+  } catch (error) {
+    handlePlaceholderUpdateError(error);
+  }
+});
+
+/**
+ * Get the structured model of a document
+ * GET /api/documents/:id/structure
+ */
+export const getDocumentStructure = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    throw createError('Document ID is required', 400, 'MISSING_ID');
+  }
+
+  try {
+    const structure = await documentService.getDocumentStructure(id, req.user.id);
+
+    res.status(200).json({
+      success: true,
+      data: { structure },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Document not found') {
+      throw createError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+    }
+    throw error;
+  }
+});
+
+/**
+ * Download the filled .docx for a document
+ * GET /api/documents/:id/download
+ */
+export const downloadDocument = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    throw createError('Document ID is required', 400, 'MISSING_ID');
+  }
+
+  try {
+    const file = await documentService.generateFilledDocument(id, req.user.id);
+
+    logger.info('Filled document downloaded', {
+      userId: req.user.id,
+      documentId: id,
+    });
+
+    // Sets an ASCII filename with a UTF-8 filename* for names outside it
+    res.attachment(file.filename);
+    res.setHeader('Content-Type', DOCX_MIME_TYPE);
+    res.status(200).send(file.buffer);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Document not found') {
+      throw createError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+    }
+    if (error instanceof Error && error.message === 'Document file not found') {
+      throw createError('Document file not found', 404, 'FILE_NOT_FOUND');
+    }
+    if (error instanceof Error && error.message === 'Only .docx documents can be downloaded') {
+      throw createError(error.message, 400, 'UNSUPPORTED_FILE_TYPE');
+    }
+    throw error;
+  }
+});
+
+/**
+ * Export the filled document in another format
+ * GET /api/documents/:id/export?format=pdf&pageSize=A4
+ * GET /api/documents/:id/export?format=redline
+ */
+export const exportDocument = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    throw createError('Document ID is required', 400, 'MISSING_ID');
+  }
+
+  const format = String(req.query.format || 'pdf').toLowerCase() as ExportFormat;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw createError(`Unsupported export format. Supported formats: ${EXPORT_FORMATS.join(', ')}`, 400, 'UNSUPPORTED_FORMAT');
+  }
+
+  let pageSize: PdfPageSize | undefined;
+  if (req.query.pageSize) {
+    pageSize = (Object.keys(PDF_PAGE_SIZES) as PdfPageSize[])
+      .find(size => size.toLowerCase() === String(req.query.pageSize).toLowerCase());
+
+    if (!pageSize) {
+      throw createError(`Invalid page size. Supported sizes: ${Object.keys(PDF_PAGE_SIZES).join(', ')}`, 400, 'INVALID_PAGE_SIZE');
+    }
+  }
+
+  try {
+    const file = await documentService.exportDocument(id, req.user.id, format, { pageSize });
+
+    logger.info('Document exported', {
+      userId: req.user.id,
+      documentId: id,
+      format,
+    });
+
+    res.attachment(file.filename);
+    res.setHeader('Content-Type', EXPORT_MIME_TYPES[format]);
+    res.status(200).send(file.buffer);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Document not found') {
+      throw createError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+    }
+    if (error instanceof Error && error.message === 'Document file not found') {
+      throw createError('Document file not found', 404, 'FILE_NOT_FOUND');
+    }
+    if (error instanceof Error && error.message === 'Only .docx documents can be downloaded') {
+      throw createError('Only .docx documents can be exported', 400, 'UNSUPPORTED_FILE_TYPE');
+    }
+    throw error;
+  }
+});
+
+/**
+ * Export how each field got its value from the filling conversations
+ * GET /api/documents/:id/audit-transcript?format=markdown
+ * GET /api/documents/:id/audit-transcript?format=json
+ */
+export const exportAuditTranscript = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    throw createError('Document ID is required', 400, 'MISSING_ID');
+  }
+
+  const format = String(req.query.format || 'markdown').toLowerCase() as TranscriptFormat;
+
+  if (!TRANSCRIPT_FORMATS.includes(format)) {
+    throw createError(`Unsupported transcript format. Supported formats: ${TRANSCRIPT_FORMATS.join(', ')}`, 400, 'UNSUPPORTED_FORMAT');
+  }
+
+  try {
+    const file = await auditService.exportTranscript(id, req.user.id, format);
+
+    logger.info('Audit transcript downloaded', {
+      userId: req.user.id,
+      documentId: id,
+      format,
+    });
+
+    res.attachment(file.filename);
+    res.setHeader('Content-Type', TRANSCRIPT_MIME_TYPES[format]);
+    res.status(200).send(file.buffer);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Document not found') {
+      throw createError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+    }
+    throw error;
+  }
+});
+
+/**
+ * Get the version history of a document
+ * GET /api/documents/:id/versions
+ */
+export const getVersions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    throw createError('Document ID is required', 400, 'MISSING_ID');
+  }
+
+  try {
+    const versions = await versionService.getVersions(id, req.user.id);
+
+    res.status(200).json({
+      success: true,
+      data: { versions },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Document not found') {
+      throw createError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+    }
+    throw error;
+  }
+});
+
+/**
+ * Compare two versions of a document field by field
+ * GET /api/documents/:id/versions/diff?from=1&to=2
+ */
+export const diffVersions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    throw createError('Document ID is required', 400, 'MISSING_ID');
+  }
+
+  const fromVersion = parseVersionNumber(req.query.from, 'from');
+  const toVersion = parseVersionNumber(req.query.to, 'to');
+
+  try {
+    const diff = await versionService.diffVersions(id, req.user.id, fromVersion, toVersion);
+
+    res.status(200).json({
+      success: true,
+      data: { diff },
+    });
+  } catch (error) {
+    handleVersionError(error);
+  }
+});
+
+/**
+ * Get a single version of a document
+ * GET /api/documents/:id/versions/:version
+ */
+export const getVersion = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    throw createError('Document ID is required', 400, 'MISSING_ID');
+  }
+
+  const versionNumber = parseVersionNumber(req.params.version, 'version');
+
+  try {
+    const version = await versionService.getVersion(id, req.user.id, versionNumber);
+
+    res.status(200).json({
+      success: true,
+      data: { version },
+    });
+  } catch (error) {
+    handleVersionError(error);
+  }
+});
+
+/**
+ * Restore a document to a prior version
+ * POST /api/documents/:id/versions/:version/restore
+ */
+export const restoreVersion = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw createError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    throw createError('Document ID is required', 400, 'MISSING_ID');
+  }
+
+  const versionNumber = parseVersionNumber(req.params.version, 'version');
+
+  try {
+    const version = await versionService.restoreVersion(id, req.user.id, versionNumber);
+
+    logger.info('Document version restored', {
+      userId: req.user.id,
+      documentId: id,
+      restoredFrom: versionNumber,
+      versionNumber: version.versionNumber,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { version },
+    });
+  } catch (error) {
+    handleVersionError(error);
+  }
+});
+
+function parseVersionNumber(value: unknown, name: string): number {
+  const versionNumber = Number(value);
+
+  if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+    throw createError(`Parameter "${name}" must be a version number`, 400, 'INVALID_VERSION');
+  }
+
+  return versionNumber;
+}
+
+function handleVersionError(error: unknown): never {
+  if (error instanceof Error && error.message === 'Document not found') {
+    throw createError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+  }
+  if (error instanceof Error && error.message === 'Version not found') {
+    throw createError('Version not found', 404, 'VERSION_NOT_FOUND');
+  }
+  throw error;
+}
+
+/**
+ * Validate the shape of one placeholder edit from a request body
+ */
+function parsePlaceholderUpdate(input: any): PlaceholderUpdate {
+  if (!input || typeof input.id !== 'string' || !input.id) {
+    throw createError('Placeholder ID is required', 400, 'MISSING_PLACEHOLDER_ID');
+  }
+
+  const { id, value, fieldType, fieldName, acceptSuggestion, override } = input;
+
+  if (value !== undefined && value !== null && typeof value !== 'string') {
+    throw createError('Value must be a string, or null to clear it', 400, 'INVALID_VALUE');
+  }
+
+  if (fieldType !== undefined && !Object.values(PlaceholderFieldType).includes(fieldType)) {
+    throw createError(
+      `Invalid field type. Must be one of: ${Object.values(PlaceholderFieldType).join(', ')}`,
+      400,
+      'INVALID_FIELD_TYPE'
+    );
+  }
+
+  if (fieldName !== undefined && (typeof fieldName !== 'string' || fieldName.trim() === '')) {
+    throw createError('Field name must be a non-empty string', 400, 'INVALID_FIELD_NAME');
+  }
+
+  if (acceptSuggestion !== undefined && typeof acceptSuggestion !== 'boolean') {
+    throw createError('acceptSuggestion must be a boolean', 400, 'INVALID_ACCEPT_SUGGESTION');
+  }
+
+  if (override !== undefined && typeof override !== 'boolean') {
+    throw createError('override must be a boolean', 400, 'INVALID_OVERRIDE');
+  }
+
+  if (acceptSuggestion && value !== undefined) {
+    throw createError('Cannot set a value and accept the suggestion at the same time', 400, 'CONFLICTING_UPDATE');
+  }
+
+  if (override === false && (value !== undefined || acceptSuggestion)) {
+    throw createError('Cannot set a value and follow the field at the same time', 400, 'CONFLICTING_UPDATE');
+  }
+
+  if (value === undefined && fieldType === undefined && fieldName === undefined && !acceptSuggestion && override === undefined) {
+    throw createError('Nothing to update', 400, 'EMPTY_UPDATE');
+  }
+
+  return {
+    id,
+    value,
+    fieldType,
+    fieldName: fieldName?.trim(),
+    acceptSuggestion,
+    override,
+  };
+}
+
+function handlePlaceholderUpdateError(error: unknown): never {
+  if (error instanceof Error && error.message === 'Document not found') {
+    throw createError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+  }
+  if (error instanceof Error && error.message === 'Placeholder not found') {
+    throw createError('Placeholder not found', 404, 'PLACEHOLDER_NOT_FOUND');
+  }
+  if (error instanceof Error && error.message === 'Duplicate placeholder in updates') {
+    throw createError('Each placeholder can only be updated once per request', 400, 'DUPLICATE_PLACEHOLDER');
+  }
+  if (error instanceof Error && error.message === 'No suggested value to accept') {
+    throw createError('No suggested value to accept', 400, 'NO_SUGGESTION');
+  }
+  if (error instanceof Error && error.message === 'Field name already in use') {
+    throw createError('Field name already in use', 409, 'FIELD_NAME_CONFLICT');
+  }
+  if (error instanceof Error && error.message === 'Placeholder is not a repeated occurrence') {
+    throw createError('Only repeated occurrences of a field can be overridden', 400, 'NOT_AN_OCCURRENCE');
+  }
+  if (error instanceof Error && error.message === 'Placeholder is locked') {
+    throw createError('Someone else is editing this field', 409, 'FIELD_LOCKED');
+  }
+  throw error;
+}
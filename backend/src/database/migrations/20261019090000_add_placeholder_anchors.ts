@@ -0,0 +1,16 @@
+import type { Knex } from "knex";
+
+
+export async function up(knex: Knex): Promise<void> {
+  // Exact locations of each placeholder occurrence in the source document
+  await knex.schema.alterTable('placeholders', (table) => {
+    table.jsonb('anchors').defaultTo('[]');
+  });
+}
+
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('placeholders', (table) => {
+    table.dropColumn('anchors');
+  });
+}
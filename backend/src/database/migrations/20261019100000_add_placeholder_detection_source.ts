@@ -0,0 +1,16 @@
+import type { Knex } from "knex";
+
+
+export async function up(knex: Knex): Promise<void> {
+  // Which detector found the placeholder: pattern, llm or both
+  await knex.schema.alterTable('placeholders', (table) => {
+    table.string('detection_source', 50);
+  });
+}
+
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('placeholders', (table) => {
+    table.dropColumn('detection_source');
+  });
+}
@@ -0,0 +1,18 @@
+import type { Knex } from "knex";
+
+
+export async function up(knex: Knex): Promise<void> {
+  // Who filled each placeholder and when, for attributing tracked changes
+  await knex.schema.alterTable('placeholders', (table) => {
+    table.uuid('filled_by').references('id').inTable('users').onDelete('SET NULL');
+    table.timestamp('filled_at');
+  });
+}
+
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('placeholders', (table) => {
+    table.dropColumn('filled_at');
+    table.dropColumn('filled_by');
+  });
+}
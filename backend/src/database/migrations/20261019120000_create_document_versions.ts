@@ -0,0 +1,24 @@
+import type { Knex } from "knex";
+
+
+export async function up(knex: Knex): Promise<void> {
+  // Snapshots of a document's status, metadata and placeholder values after each change
+  await knex.schema.createTable('document_versions', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('document_id').notNullable().references('id').inTable('documents').onDelete('CASCADE');
+    table.integer('version_number').notNullable();
+    table.string('change_type', 50).notNullable()
+      .checkIn(['upload', 'analysis', 'extraction', 'fill', 'completion', 'restore']);
+    table.integer('restored_from');  // Version number a restore copied
+    table.uuid('created_by').references('id').inTable('users').onDelete('SET NULL');
+    table.jsonb('snapshot').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.unique(['document_id', 'version_number']);
+  });
+}
+
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('document_versions');
+}
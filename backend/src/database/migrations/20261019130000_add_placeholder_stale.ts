@@ -0,0 +1,16 @@
+import type { Knex } from "knex";
+
+
+export async function up(knex: Knex): Promise<void> {
+  // Placeholders no longer found by re-extraction are kept (with their values) but marked stale
+  await knex.schema.alterTable('placeholders', (table) => {
+    table.boolean('stale').notNullable().defaultTo(false);
+  });
+}
+
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('placeholders', (table) => {
+    table.dropColumn('stale');
+  });
+}
@@ -0,0 +1,21 @@
+import type { Knex } from "knex";
+
+
+export async function up(knex: Knex): Promise<void> {
+  // Direct placeholder edits are recorded as their own kind of version
+  await knex.raw('ALTER TABLE document_versions DROP CONSTRAINT IF EXISTS document_versions_change_type_check');
+  await knex.raw(`
+    ALTER TABLE document_versions ADD CONSTRAINT document_versions_change_type_check
+    CHECK (change_type IN ('upload', 'analysis', 'extraction', 'fill', 'edit', 'completion', 'restore'))
+  `);
+}
+
+
+export async function down(knex: Knex): Promise<void> {
+  await knex('document_versions').where({ change_type: 'edit' }).update({ change_type: 'fill' });
+  await knex.raw('ALTER TABLE document_versions DROP CONSTRAINT IF EXISTS document_versions_change_type_check');
+  await knex.raw(`
+    ALTER TABLE document_versions ADD CONSTRAINT document_versions_change_type_check
+    CHECK (change_type IN ('upload', 'analysis', 'extraction', 'fill', 'completion', 'restore'))
+  `);
+}
@@ -0,0 +1,61 @@
+import type { Knex } from "knex";
+
+
+export async function up(knex: Knex): Promise<void> {
+  // Conversational filling sessions; a document can have several
+  await knex.schema.createTable('conversations', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('document_id').notNullable().references('id').inTable('documents').onDelete('CASCADE');
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('status', 50).notNullable().defaultTo('active')
+      .checkIn(['active', 'paused', 'completed']);
+    table.uuid('current_placeholder_id').references('id').inTable('placeholders').onDelete('SET NULL');
+    table.jsonb('metadata').notNullable().defaultTo('{}');
+    table.timestamp('started_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('completed_at');
+
+    table.index(['document_id', 'started_at'], 'idx_conversations_document');
+    table.index('user_id', 'idx_conversations_user');
+  });
+
+  // Every user and assistant turn, with the placeholder it was about
+  await knex.schema.createTable('conversation_messages', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('conversation_id').notNullable().references('id').inTable('conversations').onDelete('CASCADE');
+    table.integer('sequence').notNullable();
+    table.string('role', 20).notNullable().checkIn(['user', 'assistant']);
+    table.text('content').notNullable();
+    table.uuid('placeholder_id').references('id').inTable('placeholders').onDelete('SET NULL');
+    table.jsonb('metadata').notNullable().defaultTo('{}');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.unique(['conversation_id', 'sequence']);
+  });
+
+  // Move conversations kept in document metadata; their messages were never stored
+  await knex.raw(`
+    INSERT INTO conversations (id, document_id, user_id, status, current_placeholder_id, metadata, started_at, updated_at, completed_at)
+    SELECT
+      (d.metadata->'conversation'->>'id')::uuid,
+      d.id,
+      d.user_id,
+      COALESCE(d.metadata->'conversation'->>'status', 'active'),
+      p.id,
+      COALESCE(d.metadata->'conversation'->'metadata', '{}'::jsonb),
+      COALESCE((d.metadata->'conversation'->>'startedAt')::timestamp, d.upload_date),
+      COALESCE((d.metadata->'conversation'->>'completedAt')::timestamp, (d.metadata->'conversation'->>'startedAt')::timestamp, d.upload_date),
+      (d.metadata->'conversation'->>'completedAt')::timestamp
+    FROM documents d
+    LEFT JOIN placeholders p ON p.id::text = d.metadata->'conversation'->>'currentPlaceholder'
+    WHERE d.metadata->'conversation'->>'id' IS NOT NULL
+  `);
+
+  await knex.raw(`UPDATE documents SET metadata = metadata - 'conversation' WHERE metadata ? 'conversation'`);
+}
+
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('conversation_messages');
+  await knex.schema.dropTableIfExists('conversations');
+}
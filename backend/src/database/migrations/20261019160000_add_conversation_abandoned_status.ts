@@ -0,0 +1,21 @@
+import type { Knex } from "knex";
+
+
+export async function up(knex: Knex): Promise<void> {
+  // Conversations can be given up without completing their document
+  await knex.raw('ALTER TABLE conversations DROP CONSTRAINT IF EXISTS conversations_status_check');
+  await knex.raw(`
+    ALTER TABLE conversations ADD CONSTRAINT conversations_status_check
+    CHECK (status IN ('active', 'paused', 'completed', 'abandoned'))
+  `);
+}
+
+
+export async function down(knex: Knex): Promise<void> {
+  await knex('conversations').where({ status: 'abandoned' }).update({ status: 'paused' });
+  await knex.raw('ALTER TABLE conversations DROP CONSTRAINT IF EXISTS conversations_status_check');
+  await knex.raw(`
+    ALTER TABLE conversations ADD CONSTRAINT conversations_status_check
+    CHECK (status IN ('active', 'paused', 'completed'))
+  `);
+}
@@ -0,0 +1,56 @@
+import type { Knex } from "knex";
+
+
+export async function up(knex: Knex): Promise<void> {
+  // Repeated occurrences of a field point at its first occurrence and follow its value,
+  // unless their value was overridden on purpose
+  await knex.schema.alterTable('placeholders', (table) => {
+    table.uuid('linked_to').references('id').inTable('placeholders').onDelete('SET NULL');
+    table.boolean('value_override').notNullable().defaultTo(false);
+    table.index('linked_to', 'idx_placeholders_linked_to');
+  });
+
+  // Group existing placeholders the way extraction does (see utils/placeholderGrouping)
+  await knex.raw(`
+    WITH keyed AS (
+      SELECT
+        id,
+        document_id,
+        position,
+        original_text,
+        regexp_replace(
+          regexp_replace(regexp_replace(lower(field_name), '[^a-z0-9]+', '_', 'g'), '^_+|_+$', '', 'g'),
+          '_\\d+$', ''
+        ) AS name_key
+      FROM placeholders
+      WHERE stale = false AND original_text ~ '[A-Za-z0-9]'
+    ),
+    ranked AS (
+      SELECT id, first_value(id) OVER (PARTITION BY document_id, name_key, original_text ORDER BY position) AS field_id
+      FROM keyed
+    )
+    UPDATE placeholders p
+    SET linked_to = r.field_id
+    FROM ranked r
+    WHERE p.id = r.id AND r.field_id <> r.id
+  `);
+
+  // Occurrences already filled differently keep their value
+  await knex.raw(`
+    UPDATE placeholders p
+    SET value_override = true
+    FROM placeholders f
+    WHERE p.linked_to = f.id
+      AND p.filled_value IS NOT NULL
+      AND p.filled_value IS DISTINCT FROM f.filled_value
+  `);
+}
+
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('placeholders', (table) => {
+    table.dropIndex('linked_to', 'idx_placeholders_linked_to');
+    table.dropColumn('value_override');
+    table.dropColumn('linked_to');
+  });
+}
@@ -0,0 +1,28 @@
+import type { Knex } from "knex";
+
+
+export async function up(knex: Knex): Promise<void> {
+  // Token usage per task, and who and what it was run for, for cost reporting
+  await knex.schema.alterTable('ai_tasks', (table) => {
+    table.uuid('user_id').references('id').inTable('users').onDelete('SET NULL');
+    table.uuid('document_id').references('id').inTable('documents').onDelete('SET NULL');
+    table.string('model', 100);
+    table.integer('prompt_tokens');
+    table.integer('completion_tokens');
+    table.index('user_id', 'idx_ai_tasks_user_id');
+    table.index('document_id', 'idx_ai_tasks_document_id');
+  });
+}
+
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('ai_tasks', (table) => {
+    table.dropIndex('document_id', 'idx_ai_tasks_document_id');
+    table.dropIndex('user_id', 'idx_ai_tasks_user_id');
+    table.dropColumn('completion_tokens');
+    table.dropColumn('prompt_tokens');
+    table.dropColumn('model');
+    table.dropColumn('document_id');
+    table.dropColumn('user_id');
+  });
+}
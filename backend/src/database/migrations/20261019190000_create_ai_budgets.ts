@@ -0,0 +1,24 @@
+import type { Knex } from "knex";
+
+
+export async function up(knex: Knex): Promise<void> {
+  // Monthly AI spending limits for a user or a whole organization
+  await knex.schema.createTable('ai_budgets', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.string('scope', 20).notNullable().checkIn(['user', 'organization']);
+    table.uuid('user_id').unique().references('id').inTable('users').onDelete('CASCADE');
+    table.string('organization', 255).unique();
+    table.integer('monthly_token_limit');
+    table.decimal('monthly_cost_limit', 10, 2);
+    table.float('warned_threshold');  // Highest warning threshold reached in warned_period
+    table.string('warned_period', 7);  // YYYY-MM
+    table.uuid('updated_by').references('id').inTable('users').onDelete('SET NULL');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+  });
+}
+
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('ai_budgets');
+}
@@ -0,0 +1,16 @@
+import type { Knex } from "knex";
+
+
+export async function up(knex: Knex): Promise<void> {
+  // Model responses that failed the agent's output schema, for tracking output quality
+  await knex.schema.alterTable('ai_tasks', (table) => {
+    table.jsonb('validation_errors');
+  });
+}
+
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('ai_tasks', (table) => {
+    table.dropColumn('validation_errors');
+  });
+}
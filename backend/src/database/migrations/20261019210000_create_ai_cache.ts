@@ -0,0 +1,30 @@
+import type { Knex } from "knex";
+
+
+export async function up(knex: Knex): Promise<void> {
+  // Agent output by agent, model, prompt version and input, so identical calls are not paid for twice
+  await knex.schema.createTable('ai_cache', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.string('cache_key', 64).notNullable().unique();  // SHA-256, hex
+    table.string('agent_name', 100).notNullable();
+    table.string('model', 100).notNullable();
+    table.string('prompt_version', 64).notNullable();
+    table.jsonb('output_data').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('expires_at').notNullable();
+    table.index('expires_at', 'idx_ai_cache_expires_at');
+  });
+
+  await knex.schema.alterTable('ai_tasks', (table) => {
+    table.boolean('cache_hit').notNullable().defaultTo(false);
+  });
+}
+
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('ai_tasks', (table) => {
+    table.dropColumn('cache_hit');
+  });
+
+  await knex.schema.dropTableIfExists('ai_cache');
+}
@@ -52,12 +52,50 @@ CREATE TABLE ai_tasks (
   cost DECIMAL(10, 6),
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   completed_at TIMESTAMP,
-  error TEXT
+  error TEXT,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  document_id UUID,  -- References documents, added below
+  model VARCHAR(100),
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  validation_errors JSONB,
+  cache_hit BOOLEAN NOT NULL DEFAULT FALSE
 );
 
 CREATE INDEX idx_ai_tasks_agent_id ON ai_tasks(agent_id);
 CREATE INDEX idx_ai_tasks_status ON ai_tasks(status);
 CREATE INDEX idx_ai_tasks_created_at ON ai_tasks(created_at DESC);
+CREATE INDEX idx_ai_tasks_user_id ON ai_tasks(user_id);
+CREATE INDEX idx_ai_tasks_document_id ON ai_tasks(document_id);
+
+-- AI Budgets table
+CREATE TABLE ai_budgets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  scope VARCHAR(20) NOT NULL CHECK (scope IN ('user', 'organization')),
+  user_id UUID UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  organization VARCHAR(255) UNIQUE,
+  monthly_token_limit INTEGER,
+  monthly_cost_limit DECIMAL(10, 2),
+  warned_threshold FLOAT,
+  warned_period VARCHAR(7),
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- AI Cache table
+CREATE TABLE ai_cache (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  cache_key VARCHAR(64) NOT NULL UNIQUE,
+  agent_name VARCHAR(100) NOT NULL,
+  model VARCHAR(100) NOT NULL,
+  prompt_version VARCHAR(64) NOT NULL,
+  output_data JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX idx_ai_cache_expires_at ON ai_cache(expires_at);
 
 -- AI Insights table
 CREATE TABLE ai_insights (
@@ -107,6 +145,9 @@ CREATE INDEX idx_documents_user_id ON documents(user_id);
 CREATE INDEX idx_documents_status ON documents(status);
 CREATE INDEX idx_documents_upload_date ON documents(upload_date DESC);
 
+ALTER TABLE ai_tasks ADD CONSTRAINT ai_tasks_document_id_foreign
+  FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE SET NULL;
+
 -- Placeholders table
 CREATE TABLE placeholders (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -120,11 +161,61 @@ CREATE TABLE placeholders (
   suggestion_source VARCHAR(255),
   confidence FLOAT,
   validation_status VARCHAR(50) DEFAULT 'pending' CHECK (validation_status IN ('pending', 'validated', 'flagged')),
-  validation_notes TEXT
+  validation_notes TEXT,
+  anchors JSONB DEFAULT '[]',
+  detection_source VARCHAR(50) CHECK (detection_source IN ('pattern', 'llm', 'both')),
+  filled_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  filled_at TIMESTAMP,
+  stale BOOLEAN NOT NULL DEFAULT FALSE,
+  linked_to UUID REFERENCES placeholders(id) ON DELETE SET NULL,
+  value_override BOOLEAN NOT NULL DEFAULT FALSE
 );
 
 CREATE INDEX idx_placeholders_document_id ON placeholders(document_id);
 CREATE INDEX idx_placeholders_position ON placeholders(document_id, position);
+CREATE INDEX idx_placeholders_linked_to ON placeholders(linked_to);
+
+-- Document Versions table
+CREATE TABLE document_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  change_type VARCHAR(50) NOT NULL CHECK (change_type IN ('upload', 'analysis', 'extraction', 'fill', 'edit', 'completion', 'restore')),
+  restored_from INTEGER,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  snapshot JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (document_id, version_number)
+);
+
+-- Conversations table
+CREATE TABLE conversations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(50) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'abandoned')),
+  current_placeholder_id UUID REFERENCES placeholders(id) ON DELETE SET NULL,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX idx_conversations_document ON conversations(document_id, started_at);
+CREATE INDEX idx_conversations_user ON conversations(user_id);
+
+-- Conversation Messages table
+CREATE TABLE conversation_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  sequence INTEGER NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  placeholder_id UUID REFERENCES placeholders(id) ON DELETE SET NULL,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (conversation_id, sequence)
+);
 
 -- Document Templates table
 CREATE TABLE document_templates (
@@ -0,0 +1,93 @@
+// backend/src/llm/FixtureProvider.ts
+import fs from 'fs';
+import path from 'path';
+import { LLMProvider, LLMProviderType, LLMRequest, LLMResponse } from './LLMProvider';
+
+/**
+ * A canned response
+ * `match` is a regular expression tested against the user prompt; an entry
+ * without one matches anything. `$1`, `$2`, ... in the response are replaced
+ * with the match's capture groups. An object response is sent as JSON.
+ */
+export interface LLMFixture {
+  match?: string;
+  response: string | Record<string, any> | any[];
+}
+
+// Fixtures by agent name
+export type LLMFixtureSet = Record<string, LLMFixture[]>;
+
+/**
+ * FixtureProvider
+ * Answers from fixtures instead of a model, so agents run offline and give the
+ * same output for the same prompt. Fixtures come either from a set given
+ * directly or from `<agent name>.json` files in a directory, read on first use.
+ * The first fixture of the calling agent that matches the prompt is used;
+ * token usage is estimated at four characters per token.
+ */
+export class FixtureProvider implements LLMProvider {
+  public readonly type: LLMProviderType = 'fixture';
+  private fixtures: LLMFixtureSet;
+  private directory?: string;
+
+  constructor(source: LLMFixtureSet | string) {
+    if (typeof source === 'string') {
+      this.directory = source;
+      this.fixtures = {};
+    } else {
+      this.fixtures = source;
+    }
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const content = this.respond(request);
+
+    return { content, tokens: this.estimateTokens(request, content) };
+  }
+
+  async stream(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMResponse> {
+    const content = this.respond(request);
+
+    // One word at a time, like a model would
+    for (const delta of content.match(/\s*\S+/g) || []) {
+      onDelta(delta);
+    }
+
+    return { content, tokens: this.estimateTokens(request, content) };
+  }
+
+  private respond(request: LLMRequest): string {
+    for (const fixture of this.getFixtures(request.agent)) {
+      const match = fixture.match === undefined ? [] : new RegExp(fixture.match).exec(request.userPrompt);
+      if (!match) {
+        continue;
+      }
+
+      if (typeof fixture.response === 'string') {
+        return fixture.response.replace(/\$(\d)/g, (_, group) => match[group] ?? '');
+      }
+
+      // Keep substituted text valid inside JSON strings
+      return JSON.stringify(fixture.response)
+        .replace(/\$(\d)/g, (_, group) => JSON.stringify(match[group] ?? '').slice(1, -1));
+    }
+
+    throw new Error(`No LLM fixture matches the prompt for ${request.agent}`);
+  }
+
+  private getFixtures(agent: string): LLMFixture[] {
+    if (!this.fixtures[agent] && this.directory) {
+      const file = path.join(this.directory, `${agent}.json`);
+      this.fixtures[agent] = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : [];
+    }
+
+    return this.fixtures[agent] || [];
+  }
+
+  private estimateTokens(request: LLMRequest, content: string) {
+    const prompt = Math.ceil((request.systemPrompt.length + request.userPrompt.length) / 4);
+    const completion = Math.ceil(content.length / 4);
+
+    return { prompt, completion, total: prompt + completion };
+  }
+}
@@ -0,0 +1,36 @@
+// backend/src/llm/LLMProvider.ts
+
+// Providers an agent can run on
+export const LLM_PROVIDERS = ['openai', 'openai-compatible', 'fixture'] as const;
+export type LLMProviderType = typeof LLM_PROVIDERS[number];
+
+export interface LLMRequest {
+  agent: string;           // Name of the calling agent
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface TokenUsage {
+  prompt: number;
+  completion: number;
+  total: number;
+}
+
+export interface LLMResponse {
+  content: string;
+  tokens: TokenUsage;
+}
+
+/**
+ * A chat completion backend
+ * `stream` passes each piece of generated text to `onDelta` as it arrives and
+ * resolves with the full response once generation ends.
+ */
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  stream(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMResponse>;
+}
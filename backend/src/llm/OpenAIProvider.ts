@@ -0,0 +1,77 @@
+// backend/src/llm/OpenAIProvider.ts
+import OpenAI from 'openai';
+import { LLMProvider, LLMProviderType, LLMRequest, LLMResponse } from './LLMProvider';
+
+/**
+ * OpenAIProvider
+ * Runs agents on the OpenAI API, or on any server exposing the same chat
+ * completions API (llama.cpp, Ollama, vLLM, ...) when given a base URL.
+ */
+export class OpenAIProvider implements LLMProvider {
+  public readonly type: LLMProviderType;
+  private client: OpenAI;
+
+  constructor(options: { apiKey: string; baseURL?: string }) {
+    this.type = options.baseURL ? 'openai-compatible' : 'openai';
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: this.toMessages(request),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    });
+
+    return {
+      content: response.choices[0].message.content || '',
+      tokens: {
+        prompt: response.usage?.prompt_tokens || 0,
+        completion: response.usage?.completion_tokens || 0,
+        total: response.usage?.total_tokens || 0
+      }
+    };
+  }
+
+  async stream(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMResponse> {
+    const stream = await this.client.chat.completions.create({
+      model: request.model,
+      messages: this.toMessages(request),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    let content = '';
+    let usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null | undefined;
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
+
+    return {
+      content,
+      tokens: {
+        prompt: usage?.prompt_tokens || 0,
+        completion: usage?.completion_tokens || 0,
+        total: usage?.total_tokens || 0
+      }
+    };
+  }
+
+  private toMessages(request: LLMRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return [
+      { role: 'system', content: request.systemPrompt },
+      { role: 'user', content: request.userPrompt }
+    ];
+  }
+}
@@ -0,0 +1,108 @@
+// backend/src/llm/index.ts
+import { config } from '../config/app';
+import { FixtureProvider } from './FixtureProvider';
+import { LLM_PROVIDERS, LLMProvider, LLMProviderType } from './LLMProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+
+export { FixtureProvider } from './FixtureProvider';
+export type { LLMFixture, LLMFixtureSet } from './FixtureProvider';
+export { LLM_PROVIDERS } from './LLMProvider';
+export type { LLMProvider, LLMProviderType, LLMRequest, LLMResponse, TokenUsage } from './LLMProvider';
+export { OpenAIProvider } from './OpenAIProvider';
+export {
+  buildRepairPrompt,
+  clampedNumber,
+  enumWithFallback,
+  lenientArray,
+  optionalField,
+  parseStructuredOutput,
+  StructuredOutputError,
+} from './structuredOutput';
+export type { OutputSchema, StructuredOutputResult } from './structuredOutput';
+
+// What an agent runs on; a missing model means the agent's own default
+export interface AgentLLMSettings {
+  provider: LLMProviderType;
+  model?: string;
+}
+
+const providers = new Map<LLMProviderType, LLMProvider>();
+let agentSettings: Record<string, Partial<AgentLLMSettings>> | undefined;
+
+/**
+ * Get the provider and model configured for an agent
+ * LLM_AGENTS overrides LLM_PROVIDER per agent.
+ * @param agent - Name of the agent
+ * @returns AgentLLMSettings
+ */
+export function getAgentSettings(agent: string): AgentLLMSettings {
+  if (!agentSettings) {
+    agentSettings = parseAgentSettings(config.llmAgents);
+  }
+
+  const settings = agentSettings[agent] || {};
+  const provider = settings.provider || config.llmProvider;
+  assertProviderType(provider);
+
+  return { provider, model: settings.model };
+}
+
+/**
+ * Get a provider, creating it on first use
+ * Credentials are only needed by the providers actually used, so the backend
+ * starts without an OpenAI key when no agent runs on OpenAI.
+ * @param type - Provider type
+ * @returns LLMProvider
+ */
+export function getProvider(type: LLMProviderType): LLMProvider {
+  let provider = providers.get(type);
+
+  if (!provider) {
+    provider = createProvider(type);
+    providers.set(type, provider);
+  }
+
+  return provider;
+}
+
+function createProvider(type: LLMProviderType): LLMProvider {
+  switch (type) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('Missing required environment variable: OPENAI_API_KEY');
+      }
+      return new OpenAIProvider({ apiKey: process.env.OPENAI_API_KEY });
+
+    case 'openai-compatible':
+      // The SDK insists on a key even for servers that ignore it
+      return new OpenAIProvider({ apiKey: config.llmApiKey || 'none', baseURL: config.llmBaseUrl });
+
+    case 'fixture':
+      return new FixtureProvider(config.llmFixturesPath);
+  }
+}
+
+function parseAgentSettings(value: string): Record<string, Partial<AgentLLMSettings>> {
+  if (!value) {
+    return {};
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    parsed = undefined;
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('LLM_AGENTS must be a JSON object of agent names to { provider, model }');
+  }
+
+  return parsed;
+}
+
+function assertProviderType(type: string): asserts type is LLMProviderType {
+  if (!(LLM_PROVIDERS as readonly string[]).includes(type)) {
+    throw new Error(`Unknown LLM provider: ${type}. Use one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+}
@@ -0,0 +1,127 @@
+// backend/src/llm/structuredOutput.ts
+import { z } from 'zod';
+
+// Schema of an agent's JSON output; the input side is whatever the model sent
+export type OutputSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+export type StructuredOutputResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+/**
+ * Thrown when a model's output still fails its schema after every repair attempt
+ */
+export class StructuredOutputError extends Error {
+  public readonly errors: string[];
+
+  constructor(agent: string, errors: string[]) {
+    super(`${agent} returned output that does not match its schema: ${errors.join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Parse a model's text as JSON and validate it against a schema
+ * Markdown code fences around the JSON are ignored.
+ * @param content - Text returned by the model
+ * @param schema - Schema of the expected output
+ * @returns The validated output, or what is wrong with it
+ */
+export function parseStructuredOutput<T>(content: string, schema: OutputSchema<T>): StructuredOutputResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(content));
+  } catch (error) {
+    return { success: false, errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(issue =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * Build the prompt asking the model to fix output that failed validation
+ * The original prompt is repeated, since providers get no conversation history.
+ * @param userPrompt - Prompt the output was generated for
+ * @param content - Output that failed
+ * @param errors - What is wrong with it
+ * @returns string
+ */
+export function buildRepairPrompt(userPrompt: string, content: string, errors: string[]): string {
+  return `${userPrompt}
+
+Your previous response was:
+${content}
+
+It does not match the required format:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with ONLY valid JSON in the required format, fixing these problems.`;
+}
+
+/**
+ * Array schema that drops the items not matching `item` instead of failing
+ * For lists where one bad entry should not cost the others (e.g. detected
+ * placeholders); anything other than an array still fails.
+ * @param item - Schema of one item
+ * @returns Schema of the array
+ */
+export function lenientArray<T>(item: OutputSchema<T>): OutputSchema<T[]> {
+  return z.array(z.unknown()).transform(items =>
+    items.flatMap(value => {
+      const result = item.safeParse(value);
+      return result.success ? [result.data] : [];
+    })
+  );
+}
+
+/**
+ * Number schema clamped to a range, optionally rounded
+ * @param min - Lowest value
+ * @param max - Highest value
+ * @param round - Round to a whole number
+ * @returns Schema of the number
+ */
+export function clampedNumber(min: number, max: number, round: boolean = false): OutputSchema<number> {
+  return z.number().transform(value => Math.max(min, Math.min(max, round ? Math.round(value) : value)));
+}
+
+/**
+ * String schema that falls back to a default for unknown values
+ * The string must still be present and non-empty.
+ * @param values - Allowed values
+ * @param fallback - Value used for anything else
+ * @returns Schema of the value
+ */
+export function enumWithFallback<T extends string>(values: readonly T[], fallback: T): OutputSchema<T> {
+  return z.string().min(1).transform(value => (values as readonly string[]).includes(value) ? value as T : fallback);
+}
+
+/**
+ * Schema for a field the model may leave out or set to null
+ * @param schema - Schema of the value when given
+ * @returns Schema of the value, undefined when missing or null
+ */
+export function optionalField<T>(schema: OutputSchema<T>): OutputSchema<T | undefined> {
+  return schema.nullish().transform(value => value ?? undefined);
+}
+
+function stripCodeFence(content: string): string {
+  let clean = content.trim();
+  if (clean.startsWith('```json')) {
+    clean = clean.replace(/```json\n?/g, '').replace(/```\n?/g, '');
+  } else if (clean.startsWith('```')) {
+    clean = clean.replace(/```\n?/g, '');
+  }
+  return clean;
+}
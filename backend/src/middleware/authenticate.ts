@@ -20,6 +20,32 @@ declare global {
   }
 }
 
+/**
+ * Find the active user a token was issued to
+ * Throws jwt.JsonWebTokenError for a token that is invalid or expired.
+ * @returns The user, or null if the user no longer exists or is inactive
+ */
+export async function verifyToken(token: string): Promise<AuthUser | null> {
+  const decoded = jwt.verify(token, config.jwtSecret) as { userId: string; role: UserRole };
+
+  // Check if user exists and is active
+  const result = await query(
+    'SELECT id, email, role, organization FROM users WHERE id = $1 AND is_active = TRUE',
+    [decoded.userId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return {
+    id: result.rows[0].id,
+    email: result.rows[0].email,
+    role: result.rows[0].role,
+    organization: result.rows[0].organization
+  };
+}
+
 export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     // Get token from header or cookie
@@ -43,16 +69,9 @@ export async function authenticate(req: Request, res: Response, next: NextFuncti
       return;
     }
 
-    // Verify token
-    const decoded = jwt.verify(token, config.jwtSecret) as { userId: string; role: UserRole };
-
-    // Check if user exists and is active
-    const result = await query(
-      'SELECT id, email, role, organization FROM users WHERE id = $1 AND is_active = TRUE',
-      [decoded.userId]
-    );
+    const user = await verifyToken(token);
 
-    if (result.rows.length === 0) {
+    if (!user) {
       res.status(401).json({
         success: false,
         error: {
@@ -64,12 +83,7 @@ export async function authenticate(req: Request, res: Response, next: NextFuncti
     }
 
     // Attach user to request
-    req.user = {
-      id: result.rows[0].id,
-      email: result.rows[0].email,
-      role: result.rows[0].role,
-      organization: result.rows[0].organization
-    };
+    req.user = user;
 
     next();
   } catch (error) {
@@ -1,9 +1,15 @@
 import { Router } from 'express';
+import { UserRole } from '@smartdocs/common';
 import { authenticate } from '../middleware/authenticate';
+import { authorize } from '../middleware/authorize';
 import {
   getDashboardMetrics,
   getDocumentInsights,
   getCompanyAnalytics,
+  getAIUsage,
+  getAIBudgets,
+  setAIBudget,
+  deleteAIBudget,
 } from '../controllers/analyticsController';
 
 const router = Router();
@@ -20,6 +26,30 @@ router.get('/dashboard', authenticate, getDashboardMetrics);
  */
 router.get('/documents/:id/insights', authenticate, getDocumentInsights);
 
+/**
+ * GET /api/analytics/ai-usage
+ * Get token usage and cost of AI tasks (authenticated; admins see all users)
+ */
+router.get('/ai-usage', authenticate, getAIUsage);
+
+/**
+ * GET /api/analytics/ai-budgets
+ * List AI budgets with their use this month (admins only)
+ */
+router.get('/ai-budgets', authenticate, authorize([UserRole.ADMIN]), getAIBudgets);
+
+/**
+ * PUT /api/analytics/ai-budgets
+ * Set the monthly AI budget of a user or organization (admins only)
+ */
+router.put('/ai-budgets', authenticate, authorize([UserRole.ADMIN]), setAIBudget);
+
+/**
+ * DELETE /api/analytics/ai-budgets/:id
+ * Remove an AI budget (admins only)
+ */
+router.delete('/ai-budgets/:id', authenticate, authorize([UserRole.ADMIN]), deleteAIBudget);
+
 /**
  * GET /api/analytics/companies/:company
  * Get analytics for a specific company (authenticated)
@@ -2,9 +2,16 @@ import { Router } from 'express';
 import { authenticate } from '../middleware/authenticate';
 import {
   startConversation,
+  getConversations,
   sendMessage,
+  streamMessage,
   getConversationHistory,
   fillPlaceholder,
+  performAction,
+  getReview,
+  pauseConversation,
+  resumeConversation,
+  abandonConversation,
   completeConversation,
 } from '../controllers/conversationController';
 
@@ -16,15 +23,27 @@ const router = Router();
  */
 router.post('/start', authenticate, startConversation);
 
+/**
+ * GET /api/conversations?documentId=:documentId
+ * List a document's conversations, newest first (authenticated)
+ */
+router.get('/', authenticate, getConversations);
+
 /**
  * POST /api/conversations/:id/message
  * Send a message in a conversation (authenticated)
  */
 router.post('/:id/message', authenticate, sendMessage);
 
+/**
+ * POST /api/conversations/:id/message/stream
+ * Send a message and stream the reply as Server-Sent Events (authenticated)
+ */
+router.post('/:id/message/stream', authenticate, streamMessage);
+
 /**
  * GET /api/conversations/:id/history
- * Get conversation history (authenticated)
+ * Get a page of the conversation transcript (authenticated)
  */
 router.get('/:id/history', authenticate, getConversationHistory);
 
@@ -34,6 +53,36 @@ router.get('/:id/history', authenticate, getConversationHistory);
  */
 router.post('/:id/fill-placeholder', authenticate, fillPlaceholder);
 
+/**
+ * POST /api/conversations/:id/actions
+ * Skip, go back, go to or change a field, or review (authenticated)
+ */
+router.post('/:id/actions', authenticate, performAction);
+
+/**
+ * GET /api/conversations/:id/review
+ * Get every field with its value and status (authenticated)
+ */
+router.get('/:id/review', authenticate, getReview);
+
+/**
+ * POST /api/conversations/:id/pause
+ * Pause a conversation to resume it later (authenticated)
+ */
+router.post('/:id/pause', authenticate, pauseConversation);
+
+/**
+ * POST /api/conversations/:id/resume
+ * Resume a paused conversation where it left off (authenticated)
+ */
+router.post('/:id/resume', authenticate, resumeConversation);
+
+/**
+ * POST /api/conversations/:id/abandon
+ * Abandon a conversation without completing the document (authenticated)
+ */
+router.post('/:id/abandon', authenticate, abandonConversation);
+
 /**
  * POST /api/conversations/:id/complete
  * Complete a conversation (authenticated)
@@ -10,6 +10,7 @@ import {
   uploadDocument,
 } from '../controllers/dataroomController';
 import { authenticate } from '../middleware/authenticate';
+import { getSupportedExtensions, isSupportedUpload } from '../utils/parsers';
 
 const router = Router();
 
@@ -22,7 +23,7 @@ const storage = multer.diskStorage({
     // Generate unique filename with timestamp and original extension
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
     const ext = path.extname(file.originalname);
-    cb(null, `dataroom - ${uniqueSuffix}${ext} `);
+    cb(null, `dataroom-${uniqueSuffix}${ext}`);
   },
 });
 
@@ -32,15 +33,11 @@ const upload = multer({
     fileSize: config.maxFileSize, // 10MB default
   },
   fileFilter: (req, file, cb) => {
-    // Only accept .docx files
-    const allowedMimeTypes = [
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    ];
-
-    if (allowedMimeTypes.includes(file.mimetype)) {
+    // Accept every format the parser registry supports
+    if (isSupportedUpload(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only .docx files are allowed'));
+      cb(new Error(`Invalid file type. Supported formats: ${getSupportedExtensions().join(', ')}`));
     }
   },
 });
@@ -4,13 +4,25 @@ import path from 'path';
 import { config } from '../config/app';
 import {
   analyzeDocument,
+  diffVersions,
+  downloadDocument,
+  exportAuditTranscript,
+  exportDocument,
   extractPlaceholders,
   getDocument,
+  getDocumentStructure,
   getDocuments,
   getPlaceholders,
+  getVersion,
+  getVersions,
+  restoreVersion,
+  updatePlaceholder,
+  getPlaceholderSuggestions,
+  updatePlaceholders,
   uploadDocument
 } from '../controllers/documentController';
 import { authenticate } from '../middleware/authenticate';
+import { getSupportedExtensions, isSupportedUpload } from '../utils/parsers';
 
 const router = Router();
 
@@ -33,15 +45,11 @@ const upload = multer({
     fileSize: config.maxFileSize, // 10MB default
   },
   fileFilter: (req, file, cb) => {
-    // Only accept .docx files
-    const allowedMimeTypes = [
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    ];
-
-    if (allowedMimeTypes.includes(file.mimetype)) {
+    // Accept every format the parser registry supports
+    if (isSupportedUpload(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only .docx files are allowed'));
+      cb(new Error(`Invalid file type. Supported formats: ${getSupportedExtensions().join(', ')}`));
     }
   },
 });
@@ -64,6 +72,30 @@ router.get('/', authenticate, getDocuments);
  */
 router.get('/:id', authenticate, getDocument);
 
+/**
+ * GET /api/documents/:id/structure
+ * Get paragraphs, runs, tables, headers and footers of a document (authenticated)
+ */
+router.get('/:id/structure', authenticate, getDocumentStructure);
+
+/**
+ * GET /api/documents/:id/download
+ * Download the document with placeholder values filled in (authenticated)
+ */
+router.get('/:id/download', authenticate, downloadDocument);
+
+/**
+ * GET /api/documents/:id/export
+ * Export the filled document as PDF or as a redline .docx (authenticated)
+ */
+router.get('/:id/export', authenticate, exportDocument);
+
+/**
+ * GET /api/documents/:id/audit-transcript
+ * Export the filling conversations as a per-field audit record, as Markdown or JSON (authenticated)
+ */
+router.get('/:id/audit-transcript', authenticate, exportAuditTranscript);
+
 /**
  * POST /api/documents/:id/analyze
  * Trigger document analysis (authenticated)
@@ -82,4 +114,46 @@ router.get('/:id/placeholders', authenticate, getPlaceholders);
  */
 router.post('/:id/placeholders', authenticate, extractPlaceholders);
 
+/**
+ * PATCH /api/documents/:id/placeholders
+ * Edit several placeholders at once (authenticated)
+ */
+router.patch('/:id/placeholders', authenticate, updatePlaceholders);
+
+/**
+ * PATCH /api/documents/:id/placeholders/:placeholderId
+ * Set or clear a value, accept the suggestion, or override name and type (authenticated)
+ */
+router.patch('/:id/placeholders/:placeholderId', authenticate, updatePlaceholder);
+
+/**
+ * GET /api/documents/:id/placeholders/:placeholderId/suggestions
+ * Get ranked values from the data room for a placeholder (authenticated)
+ */
+router.get('/:id/placeholders/:placeholderId/suggestions', authenticate, getPlaceholderSuggestions);
+
+/**
+ * GET /api/documents/:id/versions
+ * Get the version history of a document (authenticated)
+ */
+router.get('/:id/versions', authenticate, getVersions);
+
+/**
+ * GET /api/documents/:id/versions/diff?from=&to=
+ * Compare two versions of a document field by field (authenticated)
+ */
+router.get('/:id/versions/diff', authenticate, diffVersions);
+
+/**
+ * GET /api/documents/:id/versions/:version
+ * Get a single version of a document (authenticated)
+ */
+router.get('/:id/versions/:version', authenticate, getVersion);
+
+/**
+ * POST /api/documents/:id/versions/:version/restore
+ * Restore a document to a prior version (authenticated)
+ */
+router.post('/:id/versions/:version/restore', authenticate, restoreVersion);
+
 export default router;
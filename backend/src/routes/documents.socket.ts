@@ -0,0 +1,140 @@
+import type { IncomingMessage, Server } from 'http';
+import jwt from 'jsonwebtoken';
+import type { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { db } from '../config/knex';
+import { verifyToken } from '../middleware/authenticate';
+import { CollaborationRequest, collaborationService, Collaborator } from '../services/CollaborationService';
+import { DocumentService } from '../services/DocumentService';
+import { logger } from '../utils/logger';
+
+const LIVE_PATH = /^\/api\/documents\/([^/]+)\/live$/;
+
+const documentService = new DocumentService();
+
+/**
+ * Live collaboration channel for a document
+ * WS /api/documents/:id/live?token=<jwt>
+ *
+ * Browsers cannot set headers on a WebSocket, so the token is passed in the
+ * query string. The document's owner and members of their organization may
+ * connect, as they may edit its fields on the REST API.
+ */
+export function attachDocumentSocket(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const match = LIVE_PATH.exec(url.pathname);
+
+    if (!match) {
+      reject(socket, 404, 'Not Found');
+      return;
+    }
+
+    findCollaborator(match[1], url.searchParams.get('token'))
+      .then((user) => {
+        if (!user) {
+          reject(socket, 401, 'Unauthorized');
+          return;
+        }
+
+        wss.handleUpgrade(req, socket, head, (ws) => connect(ws, match[1], user));
+      })
+      .catch((error) => {
+        if (error instanceof jwt.JsonWebTokenError) {
+          reject(socket, 401, 'Unauthorized');
+          return;
+        }
+
+        logger.error('Error opening live document channel', { error, documentId: match[1] });
+        reject(socket, 500, 'Internal Server Error');
+      });
+  });
+
+  return wss;
+}
+
+/**
+ * Find the user a token belongs to, if the document is shared with them
+ */
+export async function findCollaborator(documentId: string, token: string | null): Promise<Collaborator | null> {
+  if (!token) {
+    return null;
+  }
+
+  const user = await verifyToken(token);
+  if (!user) {
+    return null;
+  }
+
+  const document = await documentService.findSharedDocument(documentId, user.id);
+
+  if (!document) {
+    return null;
+  }
+
+  const dbUser = await db('users')
+    .where({ id: user.id })
+    .first();
+
+  return { id: user.id, name: dbUser?.full_name || user.email, email: user.email };
+}
+
+/**
+ * Find a placeholder of the document, so a field of another document cannot be locked
+ */
+async function findPlaceholder(documentId: string, placeholderId: string): Promise<any> {
+  return db('placeholders')
+    .where({ id: placeholderId, document_id: documentId })
+    .first();
+}
+
+function connect(ws: WebSocket, documentId: string, user: Collaborator): void {
+  const sessionId = collaborationService.join(documentId, user, (message) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  });
+
+  let handled = Promise.resolve();
+
+  const handle = async (request: CollaborationRequest) => {
+    if (request.type === 'lock' && !await findPlaceholder(documentId, request.placeholderId)) {
+      ws.send(JSON.stringify({ type: 'error', code: 'PLACEHOLDER_NOT_FOUND', message: 'Placeholder not found' }));
+      return;
+    }
+
+    collaborationService.handleRequest(sessionId, request);
+  };
+
+  ws.on('message', (data) => {
+    let request: CollaborationRequest;
+    try {
+      request = JSON.parse(data.toString());
+    } catch {
+      ws.send(JSON.stringify({ type: 'error', code: 'INVALID_MESSAGE', message: 'Messages must be JSON' }));
+      return;
+    }
+
+    if (!['lock', 'unlock'].includes(request?.type) || typeof request.placeholderId !== 'string') {
+      ws.send(JSON.stringify({ type: 'error', code: 'INVALID_MESSAGE', message: 'Unknown message type' }));
+      return;
+    }
+
+    // Requests are handled in the order they arrive, though a lock waits on the database
+    handled = handled
+      .then(() => handle(request))
+      .catch((error) => {
+        logger.error('Error handling live document request', { error, documentId, sessionId });
+      });
+  });
+
+  ws.on('close', () => collaborationService.leave(sessionId));
+  ws.on('error', (error) => logger.error('Live document channel error', { error, documentId, sessionId }));
+}
+
+function reject(socket: Duplex, status: number, reason: string): void {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
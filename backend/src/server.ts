@@ -13,6 +13,7 @@ import authRoutes from './routes/auth.routes';
 import conversationRoutes from './routes/conversations.routes';
 import dataroomRoutes from './routes/dataroom.routes';
 import documentRoutes from './routes/documents.routes';
+import { attachDocumentSocket } from './routes/documents.socket';
 
 // Initialize Express app
 const app = express();
@@ -95,6 +96,9 @@ const server = app.listen(PORT, '0.0.0.0', () => {
   console.log(`Health check: http://localhost:${PORT}/health`);
 });
 
+// Live collaboration channel for documents
+attachDocumentSocket(server);
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received: closing HTTP server');
@@ -1,3 +1,5 @@
+import { AITaskContext, DeltaHandler } from '../agents/BaseAgent';
+import { ConversationalAssistant } from '../agents/ConversationalAssistant';
 import { DocumentAnalyzer } from '../agents/DocumentAnalyzer';
 import { PlaceholderExtractor } from '../agents/PlaceholderExtractor';
 import { AITask, TaskType } from '@smartdocs/common';
@@ -9,20 +11,24 @@ import { AITask, TaskType } from '@smartdocs/common';
 export class AIAgentService {
   private documentAnalyzer: DocumentAnalyzer;
   private placeholderExtractor: PlaceholderExtractor;
+  private conversationalAssistant: ConversationalAssistant;
 
   constructor() {
     // Instantiate agents
     this.documentAnalyzer = new DocumentAnalyzer();
     this.placeholderExtractor = new PlaceholderExtractor();
+    this.conversationalAssistant = new ConversationalAssistant();
   }
 
   /**
    * Run an agent with the given input
-   * @param agentName - Name of the agent to run (DocumentAnalyzer or PlaceholderExtractor)
+   * @param agentName - Name of the agent to run (DocumentAnalyzer, PlaceholderExtractor or ConversationalAssistant)
    * @param input - Input data for the agent
+   * @param onDelta - Optional handler for streamed text (ConversationalAssistant only)
+   * @param context - User and document the task is run for, recorded with its token usage
    * @returns Promise<AITask> - Completed task with results
    */
-  async runAgent(agentName: string, input: any): Promise<AITask> {
+  async runAgent(agentName: string, input: any, onDelta?: DeltaHandler, context?: AITaskContext): Promise<AITask> {
     // Validate agent name
     if (!agentName || agentName.trim() === '') {
       throw new Error('Agent name is required');
@@ -31,10 +37,13 @@ export class AIAgentService {
     // Route to appropriate agent
     switch (agentName) {
       case 'DocumentAnalyzer':
-        return await this.documentAnalyzer.runTask(TaskType.ANALYZE_DOCUMENT, input);
+        return await this.documentAnalyzer.runTask(TaskType.ANALYZE_DOCUMENT, input, undefined, context);
 
       case 'PlaceholderExtractor':
-        return await this.placeholderExtractor.runTask(TaskType.EXTRACT_PLACEHOLDERS, input);
+        return await this.placeholderExtractor.runTask(TaskType.EXTRACT_PLACEHOLDERS, input, undefined, context);
+
+      case 'ConversationalAssistant':
+        return await this.conversationalAssistant.runTask(TaskType.ASSIST_CONVERSATION, input, onDelta, context);
 
       default:
         throw new Error(`Unknown agent: ${agentName}`);
@@ -0,0 +1,285 @@
+import { config } from '../config/app';
+import { db } from '../config/knex';
+import { logger } from '../utils/logger';
+
+export type BudgetScope = 'user' | 'organization';
+
+export interface AIBudget {
+  id: string;
+  scope: BudgetScope;
+  userId?: string;
+  organization?: string;
+  monthlyTokenLimit?: number;
+  monthlyCostLimit?: number;   // USD
+  updatedBy?: string;
+  updatedAt: Date;
+}
+
+export interface AIBudgetStatus extends AIBudget {
+  period: string;              // YYYY-MM, UTC
+  tokensUsed: number;
+  costUsed: number;
+  usedFraction: number;        // Of the limit closest to being used up; 1 or more is exhausted
+}
+
+export interface AIBudgetInput {
+  scope: BudgetScope;
+  userId?: string;
+  organization?: string;
+  monthlyTokenLimit?: number | null;
+  monthlyCostLimit?: number | null;
+}
+
+/**
+ * Thrown instead of running an AI task once a budget is used up
+ * Carries its status and code, so errorHandler answers 429 QUOTA_EXCEEDED
+ * wherever it is thrown from.
+ */
+export class QuotaExceededError extends Error {
+  public readonly statusCode = 429;
+  public readonly code = 'QUOTA_EXCEEDED';
+  public readonly budget: AIBudgetStatus;
+
+  constructor(budget: AIBudgetStatus) {
+    const owner = budget.scope === 'user' ? 'your account' : `organization ${budget.organization}`;
+    const used = budget.monthlyTokenLimit !== undefined && budget.tokensUsed >= budget.monthlyTokenLimit
+      ? `${budget.tokensUsed} of ${budget.monthlyTokenLimit} tokens`
+      : `$${budget.costUsed.toFixed(2)} of $${budget.monthlyCostLimit?.toFixed(2)}`;
+
+    super(`The monthly AI budget for ${owner} is used up (${used}); it resets at the start of next month`);
+    this.name = 'QuotaExceededError';
+    this.budget = budget;
+  }
+}
+
+/**
+ * AIBudgetService
+ * Monthly token and cost limits on AI tasks, per user and per organization.
+ * A user's tasks count against their own budget and their organization's;
+ * tasks run without a user are not limited. Budgets are checked before a task
+ * runs, so the task that crosses a limit still completes and the next one is
+ * refused. Each warning threshold (AI_BUDGET_WARNING_THRESHOLDS) is logged once
+ * per budget and month.
+ */
+export class AIBudgetService {
+  /**
+   * Refuse to run an AI task for a user who is over budget
+   * @param userId - ID of the user the task would run for
+   * @throws QuotaExceededError - If the user's or their organization's budget is used up
+   */
+  async checkBudget(userId: string): Promise<void> {
+    const user = await db('users')
+      .where({ id: userId })
+      .first();
+
+    const query = db('ai_budgets')
+      .where({ scope: 'user', user_id: userId });
+
+    if (user?.organization) {
+      query.orWhere({ scope: 'organization', organization: user.organization });
+    }
+
+    // The user's own budget first
+    const rows = await query.orderBy('scope', 'desc');
+
+    for (const row of rows) {
+      const status = await this.getStatus(row);
+
+      if (status.usedFraction >= 1) {
+        logger.warn('AI task refused: budget used up', { userId, budgetId: row.id, period: status.period });
+        throw new QuotaExceededError(status);
+      }
+
+      await this.warnAtThresholds(row, status);
+    }
+  }
+
+  /**
+   * List every budget with its use this month
+   * @returns Promise<AIBudgetStatus[]>
+   */
+  async listBudgets(): Promise<AIBudgetStatus[]> {
+    const rows = await db('ai_budgets')
+      .orderBy('created_at', 'asc');
+
+    return Promise.all(rows.map((row: any) => this.getStatus(row)));
+  }
+
+  /**
+   * Create or replace the budget of a user or organization
+   * Changing the limits starts the month's warnings over.
+   * @param input - Who the budget is for and its limits; a missing limit means none
+   * @param adminId - ID of the admin setting it
+   * @returns Promise<AIBudgetStatus>
+   */
+  async setBudget(input: AIBudgetInput, adminId: string): Promise<AIBudgetStatus> {
+    const monthlyTokenLimit = input.monthlyTokenLimit ?? null;
+    const monthlyCostLimit = input.monthlyCostLimit ?? null;
+
+    if (monthlyTokenLimit === null && monthlyCostLimit === null) {
+      throw new Error('A token or cost limit is required');
+    }
+    if (monthlyTokenLimit !== null && !(Number.isInteger(monthlyTokenLimit) && monthlyTokenLimit >= 0)) {
+      throw new Error('Invalid limit');
+    }
+    if (monthlyCostLimit !== null && !(Number.isFinite(monthlyCostLimit) && monthlyCostLimit >= 0)) {
+      throw new Error('Invalid limit');
+    }
+
+    let owner: { user_id: string } | { organization: string };
+    if (input.scope === 'user') {
+      const user = input.userId && await db('users')
+        .where({ id: input.userId })
+        .first();
+
+      if (!user) {
+        throw new Error('User not found');
+      }
+      owner = { user_id: user.id };
+    } else if (input.scope === 'organization') {
+      if (!input.organization?.trim()) {
+        throw new Error('Organization is required');
+      }
+      owner = { organization: input.organization.trim() };
+    } else {
+      throw new Error('Invalid budget scope');
+    }
+
+    const values = {
+      monthly_token_limit: monthlyTokenLimit,
+      monthly_cost_limit: monthlyCostLimit,
+      warned_threshold: null,
+      warned_period: null,
+      updated_by: adminId,
+      updated_at: new Date(),
+    };
+
+    const existing = await db('ai_budgets')
+      .where(owner)
+      .first();
+
+    const [row] = existing
+      ? await db('ai_budgets')
+        .where({ id: existing.id })
+        .update(values)
+        .returning('*')
+      : await db('ai_budgets')
+        .insert({ scope: input.scope, ...owner, ...values })
+        .returning('*');
+
+    logger.info('AI budget set', { budgetId: row.id, scope: input.scope, ...owner, monthlyTokenLimit, monthlyCostLimit, adminId });
+
+    return this.getStatus(row);
+  }
+
+  /**
+   * Remove a budget, lifting its limits
+   * @param budgetId - ID of the budget
+   */
+  async deleteBudget(budgetId: string): Promise<void> {
+    const deleted = await db('ai_budgets')
+      .where({ id: budgetId })
+      .del();
+
+    if (!deleted) {
+      throw new Error('Budget not found');
+    }
+
+    logger.info('AI budget removed', { budgetId });
+  }
+
+  /**
+   * Add this month's usage to a budget
+   * @private
+   */
+  private async getStatus(row: any): Promise<AIBudgetStatus> {
+    const now = new Date();
+    const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+    const query = db('ai_tasks')
+      .where('ai_tasks.created_at', '>=', periodStart);
+
+    if (row.scope === 'user') {
+      query.where('ai_tasks.user_id', row.user_id);
+    } else {
+      query
+        .join('users', 'ai_tasks.user_id', 'users.id')
+        .where('users.organization', row.organization);
+    }
+
+    const usage = await query
+      .select(
+        db.raw('COALESCE(SUM(ai_tasks.tokens_used), 0) AS tokens'),
+        db.raw('COALESCE(SUM(ai_tasks.cost), 0) AS cost')
+      )
+      .first();
+
+    const budget = this.mapRowToBudget(row);
+    const tokensUsed = parseInt(usage?.tokens || '0', 10);
+    const costUsed = parseFloat(usage?.cost || '0');
+
+    // A zero limit is used up from the start
+    const fraction = (used: number, limit?: number) =>
+      limit === undefined ? 0 : limit === 0 ? 1 : used / limit;
+
+    return {
+      ...budget,
+      period: periodStart.toISOString().slice(0, 7),
+      tokensUsed,
+      costUsed,
+      usedFraction: Math.max(fraction(tokensUsed, budget.monthlyTokenLimit), fraction(costUsed, budget.monthlyCostLimit)),
+    };
+  }
+
+  /**
+   * Log the highest warning threshold a budget has reached, once per month
+   * @private
+   */
+  private async warnAtThresholds(row: any, status: AIBudgetStatus): Promise<void> {
+    const reached = config.aiBudgetWarningThresholds.filter(t => t <= status.usedFraction).pop();
+    if (reached === undefined) {
+      return;
+    }
+
+    const warned = row.warned_period === status.period ? row.warned_threshold : null;
+    if (warned !== null && warned >= reached) {
+      return;
+    }
+
+    logger.warn('AI budget threshold reached', {
+      budgetId: status.id,
+      scope: status.scope,
+      userId: status.userId,
+      organization: status.organization,
+      threshold: reached,
+      tokensUsed: status.tokensUsed,
+      costUsed: status.costUsed,
+      period: status.period,
+    });
+
+    await db('ai_budgets')
+      .where({ id: status.id })
+      .update({ warned_threshold: reached, warned_period: status.period });
+  }
+
+  /**
+   * Map database row to AIBudget
+   * @private
+   */
+  private mapRowToBudget(row: any): AIBudget {
+    return {
+      id: row.id,
+      scope: row.scope,
+      userId: row.user_id || undefined,
+      organization: row.organization || undefined,
+      monthlyTokenLimit: row.monthly_token_limit ?? undefined,
+      monthlyCostLimit: row.monthly_cost_limit !== null && row.monthly_cost_limit !== undefined
+        ? parseFloat(row.monthly_cost_limit)
+        : undefined,
+      updatedBy: row.updated_by || undefined,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const aiBudgetService = new AIBudgetService();
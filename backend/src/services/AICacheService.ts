@@ -0,0 +1,118 @@
+import { createHash } from 'crypto';
+import { config } from '../config/app';
+import { db } from '../config/knex';
+import { logger } from '../utils/logger';
+
+export interface AICacheEntry {
+  agent: string;
+  model: string;
+  promptVersion: string;
+  output: any;
+}
+
+/**
+ * AICacheService
+ * Agent output stored by a hash of the agent, model, prompt version and input,
+ * so an identical call (re-analyzing an unchanged document, the same data room
+ * file twice) is answered without calling the LLM again. Entries live for
+ * AI_CACHE_TTL_HOURS. The cache only saves money: when it can't be read or
+ * written, the agent simply runs.
+ */
+export class AICacheService {
+  /**
+   * Whether an agent's output may be cached
+   * @param agent - Name of the agent
+   * @returns boolean
+   */
+  isEnabledFor(agent: string): boolean {
+    return config.aiCacheTtlHours > 0 && !config.aiCacheDisabledAgents.includes(agent);
+  }
+
+  /**
+   * Build the cache key of an agent call
+   * Object keys are sorted, so inputs differing only in key order share a key.
+   * The whole input is hashed, IDs included, unless the agent names top-level
+   * keys its prompt and output do not depend on (e.g. DocumentAnalyzer's
+   * documentId), so the same text uploaded as a new document shares its key.
+   * @param ignoredKeys - Top-level input keys left out of the key
+   * @returns SHA-256 of the agent, model, prompt version and input, in hex
+   */
+  buildKey(agent: string, model: string, promptVersion: string, input: any, ignoredKeys: string[] = []): string {
+    return createHash('sha256')
+      .update(canonicalJson({ agent, model, promptVersion, input: without(input, ignoredKeys) }))
+      .digest('hex');
+  }
+
+  /**
+   * Get the cached output of a call
+   * @param key - Cache key from buildKey
+   * @returns The output, or undefined if not cached or expired
+   */
+  async get(key: string): Promise<any | undefined> {
+    try {
+      const row = await db('ai_cache')
+        .where({ cache_key: key })
+        .where('expires_at', '>', new Date())
+        .first();
+
+      return row ? row.output_data : undefined;
+    } catch (error) {
+      logger.warn('AI cache lookup failed', { error, key });
+      return undefined;
+    }
+  }
+
+  /**
+   * Cache the output of a call, replacing any earlier entry
+   * Expired entries are removed at the same time.
+   * @param key - Cache key from buildKey
+   * @param entry - The call and its output
+   */
+  async set(key: string, entry: AICacheEntry): Promise<void> {
+    const now = new Date();
+
+    try {
+      await db('ai_cache')
+        .insert({
+          cache_key: key,
+          agent_name: entry.agent,
+          model: entry.model,
+          prompt_version: entry.promptVersion,
+          output_data: JSON.stringify(entry.output),
+          created_at: now,
+          expires_at: new Date(now.getTime() + config.aiCacheTtlHours * 60 * 60 * 1000),
+        })
+        .onConflict('cache_key')
+        .merge();
+
+      await db('ai_cache')
+        .where('expires_at', '<=', now)
+        .del();
+    } catch (error) {
+      logger.warn('AI cache write failed', { error, key, agent: entry.agent });
+    }
+  }
+}
+
+function without(input: any, keys: string[]): any {
+  if (keys.length === 0 || !input || typeof input !== 'object' || Array.isArray(input)) {
+    return input;
+  }
+  return Object.fromEntries(Object.entries(input).filter(([key]) => !keys.includes(key)));
+}
+
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export const aiCacheService = new AICacheService();
@@ -70,6 +70,34 @@ export interface TimelineEvent {
   documentType: string;
 }
 
+export interface AIUsageTotals {
+  tasks: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;             // USD
+  cacheHits: number;        // Tasks answered from the AI cache
+  cacheHitRate: number;     // Cache hits per task, 0-1
+}
+
+export interface AIUsageOptions {
+  from?: Date;              // Inclusive; defaults to 30 days before `to`
+  to?: Date;                // Exclusive; defaults to now
+  allUsers?: boolean;       // Include every user's tasks, not just the caller's
+}
+
+export interface AIUsageReport {
+  from: Date;
+  to: Date;
+  totals: AIUsageTotals;
+  byAgent: Array<AIUsageTotals & { agent: string }>;
+  byModel: Array<AIUsageTotals & { model: string }>;
+  byUser: Array<AIUsageTotals & { userId: string | null; name: string | null; email: string | null }>;  // null: not attributed to a user
+  byDay: Array<AIUsageTotals & { day: string }>;  // YYYY-MM-DD, UTC
+}
+
+const AI_USAGE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
 /**
  * AnalyticsService
  * Generates business intelligence and insights
@@ -115,7 +143,7 @@ export class AnalyticsService {
           db.raw('COUNT(filled_value) as filled')
         )
         .join('documents', 'placeholders.document_id', 'documents.id')
-        .where({ 'documents.user_id': userId })
+        .where({ 'documents.user_id': userId, 'placeholders.stale': false })
         .first();
 
       // Get average health score
@@ -230,7 +258,7 @@ export class AnalyticsService {
       if (insights.length === 0) {
         try {
           const placeholders = await db('placeholders')
-            .where({ document_id: documentId });
+            .where({ document_id: documentId, stale: false });
 
           const insightsTask = await this.aiAgentService.runAgent('InsightsEngine', {
             documentId,
@@ -386,6 +414,88 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Get the token usage and cost of AI tasks, broken down by agent, model, user and day
+   * Tasks recorded before usage was tracked count with zero tokens. Cache hits
+   * count as tasks without tokens or cost.
+   * @param userId - ID of the user asking
+   * @param options - Time range, and whether to include every user's tasks
+   * @returns Promise<AIUsageReport>
+   */
+  async getAIUsage(userId: string, options: AIUsageOptions = {}): Promise<AIUsageReport> {
+    const to = options.to || new Date();
+    const from = options.from || new Date(to.getTime() - AI_USAGE_WINDOW_MS);
+
+    if (from >= to) {
+      throw new Error('Invalid date range');
+    }
+
+    const tasks = () => {
+      const query = db('ai_tasks')
+        .join('ai_agents', 'ai_tasks.agent_id', 'ai_agents.id')
+        .leftJoin('users', 'ai_tasks.user_id', 'users.id')
+        .where('ai_tasks.created_at', '>=', from)
+        .where('ai_tasks.created_at', '<', to);
+
+      if (!options.allUsers) {
+        query.where('ai_tasks.user_id', userId);
+      }
+
+      return query;
+    };
+
+    const usageColumns = [
+      db.raw('COUNT(*) AS tasks'),
+      db.raw('COALESCE(SUM(ai_tasks.prompt_tokens), 0) AS prompt_tokens'),
+      db.raw('COALESCE(SUM(ai_tasks.completion_tokens), 0) AS completion_tokens'),
+      db.raw('COALESCE(SUM(ai_tasks.tokens_used), 0) AS total_tokens'),
+      db.raw('COALESCE(SUM(ai_tasks.cost), 0) AS cost'),
+      db.raw('COUNT(*) FILTER (WHERE ai_tasks.cache_hit) AS cache_hits'),
+    ];
+    // Tasks recorded before the model was stored used the agent's model
+    const model = 'COALESCE(ai_tasks.model, ai_agents.model)';
+    const day = "to_char(ai_tasks.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD')";
+
+    const totals = await tasks().select(usageColumns).first();
+
+    const byAgent = await tasks()
+      .select('ai_agents.name as agent', ...usageColumns)
+      .groupBy('ai_agents.name')
+      .orderBy('cost', 'desc');
+
+    const byModel = await tasks()
+      .select(db.raw(`${model} AS model`), ...usageColumns)
+      .groupBy(db.raw(model))
+      .orderBy('cost', 'desc');
+
+    const byUser = await tasks()
+      .select('ai_tasks.user_id', 'users.full_name', 'users.email', ...usageColumns)
+      .groupBy('ai_tasks.user_id', 'users.full_name', 'users.email')
+      .orderBy('cost', 'desc');
+
+    const byDay = await tasks()
+      .select(db.raw(`${day} AS day`), ...usageColumns)
+      .groupBy(db.raw(day))
+      .orderBy('day', 'asc');
+
+    logger.info('AI usage report generated', { userId, allUsers: !!options.allUsers, from, to });
+
+    return {
+      from,
+      to,
+      totals: this.mapUsageRow(totals),
+      byAgent: byAgent.map((row: any) => ({ agent: row.agent, ...this.mapUsageRow(row) })),
+      byModel: byModel.map((row: any) => ({ model: row.model, ...this.mapUsageRow(row) })),
+      byUser: byUser.map((row: any) => ({
+        userId: row.user_id,
+        name: row.full_name,
+        email: row.email,
+        ...this.mapUsageRow(row),
+      })),
+      byDay: byDay.map((row: any) => ({ day: row.day, ...this.mapUsageRow(row) })),
+    };
+  }
+
   /**
    * Get recent activity for a user
    * @private
@@ -456,4 +566,23 @@ export class AnalyticsService {
       return [];
     }
   }
+
+  /**
+   * Postgres returns sums as strings
+   * @private
+   */
+  private mapUsageRow(row: any): AIUsageTotals {
+    const tasks = parseInt(row?.tasks || '0', 10);
+    const cacheHits = parseInt(row?.cache_hits || '0', 10);
+
+    return {
+      tasks,
+      promptTokens: parseInt(row?.prompt_tokens || '0', 10),
+      completionTokens: parseInt(row?.completion_tokens || '0', 10),
+      totalTokens: parseInt(row?.total_tokens || '0', 10),
+      cost: parseFloat(row?.cost || '0'),
+      cacheHits,
+      cacheHitRate: tasks > 0 ? cacheHits / tasks : 0,
+    };
+  }
 }
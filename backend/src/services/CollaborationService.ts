@@ -0,0 +1,264 @@
+import { DocumentSnapshot, VersionChangeType } from '@smartdocs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/app';
+import { logger } from '../utils/logger';
+
+// Request header naming the caller's live channel session, so its own locks do not block it
+export const LIVE_SESSION_HEADER = 'X-Live-Session';
+
+export interface Collaborator {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface PresenceEntry {
+  sessionId: string;
+  user: Collaborator;
+  joinedAt: Date;
+}
+
+export interface FieldLock {
+  placeholderId: string;
+  sessionId: string;         // Connection holding the lock
+  user: Collaborator;
+  expiresAt: Date;
+}
+
+export interface DocumentChange {
+  changeType: VersionChangeType;
+  versionNumber: number;
+  changedBy?: string;        // ID of the user who made the change
+  snapshot: DocumentSnapshot;
+}
+
+/**
+ * Messages sent to everyone connected to a document
+ * - welcome: sent once on connecting, with the connection's session ID
+ * - presence / locks: the full current list, sent whenever it changes
+ * - lock_denied: the field asked for is held by another session
+ * - document_changed: the document's state after a recorded change
+ */
+export type CollaborationMessage =
+  | { type: 'welcome'; sessionId: string; presence: PresenceEntry[]; locks: FieldLock[] }
+  | { type: 'presence'; presence: PresenceEntry[] }
+  | { type: 'locks'; locks: FieldLock[] }
+  | { type: 'lock_denied'; placeholderId: string; lock: FieldLock }
+  | ({ type: 'document_changed' } & Omit<DocumentChange, 'snapshot'> & {
+    status: DocumentSnapshot['status'];
+    completionPercentage: number;
+    placeholders: DocumentSnapshot['placeholders'];
+  })
+  | { type: 'error'; code: string; message: string };
+
+/**
+ * Messages a connection may send
+ */
+export type CollaborationRequest =
+  | { type: 'lock'; placeholderId: string }
+  | { type: 'unlock'; placeholderId: string };
+
+interface Session extends PresenceEntry {
+  documentId: string;
+  send: (message: CollaborationMessage) => void;
+}
+
+/**
+ * CollaborationService
+ * Tracks who is connected to each document and which fields they are editing.
+ * A lock belongs to one connection, so two tabs of the same user do not
+ * overwrite each other either. A connection holds at most one lock; it lasts
+ * until released, the connection closes or it is not renewed within the lock
+ * TTL. Expired locks are dropped when locks are next read.
+ */
+export class CollaborationService {
+  private sessions = new Map<string, Session>();
+  private locks = new Map<string, Map<string, FieldLock>>();  // Document ID -> placeholder ID -> lock
+
+  /**
+   * Connect to a document
+   * @param documentId - ID of the document
+   * @param user - Connecting user
+   * @param send - Delivers a message to this connection
+   * @returns string - Session ID of the connection
+   */
+  join(documentId: string, user: Collaborator, send: (message: CollaborationMessage) => void): string {
+    const sessionId = uuidv4();
+    this.sessions.set(sessionId, { sessionId, documentId, user, joinedAt: new Date(), send });
+
+    logger.info('Collaborator joined document', { documentId, userId: user.id, sessionId });
+
+    send({ type: 'welcome', sessionId, presence: this.getPresence(documentId), locks: this.getLocks(documentId) });
+    this.broadcast(documentId, { type: 'presence', presence: this.getPresence(documentId) }, sessionId);
+
+    return sessionId;
+  }
+
+  /**
+   * Disconnect, releasing the connection's lock
+   * @param sessionId - Session ID of the connection
+   */
+  leave(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    const released = this.releaseLocks(session);
+
+    logger.info('Collaborator left document', { documentId: session.documentId, userId: session.user.id, sessionId });
+
+    this.broadcast(session.documentId, { type: 'presence', presence: this.getPresence(session.documentId) });
+    if (released) {
+      this.broadcast(session.documentId, { type: 'locks', locks: this.getLocks(session.documentId) });
+    }
+  }
+
+  /**
+   * Act on a message from a connection
+   * @param sessionId - Session ID of the connection
+   * @param request - Parsed message
+   */
+  handleRequest(sessionId: string, request: CollaborationRequest): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    if (request.type === 'lock') {
+      this.lockField(session, request.placeholderId);
+    } else if (request.type === 'unlock') {
+      this.unlockField(session, request.placeholderId);
+    }
+  }
+
+  /**
+   * Find a lock on a field held by another connection
+   * A session ID comes from the caller, so a lock only counts as the caller's
+   * own when its session is on the same document and signed in as the caller.
+   * @param documentId - ID of the document
+   * @param placeholderId - ID of the field
+   * @param userId - ID of the caller, if known
+   * @param sessionId - Session ID the caller claims, if it has one
+   * @returns FieldLock | undefined - The lock, unless it is free or the caller's own
+   */
+  findLock(documentId: string, placeholderId: string, userId?: string, sessionId?: string): FieldLock | undefined {
+    const lock = this.getLocks(documentId).find(l => l.placeholderId === placeholderId);
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    const own = !!session && session.documentId === documentId && session.user.id === userId && lock?.sessionId === sessionId;
+
+    return lock && !own ? lock : undefined;
+  }
+
+  /**
+   * Tell everyone connected to a document about a recorded change
+   * @param documentId - ID of the document
+   * @param change - The change and the document's state after it
+   */
+  publishChange(documentId: string, { snapshot, ...change }: DocumentChange): void {
+    this.broadcast(documentId, {
+      type: 'document_changed',
+      ...change,
+      status: snapshot.status,
+      completionPercentage: snapshot.completionPercentage,
+      placeholders: snapshot.placeholders,
+    });
+  }
+
+  /**
+   * Get the connections to a document, oldest first
+   * @param documentId - ID of the document
+   * @returns PresenceEntry[]
+   */
+  getPresence(documentId: string): PresenceEntry[] {
+    return Array.from(this.sessions.values())
+      .filter(s => s.documentId === documentId)
+      .map(({ sessionId, user, joinedAt }) => ({ sessionId, user, joinedAt }));
+  }
+
+  /**
+   * Get the unexpired locks on a document's fields
+   * @param documentId - ID of the document
+   * @returns FieldLock[]
+   */
+  getLocks(documentId: string): FieldLock[] {
+    const locks = this.locks.get(documentId);
+    if (!locks) {
+      return [];
+    }
+
+    const now = Date.now();
+    for (const [placeholderId, lock] of locks) {
+      if (lock.expiresAt.getTime() <= now) {
+        locks.delete(placeholderId);
+      }
+    }
+
+    return Array.from(locks.values());
+  }
+
+  private lockField(session: Session, placeholderId: string): void {
+    const held = this.findLock(session.documentId, placeholderId, session.user.id, session.sessionId);
+    if (held) {
+      session.send({ type: 'lock_denied', placeholderId, lock: held });
+      return;
+    }
+
+    // Taking a field releases any other field the connection was editing
+    this.releaseLocks(session, placeholderId);
+
+    const locks = this.locks.get(session.documentId) || new Map<string, FieldLock>();
+    locks.set(placeholderId, {
+      placeholderId,
+      sessionId: session.sessionId,
+      user: session.user,
+      expiresAt: new Date(Date.now() + config.fieldLockTtlMs),
+    });
+    this.locks.set(session.documentId, locks);
+
+    this.broadcast(session.documentId, { type: 'locks', locks: this.getLocks(session.documentId) });
+  }
+
+  private unlockField(session: Session, placeholderId: string): void {
+    const locks = this.locks.get(session.documentId);
+    if (locks?.get(placeholderId)?.sessionId !== session.sessionId) {
+      return;
+    }
+
+    locks.delete(placeholderId);
+    this.broadcast(session.documentId, { type: 'locks', locks: this.getLocks(session.documentId) });
+  }
+
+  /**
+   * Drop the connection's locks, except on the given field
+   * @returns boolean - Whether any lock was dropped
+   */
+  private releaseLocks(session: Session, keep?: string): boolean {
+    const locks = this.locks.get(session.documentId);
+    let released = false;
+
+    for (const [placeholderId, lock] of locks || []) {
+      if (lock.sessionId === session.sessionId && placeholderId !== keep) {
+        locks!.delete(placeholderId);
+        released = true;
+      }
+    }
+
+    if (locks?.size === 0) {
+      this.locks.delete(session.documentId);
+    }
+
+    return released;
+  }
+
+  private broadcast(documentId: string, message: CollaborationMessage, exceptSessionId?: string): void {
+    for (const session of this.sessions.values()) {
+      if (session.documentId === documentId && session.sessionId !== exceptSessionId) {
+        session.send(message);
+      }
+    }
+  }
+}
+
+export const collaborationService = new CollaborationService();
@@ -0,0 +1,368 @@
+import path from 'path';
+import { db } from '../config/knex';
+import { logger } from '../utils/logger';
+import { FilledDocumentFile } from './DocumentService';
+
+export const TRANSCRIPT_FORMATS = ['markdown', 'json'] as const;
+
+export type TranscriptFormat = typeof TRANSCRIPT_FORMATS[number];
+
+/**
+ * How an answer set a field's value
+ * - typed: the value was taken from the user's answer
+ * - confirmed: the user confirmed a value the assistant asked about
+ * - suggestion: the user picked a data room suggestion
+ * - command: the user changed the field with a command ("change X to Y")
+ */
+export type TranscriptMethod = 'typed' | 'confirmed' | 'suggestion' | 'command';
+
+export interface TranscriptUser {
+  id: string;
+  name?: string;
+  email?: string;
+}
+
+export interface TranscriptEntry {
+  conversationId: string;
+  prompt?: {
+    content: string;
+    timestamp: Date;
+  };
+  answer: {
+    content: string;
+    timestamp: Date;
+    user: TranscriptUser;
+  };
+  savedValue?: string;       // Value the answer saved for the field, if any
+  method?: TranscriptMethod;
+  aiConfidence?: number;     // Confidence of the value the assistant read from the answer
+  suggestion?: {
+    source: string;
+    confidence: number;
+    sourceDocumentId?: string;
+  };
+}
+
+export interface TranscriptField {
+  placeholderId: string;
+  fieldName: string;
+  fieldType: string;
+  value?: string;
+  validationStatus: string;
+  occurrences: number;       // Places the field appears in the document
+  filledAt?: Date;
+  filledBy?: TranscriptUser;
+  history: TranscriptEntry[];
+}
+
+export interface AuditTranscript {
+  document: {
+    id: string;
+    filename: string;
+    status: string;
+    documentType?: string;
+  };
+  generatedAt: Date;
+  conversations: Array<{
+    id: string;
+    status: string;
+    user: TranscriptUser;
+    startedAt: Date;
+    completedAt?: Date;
+  }>;
+  fields: TranscriptField[];
+}
+
+// A user message with the prompt it answered
+interface Answer {
+  placeholderId?: string;    // Field the user was asked about
+  metadata: Record<string, any>;
+  suggestions: any[];        // Suggestions offered with the prompt
+  entry: Pick<TranscriptEntry, 'conversationId' | 'prompt' | 'answer'>;
+}
+
+/**
+ * ConversationAuditService
+ * Builds a record of how each field of a document got its value from the
+ * document's filling conversations: the prompt, the answer, what was accepted,
+ * when and by whom.
+ */
+export class ConversationAuditService {
+  /**
+   * Get the audit transcript of a document
+   * @param documentId - ID of the document
+   * @param userId - ID of the user requesting the transcript
+   * @returns Promise<AuditTranscript> - Fields in document order with their history
+   */
+  async getTranscript(documentId: string, userId: string): Promise<AuditTranscript> {
+    const dbDocument = await db('documents')
+      .where({ id: documentId, user_id: userId })
+      .first();
+
+    if (!dbDocument) {
+      throw new Error('Document not found');
+    }
+
+    const dbConversations = await db('conversations')
+      .leftJoin('users', 'conversations.user_id', 'users.id')
+      .where({ 'conversations.document_id': documentId })
+      .select('conversations.*', 'users.full_name as user_name', 'users.email as user_email')
+      .orderBy('conversations.started_at', 'asc');
+
+    const dbMessages = dbConversations.length > 0
+      ? await db('conversation_messages')
+        .whereIn('conversation_id', dbConversations.map((c: any) => c.id))
+        .orderBy('sequence', 'asc')
+      : [];
+
+    const dbPlaceholders = await db('placeholders')
+      .leftJoin('users', 'placeholders.filled_by', 'users.id')
+      .where({ 'placeholders.document_id': documentId, 'placeholders.stale': false })
+      .select('placeholders.*', 'users.full_name as filled_by_name', 'users.email as filled_by_email')
+      .orderBy('placeholders.position', 'asc');
+
+    const actors = new Map<string, TranscriptUser>(dbConversations.map((c: any) => [
+      c.id,
+      { id: c.user_id, name: c.user_name || undefined, email: c.user_email || undefined },
+    ]));
+    const answers = this.pairAnswers(dbConversations, dbMessages, actors);
+
+    const fields = dbPlaceholders
+      .filter((p: any) => !p.linked_to)
+      .map((p: any): TranscriptField => ({
+        placeholderId: p.id,
+        fieldName: p.field_name,
+        fieldType: p.field_type,
+        value: p.filled_value || undefined,
+        validationStatus: p.validation_status,
+        occurrences: 1 + dbPlaceholders.filter((o: any) => o.linked_to === p.id).length,
+        filledAt: p.filled_at ? new Date(p.filled_at) : undefined,
+        filledBy: p.filled_by
+          ? { id: p.filled_by, name: p.filled_by_name || undefined, email: p.filled_by_email || undefined }
+          : undefined,
+        history: answers
+          .filter(a => a.placeholderId === p.id || this.savedValue(a, p.id) !== undefined)
+          .map(a => this.toEntry(a, p.id)),
+      }));
+
+    return {
+      document: {
+        id: dbDocument.id,
+        filename: dbDocument.filename,
+        status: dbDocument.status,
+        documentType: dbDocument.document_type || undefined,
+      },
+      generatedAt: new Date(),
+      conversations: dbConversations.map((c: any) => ({
+        id: c.id,
+        status: c.status,
+        user: actors.get(c.id)!,
+        startedAt: new Date(c.started_at),
+        completedAt: c.completed_at ? new Date(c.completed_at) : undefined,
+      })),
+      fields,
+    };
+  }
+
+  /**
+   * Export the audit transcript of a document as a file
+   * @param documentId - ID of the document
+   * @param userId - ID of the user requesting the export
+   * @param format - markdown or json
+   * @returns Promise<FilledDocumentFile> - Export filename and contents
+   */
+  async exportTranscript(documentId: string, userId: string, format: TranscriptFormat): Promise<FilledDocumentFile> {
+    if (!TRANSCRIPT_FORMATS.includes(format)) {
+      throw new Error('Unsupported transcript format');
+    }
+
+    const transcript = await this.getTranscript(documentId, userId);
+    const baseName = path.basename(transcript.document.filename, path.extname(transcript.document.filename));
+
+    logger.info('Audit transcript exported', { documentId, format, fields: transcript.fields.length });
+
+    return format === 'json'
+      ? { filename: `${baseName}_transcript.json`, buffer: Buffer.from(JSON.stringify(transcript, null, 2)) }
+      : { filename: `${baseName}_transcript.md`, buffer: Buffer.from(this.formatMarkdown(transcript)) };
+  }
+
+  /**
+   * Pair each user message with the assistant message it answered
+   * @private
+   */
+  private pairAnswers(dbConversations: any[], dbMessages: any[], actors: Map<string, TranscriptUser>): Answer[] {
+    const answers: Answer[] = [];
+
+    for (const conversation of dbConversations) {
+      let prompt: any;
+
+      for (const message of dbMessages.filter(m => m.conversation_id === conversation.id)) {
+        const metadata = this.parseJson(message.metadata) || {};
+
+        if (message.role === 'assistant') {
+          prompt = { message, metadata };
+          continue;
+        }
+
+        answers.push({
+          placeholderId: message.placeholder_id || undefined,
+          metadata,
+          suggestions: prompt?.metadata.suggestions || [],
+          entry: {
+            conversationId: conversation.id,
+            prompt: prompt && { content: prompt.message.content, timestamp: new Date(prompt.message.created_at) },
+            answer: {
+              content: message.content,
+              timestamp: new Date(message.created_at),
+              user: actors.get(conversation.id)!,
+            },
+          },
+        });
+      }
+    }
+
+    return answers;
+  }
+
+  /**
+   * Describe what one answer did to a field
+   * @private
+   */
+  private toEntry(answer: Answer, placeholderId: string): TranscriptEntry {
+    const { entry, metadata, suggestions } = answer;
+    const value = this.savedValue(answer, placeholderId);
+
+    if (value === undefined) {
+      return { ...entry };
+    }
+
+    switch (metadata.intent) {
+      case 'suggestion': {
+        const picked = suggestions.find(s => s.entityValue === metadata.extractedValue);
+        return {
+          ...entry,
+          savedValue: value,
+          method: 'suggestion',
+          suggestion: picked && { source: picked.source, confidence: picked.confidence, sourceDocumentId: picked.sourceDocumentId },
+        };
+      }
+
+      case 'confirm':
+        return { ...entry, savedValue: value, method: 'confirmed' };
+
+      case 'change':
+        return { ...entry, savedValue: value, method: 'command' };
+
+      default:
+        return { ...entry, savedValue: value, method: 'typed', aiConfidence: metadata.confidence };
+    }
+  }
+
+  /**
+   * Render a transcript as Markdown
+   * @private
+   */
+  private formatMarkdown(transcript: AuditTranscript): string {
+    const lines = [
+      `# Filling transcript: ${transcript.document.filename}`,
+      '',
+      `- Document ID: ${transcript.document.id}`,
+      ...(transcript.document.documentType ? [`- Document type: ${transcript.document.documentType}`] : []),
+      `- Status: ${transcript.document.status}`,
+      `- Generated: ${transcript.generatedAt.toISOString()}`,
+      '',
+      '## Conversations',
+      '',
+    ];
+
+    if (transcript.conversations.length === 0) {
+      lines.push('No filling conversations.', '');
+    }
+
+    for (const conversation of transcript.conversations) {
+      const ended = conversation.completedAt ? `, completed ${conversation.completedAt.toISOString()}` : '';
+      lines.push(
+        `- ${conversation.id}: ${this.formatUser(conversation.user)}, started ${conversation.startedAt.toISOString()}${ended} (${conversation.status})`
+      );
+    }
+
+    lines.push('', '## Fields', '');
+
+    for (const field of transcript.fields) {
+      lines.push(`### ${field.fieldName}`, '');
+      lines.push(`- Value: ${field.value !== undefined ? `"${field.value}"` : '(not filled)'}`);
+      lines.push(`- Type: ${field.fieldType}`);
+      lines.push(`- Validation: ${field.validationStatus}`);
+      if (field.occurrences > 1) {
+        lines.push(`- Occurrences: ${field.occurrences}`);
+      }
+      if (field.filledAt) {
+        lines.push(`- Last filled: ${field.filledAt.toISOString()}${field.filledBy ? ` by ${this.formatUser(field.filledBy)}` : ''}`);
+      }
+      lines.push('');
+
+      if (field.history.length === 0) {
+        lines.push(field.value !== undefined ? '_Set outside the filling conversations._' : '_Not discussed._', '');
+        continue;
+      }
+
+      field.history.forEach((entry, index) => {
+        lines.push(`${index + 1}. **Answer** (${entry.answer.timestamp.toISOString()}, ${this.formatUser(entry.answer.user)})`);
+        if (entry.prompt) {
+          lines.push(`   - Prompt (${entry.prompt.timestamp.toISOString()}): ${this.quote(entry.prompt.content)}`);
+        }
+        lines.push(`   - Answer: ${this.quote(entry.answer.content)}`);
+        lines.push(`   - Result: ${this.formatResult(entry)}`);
+      });
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Value an answer saved for a field, as recorded on the user message
+   * @private
+   */
+  private savedValue(answer: Answer, placeholderId: string): string | undefined {
+    return (answer.metadata.saved || []).find((s: any) => s.placeholderId === placeholderId)?.value;
+  }
+
+  private formatResult(entry: TranscriptEntry): string {
+    if (entry.savedValue === undefined) {
+      return 'no value saved';
+    }
+
+    const saved = `saved "${entry.savedValue}"`;
+
+    switch (entry.method) {
+      case 'suggestion':
+        return entry.suggestion
+          ? `${saved} from a suggestion (${entry.suggestion.source}, confidence ${entry.suggestion.confidence})`
+          : `${saved} from a suggestion`;
+      case 'confirmed':
+        return `${saved} after the user confirmed it`;
+      case 'command':
+        return `${saved} with a change command`;
+      default:
+        return entry.aiConfidence !== undefined
+          ? `${saved} as read by the assistant (confidence ${entry.aiConfidence})`
+          : saved;
+    }
+  }
+
+  private formatUser(user: TranscriptUser): string {
+    if (user.name && user.email) {
+      return `${user.name} <${user.email}>`;
+    }
+    return user.name || user.email || user.id;
+  }
+
+  private quote(content: string): string {
+    return content.replace(/\s*\n+\s*/g, ' ').trim();
+  }
+
+  private parseJson(value: any): any {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+}
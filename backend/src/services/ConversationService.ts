@@ -1,13 +1,35 @@
 // backend/src/services/ConversationService.ts
+import { VersionChangeType } from '@smartdocs/common';
+import type { Knex } from 'knex';
 import { v4 as uuidv4 } from 'uuid';
+import { DeltaHandler } from '../agents/BaseAgent';
+import {
+  ConversationalAssistantInput,
+  ConversationalResponse,
+  ExtractedFieldValue,
+} from '../agents/ConversationalAssistant';
+import { config } from '../config/app';
 import { db } from '../config/knex';
+import {
+  ConversationCommand,
+  describeCommand,
+  findFieldByName,
+  parseConversationCommand,
+} from '../utils/conversationCommands';
+import { FieldValidationResult, validateFieldValue } from '../utils/fieldValidation';
 import { logger } from '../utils/logger';
+import { AIAgentService } from './AIAgentService';
+import { QuotaExceededError } from './AIBudgetService';
+import { collaborationService } from './CollaborationService';
+import { DocumentVersionService } from './DocumentVersionService';
+import { EntitySuggestion, KnowledgeGraphService } from './KnowledgeGraphService';
 
 export interface ConversationMessage {
   id: string;
   conversationId: string;
   role: 'user' | 'assistant';
   content: string;
+  placeholderId?: string;  // Placeholder the turn was about
   timestamp: Date;
   metadata?: Record<string, any>;
 }
@@ -16,10 +38,11 @@ export interface Conversation {
   id: string;
   documentId: string;
   userId: string;
-  status: 'active' | 'completed' | 'paused';
+  status: 'active' | 'paused' | 'completed' | 'abandoned';
   currentPlaceholder?: string;
   metadata: Record<string, any>;
   startedAt: Date;
+  updatedAt: Date;
   completedAt?: Date;
 }
 
@@ -28,11 +51,91 @@ export interface StartConversationResult {
   initialMessage: ConversationMessage;
 }
 
+export interface ResumeConversationResult {
+  conversation: Conversation;
+  message: ConversationMessage;
+}
+
+export interface HistoryOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface ConversationHistory {
+  conversation: Conversation;
+  messages: ConversationMessage[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+export interface ReviewField {
+  placeholderId: string;
+  fieldName: string;
+  fieldType: string;
+  value?: string;
+  status: 'filled' | 'skipped' | 'flagged' | 'pending';
+  current: boolean;
+}
+
+// Progress while a message is handled, for streaming clients
+export type ConversationEvent =
+  | { type: 'delta'; text: string }  // Assistant text as it is generated
+  | { type: 'value_captured'; placeholderId: string; fieldName: string; value: string }
+  | { type: 'validation_failed'; placeholderId: string; fieldName: string; value: string; notes?: string }
+  | { type: 'field_advanced'; placeholderId: string; fieldName: string; fieldType: string };
+
+// A value proposed for a field, saved once the user confirms
+interface PendingFieldValue {
+  placeholderId: string;
+  fieldName: string;
+  value: string;
+}
+
+type NewMessage = Pick<ConversationMessage, 'role' | 'content' | 'placeholderId' | 'metadata'>;
+
+// State for handling one user message
+interface Turn {
+  conversation: Conversation;
+  metadata: Record<string, any>;  // Conversation metadata, without any pending confirmations
+  placeholder: any;               // Current placeholder row
+  userMessage: NewMessage;
+  userId: string;
+  emit?: (event: ConversationEvent) => void;
+  liveSession?: string;           // Live channel session of the user, whose own field locks do not apply
+}
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 200;
+
+// Extracted values below this confidence are confirmed before saving
+const CONFIRMATION_THRESHOLD = 0.8;
+
+// Recent messages given to the assistant as context
+const ASSISTANT_CONTEXT_MESSAGES = 20;
+
+const AFFIRMATIVE_PATTERN = /^(y|yes|yep|yeah|correct|confirm(ed)?|that'?s (right|correct)|sounds good|ok(ay)?)[.!]*$/i;
+
 /**
  * ConversationService
  * Manages conversational filling sessions for documents
+ * The conversation works on fields: repeated occurrences of a field are never
+ * asked for, and take the field's value when it is filled.
  */
 export class ConversationService {
+  private aiAgentService: AIAgentService;
+  private versionService: DocumentVersionService;
+  private knowledgeGraphService: KnowledgeGraphService;
+
+  constructor() {
+    this.aiAgentService = new AIAgentService();
+    this.versionService = new DocumentVersionService();
+    this.knowledgeGraphService = new KnowledgeGraphService();
+  }
+
   /**
    * Start a new conversation for filling a document
    * @param documentId - ID of the document to fill
@@ -54,7 +157,7 @@ export class ConversationService {
 
       // Get unfilled placeholders
       const placeholders = await db('placeholders')
-        .where({ document_id: documentId })
+        .where({ document_id: documentId, stale: false, linked_to: null })
         .whereNull('filled_value')
         .orderBy('position', 'asc');
 
@@ -62,53 +165,44 @@ export class ConversationService {
         throw new Error('No placeholders to fill');
       }
 
-      // Create conversation record
-      const conversationId = uuidv4();
-      const conversation: Conversation = {
-        id: conversationId,
-        documentId,
-        userId,
-        status: 'active',
-        currentPlaceholder: placeholders[0].id,
-        metadata: {
-          totalPlaceholders: placeholders.length,
-          filledCount: 0,
-        },
-        startedAt: new Date(),
-      };
-
-      // Store conversation in metadata (we'll use a simple approach for now)
-      await db('documents')
-        .where({ id: documentId })
-        .update({
-          status: 'filling',
-          metadata: db.raw(`
-            jsonb_set(
-              COALESCE(metadata, '{}'::jsonb),
-              '{conversation}',
-              ?::jsonb
-            )
-          `, [JSON.stringify(conversation)])
-        });
-
-      // Generate initial message with examples
       const firstPlaceholder = placeholders[0];
-      const exampleText = this.getExampleForField(firstPlaceholder.field_name, firstPlaceholder.field_type);
-
-      const initialMessage: ConversationMessage = {
-        id: uuidv4(),
-        conversationId,
-        role: 'assistant',
-        content: `Hi! I'll help you fill out this ${document.document_type || 'document'}. I found ${placeholders.length} field${placeholders.length > 1 ? 's' : ''} to complete.\n\nLet's start with: **${firstPlaceholder.field_name}**\n${exampleText}\n\nWhat value should we use?`,
-        timestamp: new Date(),
-        metadata: {
+      const suggestions = await this.suggestionsFor(firstPlaceholder, userId);
+
+      const { conversation, initialMessage } = await db.transaction(async (trx) => {
+        // Earlier conversations on the document are kept
+        const [dbConversation] = await trx('conversations').insert({
+          id: uuidv4(),
+          document_id: documentId,
+          user_id: userId,
+          status: 'active',
+          current_placeholder_id: firstPlaceholder.id,
+          metadata: JSON.stringify(this.withQuickPicks({
+            totalPlaceholders: placeholders.length,
+            filledCount: 0,
+          }, suggestions)),
+        }).returning('*');
+
+        await trx('documents')
+          .where({ id: documentId })
+          .update({ status: 'filling' });
+
+        // Generate initial message with examples
+        const exampleText = this.getExampleForField(firstPlaceholder.field_name, firstPlaceholder.field_type);
+
+        const [message] = await this.saveMessages(trx, dbConversation.id, [{
+          role: 'assistant',
+          content: `Hi! I'll help you fill out this ${document.document_type || 'document'}. I found ${placeholders.length} field${placeholders.length > 1 ? 's' : ''} to complete.\n\nLet's start with: **${firstPlaceholder.field_name}**\n${exampleText}\n\nWhat value should we use?`,
           placeholderId: firstPlaceholder.id,
-          fieldName: firstPlaceholder.field_name,
-          fieldType: firstPlaceholder.field_type,
-        },
-      };
+          metadata: this.promptContext(firstPlaceholder, suggestions),
+        }]);
+
+        return {
+          conversation: this.mapDbConversationToConversation(dbConversation),
+          initialMessage: message,
+        };
+      });
 
-      logger.info('Conversation started successfully', { conversationId });
+      logger.info('Conversation started successfully', { conversationId: conversation.id });
 
       return { conversation, initialMessage };
     } catch (error) {
@@ -119,126 +213,123 @@ export class ConversationService {
 
   /**
    * Send a message in a conversation
+   * Navigation commands (skip, back, go to, change, review) are handled first.
+   * Other messages are interpreted by the ConversationalAssistant: only a value
+   * given for the current field is saved; questions are answered and unclear
+   * answers get a follow-up question, both without moving on. Values the assistant
+   * is unsure of are confirmed with the user before they are saved.
+   * With `onEvent`, the assistant's text is streamed as it is generated and each
+   * captured value, rejected value and change of field is reported as it happens.
    * @param conversationId - ID of the conversation
    * @param userId - ID of the user
    * @param message - Message content
+   * @param onEvent - Optional handler for progress events
+   * @param liveSession - Live channel session of the user, if connected
    * @returns Promise<ConversationMessage> - Assistant's response
    */
   async sendMessage(
     conversationId: string,
     userId: string,
-    message: string
+    message: string,
+    onEvent?: (event: ConversationEvent) => void,
+    liveSession?: string
   ): Promise<ConversationMessage> {
     try {
       logger.info('Processing conversation message', { conversationId, userId });
 
-      // Get conversation from document metadata
-      const document = await db('documents')
-        .where({ user_id: userId })
-        .whereRaw(`metadata->>'conversation' IS NOT NULL`)
-        .whereRaw(`metadata->'conversation'->>'id' = ?`, [conversationId])
-        .first();
-
-      if (!document) {
-        throw new Error('Conversation not found');
-      }
+      const turn = await this.startTurn(conversationId, userId, message);
+      turn.emit = onEvent;
+      turn.liveSession = liveSession;
+      const response = await this.handleMessage(turn, message);
 
-      const conversation = document.metadata.conversation as Conversation;
+      logger.info('Message processed successfully', { conversationId });
 
-      if (conversation.status !== 'active') {
-        throw new Error('Conversation is not active');
-      }
+      return response;
+    } catch (error) {
+      logger.error('Error processing message', { error, conversationId, userId });
+      throw error;
+    }
+  }
 
-      // Get current placeholder
-      const currentPlaceholder = await db('placeholders')
-        .where({ id: conversation.currentPlaceholder })
-        .first();
+  /**
+   * Run a navigation command, as if the user had typed it
+   * @param conversationId - ID of the conversation
+   * @param userId - ID of the user
+   * @param command - Command to run
+   * @param liveSession - Live channel session of the user, if connected
+   * @returns Promise<ConversationMessage> - Assistant's response
+   */
+  async performAction(
+    conversationId: string,
+    userId: string,
+    command: ConversationCommand,
+    liveSession?: string
+  ): Promise<ConversationMessage> {
+    try {
+      logger.info('Performing conversation action', { conversationId, userId, action: command.action });
 
-      if (!currentPlaceholder) {
-        throw new Error('Current placeholder not found');
-      }
+      const turn = await this.startTurn(conversationId, userId, describeCommand(command));
+      turn.liveSession = liveSession;
 
-      // Fill the placeholder with the user's message
-      await this.fillPlaceholder(document.id, currentPlaceholder.id, message, userId);
+      return await this.runCommand(turn, command);
+    } catch (error) {
+      logger.error('Error performing conversation action', { error, conversationId, userId });
+      throw error;
+    }
+  }
 
-      // Get next unfilled placeholder
-      const nextPlaceholder = await db('placeholders')
-        .where({ document_id: document.id })
-        .whereNull('filled_value')
-        .orderBy('position', 'asc')
-        .first();
+  /**
+   * Get every field of the conversation's document with its value and status
+   * @param conversationId - ID of the conversation
+   * @param userId - ID of the user
+   * @returns Promise<ReviewField[]> - Fields in document order
+   */
+  async getReview(conversationId: string, userId: string): Promise<ReviewField[]> {
+    try {
+      const conversation = await this.findConversation(conversationId, userId);
 
-      let responseContent: string;
-      let updatedConversation = conversation;
-
-      if (nextPlaceholder) {
-        // Move to next placeholder
-        const exampleText = this.getExampleForField(nextPlaceholder.field_name, nextPlaceholder.field_type);
-        responseContent = `Great! I've recorded "**${message}**" for **${currentPlaceholder.field_name}**.\n\nNow, let's fill in: **${nextPlaceholder.field_name}**\n${exampleText}\n\nWhat value should we use?`;
-
-        updatedConversation = {
-          ...conversation,
-          currentPlaceholder: nextPlaceholder.id,
-          metadata: {
-            ...conversation.metadata,
-            filledCount: (conversation.metadata.filledCount || 0) + 1,
-          },
-        };
-      } else {
-        // Conversation complete
-        responseContent = `Perfect! I've recorded "${message}" for ${currentPlaceholder.field_name}. That was the last field. Your document is now complete!`;
+      return await this.reviewFields(conversation);
+    } catch (error) {
+      logger.error('Error building conversation review', { error, conversationId, userId });
+      throw error;
+    }
+  }
 
-        updatedConversation = {
-          ...conversation,
-          status: 'completed',
-          currentPlaceholder: undefined,
-          completedAt: new Date(),
-          metadata: {
-            ...conversation.metadata,
-            filledCount: conversation.metadata.totalPlaceholders,
-          },
-        };
+  /**
+   * Get the conversations held on a document, newest first
+   * @param documentId - ID of the document
+   * @param userId - ID of the user
+   * @returns Promise<Conversation[]> - Active and past conversations
+   */
+  async getConversations(documentId: string, userId: string): Promise<Conversation[]> {
+    try {
+      const document = await db('documents')
+        .where({ id: documentId, user_id: userId })
+        .first();
 
-        // Update document status
-        await db('documents')
-          .where({ id: document.id })
-          .update({
-            status: 'completed',
-            completion_percentage: 100,
-          });
+      if (!document) {
+        throw new Error('Document not found');
       }
 
-      // Update conversation in metadata
-      await db('documents')
-        .where({ id: document.id })
-        .update({
-          metadata: db.raw(`
-            jsonb_set(
-              COALESCE(metadata, '{}'::jsonb),
-              '{conversation}',
-              ?::jsonb
-            )
-          `, [JSON.stringify(updatedConversation)])
-        });
+      const dbConversations = await db('conversations')
+        .where({ document_id: documentId, user_id: userId })
+        .orderBy('started_at', 'desc');
 
-      const response: ConversationMessage = {
-        id: uuidv4(),
-        conversationId,
-        role: 'assistant',
-        content: responseContent,
-        timestamp: new Date(),
-        metadata: nextPlaceholder ? {
-          placeholderId: nextPlaceholder.id,
-          fieldName: nextPlaceholder.field_name,
-          fieldType: nextPlaceholder.field_type,
-        } : {},
-      };
+      const conversations: Conversation[] = dbConversations.map(c => this.mapDbConversationToConversation(c));
+      const idle = conversations.filter(c => this.isIdle(c));
 
-      logger.info('Message processed successfully', { conversationId });
+      if (idle.length > 0) {
+        await db('conversations')
+          .whereIn('id', idle.map(c => c.id))
+          .where({ status: 'active' })
+          .update({ status: 'paused' });
 
-      return response;
+        idle.forEach(c => { c.status = 'paused'; });
+      }
+
+      return conversations;
     } catch (error) {
-      logger.error('Error processing message', { error, conversationId, userId });
+      logger.error('Error fetching conversations', { error, documentId, userId });
       throw error;
     }
   }
@@ -247,27 +338,47 @@ export class ConversationService {
    * Get conversation history
    * @param conversationId - ID of the conversation
    * @param userId - ID of the user
-   * @returns Promise<Conversation> - Conversation with messages
+   * @param options - Page of messages to return, oldest first
+   * @returns Promise<ConversationHistory> - Conversation with a page of its transcript
    */
-  async getConversationHistory(conversationId: string, userId: string): Promise<Conversation> {
+  async getConversationHistory(
+    conversationId: string,
+    userId: string,
+    options: HistoryOptions = {}
+  ): Promise<ConversationHistory> {
     try {
       logger.info('Fetching conversation history', { conversationId, userId });
 
-      const document = await db('documents')
-        .where({ user_id: userId })
-        .whereRaw(`metadata->>'conversation' IS NOT NULL`)
-        .whereRaw(`metadata->'conversation'->>'id' = ?`, [conversationId])
+      const limit = Math.min(options.limit ?? DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT);
+      const offset = options.offset ?? 0;
+
+      const conversation = await this.findConversation(conversationId, userId);
+
+      const count = await db('conversation_messages')
+        .where({ conversation_id: conversationId })
+        .count('* as count')
         .first();
 
-      if (!document) {
-        throw new Error('Conversation not found');
-      }
+      const dbMessages = await db('conversation_messages')
+        .where({ conversation_id: conversationId })
+        .orderBy('sequence', 'asc')
+        .limit(limit)
+        .offset(offset);
 
-      const conversation = document.metadata.conversation as Conversation;
+      const total = parseInt(count?.count as string || '0');
 
-      logger.info('Conversation history retrieved', { conversationId });
+      logger.info('Conversation history retrieved', { conversationId, messageCount: dbMessages.length });
 
-      return conversation;
+      return {
+        conversation,
+        messages: dbMessages.map(m => this.mapDbMessageToMessage(m)),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasMore: offset + dbMessages.length < total,
+        },
+      };
     } catch (error) {
       logger.error('Error fetching conversation history', { error, conversationId, userId });
       throw error;
@@ -276,18 +387,25 @@ export class ConversationService {
 
   /**
    * Fill a placeholder with a value
+   * The value is validated and normalized for the field type. An invalid value
+   * is not stored; the field is flagged with notes explaining why instead.
+   * Filling a field fills its repeated occurrences that follow it; filling one
+   * occurrence overrides the field for that occurrence only.
+   * A field locked on the live channel by another connection cannot be filled.
    * @param documentId - ID of the document
    * @param placeholderId - ID of the placeholder
    * @param value - Value to fill
    * @param userId - ID of the user
-   * @returns Promise<void>
+   * @param liveSession - Live channel session of the user, whose own locks do not apply
+   * @returns Promise<FieldValidationResult> - Validation outcome and the stored (normalized) value
    */
   async fillPlaceholder(
     documentId: string,
     placeholderId: string,
     value: string,
-    userId: string
-  ): Promise<void> {
+    userId: string,
+    liveSession?: string
+  ): Promise<FieldValidationResult> {
     try {
       logger.info('Filling placeholder', { documentId, placeholderId, userId });
 
@@ -300,35 +418,80 @@ export class ConversationService {
         throw new Error('Document not found');
       }
 
-      // Update placeholder
-      await db('placeholders')
+      const placeholder = await db('placeholders')
         .where({ id: placeholderId, document_id: documentId })
-        .update({
-          filled_value: value,
+        .first();
+
+      if (!placeholder) {
+        throw new Error('Placeholder not found');
+      }
+
+      if (collaborationService.findLock(documentId, placeholderId, userId, liveSession)) {
+        throw new Error('Placeholder is locked');
+      }
+
+      const validation = validateFieldValue(placeholder.field_type, value);
+
+      if (!validation.valid) {
+        await db('placeholders')
+          .where({ id: placeholderId, document_id: documentId })
+          .update({
+            validation_status: 'flagged',
+            validation_notes: validation.notes,
+          });
+
+        logger.info('Placeholder value rejected', { placeholderId, fieldType: placeholder.field_type });
+        return validation;
+      }
+
+      // The value, its occurrences, the completion and the version are saved together
+      const completionPercentage = await db.transaction(async (trx) => {
+        const changes = {
+          filled_value: validation.value,
+          filled_by: userId,
+          filled_at: trx.fn.now(),
           validation_status: 'validated',
-        });
+          validation_notes: null,
+        };
 
-      // Update document completion percentage
-      const totalPlaceholders = await db('placeholders')
-        .where({ document_id: documentId })
-        .count('* as count')
-        .first();
+        // Update placeholder and the repeated occurrences that follow it. A value
+        // given for one occurrence overrides its field, as when edited directly.
+        await trx('placeholders')
+          .where({ id: placeholderId, document_id: documentId })
+          .update(placeholder.linked_to ? { ...changes, value_override: true } : changes);
 
-      const filledPlaceholders = await db('placeholders')
-        .where({ document_id: documentId })
-        .whereNotNull('filled_value')
-        .count('* as count')
-        .first();
+        await trx('placeholders')
+          .where({ linked_to: placeholderId, value_override: false })
+          .update(changes);
 
-      const total = parseInt(totalPlaceholders?.count as string || '0');
-      const filled = parseInt(filledPlaceholders?.count as string || '0');
-      const completionPercentage = total > 0 ? Math.round((filled / total) * 100) : 0;
+        // Update document completion percentage (stale placeholders are no longer in the document)
+        const totalPlaceholders = await trx('placeholders')
+          .where({ document_id: documentId, stale: false })
+          .count('* as count')
+          .first();
 
-      await db('documents')
-        .where({ id: documentId })
-        .update({ completion_percentage: completionPercentage });
+        const filledPlaceholders = await trx('placeholders')
+          .where({ document_id: documentId, stale: false })
+          .whereNotNull('filled_value')
+          .count('* as count')
+          .first();
+
+        const total = parseInt(totalPlaceholders?.count as string || '0');
+        const filled = parseInt(filledPlaceholders?.count as string || '0');
+        const percentage = total > 0 ? Math.round((filled / total) * 100) : 0;
+
+        await trx('documents')
+          .where({ id: documentId })
+          .update({ completion_percentage: percentage });
+
+        await this.versionService.recordVersion(documentId, VersionChangeType.FILL, userId, trx);
+
+        return percentage;
+      });
 
       logger.info('Placeholder filled successfully', { placeholderId, completionPercentage });
+
+      return validation;
     } catch (error) {
       logger.error('Error filling placeholder', { error, placeholderId, userId });
       throw error;
@@ -345,37 +508,23 @@ export class ConversationService {
     try {
       logger.info('Completing conversation', { conversationId, userId });
 
-      const document = await db('documents')
-        .where({ user_id: userId })
-        .whereRaw(`metadata->>'conversation' IS NOT NULL`)
-        .whereRaw(`metadata->'conversation'->>'id' = ?`, [conversationId])
-        .first();
-
-      if (!document) {
-        throw new Error('Conversation not found');
-      }
-
-      const conversation = document.metadata.conversation as Conversation;
-
-      const updatedConversation = {
-        ...conversation,
-        status: 'completed',
-        completedAt: new Date(),
-      };
+      const conversation = await this.findConversation(conversationId, userId);
 
-      await db('documents')
-        .where({ id: document.id })
+      await db('conversations')
+        .where({ id: conversationId })
         .update({
           status: 'completed',
-          metadata: db.raw(`
-            jsonb_set(
-              COALESCE(metadata, '{}'::jsonb),
-              '{conversation}',
-              ?::jsonb
-            )
-          `, [JSON.stringify(updatedConversation)])
+          current_placeholder_id: null,
+          updated_at: db.fn.now(),
+          completed_at: db.fn.now(),
         });
 
+      await db('documents')
+        .where({ id: conversation.documentId })
+        .update({ status: 'completed' });
+
+      await this.versionService.recordVersion(conversation.documentId, VersionChangeType.COMPLETION, userId);
+
       logger.info('Conversation completed successfully', { conversationId });
     } catch (error) {
       logger.error('Error completing conversation', { error, conversationId, userId });
@@ -383,6 +532,1103 @@ export class ConversationService {
     }
   }
 
+  /**
+   * Pause a conversation so it can be resumed later
+   * Pausing a paused conversation does nothing.
+   * @param conversationId - ID of the conversation
+   * @param userId - ID of the user
+   * @returns Promise<Conversation> - The paused conversation
+   */
+  async pauseConversation(conversationId: string, userId: string): Promise<Conversation> {
+    try {
+      logger.info('Pausing conversation', { conversationId, userId });
+
+      const conversation = await this.findConversation(conversationId, userId);
+
+      if (conversation.status === 'paused') {
+        return conversation;
+      }
+
+      if (conversation.status !== 'active') {
+        throw new Error('Conversation is not active');
+      }
+
+      const [dbConversation] = await db('conversations')
+        .where({ id: conversationId })
+        .update({ status: 'paused', updated_at: db.fn.now() })
+        .returning('*');
+
+      logger.info('Conversation paused successfully', { conversationId });
+
+      return this.mapDbConversationToConversation(dbConversation);
+    } catch (error) {
+      logger.error('Error pausing conversation', { error, conversationId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Resume a paused conversation where it left off
+   * The field the conversation was on is asked again; if it has since been
+   * removed, the next open field is. Values waiting for confirmation are
+   * dropped and have to be given again.
+   * @param conversationId - ID of the conversation
+   * @param userId - ID of the user
+   * @returns Promise<ResumeConversationResult> - Conversation and the message asking for its field
+   */
+  async resumeConversation(conversationId: string, userId: string): Promise<ResumeConversationResult> {
+    try {
+      logger.info('Resuming conversation', { conversationId, userId });
+
+      const conversation = await this.findConversation(conversationId, userId);
+
+      if (conversation.status !== 'paused') {
+        throw new Error('Conversation is not paused');
+      }
+
+      const {
+        pendingValue: _pendingValue,
+        pendingValues: _pendingValues,
+        quickPicks: _quickPicks,
+        ...metadata
+      } = conversation.metadata;
+
+      let placeholder = conversation.currentPlaceholder && await db('placeholders')
+        .where({ id: conversation.currentPlaceholder })
+        .first();
+
+      if (!placeholder || placeholder.stale) {
+        placeholder = await this.findNextField(conversation.documentId, metadata.skipped || []);
+      }
+
+      if (!placeholder) {
+        throw new Error('No placeholders to fill');
+      }
+
+      const intro = placeholder.filled_value
+        ? `We were looking at **${placeholder.field_name}**. It's currently "**${placeholder.filled_value}**".`
+        : `We were on **${placeholder.field_name}**.`;
+      const suggestions = await this.suggestionsFor(placeholder, userId);
+
+      const result = await db.transaction(async (trx) => {
+        const [dbConversation] = await trx('conversations')
+          .where({ id: conversationId })
+          .update({
+            status: 'active',
+            current_placeholder_id: placeholder.id,
+            metadata: JSON.stringify(this.withQuickPicks(metadata, suggestions)),
+            updated_at: db.fn.now(),
+          })
+          .returning('*');
+
+        const [message] = await this.saveMessages(trx, conversationId, [{
+          role: 'assistant',
+          content: `Welcome back! ${metadata.filledCount || 0} of ${metadata.totalPlaceholders || 0} fields are filled so far.\n\n${this.askFor(placeholder, intro)}`,
+          placeholderId: placeholder.id,
+          metadata: this.promptContext(placeholder, suggestions),
+        }]);
+
+        return {
+          conversation: this.mapDbConversationToConversation(dbConversation),
+          message,
+        };
+      });
+
+      logger.info('Conversation resumed successfully', { conversationId });
+
+      return result;
+    } catch (error) {
+      logger.error('Error resuming conversation', { error, conversationId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Abandon a conversation without completing its document
+   * Values already filled are kept. The document goes back to `ready` unless
+   * another conversation on it is still open.
+   * @param conversationId - ID of the conversation
+   * @param userId - ID of the user
+   * @returns Promise<void>
+   */
+  async abandonConversation(conversationId: string, userId: string): Promise<void> {
+    try {
+      logger.info('Abandoning conversation', { conversationId, userId });
+
+      const conversation = await this.findConversation(conversationId, userId);
+
+      if (conversation.status !== 'active' && conversation.status !== 'paused') {
+        throw new Error('Conversation is closed');
+      }
+
+      await db.transaction(async (trx) => {
+        await trx('conversations')
+          .where({ id: conversationId })
+          .update({
+            status: 'abandoned',
+            current_placeholder_id: null,
+            updated_at: db.fn.now(),
+          });
+
+        const stillOpen = await trx('conversations')
+          .where({ document_id: conversation.documentId })
+          .whereIn('status', ['active', 'paused'])
+          .first();
+
+        if (!stillOpen) {
+          await trx('documents')
+            .where({ id: conversation.documentId, status: 'filling' })
+            .update({ status: 'ready' });
+        }
+      });
+
+      logger.info('Conversation abandoned successfully', { conversationId });
+    } catch (error) {
+      logger.error('Error abandoning conversation', { error, conversationId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a conversation belonging to the user
+   * An active conversation left idle for too long is paused first.
+   * @private
+   */
+  private async findConversation(conversationId: string, userId: string): Promise<Conversation> {
+    const dbConversation = await db('conversations')
+      .where({ id: conversationId, user_id: userId })
+      .first();
+
+    if (!dbConversation) {
+      throw new Error('Conversation not found');
+    }
+
+    const conversation = this.mapDbConversationToConversation(dbConversation);
+
+    if (this.isIdle(conversation)) {
+      // Leave updated_at alone so it still shows the last activity
+      await db('conversations')
+        .where({ id: conversationId, status: 'active' })
+        .update({ status: 'paused' });
+
+      conversation.status = 'paused';
+      logger.info('Paused idle conversation', { conversationId });
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Whether an active conversation has had no activity for the idle timeout
+   * @private
+   */
+  private isIdle(conversation: Conversation): boolean {
+    return conversation.status === 'active'
+      && Date.now() - conversation.updatedAt.getTime() > config.conversationIdleTimeoutMs;
+  }
+
+  /**
+   * Load an active conversation and its current field for a new user message
+   * Navigation state lives in the conversation metadata: `skipped` holds fields
+   * put off until the end, `trail` the fields visited before the current one.
+   * @private
+   */
+  private async startTurn(conversationId: string, userId: string, content: string): Promise<Turn> {
+    const conversation = await this.findConversation(conversationId, userId);
+
+    if (conversation.status === 'paused') {
+      throw new Error('Conversation is paused');
+    }
+
+    if (conversation.status !== 'active') {
+      throw new Error('Conversation is not active');
+    }
+
+    const placeholder = conversation.currentPlaceholder && await db('placeholders')
+      .where({ id: conversation.currentPlaceholder })
+      .first();
+
+    if (!placeholder) {
+      throw new Error('Current placeholder not found');
+    }
+
+    const {
+      pendingValue: _pendingValue,
+      pendingValues: _pendingValues,
+      quickPicks: _quickPicks,
+      ...metadata
+    } = conversation.metadata;
+
+    return {
+      conversation,
+      metadata,
+      placeholder,
+      userId,
+      userMessage: {
+        role: 'user',
+        content,
+        placeholderId: placeholder.id,
+        metadata: {
+          fieldName: placeholder.field_name,
+          fieldType: placeholder.field_type,
+        },
+      },
+    };
+  }
+
+  /**
+   * Decide what a user message means and act on it
+   * @private
+   */
+  private async handleMessage(turn: Turn, message: string): Promise<ConversationMessage> {
+    const { placeholder } = turn;
+    const { pendingValue, pendingValues } = turn.conversation.metadata;
+
+    if (pendingValue?.placeholderId === placeholder.id && AFFIRMATIVE_PATTERN.test(message.trim())) {
+      // The user confirmed the value we asked about
+      turn.userMessage.metadata = { ...turn.userMessage.metadata, intent: 'confirm', extractedValue: pendingValue.value };
+      return this.fillCurrent(turn, pendingValue.value);
+    }
+
+    if (pendingValues?.length && AFFIRMATIVE_PATTERN.test(message.trim())) {
+      // The user confirmed the values proposed from their last message
+      turn.userMessage.metadata = { ...turn.userMessage.metadata, intent: 'confirm', extractedValues: pendingValues };
+      return this.fillSeveral(turn, pendingValues);
+    }
+
+    const command = parseConversationCommand(message);
+    if (command) {
+      return this.runCommand(turn, command);
+    }
+
+    const picked = this.findQuickPick(turn.conversation.metadata.quickPicks, message);
+    if (picked) {
+      // The user chose one of the suggestions offered for this field
+      turn.userMessage.metadata = { ...turn.userMessage.metadata, intent: 'suggestion', extractedValue: picked.entityValue };
+      await this.recordSuggestionUse(picked);
+      return this.fillCurrent(turn, picked.entityValue);
+    }
+
+    const onDelta = turn.emit && ((text: string) => turn.emit!({ type: 'delta', text }));
+    const reply = await this.interpretMessage(turn.conversation, placeholder, message, onDelta);
+    turn.userMessage.metadata = {
+      ...turn.userMessage.metadata,
+      intent: reply.suggestedAction,
+      extractedValue: reply.extractedValue,
+      extractedValues: reply.extractedValues,
+      confidence: reply.confidence,
+    };
+
+    if (reply.suggestedAction === 'fill_fields' && reply.extractedValues?.length) {
+      return this.proposeValues(turn, reply.extractedValues, reply.message);
+    }
+
+    if (reply.suggestedAction === 'next_field' && !reply.extractedValue) {
+      return this.runCommand(turn, { action: 'skip' });
+    }
+
+    if (reply.suggestedAction === 'review') {
+      return this.runCommand(turn, { action: 'review' });
+    }
+
+    if (reply.suggestedAction !== 'fill_field' || !reply.extractedValue) {
+      // A question, an unclear answer or anything else: stay on this field
+      return this.stay(turn, reply.message, { intent: reply.suggestedAction });
+    }
+
+    if (reply.confidence < CONFIRMATION_THRESHOLD) {
+      turn.metadata = {
+        ...turn.metadata,
+        pendingValue: { placeholderId: placeholder.id, value: reply.extractedValue },
+      };
+
+      return this.stay(
+        turn,
+        `Just to confirm: should I use "**${reply.extractedValue}**" for **${placeholder.field_name}**? Reply "yes" to save it, or tell me the correct value.`,
+        { awaitingConfirmation: reply.extractedValue }
+      );
+    }
+
+    return this.fillCurrent(turn, reply.extractedValue);
+  }
+
+  /**
+   * Fill the current field, then move to the next one or finish
+   * @private
+   */
+  private async fillCurrent(turn: Turn, value: string): Promise<ConversationMessage> {
+    const { conversation, placeholder, metadata } = turn;
+
+    const validation = this.lockedField(turn, placeholder, value)
+      ?? await this.fillPlaceholder(conversation.documentId, placeholder.id, value, turn.userId, turn.liveSession);
+
+    if (!validation.valid) {
+      this.noteFillResult(turn, placeholder, validation);
+
+      // Ask for the same field again
+      const exampleText = this.getExampleForField(placeholder.field_name, placeholder.field_type);
+
+      return this.stay(
+        turn,
+        `I couldn't use "${validation.value}" for **${placeholder.field_name}**. ${validation.notes}\n${exampleText}\n\nWhat value should we use?`,
+        { validationNotes: validation.notes }
+      );
+    }
+
+    this.noteFillResult(turn, placeholder, validation);
+
+    const skipped: string[] = metadata.skipped || [];
+    const filledMetadata = {
+      ...metadata,
+      filledCount: this.countFilled(metadata, placeholder),
+      skipped: skipped.filter(id => id !== placeholder.id),
+    };
+
+    const next = await this.findNextField(conversation.documentId, filledMetadata.skipped, placeholder.id);
+
+    if (next) {
+      return this.moveTo(turn, next, `Great! I've recorded "**${validation.value}**" for **${placeholder.field_name}**.`, {
+        ...filledMetadata,
+        trail: [...(metadata.trail || []), placeholder.id],
+      });
+    }
+
+    return this.complete(
+      turn,
+      `Perfect! I've recorded "${validation.value}" for ${placeholder.field_name}. That was the last field. Your document is now complete!`,
+      filledMetadata
+    );
+  }
+
+  /**
+   * Show the values found in one message for the user to confirm
+   * Each value is matched to a field by name and checked for the field's type
+   * up front; only values that would be saved are proposed.
+   * @private
+   */
+  private async proposeValues(
+    turn: Turn,
+    extracted: ExtractedFieldValue[],
+    assistantMessage: string
+  ): Promise<ConversationMessage> {
+    const { conversation, placeholder } = turn;
+
+    const fields = await db('placeholders')
+      .where({ document_id: conversation.documentId, stale: false, linked_to: null })
+      .orderBy('position', 'asc');
+
+    const proposals: PendingFieldValue[] = [];
+    const problems: string[] = [];
+
+    for (const { fieldName, value } of extracted) {
+      const field = findFieldByName(fields, fieldName);
+      if (!field || proposals.some(p => p.placeholderId === field.id)) {
+        continue;
+      }
+
+      const validation = validateFieldValue(field.field_type, value);
+      if (validation.valid) {
+        proposals.push({ placeholderId: field.id, fieldName: field.field_name, value: validation.value });
+      } else {
+        problems.push(`I couldn't use "${validation.value}" for **${field.field_name}**. ${validation.notes}`);
+      }
+    }
+
+    if (proposals.length === 0) {
+      const resume = this.askFor(placeholder, `Let's continue with **${placeholder.field_name}**.`);
+      return this.stay(turn, [...(problems.length > 0 ? problems : [assistantMessage]), resume].join('\n\n'));
+    }
+
+    turn.metadata = { ...turn.metadata, pendingValues: proposals };
+
+    const rows = proposals.map(p => `| ${p.fieldName} | ${p.value.replace(/\|/g, '\\|')} |`);
+    const content = [
+      `I found values for ${proposals.length} field${proposals.length > 1 ? 's' : ''}:`,
+      ['| Field | Value |', '|-------|-------|', ...rows].join('\n'),
+      ...problems,
+      'Reply "yes" to save them, or send the values again with any corrections.',
+    ].join('\n\n');
+
+    return this.stay(turn, content, { awaitingConfirmation: proposals });
+  }
+
+  /**
+   * Save several confirmed values together, then carry on with the current
+   * field, or move on if it was one of them
+   * @private
+   */
+  private async fillSeveral(turn: Turn, values: PendingFieldValue[]): Promise<ConversationMessage> {
+    const { conversation, placeholder, metadata } = turn;
+
+    const results = await this.saveValues(conversation.documentId, values, turn.userId, turn.liveSession);
+    results.forEach(({ field, validation }) => this.noteFillResult(turn, field, validation));
+
+    const saved = results.filter(r => r.validation.valid);
+    const savedIds = saved.map(r => r.field.id);
+
+    const lines = saved.map(r => `- **${r.field.field_name}**: ${r.validation.value}`);
+    const lead = [
+      ...(saved.length > 0 ? [`Great! I've recorded:\n${lines.join('\n')}`] : []),
+      ...results
+        .filter(r => !r.validation.valid)
+        .map(r => `I couldn't use "${r.validation.value}" for **${r.field.field_name}**. ${r.validation.notes}`),
+    ].join('\n\n');
+
+    const filledMetadata = {
+      ...metadata,
+      filledCount: (metadata.filledCount || 0) + saved.filter(r => !r.field.filled_value).length,
+      skipped: (metadata.skipped || []).filter((id: string) => !savedIds.includes(id)),
+    };
+
+    if (!savedIds.includes(placeholder.id)) {
+      turn.metadata = filledMetadata;
+      return this.stay(turn, `${lead}\n\n${this.askFor(placeholder, `Let's continue with **${placeholder.field_name}**.`)}`);
+    }
+
+    const next = await this.findNextField(conversation.documentId, filledMetadata.skipped, placeholder.id);
+
+    if (next) {
+      return this.moveTo(turn, next, lead, {
+        ...filledMetadata,
+        trail: [...(metadata.trail || []), placeholder.id],
+      });
+    }
+
+    return this.complete(turn, `${lead}\n\nThat was the last field. Your document is now complete!`, filledMetadata);
+  }
+
+  /**
+   * Validate and save several values in one transaction
+   * Invalid values are flagged as in fillPlaceholder; fields someone else is
+   * editing are left as they are. The completion percentage is recalculated and
+   * a version recorded once for the batch.
+   * @private
+   */
+  private async saveValues(
+    documentId: string,
+    values: PendingFieldValue[],
+    userId: string,
+    liveSession?: string
+  ): Promise<Array<{ field: any; validation: FieldValidationResult }>> {
+    const document = await db('documents')
+      .where({ id: documentId, user_id: userId })
+      .first();
+
+    if (!document) {
+      throw new Error('Document not found');
+    }
+
+    return db.transaction(async (trx) => {
+      const fields = await trx('placeholders')
+        .where({ document_id: documentId, stale: false })
+        .orderBy('position', 'asc');
+      const byId = new Map<string, any>(fields.map((f: any) => [f.id, f]));
+      const results: Array<{ field: any; validation: FieldValidationResult }> = [];
+
+      for (const { placeholderId, value } of values) {
+        const field = byId.get(placeholderId);
+        if (!field) {
+          throw new Error('Placeholder not found');
+        }
+
+        const lock = collaborationService.findLock(documentId, field.id, userId, liveSession);
+        if (lock) {
+          // Someone else is editing the field; leave it as it is
+          results.push({ field, validation: { valid: false, value: value.trim(), notes: `${lock.user.name} is editing this field right now.` } });
+          continue;
+        }
+
+        const validation = validateFieldValue(field.field_type, value);
+        const changes = validation.valid
+          ? {
+            filled_value: validation.value,
+            filled_by: userId,
+            filled_at: trx.fn.now(),
+            validation_status: 'validated',
+            validation_notes: null,
+          }
+          : { validation_status: 'flagged', validation_notes: validation.notes };
+
+        await trx('placeholders')
+          .where({ id: field.id })
+          .update(changes);
+
+        byId.set(field.id, { ...field, ...changes });
+
+        if (validation.valid) {
+          // Repeated occurrences follow the field unless overridden
+          await trx('placeholders')
+            .where({ linked_to: field.id, value_override: false })
+            .update(changes);
+
+          for (const occurrence of byId.values()) {
+            if (occurrence.linked_to === field.id && !occurrence.value_override) {
+              byId.set(occurrence.id, { ...occurrence, ...changes });
+            }
+          }
+        }
+
+        results.push({ field, validation });
+      }
+
+      const all = Array.from(byId.values());
+      const filled = all.filter(f => f.filled_value !== null && f.filled_value !== undefined).length;
+      await trx('documents')
+        .where({ id: documentId })
+        .update({ completion_percentage: all.length > 0 ? Math.round((filled / all.length) * 100) : 0 });
+
+      await this.versionService.recordVersion(documentId, VersionChangeType.FILL, userId, trx);
+
+      logger.info('Placeholders filled together', { documentId, count: values.length });
+
+      return results;
+    });
+  }
+
+  /**
+   * Mark the conversation and its document completed
+   * @private
+   */
+  private async complete(turn: Turn, content: string, metadata: Record<string, any>): Promise<ConversationMessage> {
+    const { conversation } = turn;
+
+    const response = await this.respond(conversation.id, [turn.userMessage, {
+      role: 'assistant',
+      content,
+      metadata: {},
+    }], {
+      status: 'completed',
+      current_placeholder_id: null,
+      metadata: JSON.stringify({
+        ...metadata,
+        filledCount: metadata.totalPlaceholders,
+      }),
+      completed_at: db.fn.now(),
+    });
+
+    // Update document status
+    await db('documents')
+      .where({ id: conversation.documentId })
+      .update({
+        status: 'completed',
+        completion_percentage: 100,
+      });
+
+    await this.versionService.recordVersion(conversation.documentId, VersionChangeType.COMPLETION, turn.userId);
+
+    return response;
+  }
+
+  /**
+   * Run a navigation command
+   * @private
+   */
+  private async runCommand(turn: Turn, command: ConversationCommand): Promise<ConversationMessage> {
+    const { conversation, placeholder, metadata } = turn;
+    const trail: string[] = metadata.trail || [];
+    const skipped: string[] = metadata.skipped || [];
+    const resume = this.askFor(placeholder, `Let's continue with **${placeholder.field_name}**.`);
+
+    turn.userMessage.metadata = { ...turn.userMessage.metadata, intent: command.action };
+
+    switch (command.action) {
+      case 'skip': {
+        const next = await this.findNextField(conversation.documentId, skipped, placeholder.id);
+
+        if (!next) {
+          return this.stay(turn, `There are no other fields left, so **${placeholder.field_name}** can't be skipped.\n\n${resume}`);
+        }
+
+        return this.moveTo(turn, next, `No problem, we'll come back to **${placeholder.field_name}** at the end.`, {
+          ...metadata,
+          skipped: placeholder.filled_value || skipped.includes(placeholder.id) ? skipped : [...skipped, placeholder.id],
+          trail: [...trail, placeholder.id],
+        });
+      }
+
+      case 'back': {
+        const previousId = trail[trail.length - 1];
+        const previous = previousId && await db('placeholders')
+          .where({ id: previousId, document_id: conversation.documentId, stale: false })
+          .first();
+
+        if (!previous) {
+          turn.metadata = { ...metadata, trail: trail.slice(0, -1) };
+          return this.stay(turn, `There is no earlier field to go back to.\n\n${resume}`);
+        }
+
+        return this.moveTo(turn, previous, '', { ...metadata, trail: trail.slice(0, -1) });
+      }
+
+      case 'goto':
+      case 'change': {
+        const fields = await db('placeholders')
+          .where({ document_id: conversation.documentId, stale: false, linked_to: null })
+          .orderBy('position', 'asc');
+
+        const field = findFieldByName(fields, command.field || '');
+
+        if (!field) {
+          const names = fields.map((f: any) => `**${f.field_name}**`).join(', ');
+          return this.stay(turn, `I couldn't find a field called "${command.field}". The fields are: ${names}.\n\n${resume}`);
+        }
+
+        if (command.action === 'change' && command.value !== undefined) {
+          return this.changeField(turn, field, command.value);
+        }
+
+        if (field.id === placeholder.id) {
+          return this.stay(turn, resume);
+        }
+
+        return this.moveTo(turn, field, '', { ...metadata, trail: [...trail, placeholder.id] });
+      }
+
+      case 'review': {
+        const fields = await this.reviewFields(conversation);
+
+        return this.stay(turn, `Here's what we have so far:\n\n${this.formatReview(fields)}\n\n${resume}`);
+      }
+    }
+  }
+
+  /**
+   * Fill a field other than the current one, then carry on with the current field
+   * @private
+   */
+  private async changeField(turn: Turn, field: any, value: string): Promise<ConversationMessage> {
+    const { conversation, placeholder, metadata } = turn;
+
+    if (field.id === placeholder.id) {
+      return this.fillCurrent(turn, value);
+    }
+
+    const validation = this.lockedField(turn, field, value)
+      ?? await this.fillPlaceholder(conversation.documentId, field.id, value, turn.userId, turn.liveSession);
+    const resume = this.askFor(placeholder, `Let's continue with **${placeholder.field_name}**.`);
+
+    this.noteFillResult(turn, field, validation);
+
+    if (!validation.valid) {
+      return this.stay(
+        turn,
+        `I couldn't use "${validation.value}" for **${field.field_name}**. ${validation.notes}\n\n${resume}`,
+        { validationNotes: validation.notes }
+      );
+    }
+
+    turn.metadata = {
+      ...metadata,
+      filledCount: this.countFilled(metadata, field),
+      skipped: (metadata.skipped || []).filter((id: string) => id !== field.id),
+    };
+
+    return this.stay(turn, `Updated **${field.field_name}** to "**${validation.value}**".\n\n${resume}`);
+  }
+
+  /**
+   * Reply without leaving the current field
+   * @private
+   */
+  private async stay(turn: Turn, content: string, extra: Record<string, any> = {}): Promise<ConversationMessage> {
+    const suggestions = await this.suggestionsFor(turn.placeholder, turn.userId);
+
+    return this.respond(turn.conversation.id, [turn.userMessage, {
+      role: 'assistant',
+      content,
+      placeholderId: turn.placeholder.id,
+      metadata: { ...this.promptContext(turn.placeholder, suggestions), ...extra },
+    }], { metadata: JSON.stringify(this.withQuickPicks(turn.metadata, suggestions)) });
+  }
+
+  /**
+   * Make a field the current one and ask for it
+   * @private
+   */
+  private async moveTo(turn: Turn, next: any, lead: string, metadata: Record<string, any>): Promise<ConversationMessage> {
+    const skipped: string[] = metadata.skipped || [];
+
+    let intro = `Now, let's fill in: **${next.field_name}**`;
+    if (skipped.includes(next.id)) {
+      intro = `Let's come back to **${next.field_name}**, which you skipped earlier.`;
+    } else if (next.filled_value) {
+      intro = `Let's look at **${next.field_name}**. It's currently "**${next.filled_value}**".`;
+    }
+
+    const prompt = this.askFor(next, intro);
+
+    turn.emit?.({ type: 'field_advanced', placeholderId: next.id, fieldName: next.field_name, fieldType: next.field_type });
+
+    const suggestions = await this.suggestionsFor(next, turn.userId);
+
+    return this.respond(turn.conversation.id, [turn.userMessage, {
+      role: 'assistant',
+      content: lead ? `${lead}\n\n${prompt}` : prompt,
+      placeholderId: next.id,
+      metadata: this.promptContext(next, suggestions),
+    }], {
+      current_placeholder_id: next.id,
+      metadata: JSON.stringify(this.withQuickPicks({ ...metadata, skipped: skipped.filter(id => id !== next.id) }, suggestions)),
+    });
+  }
+
+  /**
+   * Next field to ask for: the first unfilled one by position, then fields
+   * skipped earlier
+   * @private
+   */
+  private async findNextField(documentId: string, skipped: string[] = [], excludeId?: string): Promise<any> {
+    const unfilled = await db('placeholders')
+      .where({ document_id: documentId, stale: false, linked_to: null })
+      .whereNull('filled_value')
+      .orderBy('position', 'asc');
+
+    const candidates = unfilled.filter((p: any) => p.id !== excludeId);
+
+    return candidates.find((p: any) => !skipped.includes(p.id))
+      || candidates.find((p: any) => skipped.includes(p.id));
+  }
+
+  /**
+   * Fields of the conversation's document with their value and status
+   * @private
+   */
+  private async reviewFields(conversation: Conversation): Promise<ReviewField[]> {
+    const placeholders = await db('placeholders')
+      .where({ document_id: conversation.documentId, stale: false, linked_to: null })
+      .orderBy('position', 'asc');
+
+    const skipped: string[] = conversation.metadata.skipped || [];
+
+    return placeholders.map((p: any): ReviewField => {
+      let status: ReviewField['status'] = 'pending';
+      if (p.validation_status === 'flagged') {
+        status = 'flagged';
+      } else if (p.filled_value) {
+        status = 'filled';
+      } else if (skipped.includes(p.id)) {
+        status = 'skipped';
+      }
+
+      return {
+        placeholderId: p.id,
+        fieldName: p.field_name,
+        fieldType: p.field_type,
+        value: p.filled_value ?? undefined,
+        status,
+        current: p.id === conversation.currentPlaceholder,
+      };
+    });
+  }
+
+  /**
+   * Markdown table of review fields for the chat
+   * @private
+   */
+  private formatReview(fields: ReviewField[]): string {
+    const statusLabels: Record<ReviewField['status'], string> = {
+      filled: 'Filled',
+      skipped: 'Skipped',
+      flagged: 'Needs attention',
+      pending: 'Not filled',
+    };
+
+    const rows = fields.map(f => {
+      const name = f.current ? `**${f.fieldName}** (current)` : f.fieldName;
+      const value = f.value ? f.value.replace(/\|/g, '\\|') : '—';
+      return `| ${name} | ${value} | ${statusLabels[f.status]} |`;
+    });
+
+    return ['| Field | Value | Status |', '|-------|-------|--------|', ...rows].join('\n');
+  }
+
+  /**
+   * Ask for a field, with examples
+   * @private
+   */
+  private askFor(placeholder: any, intro: string): string {
+    const exampleText = this.getExampleForField(placeholder.field_name, placeholder.field_type);
+    return `${intro}\n${exampleText}\n\nWhat value should we use?`;
+  }
+
+  /**
+   * Refuse a value for a field someone else is editing on the live channel
+   * @private
+   */
+  private lockedField(turn: Turn, field: any, value: string): FieldValidationResult | undefined {
+    const lock = collaborationService.findLock(turn.conversation.documentId, field.id, turn.userId, turn.liveSession);
+
+    return lock && { valid: false, value: value.trim(), notes: `${lock.user.name} is editing this field right now.` };
+  }
+
+  /**
+   * Report whether a value was saved for a field
+   * Saved values are also kept on the user message, so the audit transcript
+   * can tell which answer set each field.
+   * @private
+   */
+  private noteFillResult(turn: Turn, placeholder: any, validation: FieldValidationResult): void {
+    if (validation.valid) {
+      const saved = turn.userMessage.metadata?.saved || [];
+      turn.userMessage.metadata = {
+        ...turn.userMessage.metadata,
+        saved: [...saved, { placeholderId: placeholder.id, fieldName: placeholder.field_name, value: validation.value }],
+      };
+      turn.emit?.({ type: 'value_captured', placeholderId: placeholder.id, fieldName: placeholder.field_name, value: validation.value });
+    } else {
+      turn.emit?.({
+        type: 'validation_failed',
+        placeholderId: placeholder.id,
+        fieldName: placeholder.field_name,
+        value: validation.value,
+        notes: validation.notes,
+      });
+    }
+  }
+
+  /**
+   * Data room values that could fill a field, best first
+   * Suggestions only help; if they can't be loaded the field is asked without them.
+   * @private
+   */
+  private async suggestionsFor(placeholder: any, userId: string): Promise<EntitySuggestion[]> {
+    try {
+      const suggestions = await this.knowledgeGraphService.getEntitySuggestions(
+        placeholder.id,
+        placeholder.field_name,
+        placeholder.field_type,
+        userId
+      );
+      return suggestions || [];
+    } catch (error) {
+      logger.warn('Could not load suggestions for field', { error, placeholderId: placeholder.id });
+      return [];
+    }
+  }
+
+  /**
+   * Message metadata for an assistant prompt about a field, with quick picks
+   * @private
+   */
+  private promptContext(placeholder: any, suggestions: EntitySuggestion[]): Record<string, any> {
+    return suggestions.length > 0
+      ? { ...this.fieldContext(placeholder), suggestions }
+      : this.fieldContext(placeholder);
+  }
+
+  /**
+   * Remember the knowledge graph values offered for the current field, so a
+   * reply that repeats one counts as picking it
+   * @private
+   */
+  private withQuickPicks(metadata: Record<string, any>, suggestions: EntitySuggestion[]): Record<string, any> {
+    const quickPicks = suggestions
+      .filter(s => s.entityType)
+      .map(s => ({ entityType: s.entityType, entityValue: s.entityValue }));
+
+    return quickPicks.length > 0 ? { ...metadata, quickPicks } : metadata;
+  }
+
+  private findQuickPick(
+    quickPicks: Array<{ entityType: string; entityValue: string }> | undefined,
+    message: string
+  ): { entityType: string; entityValue: string } | undefined {
+    const text = message.trim().toLowerCase();
+    return (quickPicks || []).find(p => p.entityValue.trim().toLowerCase() === text);
+  }
+
+  /**
+   * Count a picked suggestion as used, so it ranks higher next time
+   * @private
+   */
+  private async recordSuggestionUse(pick: { entityType: string; entityValue: string }): Promise<void> {
+    try {
+      await this.knowledgeGraphService.updateEntityUsage(pick.entityType, pick.entityValue);
+    } catch (error) {
+      logger.warn('Could not record suggestion use', { error, entityType: pick.entityType });
+    }
+  }
+
+  private fieldContext(placeholder: any): Record<string, any> {
+    return {
+      placeholderId: placeholder.id,
+      fieldName: placeholder.field_name,
+      fieldType: placeholder.field_type,
+    };
+  }
+
+  /**
+   * Filled count after filling a field, which may already have had a value
+   * @private
+   */
+  private countFilled(metadata: Record<string, any>, placeholder: any): number {
+    return (metadata.filledCount || 0) + (placeholder.filled_value ? 0 : 1);
+  }
+
+  /**
+   * Ask the ConversationalAssistant what the user's message means for the current field
+   * If the assistant is unavailable, the message is offered as the value with no
+   * confidence, so the user is asked to confirm it rather than a question or an
+   * aside being saved as the field's value.
+   * @private
+   */
+  private async interpretMessage(
+    conversation: Conversation,
+    placeholder: any,
+    message: string,
+    onDelta?: DeltaHandler
+  ): Promise<ConversationalResponse> {
+    try {
+      const document = await db('documents')
+        .where({ id: conversation.documentId })
+        .first();
+
+      const recentMessages = await db('conversation_messages')
+        .where({ conversation_id: conversation.id })
+        .orderBy('sequence', 'desc')
+        .limit(ASSISTANT_CONTEXT_MESSAGES);
+
+      const openFields = await db('placeholders')
+        .where({ document_id: conversation.documentId, stale: false, linked_to: null })
+        .whereNull('filled_value')
+        .orderBy('position', 'asc');
+
+      const input: ConversationalAssistantInput = {
+        conversationHistory: [
+          ...recentMessages.reverse().map((m: any) => ({ role: m.role, content: m.content })),
+          { role: 'user', content: message },
+        ],
+        currentPlaceholder: {
+          fieldName: placeholder.field_name,
+          fieldType: placeholder.field_type,
+          suggestedQuestion: `What value should we use for ${placeholder.field_name}?`,
+          suggestedValue: placeholder.ai_suggested_value || undefined,
+        },
+        openFields: openFields
+          .filter((f: any) => f.id !== placeholder.id)
+          .map((f: any) => ({ fieldName: f.field_name, fieldType: f.field_type })),
+        documentContext: {
+          documentType: document?.document_type || 'document',
+          completionPercentage: document?.completion_percentage || 0,
+          totalPlaceholders: conversation.metadata.totalPlaceholders || 0,
+          filledPlaceholders: conversation.metadata.filledCount || 0,
+        },
+      };
+
+      const task = await this.aiAgentService.runAgent('ConversationalAssistant', input, onDelta, {
+        userId: conversation.userId,
+        documentId: conversation.documentId,
+      });
+
+      return task.outputData as ConversationalResponse;
+    } catch (error) {
+      // Running out of AI budget is for the user to hear about, not to work around
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
+
+      logger.warn('ConversationalAssistant failed, asking to confirm the message as the value', {
+        error,
+        conversationId: conversation.id,
+      });
+
+      return { message: '', suggestedAction: 'fill_field', extractedValue: message, confidence: 0 };
+    }
+  }
+
+  /**
+   * Store a user message and the assistant's reply, and update the conversation
+   * @returns Promise<ConversationMessage> - The stored reply
+   * @private
+   */
+  private async respond(
+    conversationId: string,
+    messages: [NewMessage, NewMessage],
+    changes: Record<string, any>
+  ): Promise<ConversationMessage> {
+    return db.transaction(async (trx) => {
+      await trx('conversations')
+        .where({ id: conversationId })
+        .update({ ...changes, updated_at: db.fn.now() });
+
+      const [, reply] = await this.saveMessages(trx, conversationId, messages);
+
+      return reply;
+    });
+  }
+
+  /**
+   * Append messages to a conversation's transcript, in order
+   * Call in a transaction that has already written the conversation row: the
+   * row stays locked until commit, so concurrent messages to the same
+   * conversation are numbered one after the other.
+   * @private
+   */
+  private async saveMessages(
+    trx: Knex.Transaction,
+    conversationId: string,
+    messages: NewMessage[]
+  ): Promise<ConversationMessage[]> {
+    const latest = await trx('conversation_messages')
+      .where({ conversation_id: conversationId })
+      .max('sequence as max')
+      .first();
+
+    const firstSequence = (latest?.max || 0) + 1;
+
+    const dbMessages = await trx('conversation_messages').insert(messages.map((message, index) => ({
+      id: uuidv4(),
+      conversation_id: conversationId,
+      sequence: firstSequence + index,
+      role: message.role,
+      content: message.content,
+      placeholder_id: message.placeholderId || null,
+      metadata: JSON.stringify(message.metadata || {}),
+    }))).returning('*');
+
+    return dbMessages
+      .sort((a: any, b: any) => a.sequence - b.sequence)
+      .map((m: any) => this.mapDbMessageToMessage(m));
+  }
+
+  /**
+   * Map database conversation row to Conversation type
+   * @private
+   */
+  private mapDbConversationToConversation(dbConversation: any): Conversation {
+    return {
+      id: dbConversation.id,
+      documentId: dbConversation.document_id,
+      userId: dbConversation.user_id,
+      status: dbConversation.status,
+      currentPlaceholder: dbConversation.current_placeholder_id || undefined,
+      metadata: this.parseJson(dbConversation.metadata) || {},
+      startedAt: new Date(dbConversation.started_at),
+      updatedAt: new Date(dbConversation.updated_at),
+      completedAt: dbConversation.completed_at ? new Date(dbConversation.completed_at) : undefined,
+    };
+  }
+
+  /**
+   * Map database message row to ConversationMessage type
+   * @private
+   */
+  private mapDbMessageToMessage(dbMessage: any): ConversationMessage {
+    return {
+      id: dbMessage.id,
+      conversationId: dbMessage.conversation_id,
+      role: dbMessage.role,
+      content: dbMessage.content,
+      placeholderId: dbMessage.placeholder_id || undefined,
+      timestamp: new Date(dbMessage.created_at),
+      metadata: this.parseJson(dbMessage.metadata) || {},
+    };
+  }
+
+  private parseJson(value: any): any {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+
   /**
    * Get example text for a field based on its name and type
    * @private
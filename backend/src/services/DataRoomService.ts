@@ -1,8 +1,8 @@
 // backend/src/services/DataRoomService.ts
 import { v4 as uuidv4 } from 'uuid';
 import { db } from '../config/knex';
-import { parseDocx } from '../utils/docxParser';
 import { logger } from '../utils/logger';
+import { extractText } from '../utils/parsers';
 import { AIAgentService } from './AIAgentService';
 
 export interface DataRoomDocument {
@@ -109,7 +109,7 @@ export class DataRoomService {
         .update({ processing_status: 'extracting' });
 
       // Parse document text
-      const text = await parseDocx(dbDocument.file_path);
+      const text = await extractText(dbDocument.file_path);
 
       // Run template analyzer agent to extract entities
       const analysisTask = await this.aiAgentService.runAgent('TemplateAnalyzer', {
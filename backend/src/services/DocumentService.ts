@@ -1,8 +1,62 @@
-import { Document, DocumentStatus, Placeholder, PlaceholderFieldType, ValidationStatus } from '@smartdocs/common';
+import { DetectionSource, Document, DocumentStatus, Placeholder, PlaceholderAnchor, PlaceholderFieldType, ValidationStatus, VersionChangeType } from '@smartdocs/common';
+import * as fs from 'fs';
+import type { Knex } from 'knex';
+import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { PlaceholderData } from '../agents/PlaceholderExtractor';
 import { db } from '../config/knex';
-import { parseDocx } from '../utils/docxParser';
+import { fillDocx } from '../utils/docxFiller';
+import { validateFieldValue } from '../utils/fieldValidation';
+import { locatePlaceholders, parseDocxStructureFromBuffer } from '../utils/docxStructure';
+import { logger } from '../utils/logger';
+import { DocumentStructure, extractText, parseStructure } from '../utils/parsers';
+import { PdfPageSize, renderPdf } from '../utils/pdfRenderer';
+import { detectPlaceholders, mergePlaceholders } from '../utils/placeholderDetector';
+import { linkOccurrences } from '../utils/placeholderGrouping';
+import { reconcilePlaceholders } from '../utils/placeholderReconciler';
 import { AIAgentService } from './AIAgentService';
+import { QuotaExceededError } from './AIBudgetService';
+import { collaborationService } from './CollaborationService';
+import { DocumentVersionService } from './DocumentVersionService';
+
+export interface FilledDocumentFile {
+  filename: string;
+  buffer: Buffer;
+}
+
+export const EXPORT_FORMATS = ['pdf', 'redline'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface ExportOptions {
+  pageSize?: PdfPageSize;
+}
+
+/**
+ * Field names added, removed (marked stale) and kept by an extraction
+ */
+export interface ExtractionSummary {
+  added: string[];
+  removed: string[];
+  kept: string[];
+}
+
+export interface ExtractionResult {
+  placeholders: Placeholder[];
+  summary: ExtractionSummary;
+}
+
+/**
+ * A direct edit of one placeholder. Omitted fields are left unchanged.
+ */
+export interface PlaceholderUpdate {
+  id: string;
+  value?: string | null;      // null clears the filled value
+  fieldType?: PlaceholderFieldType;
+  fieldName?: string;
+  acceptSuggestion?: boolean;  // Fill with the AI suggested value
+  override?: boolean;          // Repeated occurrences only: false follows the field's value again
+}
 
 export interface DocumentAnalysis {
   documentType: string;
@@ -17,9 +71,11 @@ export interface DocumentAnalysis {
  */
 export class DocumentService {
   private aiAgentService: AIAgentService;
+  private versionService: DocumentVersionService;
 
   constructor() {
     this.aiAgentService = new AIAgentService();
+    this.versionService = new DocumentVersionService();
   }
 
   /**
@@ -52,6 +108,8 @@ export class DocumentService {
       metadata: {},
     }).returning('*');
 
+    await this.versionService.recordVersion(documentId, VersionChangeType.UPLOAD, userId);
+
     return this.mapDbDocumentToDocument(dbDocument);
   }
 
@@ -76,16 +134,25 @@ export class DocumentService {
       .where({ id: documentId })
       .update({ status: DocumentStatus.ANALYZING });
 
-    // Parse document text
-    const text = await parseDocx(dbDocument.file_path);
-
-    // Run analysis agent
-    const analysisTask = await this.aiAgentService.runAgent('DocumentAnalyzer', {
-      documentId,
-      text,
-    });
-
-    const analysis = analysisTask.outputData as DocumentAnalysis;
+    let analysis: DocumentAnalysis;
+    try {
+      // Parse document text
+      const text = await extractText(dbDocument.file_path);
+
+      // Run analysis agent
+      const analysisTask = await this.aiAgentService.runAgent('DocumentAnalyzer', {
+        documentId,
+        text,
+      }, undefined, { userId, documentId });
+
+      analysis = analysisTask.outputData as DocumentAnalysis;
+    } catch (error) {
+      // A refused or failed analysis (e.g. QuotaExceededError) must not leave the document analyzing
+      await db('documents')
+        .where({ id: documentId })
+        .update({ status: dbDocument.status });
+      throw error;
+    }
 
     // Update document with analysis results
     await db('documents')
@@ -97,16 +164,29 @@ export class DocumentService {
         metadata: JSON.stringify(analysis.metadata),
       });
 
+    await this.versionService.recordVersion(documentId, VersionChangeType.ANALYSIS, userId);
+
     return analysis;
   }
 
   /**
-   * Extract placeholders from a document using AI
+   * Extract placeholders from a document using pattern detection and AI
+   * Results of both detectors are merged by location; each placeholder records
+   * which detector found it. Falls back to patterns alone if the AI agent fails.
+   *
+   * Extraction can be repeated: results are reconciled with the placeholders
+   * already stored (by location, then field name). Matched placeholders keep their
+   * name, type, filled value and validation; placeholders no longer found are
+   * marked stale rather than deleted.
+   *
+   * Repeated occurrences of a field are then linked to its first occurrence (see
+   * utils/placeholderGrouping) and take its value, unless they already hold a
+   * different one.
    * @param documentId - ID of the document to extract placeholders from
    * @param userId - ID of the user requesting extraction
-   * @returns Promise<Placeholder[]> - Array of extracted placeholders
+   * @returns Promise<ExtractionResult> - Current placeholders and what changed
    */
-  async extractPlaceholders(documentId: string, userId: string): Promise<Placeholder[]> {
+  async extractPlaceholders(documentId: string, userId: string): Promise<ExtractionResult> {
     // Get document and verify ownership
     const dbDocument = await db('documents')
       .where({ id: documentId, user_id: userId })
@@ -117,48 +197,295 @@ export class DocumentService {
     }
 
     // Parse document text
-    const text = await parseDocx(dbDocument.file_path);
+    const text = await extractText(dbDocument.file_path);
+
+    // Deterministic patterns first, so extraction still works when the LLM is unavailable
+    const patternResults = detectPlaceholders(text);
+
+    let llmResults: PlaceholderData[] = [];
+    try {
+      const extractionTask = await this.aiAgentService.runAgent('PlaceholderExtractor', {
+        documentId,
+        text,
+      }, undefined, { userId, documentId });
+
+      const outputData = extractionTask.outputData as PlaceholderData[] | { placeholders?: PlaceholderData[] };
+      llmResults = Array.isArray(outputData) ? outputData : outputData?.placeholders || [];
+    } catch (error) {
+      if (patternResults.length === 0 || error instanceof QuotaExceededError) {
+        throw error;
+      }
+      logger.warn('PlaceholderExtractor failed, using pattern detection only', {
+        documentId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
 
-    // Run placeholder extraction agent
-    const extractionTask = await this.aiAgentService.runAgent('PlaceholderExtractor', {
-      documentId,
-      text,
+    const placeholdersData = mergePlaceholders(text, patternResults, llmResults);
+
+    // Map each placeholder back to its location(s) in the document
+    const anchors = await this.locateAnchors(
+      dbDocument.file_path,
+      placeholdersData.map(p => p.originalText)
+    );
+
+    // In one transaction, so a failure part way leaves the earlier placeholders untouched
+    return db.transaction(async (trx) => {
+      // Reconcile with placeholders from earlier extractions
+      const dbExisting = await trx('placeholders')
+        .where({ document_id: documentId })
+        .orderBy('position', 'asc');
+      const existingById = new Map<string, any>(dbExisting.map((p: any) => [p.id, p]));
+
+      const { matches, unmatched } = reconcilePlaceholders(
+        dbExisting.map((p: any) => ({
+          id: p.id,
+          fieldName: p.field_name,
+          originalText: p.original_text,
+          anchors: this.parseAnchors(p.anchors),
+          stale: !!p.stale,
+        })),
+        placeholdersData.map((p, index) => ({ fieldName: p.fieldName, originalText: p.originalText, anchors: anchors[index] }))
+      );
+
+      const rows: any[] = [];
+      const summary: ExtractionSummary = { added: [], removed: [], kept: [] };
+
+      for (const [index, placeholderData] of placeholdersData.entries()) {
+        const existing = matches[index] ? existingById.get(matches[index]!) : undefined;
+
+        if (existing) {
+          // Keep the stored name, type, value and validation; refresh where it was found
+          const changes = {
+            original_text: placeholderData.originalText,
+            position: placeholderData.position,
+            anchors: JSON.stringify(anchors[index]),
+            detection_source: placeholderData.detectionSource,
+            stale: false,
+          };
+
+          await trx('placeholders')
+            .where({ id: existing.id })
+            .update(changes);
+
+          rows.push({ ...existing, ...changes });
+          summary.kept.push(existing.field_name);
+          continue;
+        }
+
+        const placeholderId = uuidv4();
+
+        const [dbPlaceholder] = await trx('placeholders').insert({
+          id: placeholderId,
+          document_id: documentId,
+          field_name: placeholderData.fieldName,
+          field_type: placeholderData.fieldType,
+          original_text: placeholderData.originalText,
+          position: placeholderData.position,
+          validation_status: ValidationStatus.PENDING,
+          confidence: 0,
+          anchors: JSON.stringify(anchors[index]),
+          detection_source: placeholderData.detectionSource,
+        }).returning('*');
+
+        rows.push(dbPlaceholder);
+        summary.added.push(placeholderData.fieldName);
+      }
+
+      const removed = unmatched.map(id => existingById.get(id)).filter(p => !p.stale);
+      if (removed.length > 0) {
+        await trx('placeholders')
+          .whereIn('id', removed.map(p => p.id))
+          .update({ stale: true });
+        summary.removed.push(...removed.map(p => p.field_name));
+      }
+
+      const placeholders = (await this.linkRepeatedFields(trx, rows))
+        .map(row => this.mapDbPlaceholderToPlaceholder(row));
+
+      // Stale placeholders no longer count towards completion
+      const filled = placeholders.filter(p => p.filledValue !== null && p.filledValue !== undefined).length;
+      await trx('documents')
+        .where({ id: documentId })
+        .update({
+          completion_percentage: placeholders.length > 0 ? Math.round((filled / placeholders.length) * 100) : 0,
+        });
+
+      await this.versionService.recordVersion(documentId, VersionChangeType.EXTRACTION, userId, trx);
+
+      logger.info('Placeholders reconciled', {
+        documentId,
+        added: summary.added.length,
+        removed: summary.removed.length,
+        kept: summary.kept.length,
+      });
+
+      return { placeholders, summary };
     });
+  }
 
-    const extractedData = extractionTask.outputData as { placeholders: any[] };
-    const placeholdersData = extractedData.placeholders || [];
+  /**
+   * Get placeholders for a document
+   * @param documentId - ID of the document
+   * @param userId - ID of the user requesting placeholders
+   * @returns Promise<Placeholder[]> - Array of placeholders
+   */
+  async getPlaceholders(documentId: string, userId: string): Promise<Placeholder[]> {
+    // Verify the document is shared with the user
+    const dbDocument = await this.findSharedDocument(documentId, userId);
 
-    // Store placeholders in database
-    const placeholders: Placeholder[] = [];
+    if (!dbDocument) {
+      throw new Error('Document not found');
+    }
 
-    for (const placeholderData of placeholdersData) {
-      const placeholderId = uuidv4();
+    // Get placeholders from database; stale ones are no longer in the document
+    const dbPlaceholders = await db('placeholders')
+      .where({ document_id: documentId, stale: false })
+      .orderBy('position', 'asc');
 
-      const [dbPlaceholder] = await db('placeholders').insert({
-        id: placeholderId,
-        document_id: documentId,
-        field_name: placeholderData.fieldName,
-        field_type: placeholderData.fieldType,
-        original_text: placeholderData.originalText,
-        position: placeholderData.position,
-        validation_status: ValidationStatus.PENDING,
-        confidence: 0,
-      }).returning('*');
+    return dbPlaceholders.map(dbPlaceholder => this.mapDbPlaceholderToPlaceholder(dbPlaceholder));
+  }
+
+  /**
+   * Edit placeholders directly: set or clear values, accept AI suggestions, and
+   * override field names and types. The batch is applied atomically and the
+   * document's completion percentage is recalculated once.
+   * Values are normalized for their field type. Unlike the conversation, an
+   * invalid value is still saved (the user chose it explicitly) but flagged.
+   * A field's value and type carry over to its repeated occurrences. Setting a
+   * value on an occurrence overrides it; `override: false` makes it follow the
+   * field again. A field locked on the live channel by another connection
+   * cannot be edited.
+   * @param documentId - ID of the document
+   * @param userId - ID of the user making the edits
+   * @param updates - Edits, at most one per placeholder
+   * @param liveSession - Live channel session of the caller, whose own locks do not apply
+   * @returns Promise<Placeholder[]> - Updated placeholders, in the order of updates
+   */
+  async updatePlaceholders(
+    documentId: string,
+    userId: string,
+    updates: PlaceholderUpdate[],
+    liveSession?: string
+  ): Promise<Placeholder[]> {
+    // Get document and verify it is shared with the user
+    const dbDocument = await this.findSharedDocument(documentId, userId);
+
+    if (!dbDocument) {
+      throw new Error('Document not found');
+    }
 
-      placeholders.push(this.mapDbPlaceholderToPlaceholder(dbPlaceholder));
+    if (new Set(updates.map(u => u.id)).size !== updates.length) {
+      throw new Error('Duplicate placeholder in updates');
     }
 
-    return placeholders;
+    if (updates.some(u => collaborationService.findLock(documentId, u.id, userId, liveSession))) {
+      throw new Error('Placeholder is locked');
+    }
+
+    return db.transaction(async (trx) => {
+      const dbPlaceholders = await trx('placeholders')
+        .where({ document_id: documentId, stale: false })
+        .orderBy('position', 'asc');
+      const byId = new Map<string, any>(dbPlaceholders.map((p: any) => [p.id, p]));
+
+      for (const update of updates) {
+        const existing = byId.get(update.id);
+        if (!existing) {
+          throw new Error('Placeholder not found');
+        }
+
+        if (update.override !== undefined && !existing.linked_to) {
+          throw new Error('Placeholder is not a repeated occurrence');
+        }
+
+        const changes: Record<string, any> = {};
+
+        if (update.fieldName !== undefined && update.fieldName !== existing.field_name) {
+          const taken = Array.from(byId.values()).some(p => p.id !== existing.id && p.field_name === update.fieldName);
+          if (taken) {
+            throw new Error('Field name already in use');
+          }
+          changes.field_name = update.fieldName;
+        }
+
+        if (update.fieldType !== undefined) {
+          changes.field_type = update.fieldType;
+        }
+
+        const fieldType = update.fieldType ?? existing.field_type;
+
+        if (update.acceptSuggestion) {
+          if (!existing.ai_suggested_value) {
+            throw new Error('No suggested value to accept');
+          }
+          Object.assign(changes, this.fillChanges(existing.ai_suggested_value, fieldType, userId));
+        } else if (update.value === null) {
+          Object.assign(changes, {
+            filled_value: null,
+            filled_by: null,
+            filled_at: null,
+            validation_status: ValidationStatus.PENDING,
+            validation_notes: null,
+          });
+        } else if (update.value !== undefined) {
+          Object.assign(changes, this.fillChanges(update.value, fieldType, userId));
+        } else if (update.override === false) {
+          const field = byId.get(existing.linked_to);
+          if (field) {
+            Object.assign(changes, this.followChanges(field));
+          }
+        } else if (update.fieldType !== undefined && existing.filled_value !== null && existing.filled_value !== undefined) {
+          // Re-check the current value against the new type
+          Object.assign(changes, this.validatedValue(existing.filled_value, fieldType));
+        }
+
+        if (existing.linked_to) {
+          if (update.override !== undefined) {
+            changes.value_override = update.override;
+          } else if (update.value !== undefined || update.acceptSuggestion) {
+            changes.value_override = true;
+          }
+        }
+
+        if (Object.keys(changes).length > 0) {
+          await trx('placeholders')
+            .where({ id: existing.id })
+            .update(changes);
+          byId.set(existing.id, { ...existing, ...changes });
+        }
+
+        if (!existing.linked_to && ('field_type' in changes || 'validation_status' in changes)) {
+          await this.updateOccurrences(trx, byId, byId.get(existing.id), changes);
+        }
+      }
+
+      // Once for the whole batch
+      const placeholders = Array.from(byId.values());
+      const filled = placeholders.filter(p => p.filled_value !== null && p.filled_value !== undefined).length;
+      await trx('documents')
+        .where({ id: documentId })
+        .update({
+          completion_percentage: placeholders.length > 0 ? Math.round((filled / placeholders.length) * 100) : 0,
+        });
+
+      await this.versionService.recordVersion(documentId, VersionChangeType.EDIT, userId, trx);
+
+      logger.info('Placeholders updated', { documentId, userId, count: updates.length });
+
+      return updates.map(u => this.mapDbPlaceholderToPlaceholder(byId.get(u.id)));
+    });
   }
 
   /**
-   * Get placeholders for a document
+   * Generate the filled .docx for a document
+   * Substitutes each placeholder's original text with its filled value in the uploaded file
    * @param documentId - ID of the document
-   * @param userId - ID of the user requesting placeholders
-   * @returns Promise<Placeholder[]> - Array of placeholders
+   * @param userId - ID of the user requesting the download
+   * @returns Promise<FilledDocumentFile> - Download filename and file contents
    */
-  async getPlaceholders(documentId: string, userId: string): Promise<Placeholder[]> {
-    // Verify document ownership
+  async generateFilledDocument(documentId: string, userId: string): Promise<FilledDocumentFile> {
+    // Get document and verify ownership
     const dbDocument = await db('documents')
       .where({ id: documentId, user_id: userId })
       .first();
@@ -167,12 +494,93 @@ export class DocumentService {
       throw new Error('Document not found');
     }
 
-    // Get placeholders from database
-    const dbPlaceholders = await db('placeholders')
-      .where({ document_id: documentId })
-      .orderBy('position', 'asc');
+    const buffer = await this.fillDocument(dbDocument);
+    const baseName = path.basename(dbDocument.filename, path.extname(dbDocument.filename));
 
-    return dbPlaceholders.map(dbPlaceholder => this.mapDbPlaceholderToPlaceholder(dbPlaceholder));
+    return {
+      filename: `${baseName}_filled.docx`,
+      buffer,
+    };
+  }
+
+  /**
+   * Export the filled document in another format
+   * - pdf: rendered PDF; drafts (documents that are not completed) are watermarked,
+   *   and the export carries the document type from analysis as metadata
+   * - redline: .docx with filled values as tracked changes by the users who filled them
+   * @param documentId - ID of the document
+   * @param userId - ID of the user requesting the export
+   * @param format - Export format
+   * @param options - Format options such as page size
+   * @returns Promise<FilledDocumentFile> - Export filename and contents
+   */
+  async exportDocument(
+    documentId: string,
+    userId: string,
+    format: ExportFormat,
+    options: ExportOptions = {}
+  ): Promise<FilledDocumentFile> {
+    // Get document and verify ownership
+    const dbDocument = await db('documents')
+      .where({ id: documentId, user_id: userId })
+      .first();
+
+    if (!dbDocument) {
+      throw new Error('Document not found');
+    }
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new Error('Unsupported export format');
+    }
+
+    const owner = await db('users').where({ id: dbDocument.user_id }).first();
+    const baseName = path.basename(dbDocument.filename, path.extname(dbDocument.filename));
+
+    if (format === 'redline') {
+      return {
+        filename: `${baseName}_redline.docx`,
+        buffer: await this.fillDocument(dbDocument, { trackChanges: true, defaultAuthor: owner?.full_name }),
+      };
+    }
+
+    const filled = await this.fillDocument(dbDocument);
+    const structure = await parseDocxStructureFromBuffer(filled);
+
+    const title = structure.parts
+      .find(p => p.type === 'body')?.paragraphs
+      .find(p => p.style && /^title$/i.test(p.style) && p.text.trim())?.text.trim();
+
+    const buffer = await renderPdf(structure, {
+      pageSize: options.pageSize,
+      watermark: dbDocument.status === DocumentStatus.COMPLETED ? undefined : 'DRAFT',
+      metadata: {
+        title: title || baseName,
+        author: owner?.full_name,
+        subject: dbDocument.document_type || undefined,
+        keywords: dbDocument.document_type ? [dbDocument.document_type] : [],
+      },
+    });
+
+    return {
+      filename: `${baseName}.${format}`,
+      buffer,
+    };
+  }
+
+  /**
+   * Get the structured model of a document (parts, paragraphs, runs and tables)
+   * @param documentId - ID of the document
+   * @param userId - ID of the user requesting the structure
+   * @returns Promise<DocumentStructure> - Structured document model
+   */
+  async getDocumentStructure(documentId: string, userId: string): Promise<DocumentStructure> {
+    const dbDocument = await this.findSharedDocument(documentId, userId);
+
+    if (!dbDocument) {
+      throw new Error('Document not found');
+    }
+
+    return parseStructure(dbDocument.file_path);
   }
 
   /**
@@ -182,9 +590,7 @@ export class DocumentService {
    * @returns Promise<Document> - The requested document
    */
   async getDocument(documentId: string, userId: string): Promise<Document> {
-    const dbDocument = await db('documents')
-      .where({ id: documentId, user_id: userId })
-      .first();
+    const dbDocument = await this.findSharedDocument(documentId, userId);
 
     if (!dbDocument) {
       throw new Error('Document not found');
@@ -193,6 +599,29 @@ export class DocumentService {
     return this.mapDbDocumentToDocument(dbDocument);
   }
 
+  /**
+   * Find a document the user may work on with its owner
+   * Members of the owner's organization see and fill the same fields, on the
+   * REST API and the live channel; everything else stays with the owner.
+   * @param documentId - ID of the document
+   * @param userId - ID of the user
+   * @returns The document row, or undefined if missing or not shared with the user
+   */
+  async findSharedDocument(documentId: string, userId: string): Promise<any | undefined> {
+    const dbDocument = await db('documents')
+      .where({ id: documentId })
+      .first();
+
+    if (!dbDocument || dbDocument.user_id === userId) {
+      return dbDocument;
+    }
+
+    const user = await db('users').where({ id: userId }).first();
+    const owner = await db('users').where({ id: dbDocument.user_id }).first();
+
+    return user?.organization && user.organization === owner?.organization ? dbDocument : undefined;
+  }
+
   /**
    * Get all documents for a user
    * @param userId - ID of the user
@@ -206,6 +635,177 @@ export class DocumentService {
     return dbDocuments.map(dbDoc => this.mapDbDocumentToDocument(dbDoc));
   }
 
+  /**
+   * Substitute filled values into a document's .docx file
+   * Unfilled placeholders keep their original text. With trackChanges, each value
+   * is a tracked change attributed to the user who filled it; fields filled
+   * before fills were attributed fall back to defaultAuthor.
+   */
+  private async fillDocument(
+    dbDocument: any,
+    options: { trackChanges?: boolean; defaultAuthor?: string } = {}
+  ): Promise<Buffer> {
+    if (path.extname(dbDocument.file_path).toLowerCase() !== '.docx') {
+      throw new Error('Only .docx documents can be downloaded');
+    }
+
+    if (!fs.existsSync(dbDocument.file_path)) {
+      throw new Error('Document file not found');
+    }
+
+    const dbPlaceholders = await db('placeholders')
+      .leftJoin('users', 'placeholders.filled_by', 'users.id')
+      .where({ 'placeholders.document_id': dbDocument.id, 'placeholders.stale': false })
+      .orderBy('placeholders.position', 'asc')
+      .select('placeholders.*', 'users.full_name as filled_by_name');
+
+    // Unfilled placeholders are passed too, so identical blanks keep their own values
+    return fillDocx(
+      dbDocument.file_path,
+      dbPlaceholders.map(p => ({
+        originalText: p.original_text,
+        value: p.filled_value ?? null,
+        anchors: this.parseAnchors(p.anchors),
+        revision: {
+          author: p.filled_by_name || options.defaultAuthor || 'SmartDocs',
+          date: p.filled_at ? new Date(p.filled_at) : undefined,
+        },
+      })),
+      { trackChanges: options.trackChanges }
+    );
+  }
+
+  /**
+   * Link repeated occurrences of a field to its first occurrence
+   * A newly linked occurrence takes the field's value; one already holding a
+   * different value keeps it as an override.
+   * @returns Rows with their links, in the same order
+   */
+  private async linkRepeatedFields(trx: Knex, rows: any[]): Promise<any[]> {
+    const links = linkOccurrences(rows.map(r => ({ id: r.id, fieldName: r.field_name, originalText: r.original_text })));
+    const byId = new Map<string, any>(rows.map(r => [r.id, r]));
+    const linked: any[] = [];
+
+    for (const row of rows) {
+      const linkedTo = links.get(row.id) ?? null;
+      if (linkedTo === (row.linked_to ?? null)) {
+        linked.push(row);
+        continue;
+      }
+
+      let changes: Record<string, any> = { linked_to: linkedTo, value_override: false };
+
+      if (linkedTo) {
+        const field = byId.get(linkedTo);
+        const ownValue = row.filled_value !== null && row.filled_value !== undefined && row.filled_value !== field.filled_value;
+        changes = ownValue
+          ? { linked_to: linkedTo, value_override: true }
+          : { ...changes, ...this.followChanges(field) };
+      }
+
+      await trx('placeholders')
+        .where({ id: row.id })
+        .update(changes);
+
+      linked.push({ ...row, ...changes });
+    }
+
+    return linked;
+  }
+
+  /**
+   * Carry a field's new type and value over to its repeated occurrences
+   * Overridden occurrences keep their value, re-checked against a new type.
+   */
+  private async updateOccurrences(
+    trx: Knex,
+    byId: Map<string, any>,
+    field: any,
+    fieldChanges: Record<string, any>
+  ): Promise<void> {
+    const occurrences = Array.from(byId.values()).filter(p => p.linked_to === field.id);
+
+    for (const occurrence of occurrences) {
+      const changes: Record<string, any> = {};
+
+      if ('field_type' in fieldChanges) {
+        changes.field_type = field.field_type;
+      }
+
+      if (!occurrence.value_override) {
+        Object.assign(changes, this.followChanges(field));
+      } else if ('field_type' in fieldChanges && occurrence.filled_value !== null && occurrence.filled_value !== undefined) {
+        Object.assign(changes, this.validatedValue(occurrence.filled_value, field.field_type));
+      }
+
+      if (Object.keys(changes).length === 0) {
+        continue;
+      }
+
+      await trx('placeholders')
+        .where({ id: occurrence.id })
+        .update(changes);
+      byId.set(occurrence.id, { ...occurrence, ...changes });
+    }
+  }
+
+  /**
+   * Value columns copied from a field to the occurrences that follow it
+   */
+  private followChanges(field: any): Record<string, any> {
+    return {
+      filled_value: field.filled_value ?? null,
+      filled_by: field.filled_by ?? null,
+      filled_at: field.filled_at ?? null,
+      validation_status: field.validation_status,
+      validation_notes: field.validation_notes ?? null,
+    };
+  }
+
+  private fillChanges(value: string, fieldType: string, userId: string): Record<string, any> {
+    return {
+      ...this.validatedValue(value, fieldType),
+      filled_by: userId,
+      filled_at: new Date(),
+    };
+  }
+
+  /**
+   * Normalized value when valid for the field type; otherwise the value as
+   * entered, flagged with the reason
+   */
+  private validatedValue(value: string, fieldType: string): Record<string, any> {
+    const validation = validateFieldValue(fieldType, value);
+
+    return {
+      filled_value: validation.value,
+      validation_status: validation.valid ? ValidationStatus.VALIDATED : ValidationStatus.FLAGGED,
+      validation_notes: validation.valid ? null : validation.notes,
+    };
+  }
+
+  /**
+   * Locate anchors for placeholder texts, given in document order.
+   * Extraction still succeeds without anchors if the structure cannot be parsed.
+   */
+  private async locateAnchors(filePath: string, originalTexts: string[]): Promise<PlaceholderAnchor[][]> {
+    try {
+      const structure = await parseStructure(filePath);
+      return locatePlaceholders(structure, originalTexts);
+    } catch (error) {
+      logger.warn('Could not locate placeholder anchors', {
+        filePath,
+        error: error instanceof Error ? error.message : error,
+      });
+      return originalTexts.map(() => []);
+    }
+  }
+
+  private parseAnchors(anchors: any): PlaceholderAnchor[] {
+    if (!anchors) return [];
+    return typeof anchors === 'string' ? JSON.parse(anchors) : anchors;
+  }
+
   /**
    * Map database document row to Document type
    */
@@ -239,11 +839,18 @@ export class DocumentService {
       originalText: dbPlaceholder.original_text,
       position: dbPlaceholder.position,
       filledValue: dbPlaceholder.filled_value,
+      filledBy: dbPlaceholder.filled_by || undefined,
+      filledAt: dbPlaceholder.filled_at || undefined,
       aiSuggestedValue: dbPlaceholder.ai_suggested_value,
       suggestionSource: dbPlaceholder.suggestion_source,
       confidence: dbPlaceholder.confidence || 0,
       validationStatus: dbPlaceholder.validation_status as ValidationStatus,
       validationNotes: dbPlaceholder.validation_notes,
+      anchors: this.parseAnchors(dbPlaceholder.anchors),
+      detectionSource: (dbPlaceholder.detection_source || undefined) as DetectionSource | undefined,
+      stale: !!dbPlaceholder.stale,
+      linkedTo: dbPlaceholder.linked_to || undefined,
+      valueOverride: !!dbPlaceholder.value_override,
     };
   }
 }
@@ -0,0 +1,343 @@
+import {
+  DocumentSnapshot,
+  DocumentStatus,
+  DocumentVersion,
+  DocumentVersionDiff,
+  FieldChange,
+  PlaceholderChange,
+  PlaceholderFieldType,
+  PlaceholderSnapshot,
+  ValidationStatus,
+  VersionChangeType,
+} from '@smartdocs/common';
+import type { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/knex';
+import { logger } from '../utils/logger';
+import { collaborationService } from './CollaborationService';
+
+/**
+ * DocumentVersionService
+ * Keeps a numbered snapshot of a document's status, metadata and placeholder
+ * values after every change, so earlier states can be compared and restored.
+ */
+export class DocumentVersionService {
+  /**
+   * Snapshot the current state of a document as its next version
+   * The new state is published to everyone connected to the document.
+   * @param documentId - ID of the document
+   * @param changeType - The change that produced this state
+   * @param userId - ID of the user who made the change
+   * @param executor - Transaction to record the version in, if any
+   * @returns Promise<DocumentVersion> - The recorded version
+   */
+  async recordVersion(
+    documentId: string,
+    changeType: VersionChangeType,
+    userId?: string,
+    executor: Knex = db,
+    restoredFrom?: number
+  ): Promise<DocumentVersion> {
+    // Collaborators hear of a change made in a transaction once it is committed
+    if (executor.isTransaction) {
+      const trx = executor as Knex.Transaction;
+      const { version, publish } = await this.insertVersion(trx, documentId, changeType, userId, restoredFrom);
+      trx.executionPromise.then(publish, () => undefined);
+      return version;
+    }
+
+    const { version, publish } = await db.transaction(trx =>
+      this.insertVersion(trx, documentId, changeType, userId, restoredFrom)
+    );
+    publish();
+    return version;
+  }
+
+  /**
+   * Get all versions of a document, oldest first
+   * @param documentId - ID of the document
+   * @param userId - ID of the user requesting the versions
+   * @returns Promise<DocumentVersion[]> - Versions with their snapshots
+   */
+  async getVersions(documentId: string, userId: string): Promise<DocumentVersion[]> {
+    await this.verifyOwnership(documentId, userId);
+
+    const dbVersions = await db('document_versions')
+      .where({ document_id: documentId })
+      .orderBy('version_number', 'asc');
+
+    return dbVersions.map(dbVersion => this.mapDbVersionToVersion(dbVersion));
+  }
+
+  /**
+   * Get a single version of a document
+   * @param documentId - ID of the document
+   * @param userId - ID of the user requesting the version
+   * @param versionNumber - Version to retrieve
+   * @returns Promise<DocumentVersion> - The requested version
+   */
+  async getVersion(documentId: string, userId: string, versionNumber: number): Promise<DocumentVersion> {
+    await this.verifyOwnership(documentId, userId);
+    return this.findVersion(db, documentId, versionNumber);
+  }
+
+  /**
+   * Compare two versions field by field
+   * Document fields and metadata keys are compared by value; placeholders are
+   * matched by ID and reported as added, removed or changed.
+   * @param documentId - ID of the document
+   * @param userId - ID of the user requesting the diff
+   * @param fromVersion - Older version number
+   * @param toVersion - Newer version number
+   * @returns Promise<DocumentVersionDiff> - Changes from one version to the other
+   */
+  async diffVersions(
+    documentId: string,
+    userId: string,
+    fromVersion: number,
+    toVersion: number
+  ): Promise<DocumentVersionDiff> {
+    await this.verifyOwnership(documentId, userId);
+
+    const from = (await this.findVersion(db, documentId, fromVersion)).snapshot;
+    const to = (await this.findVersion(db, documentId, toVersion)).snapshot;
+
+    const documentChanges = this.diffFields(
+      { status: from.status, documentType: from.documentType, completionPercentage: from.completionPercentage },
+      { status: to.status, documentType: to.documentType, completionPercentage: to.completionPercentage }
+    );
+    const metadataChanges = this.diffFields(from.metadata, to.metadata)
+      .map(change => ({ ...change, field: `metadata.${change.field}` }));
+
+    const fromPlaceholders = new Map(from.placeholders.map(p => [p.id, p]));
+    const toPlaceholders = new Map(to.placeholders.map(p => [p.id, p]));
+
+    const changed: PlaceholderChange[] = [];
+    for (const placeholder of to.placeholders) {
+      const previous = fromPlaceholders.get(placeholder.id);
+      if (!previous) continue;
+
+      const changes = this.diffFields(previous, placeholder);
+      if (changes.length > 0) {
+        changed.push({ placeholderId: placeholder.id, fieldName: placeholder.fieldName, changes });
+      }
+    }
+
+    return {
+      fromVersion,
+      toVersion,
+      document: [...documentChanges, ...metadataChanges],
+      placeholders: {
+        added: to.placeholders.filter(p => !fromPlaceholders.has(p.id)),
+        removed: from.placeholders.filter(p => !toPlaceholders.has(p.id)),
+        changed,
+      },
+    };
+  }
+
+  /**
+   * Restore a document to a prior version
+   * The document's status, metadata and placeholders are reset to the snapshot,
+   * and the result is recorded as a new version, so the restore itself can be
+   * undone. Placeholders added since are marked stale rather than deleted, so
+   * conversation messages about them keep their link to the field.
+   * @param documentId - ID of the document
+   * @param userId - ID of the user restoring the version
+   * @param versionNumber - Version to restore
+   * @returns Promise<DocumentVersion> - The new version created by the restore
+   */
+  async restoreVersion(documentId: string, userId: string, versionNumber: number): Promise<DocumentVersion> {
+    await this.verifyOwnership(documentId, userId);
+
+    return db.transaction(async (trx) => {
+      const { snapshot } = await this.findVersion(trx, documentId, versionNumber);
+
+      await trx('documents')
+        .where({ id: documentId })
+        .update({
+          status: snapshot.status,
+          document_type: snapshot.documentType || null,
+          completion_percentage: snapshot.completionPercentage,
+          metadata: JSON.stringify(snapshot.metadata),
+        });
+
+      await trx('placeholders')
+        .where({ document_id: documentId })
+        .whereNotIn('id', snapshot.placeholders.map(p => p.id))
+        .update({ stale: true });
+
+      if (snapshot.placeholders.length > 0) {
+        const columns = [
+          'field_name', 'field_type', 'original_text', 'position', 'filled_value',
+          'filled_by', 'filled_at', 'validation_status', 'validation_notes', 'ai_suggested_value',
+          'confidence', 'anchors', 'detection_source', 'stale', 'linked_to', 'value_override',
+        ];
+
+        await trx('placeholders')
+          .insert(snapshot.placeholders.map(p => ({
+            id: p.id,
+            document_id: documentId,
+            field_name: p.fieldName,
+            field_type: p.fieldType,
+            original_text: p.originalText,
+            position: p.position,
+            filled_value: p.filledValue ?? null,
+            filled_by: p.filledBy ?? null,
+            filled_at: p.filledAt ?? null,
+            validation_status: p.validationStatus,
+            validation_notes: p.validationNotes ?? null,
+            ai_suggested_value: p.aiSuggestedValue ?? null,
+            confidence: p.confidence ?? null,
+            anchors: JSON.stringify(p.anchors || []),
+            detection_source: p.detectionSource ?? null,
+            stale: !!p.stale,
+            linked_to: p.linkedTo ?? null,
+            value_override: !!p.valueOverride,
+          })))
+          .onConflict('id')
+          .merge(columns);
+      }
+
+      return this.recordVersion(documentId, VersionChangeType.RESTORE, userId, trx, versionNumber);
+    });
+  }
+
+  private async verifyOwnership(documentId: string, userId: string): Promise<any> {
+    const dbDocument = await db('documents')
+      .where({ id: documentId, user_id: userId })
+      .first();
+
+    if (!dbDocument) {
+      throw new Error('Document not found');
+    }
+
+    return dbDocument;
+  }
+
+  private async findVersion(executor: Knex, documentId: string, versionNumber: number): Promise<DocumentVersion> {
+    const dbVersion = await executor('document_versions')
+      .where({ document_id: documentId, version_number: versionNumber })
+      .first();
+
+    if (!dbVersion) {
+      throw new Error('Version not found');
+    }
+
+    return this.mapDbVersionToVersion(dbVersion);
+  }
+
+  /**
+   * Insert the next version of a document
+   * The document row is locked first, so concurrent changes are numbered in
+   * turn rather than both taking the same number.
+   * @returns The recorded version and a callback publishing it to collaborators
+   */
+  private async insertVersion(
+    trx: Knex.Transaction,
+    documentId: string,
+    changeType: VersionChangeType,
+    userId?: string,
+    restoredFrom?: number
+  ): Promise<{ version: DocumentVersion; publish: () => void }> {
+    const snapshot = await this.takeSnapshot(trx, documentId);
+
+    const latest = await trx('document_versions')
+      .where({ document_id: documentId })
+      .max('version_number as max')
+      .first();
+
+    const [dbVersion] = await trx('document_versions').insert({
+      id: uuidv4(),
+      document_id: documentId,
+      version_number: (latest?.max || 0) + 1,
+      change_type: changeType,
+      restored_from: restoredFrom,
+      created_by: userId,
+      snapshot: JSON.stringify(snapshot),
+    }).returning('*');
+
+    logger.info('Document version recorded', {
+      documentId,
+      versionNumber: dbVersion.version_number,
+      changeType,
+    });
+
+    return {
+      version: this.mapDbVersionToVersion(dbVersion),
+      publish: () => collaborationService.publishChange(documentId, {
+        changeType,
+        versionNumber: dbVersion.version_number,
+        changedBy: userId,
+        snapshot,
+      }),
+    };
+  }
+
+  private async takeSnapshot(trx: Knex.Transaction, documentId: string): Promise<DocumentSnapshot> {
+    const dbDocument = await trx('documents').where({ id: documentId }).forUpdate().first();
+    if (!dbDocument) {
+      throw new Error('Document not found');
+    }
+
+    const dbPlaceholders = await trx('placeholders')
+      .where({ document_id: documentId })
+      .orderBy('position', 'asc');
+
+    return {
+      status: dbDocument.status as DocumentStatus,
+      documentType: dbDocument.document_type || undefined,
+      completionPercentage: dbDocument.completion_percentage || 0,
+      metadata: this.parseJson(dbDocument.metadata) || {},
+      placeholders: dbPlaceholders.map((p: any): PlaceholderSnapshot => ({
+        id: p.id,
+        fieldName: p.field_name,
+        fieldType: p.field_type as PlaceholderFieldType,
+        originalText: p.original_text,
+        position: p.position,
+        filledValue: p.filled_value ?? undefined,
+        filledBy: p.filled_by ?? undefined,
+        filledAt: p.filled_at ? new Date(p.filled_at).toISOString() : undefined,
+        validationStatus: p.validation_status as ValidationStatus,
+        validationNotes: p.validation_notes ?? undefined,
+        aiSuggestedValue: p.ai_suggested_value ?? undefined,
+        confidence: p.confidence ?? undefined,
+        anchors: this.parseJson(p.anchors) || [],
+        detectionSource: p.detection_source ?? undefined,
+        stale: !!p.stale,
+        linkedTo: p.linked_to ?? undefined,
+        valueOverride: !!p.value_override,
+      })),
+    };
+  }
+
+  /**
+   * Map database version row to DocumentVersion type
+   */
+  private mapDbVersionToVersion(dbVersion: any): DocumentVersion {
+    return {
+      id: dbVersion.id,
+      documentId: dbVersion.document_id,
+      versionNumber: dbVersion.version_number,
+      changeType: dbVersion.change_type as VersionChangeType,
+      restoredFrom: dbVersion.restored_from ?? undefined,
+      createdBy: dbVersion.created_by || undefined,
+      createdAt: new Date(dbVersion.created_at),
+      snapshot: this.parseJson(dbVersion.snapshot),
+    };
+  }
+
+  /**
+   * Keys whose values differ between two records, compared by JSON value
+   */
+  private diffFields(from: Record<string, any>, to: Record<string, any>): FieldChange[] {
+    const fields = Array.from(new Set([...Object.keys(to || {}), ...Object.keys(from || {})]));
+
+    return fields
+      .filter(field => JSON.stringify(from?.[field]) !== JSON.stringify(to?.[field]))
+      .map(field => ({ field, from: from?.[field] ?? null, to: to?.[field] ?? null }));
+  }
+
+  private parseJson(value: any): any {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+}
@@ -19,8 +19,10 @@ export interface KnowledgeGraphEntity {
 
 export interface EntitySuggestion {
   entityValue: string;
+  entityType?: string;        // Knowledge graph entity type; absent for AI suggestions
   confidence: number;
   source: string;
+  sourceDocumentId?: string;  // Data room document the value was found in
   usageCount: number;
   lastUsed: Date;
 }
@@ -165,6 +167,8 @@ export class KnowledgeGraphService {
 
   /**
    * Get entity suggestions for a placeholder using AI
+   * Only entities found in the user's own data room are suggested. Suggestions
+   * are ranked by confidence, then by how often they have been used.
    * @param placeholderId - ID of the placeholder
    * @param fieldName - Name of the field
    * @param fieldType - Type of the field
@@ -195,13 +199,16 @@ export class KnowledgeGraphService {
         throw new Error('Unauthorized');
       }
 
-      // Search knowledge graph for matching entities
+      // Search the user's data room entities for matches
       const matchingEntities = await db('knowledge_graph')
-        .select('*')
-        .where('entity_type', 'ilike', `%${fieldName}%`)
-        .orWhere('entity_type', 'ilike', `%${fieldType}%`)
-        .orderBy('usage_count', 'desc')
-        .orderBy('confidence', 'desc')
+        .select('knowledge_graph.*', 'data_room_documents.company_name')
+        .join('data_room_documents', 'knowledge_graph.source_document_id', 'data_room_documents.id')
+        .where({ 'data_room_documents.user_id': userId })
+        .where(query => query
+          .where('knowledge_graph.entity_type', 'ilike', `%${fieldName}%`)
+          .orWhere('knowledge_graph.entity_type', 'ilike', `%${fieldType}%`))
+        .orderBy('knowledge_graph.usage_count', 'desc')
+        .orderBy('knowledge_graph.confidence', 'desc')
         .limit(5);
 
       // Use EntityMatcher agent for intelligent suggestions
@@ -245,8 +252,10 @@ export class KnowledgeGraphService {
       const suggestions: EntitySuggestion[] = [
         ...matchingEntities.map(e => ({
           entityValue: e.entity_value,
+          entityType: e.entity_type,
           confidence: e.confidence,
-          source: e.source_document_type || 'Knowledge Graph',
+          source: [e.company_name, e.source_document_type].filter(Boolean).join(' ') || 'Knowledge Graph',
+          sourceDocumentId: e.source_document_id,
           usageCount: e.usage_count,
           lastUsed: new Date(e.last_updated),
         })),
@@ -258,7 +267,7 @@ export class KnowledgeGraphService {
         .filter((s, index, self) =>
           index === self.findIndex(t => t.entityValue === s.entityValue)
         )
-        .sort((a, b) => b.confidence - a.confidence)
+        .sort((a, b) => b.confidence - a.confidence || b.usageCount - a.usageCount)
         .slice(0, 5);
 
       logger.info('Entity suggestions generated', {
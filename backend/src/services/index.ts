@@ -1,7 +1,11 @@
 // backend/src/services/index.ts
 export * from './AIAgentService';
 export * from './DocumentService';
+export * from './DocumentVersionService';
+export * from './ConversationAuditService';
 export * from './ConversationService';
 export * from './DataRoomService';
 export * from './KnowledgeGraphService';
 export * from './AnalyticsService';
+export * from './AIBudgetService';
+export * from './AICacheService';
@@ -0,0 +1,6 @@
+// The library file of pdf-parse, without the entry point's debug self-test;
+// it exports the same function as the package
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  import pdfParse from 'pdf-parse';
+  export = pdfParse;
+}
@@ -0,0 +1,95 @@
+export type ConversationAction = 'skip' | 'back' | 'goto' | 'change' | 'review';
+
+export const CONVERSATION_ACTIONS: ConversationAction[] = ['skip', 'back', 'goto', 'change', 'review'];
+
+export interface ConversationCommand {
+  action: ConversationAction;
+  field?: string;  // Field name as the user wrote it (goto, change)
+  value?: string;  // New value (change)
+}
+
+const SKIP_PATTERN = /^\/?(skip|pass)( (this|it|this one|this field))?( for now)?[.!]*$/i;
+const BACK_PATTERN = /^\/?(back|go back|previous|previous field)[.!]*$/i;
+const REVIEW_PATTERN = /^\/?(review|summary|show (me )?(a |the )?(summary|review|progress)|what do (we|you) have( so far)?)[.!?]*$/i;
+const GOTO_PATTERN = /^\/?(?:go ?to|jump to)\s+(?:the\s+)?(.+?)(?:\s+field)?[.!]*$/i;
+const CHANGE_PATTERN = /^\/?(?:change|update|edit)\s+(?:the\s+)?(.+?)(?:\s+field)?(?:\s+to\s+(.+))?$/i;
+
+/**
+ * Recognize a navigation command typed in the conversation
+ *
+ * - skip: "skip", "skip this for now"
+ * - back: "back", "go back", "previous"
+ * - goto: "go to company name", "jump to the valuation cap field"
+ * - change: "change company name to Acme Inc."; without a value it acts like goto
+ * - review: "review", "show summary", "what do we have so far?"
+ *
+ * @param message - Message as typed by the user
+ * @returns ConversationCommand | null - The command, or null for any other message
+ */
+export function parseConversationCommand(message: string): ConversationCommand | null {
+  const text = message.trim().replace(/\s+/g, ' ');
+  let match: RegExpMatchArray | null;
+
+  if (SKIP_PATTERN.test(text)) {
+    return { action: 'skip' };
+  }
+  if (BACK_PATTERN.test(text)) {
+    return { action: 'back' };
+  }
+  if (REVIEW_PATTERN.test(text)) {
+    return { action: 'review' };
+  }
+  if ((match = text.match(GOTO_PATTERN))) {
+    return { action: 'goto', field: match[1] };
+  }
+  if ((match = text.match(CHANGE_PATTERN))) {
+    return match[2]
+      ? { action: 'change', field: match[1], value: match[2].trim() }
+      : { action: 'goto', field: match[1] };
+  }
+
+  return null;
+}
+
+/**
+ * Write a command the way a user would type it, for the transcript
+ */
+export function describeCommand(command: ConversationCommand): string {
+  switch (command.action) {
+    case 'goto':
+      return `go to ${command.field}`;
+    case 'change':
+      return `change ${command.field} to ${command.value}`;
+    default:
+      return command.action;
+  }
+}
+
+/**
+ * Find the field a user referred to by name
+ * Names match ignoring case, spaces, underscores and punctuation ("company name"
+ * finds company_name). Failing an exact match, a single field whose name
+ * contains the text is used.
+ *
+ * @param fields - Fields to search
+ * @param name - Field name as the user wrote it
+ * @returns The matching field, or undefined if none or several match
+ */
+export function findFieldByName<T extends { field_name: string }>(fields: T[], name: string): T | undefined {
+  const wanted = normalizeFieldName(name);
+  if (!wanted) {
+    return undefined;
+  }
+
+  const exact = fields.find(f => normalizeFieldName(f.field_name) === wanted);
+  if (exact) {
+    return exact;
+  }
+
+  const partial = fields.filter(f => normalizeFieldName(f.field_name).includes(wanted));
+  return partial.length === 1 ? partial[0] : undefined;
+}
+
+function normalizeFieldName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
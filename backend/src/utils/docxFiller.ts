@@ -0,0 +1,440 @@
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import { PlaceholderAnchor } from '@smartdocs/common';
+import * as fs from 'fs';
+import JSZip from 'jszip';
+import * as path from 'path';
+import { closestAncestor, collectTextSegments, getParagraphs, listTextParts, TextSegment, WORD_NS } from './docxStructure';
+
+export interface DocxRevision {
+  author: string;
+  date?: Date;
+}
+
+export interface DocxReplacement {
+  originalText: string;
+  value: string | null;     // null keeps the original text, for a placeholder not filled yet
+  anchors?: PlaceholderAnchor[];
+  revision?: DocxRevision;  // Attribution when written as a tracked change
+}
+
+export interface FillOptions {
+  trackChanges?: boolean;  // Write substitutions as Word tracked changes (w:del + w:ins)
+}
+
+interface TextMatch {
+  start: number;
+  end: number;
+  originalText: string;
+}
+
+interface Substitution {
+  start: number;
+  end: number;
+  value: string | null;
+  revision?: DocxRevision;
+}
+
+interface ValueQueue {
+  replacements: DocxReplacement[];
+  fillsAll: boolean;        // A single placeholder owns the text, so its value fills every occurrence
+}
+
+interface FillContext {
+  trackChanges: boolean;
+  nextRevisionId: number;
+}
+
+const DEFAULT_REVISION_AUTHOR = 'SmartDocs';
+
+// Revision ids must be unique within the package; start well above ids Word assigns
+const FIRST_REVISION_ID = 100000;
+
+interface AnchoredSubstitution extends Substitution {
+  originalText: string;
+}
+
+/**
+ * Produce a filled copy of a DOCX file with placeholder text substituted
+ *
+ * Replacements are applied paragraph by paragraph so placeholders that Word
+ * split across several runs are still found. The replacement text inherits the
+ * formatting of the run where the placeholder starts; all other markup
+ * (numbering, tables, headers, footers) is left untouched.
+ *
+ * Replacements with anchors are applied exactly at those locations. Without
+ * anchors (or when the text at an anchor no longer matches) the original text
+ * is searched for: when several replacements share the same original text
+ * (e.g. multiple `________` blanks), their values are assigned to occurrences
+ * in document order, and only a replacement that is alone in having its
+ * original text fills every occurrence. Placeholders not filled yet should be
+ * passed with a null value, so they keep their turn and their original text.
+ *
+ * With `trackChanges`, the runs holding each placeholder are split out and
+ * marked as a deletion followed by an insertion of the value, attributed to the
+ * replacement's revision author, so reviewers can accept or reject them in Word.
+ *
+ * @param filePath - Absolute path to the source .docx file
+ * @param replacements - Original placeholder text and the value to substitute
+ * @param options - Fill options
+ * @returns Promise<Buffer> - The filled .docx file contents
+ * @throws Error if the file is missing, not a .docx file, or cannot be processed
+ */
+export async function fillDocx(
+  filePath: string,
+  replacements: DocxReplacement[],
+  options: FillOptions = {}
+): Promise<Buffer> {
+  if (!filePath || filePath.trim() === '') {
+    throw new Error('File path is required');
+  }
+
+  if (!fs.existsSync(filePath)) {
+    throw new Error('File does not exist');
+  }
+
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext !== '.docx') {
+    throw new Error('File must be a .docx file');
+  }
+
+  try {
+    const zip = await JSZip.loadAsync(await fs.promises.readFile(filePath));
+    const anchored = replacements.filter(r => r.anchors && r.anchors.length > 0);
+    const unanchored = replacements.filter(r => !r.anchors || r.anchors.length === 0);
+    const valueQueues = buildValueQueues(unanchored, replacements);
+    const context: FillContext = { trackChanges: !!options.trackChanges, nextRevisionId: FIRST_REVISION_ID };
+
+    for (const partName of listTextParts(zip)) {
+      const xml = await zip.file(partName)!.async('string');
+      const doc = new DOMParser().parseFromString(xml, 'text/xml');
+
+      if (fillParagraphs(doc, anchoredSubstitutions(anchored, partName), valueQueues, context)) {
+        zip.file(partName, new XMLSerializer().serializeToString(doc));
+      }
+    }
+
+    return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to fill DOCX file: ${errorMessage}`);
+  }
+}
+
+/**
+ * Group replacements by the text they replace, preserving input order
+ * @param unanchored - Replacements to assign to occurrences of their text
+ * @param all - Every replacement, to tell whether one alone has its text
+ */
+function buildValueQueues(unanchored: DocxReplacement[], all: DocxReplacement[]): Map<string, ValueQueue> {
+  const queues = new Map<string, ValueQueue>();
+
+  for (const replacement of unanchored) {
+    if (!replacement.originalText) continue;
+    const queue = queues.get(replacement.originalText) || { replacements: [], fillsAll: false };
+    queue.replacements.push(replacement);
+    queues.set(replacement.originalText, queue);
+  }
+
+  for (const [originalText, queue] of queues) {
+    queue.fillsAll = all.filter(r => r.originalText === originalText).length === 1;
+  }
+
+  return queues;
+}
+
+/**
+ * Anchored substitutions for one part, keyed by paragraph index
+ */
+function anchoredSubstitutions(
+  replacements: DocxReplacement[],
+  partName: string
+): Map<number, AnchoredSubstitution[]> {
+  const byParagraph = new Map<number, AnchoredSubstitution[]>();
+
+  for (const replacement of replacements) {
+    for (const anchor of replacement.anchors || []) {
+      if (anchor.part !== partName) continue;
+      const list = byParagraph.get(anchor.paragraphIndex) || [];
+      list.push({
+        start: anchor.start,
+        end: anchor.end,
+        value: replacement.value,
+        revision: replacement.revision,
+        originalText: replacement.originalText,
+      });
+      byParagraph.set(anchor.paragraphIndex, list);
+    }
+  }
+
+  return byParagraph;
+}
+
+/**
+ * Apply replacements to every paragraph of a part
+ * @returns true if any text was changed
+ */
+function fillParagraphs(
+  doc: Document,
+  anchored: Map<number, AnchoredSubstitution[]>,
+  valueQueues: Map<string, ValueQueue>,
+  context: FillContext
+): boolean {
+  const keys = Array.from(valueQueues.keys()).sort((a, b) => b.length - a.length);
+  if (keys.length === 0 && anchored.size === 0) return false;
+
+  let changed = false;
+  const paragraphs = getParagraphs(doc);
+
+  paragraphs.forEach((paragraph, index) => {
+    const segments = collectTextSegments(paragraph);
+    if (segments.length === 0) return;
+
+    const text = segments.map(s => s.node.textContent || '').join('');
+
+    // Anchors whose text no longer matches are ignored rather than corrupting the paragraph
+    const substitutions: Substitution[] = (anchored.get(index) || [])
+      .filter(s => text.slice(s.start, s.end) === s.originalText);
+
+    // Values are taken in document order, skipping text already covered by an anchor
+    for (const match of findMatches(text, keys)) {
+      if (substitutions.some(s => s.start < match.end && match.start < s.end)) continue;
+      const replacement = takeReplacement(valueQueues, match.originalText);
+      if (replacement) {
+        substitutions.push({
+          start: match.start,
+          end: match.end,
+          value: replacement.value,
+          revision: replacement.revision,
+        });
+      }
+    }
+
+    // Applied back to front so earlier offsets stay valid
+    substitutions
+      .filter((s): s is Substitution & { value: string } => s.value !== null)
+      .sort((a, b) => b.start - a.start)
+      .forEach(s => {
+        const runs = context.trackChanges ? isolateRange(segments, s.start, s.end) : null;
+        if (runs) {
+          markRevision(runs, s.value, s.revision, context);
+        } else {
+          replaceRange(segments, s.start, s.end, s.value);
+        }
+        changed = true;
+      });
+  });
+
+  return changed;
+}
+
+/**
+ * Find non-overlapping occurrences of the given keys, scanning left to right
+ * and preferring the longest key at each position
+ */
+function findMatches(text: string, keysByLength: string[]): TextMatch[] {
+  const matches: TextMatch[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const key = keysByLength.find(k => text.startsWith(k, index));
+    if (key) {
+      matches.push({ start: index, end: index + key.length, originalText: key });
+      index += key.length;
+    } else {
+      index++;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Take the next replacement for an original text. A replacement that alone has
+ * its original text is kept, so it fills every occurrence.
+ */
+function takeReplacement(
+  valueQueues: Map<string, ValueQueue>,
+  originalText: string
+): DocxReplacement | undefined {
+  const queue = valueQueues.get(originalText);
+  if (!queue) return undefined;
+  return queue.fillsAll ? queue.replacements[0] : queue.replacements.shift();
+}
+
+/**
+ * Replace the paragraph text between start and end, putting the new value in
+ * the first affected segment and trimming the matched text from the others
+ */
+function replaceRange(segments: TextSegment[], start: number, end: number, value: string): void {
+  let inserted = false;
+
+  for (const segment of segments) {
+    if (segment.end <= start || segment.start >= end) continue;
+
+    const current = segment.node.textContent || '';
+    const localStart = Math.max(start, segment.start) - segment.start;
+    const localEnd = Math.min(end, segment.end) - segment.start;
+    const insertion = inserted ? '' : value;
+
+    setText(segment.node, current.slice(0, localStart) + insertion + current.slice(localEnd));
+    inserted = true;
+  }
+}
+
+/**
+ * Split the runs covering a range of the paragraph text so that the range is
+ * held by whole runs of its own
+ * @returns The runs holding the range in document order, or null if some of the
+ *          text is not directly inside a run (the range is then left untouched)
+ */
+function isolateRange(segments: TextSegment[], start: number, end: number): Element[] | null {
+  const affected = segments.filter(s => s.start < end && s.start + (s.node.textContent || '').length > start);
+  if (affected.some(s => !s.node.parentNode || s.node.parentNode !== closestAncestor(s.node, 'r'))) {
+    return null;
+  }
+
+  return affected.map(segment => {
+    const node = segment.node;
+    const length = (node.textContent || '').length;
+    const localStart = Math.max(start, segment.start) - segment.start;
+    const localEnd = Math.min(end, segment.start + length) - segment.start;
+
+    // Move everything after the range into a run of its own
+    if (localEnd < length || hasContentAfter(node)) {
+      splitRun(node, localEnd);
+    }
+
+    // Then split off the range itself, unless the run already starts with it
+    const run = node.parentNode as Element;
+    if (localStart > 0 || hasContentBefore(node)) {
+      return splitRun(node, localStart);
+    }
+    return run;
+  });
+}
+
+/**
+ * Split a run at an offset inside one of its text nodes. The run keeps the text
+ * before the offset; a new run with the same properties, inserted after it,
+ * receives the rest of the text and the following run content.
+ * @returns The new run
+ */
+function splitRun(textNode: Element, offset: number): Element {
+  const run = textNode.parentNode as Element;
+  const doc = run.ownerDocument!;
+  const right = run.cloneNode(false) as Element;
+
+  const properties = childElement(run, 'rPr');
+  if (properties) {
+    right.appendChild(properties.cloneNode(true));
+  }
+
+  const text = textNode.textContent || '';
+  if (offset < text.length) {
+    const tail = doc.createElementNS(WORD_NS, textNode.nodeName);
+    setText(tail, text.slice(offset));
+    right.appendChild(tail);
+  }
+
+  while (textNode.nextSibling) {
+    right.appendChild(textNode.nextSibling);
+  }
+
+  if (offset > 0) {
+    setText(textNode, text.slice(0, offset));
+  } else {
+    run.removeChild(textNode);
+  }
+
+  run.parentNode!.insertBefore(right, run.nextSibling);
+  return right;
+}
+
+/**
+ * Mark isolated runs as deleted and insert the value after them, both as
+ * tracked revisions. The inserted run takes the formatting of the first run.
+ */
+function markRevision(runs: Element[], value: string, revision: DocxRevision | undefined, context: FillContext): void {
+  const doc = runs[0].ownerDocument!;
+  const attribution = revision || { author: DEFAULT_REVISION_AUTHOR };
+  let deletion: Element | null = null;
+
+  for (const run of runs) {
+    for (const textNode of childElements(run, 't')) {
+      const deleted = doc.createElementNS(WORD_NS, 'w:delText');
+      setText(deleted, textNode.textContent || '');
+      run.replaceChild(deleted, textNode);
+    }
+
+    // Adjacent runs share a single w:del
+    if (!deletion || run.previousSibling !== deletion) {
+      deletion = createRevisionElement(doc, 'w:del', attribution, context);
+      run.parentNode!.insertBefore(deletion, run);
+    }
+    deletion.appendChild(run);
+  }
+
+  if (!value) return;
+
+  const insertedRun = doc.createElementNS(WORD_NS, 'w:r');
+  const properties = childElement(runs[0], 'rPr');
+  if (properties) {
+    insertedRun.appendChild(properties.cloneNode(true));
+  }
+  const text = doc.createElementNS(WORD_NS, 'w:t');
+  setText(text, value);
+  insertedRun.appendChild(text);
+
+  const insertion = createRevisionElement(doc, 'w:ins', attribution, context);
+  insertion.appendChild(insertedRun);
+  deletion!.parentNode!.insertBefore(insertion, deletion!.nextSibling);
+}
+
+function createRevisionElement(doc: Document, name: string, revision: DocxRevision, context: FillContext): Element {
+  const element = doc.createElementNS(WORD_NS, name);
+  element.setAttributeNS(WORD_NS, 'w:id', String(context.nextRevisionId++));
+  element.setAttributeNS(WORD_NS, 'w:author', revision.author);
+  if (revision.date) {
+    // Word expects whole seconds
+    element.setAttributeNS(WORD_NS, 'w:date', revision.date.toISOString().replace(/\.\d{3}Z$/, 'Z'));
+  }
+  return element;
+}
+
+function hasContentBefore(node: Element): boolean {
+  for (let sibling = node.previousSibling; sibling; sibling = sibling.previousSibling) {
+    if (sibling.nodeType === 1 && (sibling as Element).localName !== 'rPr') return true;
+  }
+  return false;
+}
+
+function hasContentAfter(node: Element): boolean {
+  for (let sibling = node.nextSibling; sibling; sibling = sibling.nextSibling) {
+    if (sibling.nodeType === 1) return true;
+  }
+  return false;
+}
+
+function childElements(parent: Element, localName: string): Element[] {
+  const children: Element[] = [];
+  for (let node = parent.firstChild; node; node = node.nextSibling) {
+    const element = node as Element;
+    if (element.namespaceURI === WORD_NS && element.localName === localName) {
+      children.push(element);
+    }
+  }
+  return children;
+}
+
+function childElement(parent: Element, localName: string): Element | null {
+  return childElements(parent, localName)[0] || null;
+}
+
+function setText(node: Element, text: string): void {
+  while (node.firstChild) {
+    node.removeChild(node.firstChild);
+  }
+  node.appendChild(node.ownerDocument!.createTextNode(text));
+  // Keep leading/trailing spaces that Word would otherwise collapse
+  node.setAttribute('xml:space', 'preserve');
+}
@@ -0,0 +1,346 @@
+import { DOMParser } from '@xmldom/xmldom';
+import { PlaceholderAnchor } from '@smartdocs/common';
+import * as fs from 'fs';
+import JSZip from 'jszip';
+import * as path from 'path';
+
+export const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Parts of a .docx package that carry user-visible text
+export const TEXT_PART_PATTERN = /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/;
+
+export type DocxPartType = 'body' | 'header' | 'footer' | 'footnotes' | 'endnotes';
+
+export interface DocxRun {
+  text: string;
+  start: number;
+  end: number;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+}
+
+export interface DocxParagraph {
+  index: number;
+  text: string;
+  style?: string;
+  runs: DocxRun[];
+  table?: {
+    tableIndex: number;
+    row: number;
+    cell: number;
+  };
+}
+
+export interface DocxTable {
+  index: number;
+  // Paragraph indexes for each cell, by row
+  rows: number[][][];
+}
+
+export interface DocxPart {
+  name: string;
+  type: DocxPartType;
+  paragraphs: DocxParagraph[];
+  tables: DocxTable[];
+}
+
+export interface DocxStructure {
+  parts: DocxPart[];
+  text: string;
+}
+
+export interface TextSegment {
+  node: Element;
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a DOCX file into a structured model of parts, paragraphs, runs and tables
+ *
+ * Paragraph indexes follow document order of w:p elements within each part, and
+ * paragraph text is the concatenation of its w:t nodes, so offsets in the model
+ * line up with the anchors used for substitution.
+ *
+ * @param filePath - Absolute path to the .docx file
+ * @returns Promise<DocxStructure> - Structured document model
+ * @throws Error if file path is invalid, file doesn't exist, or parsing fails
+ */
+export async function parseDocxStructure(filePath: string): Promise<DocxStructure> {
+  if (!filePath || filePath.trim() === '') {
+    throw new Error('File path is required');
+  }
+
+  if (!fs.existsSync(filePath)) {
+    throw new Error('File does not exist');
+  }
+
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext !== '.docx') {
+    throw new Error('File must be a .docx file');
+  }
+
+  return parseDocxStructureFromBuffer(await fs.promises.readFile(filePath));
+}
+
+/**
+ * Parse the contents of a DOCX file, e.g. a filled copy that only exists in memory
+ *
+ * @param buffer - .docx file contents
+ * @returns Promise<DocxStructure> - Structured document model
+ * @throws Error if the contents cannot be parsed
+ */
+export async function parseDocxStructureFromBuffer(buffer: Buffer): Promise<DocxStructure> {
+  try {
+    const zip = await JSZip.loadAsync(buffer);
+    const parts: DocxPart[] = [];
+
+    for (const partName of listTextParts(zip)) {
+      const xml = await zip.file(partName)!.async('string');
+      const doc = new DOMParser().parseFromString(xml, 'text/xml');
+      parts.push(parsePart(partName, doc));
+    }
+
+    const body = parts.find(p => p.type === 'body');
+    const text = body ? body.paragraphs.map(p => p.text).join('\n').trim() : '';
+
+    return { parts, text };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to parse DOCX structure: ${errorMessage}`);
+  }
+}
+
+/**
+ * Find every occurrence of a text in the document, in reading order
+ * (body first, then headers, footers and notes)
+ */
+export function locateText(structure: DocxStructure, searchText: string): PlaceholderAnchor[] {
+  const anchors: PlaceholderAnchor[] = [];
+  if (!searchText) return anchors;
+
+  for (const part of structure.parts) {
+    for (const paragraph of part.paragraphs) {
+      let index = paragraph.text.indexOf(searchText);
+      while (index !== -1) {
+        anchors.push({
+          part: part.name,
+          paragraphIndex: paragraph.index,
+          start: index,
+          end: index + searchText.length,
+        });
+        index = paragraph.text.indexOf(searchText, index + searchText.length);
+      }
+    }
+  }
+
+  return anchors;
+}
+
+/**
+ * Assign anchors to a list of placeholder texts (in placeholder order)
+ *
+ * Placeholders sharing the same text take successive occurrences in reading
+ * order; a text that appears on a single placeholder claims every occurrence.
+ *
+ * @returns Anchors for each input text, in the same order
+ */
+export function locatePlaceholders(structure: DocxStructure, originalTexts: string[]): PlaceholderAnchor[][] {
+  const counts = new Map<string, number>();
+  originalTexts.forEach(text => counts.set(text, (counts.get(text) || 0) + 1));
+
+  const occurrences = new Map<string, PlaceholderAnchor[]>();
+  const taken = new Map<string, number>();
+
+  return originalTexts.map(text => {
+    if (!text) return [];
+
+    if (!occurrences.has(text)) {
+      occurrences.set(text, locateText(structure, text));
+    }
+    const found = occurrences.get(text)!;
+
+    if (counts.get(text) === 1) {
+      return found;
+    }
+
+    const next = taken.get(text) || 0;
+    taken.set(text, next + 1);
+    return found[next] ? [found[next]] : [];
+  });
+}
+
+/**
+ * List the text-bearing parts of a package, body first
+ */
+export function listTextParts(zip: JSZip): string[] {
+  return Object.keys(zip.files)
+    .filter(name => TEXT_PART_PATTERN.test(name))
+    .sort((a, b) => partRank(a) - partRank(b) || a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * All paragraphs of a part in document order; indexes match DocxParagraph.index
+ */
+export function getParagraphs(doc: Document): Element[] {
+  return Array.from(doc.getElementsByTagNameNS(WORD_NS, 'p') as unknown as ArrayLike<Element>);
+}
+
+/**
+ * Collect the w:t nodes that belong directly to a paragraph (not to paragraphs
+ * nested inside it, such as text boxes) with their offsets in the paragraph text
+ */
+export function collectTextSegments(paragraph: Element): TextSegment[] {
+  const segments: TextSegment[] = [];
+  const textNodes = paragraph.getElementsByTagNameNS(WORD_NS, 't');
+  let offset = 0;
+
+  for (let i = 0; i < textNodes.length; i++) {
+    const node = textNodes[i];
+    if (closestAncestor(node, 'p') !== paragraph) continue;
+
+    const length = (node.textContent || '').length;
+    segments.push({ node, start: offset, end: offset + length });
+    offset += length;
+  }
+
+  return segments;
+}
+
+export function closestAncestor(node: Node, localName: string): Element | null {
+  let current = node.parentNode as Element | null;
+  while (current) {
+    if (current.namespaceURI === WORD_NS && current.localName === localName) {
+      return current;
+    }
+    current = current.parentNode as Element | null;
+  }
+  return null;
+}
+
+function partRank(partName: string): number {
+  return partName === 'word/document.xml' ? 0 : 1;
+}
+
+function partType(partName: string): DocxPartType {
+  if (partName.startsWith('word/header')) return 'header';
+  if (partName.startsWith('word/footer')) return 'footer';
+  if (partName === 'word/footnotes.xml') return 'footnotes';
+  if (partName === 'word/endnotes.xml') return 'endnotes';
+  return 'body';
+}
+
+function parsePart(partName: string, doc: Document): DocxPart {
+  const paragraphElements = getParagraphs(doc);
+  const paragraphIndexes = new Map<Element, number>();
+  paragraphElements.forEach((element, index) => paragraphIndexes.set(element, index));
+
+  const tables = parseTables(doc, paragraphIndexes);
+  const tableLocations = new Map<number, DocxParagraph['table']>();
+  tables.forEach(table => {
+    table.rows.forEach((cells, row) => {
+      cells.forEach((paragraphs, cell) => {
+        paragraphs.forEach(index => tableLocations.set(index, { tableIndex: table.index, row, cell }));
+      });
+    });
+  });
+
+  const paragraphs = paragraphElements.map((element, index) => {
+    const runs = parseRuns(element);
+    const paragraph: DocxParagraph = {
+      index,
+      text: runs.map(r => r.text).join(''),
+      runs,
+    };
+
+    const style = firstChild(firstChild(element, 'pPr'), 'pStyle');
+    if (style) {
+      paragraph.style = style.getAttributeNS(WORD_NS, 'val') || undefined;
+    }
+
+    const table = tableLocations.get(index);
+    if (table) {
+      paragraph.table = table;
+    }
+
+    return paragraph;
+  });
+
+  return { name: partName, type: partType(partName), paragraphs, tables };
+}
+
+function parseRuns(paragraph: Element): DocxRun[] {
+  const runs: DocxRun[] = [];
+  let lastRunElement: Element | null = null;
+
+  for (const segment of collectTextSegments(paragraph)) {
+    const runElement = closestAncestor(segment.node, 'r');
+    const text = segment.node.textContent || '';
+
+    // Several w:t nodes in one run are reported as a single run
+    if (runs.length > 0 && runElement && runElement === lastRunElement) {
+      const previous = runs[runs.length - 1];
+      previous.text += text;
+      previous.end = segment.end;
+      continue;
+    }
+
+    lastRunElement = runElement;
+    const properties = runElement ? firstChild(runElement, 'rPr') : null;
+    runs.push({
+      text,
+      start: segment.start,
+      end: segment.end,
+      bold: hasToggle(properties, 'b'),
+      italic: hasToggle(properties, 'i'),
+      underline: hasUnderline(properties),
+    });
+  }
+
+  return runs;
+}
+
+function parseTables(doc: Document, paragraphIndexes: Map<Element, number>): DocxTable[] {
+  const tableElements = Array.from(doc.getElementsByTagNameNS(WORD_NS, 'tbl') as unknown as ArrayLike<Element>);
+
+  return tableElements.map((table, index) => ({
+    index,
+    rows: childElements(table, 'tr').map(row =>
+      childElements(row, 'tc').map(cell =>
+        // Paragraphs of nested tables belong to the innermost table
+        Array.from(cell.getElementsByTagNameNS(WORD_NS, 'p') as unknown as ArrayLike<Element>)
+          .filter(p => closestAncestor(p, 'tbl') === table)
+          .map(p => paragraphIndexes.get(p)!)
+      )
+    ),
+  }));
+}
+
+function childElements(parent: Element, localName: string): Element[] {
+  const children: Element[] = [];
+  for (let node = parent.firstChild; node; node = node.nextSibling) {
+    const element = node as Element;
+    if (element.namespaceURI === WORD_NS && element.localName === localName) {
+      children.push(element);
+    }
+  }
+  return children;
+}
+
+function firstChild(parent: Element | null, localName: string): Element | null {
+  return parent ? childElements(parent, localName)[0] || null : null;
+}
+
+function hasToggle(properties: Element | null, localName: string): boolean {
+  const toggle = firstChild(properties, localName);
+  if (!toggle) return false;
+  const value = toggle.getAttributeNS(WORD_NS, 'val');
+  return !value || !['0', 'false', 'off'].includes(value);
+}
+
+function hasUnderline(properties: Element | null): boolean {
+  const underline = firstChild(properties, 'u');
+  if (!underline) return false;
+  return underline.getAttributeNS(WORD_NS, 'val') !== 'none';
+}
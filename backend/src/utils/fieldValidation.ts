@@ -0,0 +1,171 @@
+import { PlaceholderFieldType } from '@smartdocs/common';
+
+export interface FieldValidationResult {
+  valid: boolean;
+  value: string;   // Normalized value, or the trimmed input if it is invalid
+  notes?: string;  // Why the value was rejected, phrased for the user
+}
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': '$', usd: '$', dollar: '$', dollars: '$',
+  '€': '€', eur: '€', euro: '€', euros: '€',
+  '£': '£', gbp: '£', pound: '£', pounds: '£',
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, mm: 1e6, million: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+};
+
+// Digits with optional thousands separators and decimals, e.g. 1,250,000.50
+const AMOUNT = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d*\\.?\\d+)';
+const MULTIPLIER = '(k|mm|m|bn|b|thousand|million|billion)?';
+
+const CURRENCY_PATTERN = new RegExp(
+  `^([$€£]|usd|eur|gbp)?\\s*${AMOUNT}\\s*${MULTIPLIER}\\s*(usd|eur|gbp|dollars?|euros?|pounds?)?$`, 'i'
+);
+const NUMBER_PATTERN = new RegExp(`^([+-])?${AMOUNT}\\s*${MULTIPLIER}\\s*(%|percent)?$`, 'i');
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Validate and normalize a filled value for its field type
+ *
+ * - date: parsed from ISO, US numeric (MM/DD/YYYY), written ("Jan 15, 2026",
+ *   "15 January 2026") and legal ("15th day of January, 2026") forms, and
+ *   written out as "January 15, 2026"
+ * - currency: "$1.5M", "10,000 USD", "€250k" become "$1,500,000", "$10,000", "€250,000"
+ * - number: thousands separators are normalized; percentages keep their "%"
+ * - email: must look like an address; lowercased
+ * - address: must contain a street number and a name
+ * - text: must not be empty
+ *
+ * @param fieldType - Placeholder field type; unknown types are treated as text
+ * @param value - Value as entered by the user
+ * @returns FieldValidationResult - Whether the value is valid, and its normalized form
+ */
+export function validateFieldValue(fieldType: PlaceholderFieldType | string, value: string): FieldValidationResult {
+  const trimmed = (value ?? '').trim().replace(/\s+/g, ' ');
+
+  if (trimmed === '') {
+    return invalid(trimmed, 'A value is required.');
+  }
+
+  switch (fieldType) {
+    case PlaceholderFieldType.DATE:
+      return validateDate(trimmed);
+    case PlaceholderFieldType.CURRENCY:
+      return validateCurrency(trimmed);
+    case PlaceholderFieldType.NUMBER:
+      return validateNumber(trimmed);
+    case PlaceholderFieldType.EMAIL:
+      return EMAIL_PATTERN.test(trimmed)
+        ? { valid: true, value: trimmed.toLowerCase() }
+        : invalid(trimmed, 'That is not a valid email address. Please enter one like name@example.com.');
+    case PlaceholderFieldType.ADDRESS:
+      return /\d/.test(trimmed) && /[A-Za-z]{2,}/.test(trimmed) && trimmed.includes(' ')
+        ? { valid: true, value: trimmed }
+        : invalid(trimmed, 'An address should include a street number and name, e.g. "123 Main Street, New York, NY 10001".');
+    default:
+      return { valid: true, value: trimmed };
+  }
+}
+
+function validateDate(value: string): FieldValidationResult {
+  const date = parseDate(value);
+
+  if (!date) {
+    return invalid(value, 'That is not a date I can read. Please enter a date like "January 15, 2026" or "2026-01-15".');
+  }
+
+  return { valid: true, value: `${MONTHS[date.month - 1]} ${date.day}, ${date.year}` };
+}
+
+/**
+ * Parse a calendar date, returning null for unrecognized or impossible dates
+ */
+function parseDate(value: string): { year: number; month: number; day: number } | null {
+  const text = value
+    .toLowerCase()
+    .replace(/(\d)(st|nd|rd|th)\b/g, '$1')
+    .replace(/,/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  let year: number, month: number, day: number;
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})$/))) {
+    // US order unless the first part can only be a day
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    [month, day] = first > 12 ? [second, first] : [first, second];
+    year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  } else if ((match = text.match(/^([a-z]+)\.? (\d{1,2}) (\d{4})$/))) {
+    [month, day, year] = [monthNumber(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = text.match(/^(?:the )?(\d{1,2}) (?:day of )?([a-z]+)\.? (\d{4})$/))) {
+    [day, month, year] = [Number(match[1]), monthNumber(match[2]), Number(match[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (!month || date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return { year, month, day };
+}
+
+function monthNumber(name: string): number {
+  if (name.length < 3) return 0;
+  return MONTHS.findIndex(m => m.toLowerCase().startsWith(name)) + 1;
+}
+
+function validateCurrency(value: string): FieldValidationResult {
+  const match = value.match(CURRENCY_PATTERN);
+
+  if (!match) {
+    return invalid(value, 'That is not an amount I can read. Please enter an amount like "$10,000" or "2.5 million USD".');
+  }
+
+  const [, prefix, amountText, multiplier, suffix] = match;
+  const symbol = CURRENCY_SYMBOLS[(prefix || suffix || '$').toLowerCase()];
+  const amount = Math.round(parseAmount(amountText, multiplier) * 100) / 100;
+
+  const formatted = amount.toLocaleString('en-US', {
+    minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    maximumFractionDigits: 2,
+  });
+
+  return { valid: true, value: `${symbol}${formatted}` };
+}
+
+function validateNumber(value: string): FieldValidationResult {
+  const match = value.match(NUMBER_PATTERN);
+
+  if (!match) {
+    return invalid(value, 'That is not a number I can read. Please enter a number like "1,000" or "5%".');
+  }
+
+  const [, sign, amountText, multiplier, percent] = match;
+  const amount = parseAmount(amountText, multiplier) * (sign === '-' ? -1 : 1);
+  const formatted = amount.toLocaleString('en-US', { maximumFractionDigits: 10 });
+
+  return { valid: true, value: percent ? `${formatted}%` : formatted };
+}
+
+function parseAmount(amountText: string, multiplier?: string): number {
+  const amount = Number(amountText.replace(/,/g, ''));
+  return multiplier ? amount * MULTIPLIERS[multiplier.toLowerCase()] : amount;
+}
+
+function invalid(value: string, notes: string): FieldValidationResult {
+  return { valid: false, value, notes };
+}
@@ -0,0 +1,84 @@
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Follow one string property of a JSON object while the object is still being
+ * generated, so the text can be shown before the JSON is complete
+ *
+ * Feed the returned function each chunk as it arrives. `onText` gets the newly
+ * decoded part of the property's value, escapes resolved; an escape split
+ * across chunks is held until it is complete. Anything after the closing quote
+ * is ignored.
+ *
+ * @param property - Name of the string property to follow (e.g. "message")
+ * @param onText - Called with each new piece of the value
+ * @returns Function to call with each raw chunk
+ */
+export function createJsonStringStream(property: string, onText: (text: string) => void): (chunk: string) => void {
+  const keyPattern = new RegExp(`"${property}"\\s*:\\s*"`);
+  let raw = '';
+  let position = -1;  // Next character of the value to decode, once the value has started
+  let done = false;
+
+  return (chunk: string) => {
+    if (done) {
+      return;
+    }
+
+    raw += chunk;
+
+    if (position < 0) {
+      const match = keyPattern.exec(raw);
+      if (!match) {
+        return;
+      }
+      position = match.index + match[0].length;
+    }
+
+    let text = '';
+
+    while (position < raw.length) {
+      const char = raw[position];
+
+      if (char === '"') {
+        done = true;
+        break;
+      }
+
+      if (char !== '\\') {
+        text += char;
+        position++;
+        continue;
+      }
+
+      const escape = raw[position + 1];
+      if (escape === undefined) {
+        break;
+      }
+
+      if (escape === 'u') {
+        const hex = raw.slice(position + 2, position + 6);
+        if (hex.length < 4) {
+          break;
+        }
+        text += String.fromCharCode(parseInt(hex, 16));
+        position += 6;
+      } else {
+        text += SIMPLE_ESCAPES[escape] ?? escape;
+        position += 2;
+      }
+    }
+
+    if (text) {
+      onText(text);
+    }
+  };
+}
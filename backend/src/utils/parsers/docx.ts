@@ -0,0 +1,11 @@
+import { parseDocx } from '../docxParser';
+import { parseDocxStructure } from '../docxStructure';
+import { DocumentParser } from './types';
+
+export const docxParser: DocumentParser = {
+  fileType: 'docx',
+  extensions: ['.docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  extractText: parseDocx,
+  parseStructure: parseDocxStructure,
+};
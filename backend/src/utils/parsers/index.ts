@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import JSZip from 'jszip';
+import * as path from 'path';
+import { docxParser } from './docx';
+import { odtParser } from './odt';
+import { pdfParser } from './pdf';
+import { rtfParser } from './rtf';
+import { markdownParser, textParser } from './text';
+import { DocumentFileType, DocumentParser, DocumentStructure, ParsedDocument } from './types';
+
+export * from './types';
+
+const parsers = new Map<DocumentFileType, DocumentParser>();
+
+// Bytes inspected to tell text files from binary ones
+const TEXT_SNIFF_LENGTH = 8192;
+
+// Formats that may be recognised by extension alone, as long as the file is text
+const TEXT_FILE_TYPES: DocumentFileType[] = ['rtf', 'txt', 'md'];
+
+/**
+ * Register a parser for a file type, replacing any existing one
+ */
+export function registerParser(parser: DocumentParser): void {
+  parsers.set(parser.fileType, parser);
+}
+
+export function getParser(fileType: DocumentFileType): DocumentParser | undefined {
+  return parsers.get(fileType);
+}
+
+/**
+ * Extensions accepted for upload, e.g. ['.docx', '.pdf', ...]
+ */
+export function getSupportedExtensions(): string[] {
+  return Array.from(parsers.values()).flatMap(p => p.extensions);
+}
+
+/**
+ * Upload filter check by MIME type or extension. Browsers report many of these
+ * formats as application/octet-stream, so either is enough here; the content
+ * is verified with sniffFileType once the file is stored.
+ */
+export function isSupportedUpload(originalName: string, mimeType: string): boolean {
+  const ext = path.extname(originalName).toLowerCase();
+  return Array.from(parsers.values()).some(p =>
+    p.mimeTypes.includes(mimeType) || p.extensions.includes(ext)
+  );
+}
+
+/**
+ * Determine a file's type from its contents (magic bytes, and the entries of
+ * ZIP packages). Binary formats (DOCX, ODT, PDF) must match; only text formats
+ * fall back to the extension, and only if the file contains no binary data.
+ * Files without a recognised extension are treated as plain text if they
+ * contain no binary data.
+ * @returns The file type, or null if the file is not a supported document
+ */
+export async function sniffFileType(filePath: string): Promise<DocumentFileType | null> {
+  const buffer = await fs.promises.readFile(filePath);
+  const signature = buffer.subarray(0, 5).toString('latin1');
+
+  if (signature === '%PDF-' && parsers.has('pdf')) return 'pdf';
+  if (signature === '{\\rtf' && parsers.has('rtf')) return 'rtf';
+
+  if (signature.startsWith('PK\x03\x04')) {
+    try {
+      const zip = await JSZip.loadAsync(buffer);
+      if (zip.file('word/document.xml') && parsers.has('docx')) return 'docx';
+
+      const mimetype = zip.file('mimetype');
+      if (mimetype && (await mimetype.async('string')).trim() === odtParser.mimeTypes[0] && parsers.has('odt')) {
+        return 'odt';
+      }
+    } catch {
+      // Not a readable archive
+    }
+  }
+
+  const ext = path.extname(filePath).toLowerCase();
+  const byExtension = Array.from(parsers.values()).find(p => p.extensions.includes(ext));
+  const isText = !buffer.subarray(0, TEXT_SNIFF_LENGTH).includes(0);
+
+  if (byExtension) {
+    // A binary format whose contents did not match is not that format
+    return TEXT_FILE_TYPES.includes(byExtension.fileType) && isText ? byExtension.fileType : null;
+  }
+
+  return isText && parsers.has('txt') ? 'txt' : null;
+}
+
+/**
+ * Extract plain text from any supported document
+ * @param filePath - Absolute path to the document
+ * @returns Promise<string> - Document text
+ * @throws Error if the file is missing, of an unsupported type, or cannot be parsed
+ */
+export async function extractText(filePath: string): Promise<string> {
+  const parser = await resolveParser(filePath);
+  return runParser(parser, () => parser.extractText(filePath));
+}
+
+/**
+ * Parse any supported document into the shared structure model
+ * @param filePath - Absolute path to the document
+ * @returns Promise<DocumentStructure> - Parts, paragraphs, runs and tables
+ * @throws Error if the file is missing, of an unsupported type, or cannot be parsed
+ */
+export async function parseStructure(filePath: string): Promise<DocumentStructure> {
+  const parser = await resolveParser(filePath);
+  return runParser(parser, () => parser.parseStructure(filePath));
+}
+
+/**
+ * Parse any supported document into its type, text and structure
+ */
+export async function parseDocument(filePath: string): Promise<ParsedDocument> {
+  const parser = await resolveParser(filePath);
+  const structure = await runParser(parser, () => parser.parseStructure(filePath));
+  const text = parser.fileType === 'docx'
+    ? await runParser(parser, () => parser.extractText(filePath))
+    : structure.text;
+
+  return { fileType: parser.fileType, text, structure };
+}
+
+async function resolveParser(filePath: string): Promise<DocumentParser> {
+  if (!filePath || filePath.trim() === '') {
+    throw new Error('File path is required');
+  }
+
+  if (!fs.existsSync(filePath)) {
+    throw new Error('File does not exist');
+  }
+
+  const fileType = await sniffFileType(filePath);
+  const parser = fileType && parsers.get(fileType);
+  if (!parser) {
+    throw new Error('Unsupported file type');
+  }
+
+  return parser;
+}
+
+/**
+ * The DOCX parser reports its own errors; other parsers get the same wording
+ */
+async function runParser<T>(parser: DocumentParser, parse: () => Promise<T>): Promise<T> {
+  if (parser.fileType === 'docx') {
+    return parse();
+  }
+
+  try {
+    return await parse();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to parse ${parser.fileType.toUpperCase()} file: ${errorMessage}`);
+  }
+}
+
+[docxParser, pdfParser, odtParser, rtfParser, textParser, markdownParser].forEach(registerParser);
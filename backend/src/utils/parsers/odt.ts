@@ -0,0 +1,206 @@
+import { DOMParser } from '@xmldom/xmldom';
+import * as fs from 'fs';
+import JSZip from 'jszip';
+import { DocxRun, DocxTable } from '../docxStructure';
+import { buildStructure, DocumentParser, DocumentStructure, ParagraphInput } from './types';
+
+const TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+const TABLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:table:1.0';
+const STYLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:style:1.0';
+const FO_NS = 'urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0';
+
+type RunFormat = Pick<DocxRun, 'bold' | 'italic' | 'underline'>;
+
+interface OdtContext {
+  paragraphs: ParagraphInput[];
+  tables: DocxTable[];
+  textStyles: Map<string, Partial<RunFormat>>;
+  paragraphStyles: Map<string, string>;  // Automatic style name -> parent style name
+}
+
+const PLAIN: RunFormat = { bold: false, italic: false, underline: false };
+
+/**
+ * OpenDocument text: paragraphs, headings (Heading1-10 by outline level),
+ * tables and character formatting from content.xml
+ */
+export const odtParser: DocumentParser = {
+  fileType: 'odt',
+  extensions: ['.odt'],
+  mimeTypes: ['application/vnd.oasis.opendocument.text'],
+
+  async extractText(filePath: string): Promise<string> {
+    return (await this.parseStructure(filePath)).text;
+  },
+
+  async parseStructure(filePath: string): Promise<DocumentStructure> {
+    const zip = await JSZip.loadAsync(await fs.promises.readFile(filePath));
+    const content = zip.file('content.xml');
+    if (!content) {
+      throw new Error('content.xml not found');
+    }
+
+    const doc = new DOMParser().parseFromString(await content.async('string'), 'text/xml');
+    const context: OdtContext = {
+      paragraphs: [],
+      tables: [],
+      ...readAutomaticStyles(doc),
+    };
+
+    const body = doc.getElementsByTagNameNS('urn:oasis:names:tc:opendocument:xmlns:office:1.0', 'text')[0];
+    if (body) {
+      walkBlocks(body, context);
+    }
+
+    return buildStructure('content.xml', context.paragraphs, context.tables);
+  },
+};
+
+function readAutomaticStyles(doc: Document): Pick<OdtContext, 'textStyles' | 'paragraphStyles'> {
+  const textStyles = new Map<string, Partial<RunFormat>>();
+  const paragraphStyles = new Map<string, string>();
+  const styles = doc.getElementsByTagNameNS(STYLE_NS, 'style');
+
+  for (let i = 0; i < styles.length; i++) {
+    const style = styles[i];
+    const name = style.getAttributeNS(STYLE_NS, 'name');
+    const parent = style.getAttributeNS(STYLE_NS, 'parent-style-name');
+    if (name && parent) {
+      paragraphStyles.set(name, parent);
+    }
+
+    const properties = style.getElementsByTagNameNS(STYLE_NS, 'text-properties')[0];
+    if (name && properties) {
+      const format: Partial<RunFormat> = {};
+      const weight = properties.getAttributeNS(FO_NS, 'font-weight');
+      const fontStyle = properties.getAttributeNS(FO_NS, 'font-style');
+      const underline = properties.getAttributeNS(STYLE_NS, 'text-underline-style');
+      if (weight) format.bold = weight === 'bold' || Number(weight) >= 600;
+      if (fontStyle) format.italic = fontStyle === 'italic' || fontStyle === 'oblique';
+      if (underline) format.underline = underline !== 'none';
+      textStyles.set(name, format);
+    }
+  }
+
+  return { textStyles, paragraphStyles };
+}
+
+/**
+ * Collect paragraphs, headings and tables in document order
+ */
+function walkBlocks(parent: Element, context: OdtContext, table?: ParagraphInput['table']): void {
+  for (let node = parent.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType !== 1) continue;
+    const element = node as Element;
+
+    if (element.namespaceURI === TEXT_NS && (element.localName === 'p' || element.localName === 'h')) {
+      context.paragraphs.push(readParagraph(element, context, table));
+    } else if (element.namespaceURI === TABLE_NS && element.localName === 'table') {
+      readTable(element, context);
+    } else if (!(element.namespaceURI === TEXT_NS && element.localName === 'tracked-changes')) {
+      // Sections, lists and other containers
+      walkBlocks(element, context, table);
+    }
+  }
+}
+
+function readTable(tableElement: Element, context: OdtContext): void {
+  const table: DocxTable = { index: context.tables.length, rows: [] };
+  context.tables.push(table);
+
+  const rows = Array.from(tableElement.getElementsByTagNameNS(TABLE_NS, 'table-row') as unknown as ArrayLike<Element>)
+    .filter(row => closestTable(row) === tableElement);
+
+  rows.forEach((row, rowIndex) => {
+    const cells: number[][] = [];
+    let cellIndex = 0;
+
+    for (let node = row.firstChild; node; node = node.nextSibling) {
+      const cell = node as Element;
+      if (cell.namespaceURI !== TABLE_NS || cell.localName !== 'table-cell') continue;
+
+      const first = context.paragraphs.length;
+      walkBlocks(cell, context, { tableIndex: table.index, row: rowIndex, cell: cellIndex });
+      const indexes: number[] = [];
+      for (let i = first; i < context.paragraphs.length; i++) {
+        if (context.paragraphs[i].table?.tableIndex === table.index) indexes.push(i);
+      }
+      cells.push(indexes);
+      cellIndex++;
+    }
+
+    table.rows.push(cells);
+  });
+}
+
+function closestTable(node: Element): Element | null {
+  let current = node.parentNode as Element | null;
+  while (current) {
+    if (current.namespaceURI === TABLE_NS && current.localName === 'table') return current;
+    current = current.parentNode as Element | null;
+  }
+  return null;
+}
+
+function readParagraph(element: Element, context: OdtContext, table?: ParagraphInput['table']): ParagraphInput {
+  const runs: ParagraphInput['runs'] = [];
+  const styleName = element.getAttributeNS(TEXT_NS, 'style-name') || '';
+  const baseFormat = { ...PLAIN, ...context.textStyles.get(styleName) };
+
+  const append = (text: string, format: RunFormat) => {
+    const last = runs[runs.length - 1];
+    if (last && last.bold === format.bold && last.italic === format.italic && last.underline === format.underline) {
+      last.text += text;
+    } else {
+      runs.push({ text, ...format });
+    }
+  };
+
+  const walk = (parent: Element, format: RunFormat) => {
+    for (let node = parent.firstChild; node; node = node.nextSibling) {
+      if (node.nodeType === 3) {
+        append(node.nodeValue || '', format);
+        continue;
+      }
+      if (node.nodeType !== 1) continue;
+
+      const child = node as Element;
+      if (child.namespaceURI !== TEXT_NS) continue;
+
+      switch (child.localName) {
+        case 's':
+          append(' '.repeat(Number(child.getAttributeNS(TEXT_NS, 'c')) || 1), format);
+          break;
+        case 'tab':
+          append('\t', format);
+          break;
+        case 'line-break':
+          append(' ', format);
+          break;
+        case 'note':
+        case 'annotation':
+          // Footnotes and comments are not part of the paragraph text
+          break;
+        case 'span':
+          walk(child, { ...format, ...context.textStyles.get(child.getAttributeNS(TEXT_NS, 'style-name') || '') });
+          break;
+        default:
+          walk(child, format);
+      }
+    }
+  };
+
+  walk(element, baseFormat);
+
+  const paragraph: ParagraphInput = { runs };
+  const namedStyle = context.paragraphStyles.get(styleName) || styleName;
+  if (element.localName === 'h') {
+    paragraph.style = `Heading${element.getAttributeNS(TEXT_NS, 'outline-level') || 1}`;
+  } else if (namedStyle) {
+    paragraph.style = namedStyle;
+  }
+  if (table) {
+    paragraph.table = table;
+  }
+  return paragraph;
+}
@@ -0,0 +1,222 @@
+import * as fs from 'fs';
+import { DocxRun } from '../docxStructure';
+import { buildStructure, DocumentParser, DocumentStructure, ParagraphInput } from './types';
+
+type RunFormat = Pick<DocxRun, 'bold' | 'italic' | 'underline'>;
+
+interface GroupState extends RunFormat {
+  skip: boolean;      // Inside a destination whose text is not document content
+  unicodeSkip: number;  // Fallback characters that follow each \u character (\ucN)
+}
+
+// Destinations holding tables, metadata or pictures rather than body text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'listtable',
+  'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl', 'themedata',
+  'colorschememapping', 'datastore', 'latentstyles', 'fldinst', 'bkmkstart',
+  'bkmkend', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl',
+  'footerr', 'footerf', 'footnote', 'annotation',
+]);
+
+const SYMBOLS: Record<string, string> = {
+  emdash: '\u2014',
+  endash: '\u2013',
+  lquote: '\u2018',
+  rquote: '\u2019',
+  ldblquote: '\u201C',
+  rdblquote: '\u201D',
+  bullet: '\u2022',
+  tab: '\t',
+  cell: '\t',
+  line: ' ',
+};
+
+const cp1252 = new TextDecoder('windows-1252');
+
+/**
+ * Rich Text Format: body paragraphs with bold/italic/underline runs. Table
+ * cells are separated by tabs and each table row becomes a paragraph; headers,
+ * footers, footnotes and embedded objects are skipped.
+ */
+export const rtfParser: DocumentParser = {
+  fileType: 'rtf',
+  extensions: ['.rtf'],
+  mimeTypes: ['application/rtf', 'text/rtf'],
+
+  async extractText(filePath: string): Promise<string> {
+    return (await this.parseStructure(filePath)).text;
+  },
+
+  async parseStructure(filePath: string): Promise<DocumentStructure> {
+    return buildStructure('body', parseRtf(await fs.promises.readFile(filePath, 'latin1')));
+  },
+};
+
+/**
+ * Strip RTF control words and groups, keeping text and character formatting
+ */
+export function parseRtf(rtf: string): ParagraphInput[] {
+  const paragraphs: ParagraphInput[] = [];
+  let runs: ParagraphInput['runs'] = [];
+  const stack: GroupState[] = [];
+  let state: GroupState = { bold: false, italic: false, underline: false, skip: false, unicodeSkip: 1 };
+  let pendingSkip = 0;
+  let groupStart = false;
+
+  const append = (text: string) => {
+    if (state.skip || text === '') return;
+    if (pendingSkip > 0) {
+      const skipped = Math.min(pendingSkip, text.length);
+      pendingSkip -= skipped;
+      text = text.slice(skipped);
+      if (text === '') return;
+    }
+
+    const last = runs[runs.length - 1];
+    if (last && last.bold === state.bold && last.italic === state.italic && last.underline === state.underline) {
+      last.text += text;
+    } else {
+      runs.push({ text, bold: state.bold, italic: state.italic, underline: state.underline });
+    }
+  };
+
+  const endParagraph = () => {
+    if (state.skip) return;
+    paragraphs.push({ runs });
+    runs = [];
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      stack.push(state);
+      state = { ...state };
+      groupStart = true;
+      i++;
+      continue;
+    }
+
+    if (char === '}') {
+      state = stack.pop() || state;
+      groupStart = false;
+      i++;
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
+
+    if (char !== '\\') {
+      // Plain text up to the next control character
+      let end = i;
+      while (end < rtf.length && !'\\{}\r\n'.includes(rtf[end])) end++;
+      append(rtf.slice(i, end));
+      groupStart = false;
+      i = end;
+      continue;
+    }
+
+    const next = rtf[i + 1];
+
+    // Control symbols
+    if (next === '\\' || next === '{' || next === '}') {
+      append(next);
+      i += 2;
+      continue;
+    }
+    if (next === '\'') {
+      const code = parseInt(rtf.slice(i + 2, i + 4), 16);
+      if (pendingSkip > 0) {
+        pendingSkip--;
+      } else if (!Number.isNaN(code)) {
+        append(cp1252.decode(Uint8Array.of(code)));
+      }
+      i += 4;
+      continue;
+    }
+    if (next === '*') {
+      // Optional destination the reader doesn't understand
+      state.skip = true;
+      i += 2;
+      continue;
+    }
+    if (next === '~') {
+      append('\u00A0');
+      i += 2;
+      continue;
+    }
+    if (next === '_') {
+      append('-');
+      i += 2;
+      continue;
+    }
+    if (next === '\r' || next === '\n') {
+      endParagraph();
+      i += 2;
+      continue;
+    }
+
+    // Control word: letters, optional numeric parameter, optional space delimiter
+    const match = /^\\([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i, i + 40));
+    if (!match) {
+      i += 2;
+      continue;
+    }
+    i += match[0].length;
+
+    const word = match[1];
+    const param = match[2] === undefined ? undefined : Number(match[2]);
+    const isDestination = groupStart;
+    groupStart = false;
+
+    if (isDestination && SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+      continue;
+    }
+
+    switch (word) {
+      case 'par':
+      case 'row':
+        endParagraph();
+        break;
+      case 'b':
+        state.bold = param !== 0;
+        break;
+      case 'i':
+        state.italic = param !== 0;
+        break;
+      case 'ul':
+        state.underline = param !== 0;
+        break;
+      case 'ulnone':
+        state.underline = false;
+        break;
+      case 'plain':
+        state.bold = state.italic = state.underline = false;
+        break;
+      case 'uc':
+        state.unicodeSkip = param ?? 1;
+        break;
+      case 'u':
+        if (param !== undefined) {
+          append(String.fromCharCode(param < 0 ? param + 65536 : param));
+          pendingSkip = state.unicodeSkip;
+        }
+        break;
+      default:
+        if (SYMBOLS[word] !== undefined) {
+          append(SYMBOLS[word]);
+        }
+    }
+  }
+
+  if (runs.length > 0) {
+    paragraphs.push({ runs });
+  }
+
+  return paragraphs;
+}
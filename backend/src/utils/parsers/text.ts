@@ -0,0 +1,54 @@
+import * as fs from 'fs';
+import { buildStructure, DocumentParser, DocumentStructure, ParagraphInput, plainRun } from './types';
+
+async function readLines(filePath: string): Promise<string[]> {
+  const content = await fs.promises.readFile(filePath, 'utf8');
+  // Drop a UTF-8 byte order mark and normalise line endings
+  return content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+}
+
+export const textParser: DocumentParser = {
+  fileType: 'txt',
+  extensions: ['.txt'],
+  mimeTypes: ['text/plain'],
+
+  async extractText(filePath: string): Promise<string> {
+    return (await this.parseStructure(filePath)).text;
+  },
+
+  async parseStructure(filePath: string): Promise<DocumentStructure> {
+    const lines = await readLines(filePath);
+    return buildStructure('body', lines.map(line => ({ runs: [plainRun(line)] })));
+  },
+};
+
+/**
+ * Markdown headings become Heading1-6 paragraphs (without the leading #s);
+ * all other lines are kept verbatim so placeholders are not altered
+ */
+export const markdownParser: DocumentParser = {
+  fileType: 'md',
+  extensions: ['.md', '.markdown'],
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+
+  async extractText(filePath: string): Promise<string> {
+    return (await this.parseStructure(filePath)).text;
+  },
+
+  async parseStructure(filePath: string): Promise<DocumentStructure> {
+    const lines = await readLines(filePath);
+
+    const paragraphs: ParagraphInput[] = lines.map(line => {
+      const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+      if (heading) {
+        return {
+          runs: [{ ...plainRun(heading[2]), bold: true }],
+          style: `Heading${heading[1].length}`,
+        };
+      }
+      return { runs: [plainRun(line)] };
+    });
+
+    return buildStructure('body', paragraphs);
+  },
+};
@@ -0,0 +1,68 @@
+import { DocxParagraph, DocxPart, DocxRun, DocxStructure, DocxTable } from '../docxStructure';
+
+export type DocumentFileType = 'docx' | 'pdf' | 'odt' | 'rtf' | 'txt' | 'md';
+
+/**
+ * Every format is parsed into the DOCX structure model (parts, paragraphs,
+ * runs and tables), so downstream code handles all formats the same way
+ */
+export type DocumentStructure = DocxStructure;
+
+export interface ParsedDocument {
+  fileType: DocumentFileType;
+  text: string;
+  structure: DocumentStructure;
+}
+
+export interface DocumentParser {
+  fileType: DocumentFileType;
+  extensions: string[];   // Lowercase, including the dot
+  mimeTypes: string[];
+  extractText(filePath: string): Promise<string>;
+  parseStructure(filePath: string): Promise<DocumentStructure>;
+}
+
+export interface ParagraphInput {
+  runs: Array<Omit<DocxRun, 'start' | 'end'>>;
+  style?: string;
+  table?: DocxParagraph['table'];
+}
+
+/**
+ * Build a single-part structure from paragraphs, computing run offsets and the
+ * body text the same way the DOCX parser does
+ */
+export function buildStructure(partName: string, paragraphs: ParagraphInput[], tables: DocxTable[] = []): DocumentStructure {
+  const part: DocxPart = {
+    name: partName,
+    type: 'body',
+    paragraphs: paragraphs.map((input, index) => {
+      let offset = 0;
+      const runs: DocxRun[] = input.runs
+        .filter(run => run.text !== '')
+        .map(run => {
+          const start = offset;
+          offset += run.text.length;
+          return { ...run, start, end: offset };
+        });
+
+      const paragraph: DocxParagraph = { index, text: runs.map(r => r.text).join(''), runs };
+      if (input.style) paragraph.style = input.style;
+      if (input.table) paragraph.table = input.table;
+      return paragraph;
+    }),
+    tables,
+  };
+
+  return {
+    parts: [part],
+    text: part.paragraphs.map(p => p.text).join('\n').trim(),
+  };
+}
+
+/**
+ * A run of plain, unformatted text
+ */
+export function plainRun(text: string): Omit<DocxRun, 'start' | 'end'> {
+  return { text, bold: false, italic: false, underline: false };
+}
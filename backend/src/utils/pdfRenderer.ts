@@ -0,0 +1,356 @@
+import { degrees, PageSizes, PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { DocxParagraph, DocxPart, DocxStructure, DocxTable } from './docxStructure';
+
+export type PdfPageSize = 'A4' | 'Letter' | 'Legal';
+
+export const PDF_PAGE_SIZES: Record<PdfPageSize, [number, number]> = {
+  A4: PageSizes.A4,
+  Letter: PageSizes.Letter,
+  Legal: PageSizes.Legal,
+};
+
+export interface PdfMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string[];
+}
+
+export interface PdfRenderOptions {
+  pageSize?: PdfPageSize;
+  watermark?: string;  // Drawn diagonally across every page, e.g. "DRAFT"
+  metadata?: PdfMetadata;
+}
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  boldItalic: PDFFont;
+}
+
+interface TextPiece {
+  text: string;
+  font: PDFFont;
+}
+
+const MARGIN = 72;
+const FONT_SIZE = 11;
+const LINE_HEIGHT = 1.4;
+const PARAGRAPH_SPACING = 6;
+const CELL_PADDING = 4;
+const MARGIN_TEXT_SIZE = 8;
+
+// Paragraph styles rendered as headings, with their font sizes
+const HEADING_SIZES: Array<{ pattern: RegExp; size: number }> = [
+  { pattern: /^title$/i, size: 18 },
+  { pattern: /^heading\s?1$/i, size: 15 },
+  { pattern: /^heading\s?\d$/i, size: 13 },
+];
+
+/**
+ * Render a parsed document to PDF using the standard PDF fonts
+ *
+ * Body paragraphs are laid out in order with run-level bold/italic, heading
+ * styles and tables as bordered grids. The first header and footer of the
+ * document are repeated on every page along with page numbers. Characters that
+ * the standard fonts cannot encode are transliterated or replaced with "?".
+ *
+ * @param structure - Parsed document, typically the filled copy
+ * @param options - Page size, watermark and document metadata
+ * @returns Promise<Buffer> - The PDF file contents
+ */
+export async function renderPdf(structure: DocxStructure, options: PdfRenderOptions = {}): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+    boldItalic: await pdf.embedFont(StandardFonts.HelveticaBoldOblique),
+  };
+  const sanitize = createSanitizer(fonts.regular);
+
+  const layout = new PageLayout(pdf, PDF_PAGE_SIZES[options.pageSize || 'Letter']);
+  const body = structure.parts.find(p => p.type === 'body');
+
+  if (body) {
+    const renderedTables = new Set<number>();
+
+    for (const paragraph of body.paragraphs) {
+      if (paragraph.table) {
+        if (!renderedTables.has(paragraph.table.tableIndex)) {
+          renderedTables.add(paragraph.table.tableIndex);
+          drawTable(layout, body, body.tables[paragraph.table.tableIndex], fonts, sanitize);
+        }
+        continue;
+      }
+      drawParagraph(layout, paragraph, fonts, sanitize);
+    }
+  }
+
+  const header = firstPartText(structure, 'header');
+  const footer = firstPartText(structure, 'footer');
+  const pages = pdf.getPages();
+
+  pages.forEach((page, index) => {
+    const { width, height } = page.getSize();
+    const gray = rgb(0.4, 0.4, 0.4);
+
+    if (header) {
+      page.drawText(fitText(sanitize(header), fonts.regular, MARGIN_TEXT_SIZE, width - 2 * MARGIN), {
+        x: MARGIN, y: height - MARGIN / 2, size: MARGIN_TEXT_SIZE, font: fonts.regular, color: gray,
+      });
+    }
+
+    const pageNumber = `Page ${index + 1} of ${pages.length}`;
+    const numberWidth = fonts.regular.widthOfTextAtSize(pageNumber, MARGIN_TEXT_SIZE);
+    page.drawText(pageNumber, {
+      x: width - MARGIN - numberWidth, y: MARGIN / 2, size: MARGIN_TEXT_SIZE, font: fonts.regular, color: gray,
+    });
+
+    if (footer) {
+      page.drawText(fitText(sanitize(footer), fonts.regular, MARGIN_TEXT_SIZE, width - 3 * MARGIN - numberWidth), {
+        x: MARGIN, y: MARGIN / 2, size: MARGIN_TEXT_SIZE, font: fonts.regular, color: gray,
+      });
+    }
+
+    if (options.watermark) {
+      drawWatermark(page, sanitize(options.watermark), fonts.bold);
+    }
+  });
+
+  const { metadata = {} } = options;
+  if (metadata.title) pdf.setTitle(sanitize(metadata.title));
+  if (metadata.author) pdf.setAuthor(sanitize(metadata.author));
+  if (metadata.subject) pdf.setSubject(sanitize(metadata.subject));
+  if (metadata.keywords && metadata.keywords.length > 0) {
+    pdf.setKeywords(metadata.keywords.map(sanitize));
+  }
+  pdf.setCreator('SmartDocs');
+
+  return Buffer.from(await pdf.save());
+}
+
+/**
+ * Tracks the current page and vertical position, adding pages as content overflows
+ */
+class PageLayout {
+  page: PDFPage;
+  y: number;
+
+  constructor(private pdf: PDFDocument, private size: [number, number]) {
+    this.page = pdf.addPage(size);
+    this.y = size[1] - MARGIN;
+  }
+
+  get contentWidth(): number {
+    return this.size[0] - 2 * MARGIN;
+  }
+
+  /**
+   * Make room for a block of the given height, starting a new page if needed
+   */
+  ensureSpace(height: number): void {
+    if (this.y - height < MARGIN && this.y < this.size[1] - MARGIN) {
+      this.page = this.pdf.addPage(this.size);
+      this.y = this.size[1] - MARGIN;
+    }
+  }
+}
+
+function drawParagraph(
+  layout: PageLayout,
+  paragraph: DocxParagraph,
+  fonts: Fonts,
+  sanitize: (text: string) => string
+): void {
+  const heading = HEADING_SIZES.find(h => paragraph.style && h.pattern.test(paragraph.style));
+  const size = heading ? heading.size : FONT_SIZE;
+  const lineHeight = size * LINE_HEIGHT;
+
+  const pieces: TextPiece[] = paragraph.runs.map(run => ({
+    text: sanitize(run.text),
+    font: pickFont(fonts, run.bold || !!heading, run.italic),
+  }));
+
+  const lines = wrapPieces(pieces, size, layout.contentWidth);
+
+  for (const line of lines) {
+    layout.ensureSpace(lineHeight);
+    layout.y -= lineHeight;
+    drawLine(layout.page, line, MARGIN, layout.y, size);
+  }
+
+  if (lines.length === 0) {
+    layout.y -= lineHeight;  // Empty paragraphs keep their vertical space
+  }
+  layout.y -= heading ? PARAGRAPH_SPACING * 2 : PARAGRAPH_SPACING;
+}
+
+/**
+ * Draw a table as a grid of equal-width columns. Rows are kept on one page
+ * unless a single row is taller than the page.
+ */
+function drawTable(
+  layout: PageLayout,
+  part: DocxPart,
+  table: DocxTable,
+  fonts: Fonts,
+  sanitize: (text: string) => string
+): void {
+  const columns = Math.max(1, ...table.rows.map(row => row.length));
+  const cellWidth = layout.contentWidth / columns;
+  const lineHeight = FONT_SIZE * LINE_HEIGHT;
+  const border = rgb(0.6, 0.6, 0.6);
+
+  for (const row of table.rows) {
+    const cellLines = row.map(paragraphIndexes =>
+      paragraphIndexes.flatMap(index => {
+        const pieces = part.paragraphs[index].runs.map(run => ({
+          text: sanitize(run.text),
+          font: pickFont(fonts, run.bold, run.italic),
+        }));
+        return wrapPieces(pieces, FONT_SIZE, cellWidth - 2 * CELL_PADDING);
+      })
+    );
+    const rowHeight = Math.max(1, ...cellLines.map(lines => lines.length)) * lineHeight + 2 * CELL_PADDING;
+
+    layout.ensureSpace(rowHeight);
+    const top = layout.y;
+
+    cellLines.forEach((lines, cell) => {
+      const x = MARGIN + cell * cellWidth;
+      layout.page.drawRectangle({
+        x, y: top - rowHeight, width: cellWidth, height: rowHeight, borderColor: border, borderWidth: 0.5,
+      });
+      lines.forEach((line, lineIndex) => {
+        drawLine(layout.page, line, x + CELL_PADDING, top - CELL_PADDING - (lineIndex + 1) * lineHeight + 3, FONT_SIZE);
+      });
+    });
+
+    layout.y = top - rowHeight;
+  }
+
+  layout.y -= PARAGRAPH_SPACING;
+}
+
+function drawLine(page: PDFPage, line: TextPiece[], x: number, y: number, size: number): void {
+  let cursor = x;
+  for (const piece of line) {
+    page.drawText(piece.text, { x: cursor, y, size, font: piece.font });
+    cursor += piece.font.widthOfTextAtSize(piece.text, size);
+  }
+}
+
+function drawWatermark(page: PDFPage, text: string, font: PDFFont): void {
+  const { width, height } = page.getSize();
+  const size = Math.min(width, height) / 5;
+  const textWidth = font.widthOfTextAtSize(text, size);
+  const angle = Math.PI / 4;
+
+  // Offset the baseline start so the rotated text is centred on the page
+  page.drawText(text, {
+    x: width / 2 - (textWidth / 2) * Math.cos(angle) + (size / 3) * Math.sin(angle),
+    y: height / 2 - (textWidth / 2) * Math.sin(angle) - (size / 3) * Math.cos(angle),
+    size,
+    font,
+    color: rgb(0.75, 0.75, 0.75),
+    opacity: 0.3,
+    rotate: degrees(45),
+  });
+}
+
+/**
+ * Word-wrap styled pieces into lines no wider than maxWidth. Words longer
+ * than a line are broken by character.
+ */
+function wrapPieces(pieces: TextPiece[], size: number, maxWidth: number): TextPiece[][] {
+  const lines: TextPiece[][] = [];
+  let line: TextPiece[] = [];
+  let lineWidth = 0;
+
+  const pushLine = () => {
+    // Trailing spaces don't count towards the line
+    const last = line[line.length - 1];
+    if (last && last.text.trim() === '') line.pop();
+    if (line.length > 0) lines.push(line);
+    line = [];
+    lineWidth = 0;
+  };
+
+  for (const piece of pieces) {
+    for (const token of piece.text.split(/(\s+)/).filter(t => t !== '')) {
+      const isSpace = token.trim() === '';
+      const text = isSpace ? ' ' : token;
+      const width = piece.font.widthOfTextAtSize(text, size);
+
+      if (isSpace) {
+        if (line.length > 0 && lineWidth + width <= maxWidth) {
+          line.push({ text, font: piece.font });
+          lineWidth += width;
+        }
+        continue;
+      }
+
+      if (lineWidth + width > maxWidth && line.length > 0) {
+        pushLine();
+      }
+
+      if (width <= maxWidth) {
+        line.push({ text, font: piece.font });
+        lineWidth += width;
+        continue;
+      }
+
+      for (const char of text) {
+        const charWidth = piece.font.widthOfTextAtSize(char, size);
+        if (lineWidth + charWidth > maxWidth && line.length > 0) {
+          pushLine();
+        }
+        line.push({ text: char, font: piece.font });
+        lineWidth += charWidth;
+      }
+    }
+  }
+
+  pushLine();
+  return lines;
+}
+
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+
+  let fitted = text;
+  while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}...`, size) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+}
+
+function pickFont(fonts: Fonts, bold: boolean, italic: boolean): PDFFont {
+  if (bold && italic) return fonts.boldItalic;
+  if (bold) return fonts.bold;
+  if (italic) return fonts.italic;
+  return fonts.regular;
+}
+
+function firstPartText(structure: DocxStructure, type: DocxPart['type']): string {
+  const part = structure.parts.find(p => p.type === type);
+  return part ? part.paragraphs.map(p => p.text.trim()).filter(Boolean).join('  ') : '';
+}
+
+/**
+ * The standard fonts only cover WinAnsi. Unsupported characters are reduced to
+ * their base letters where possible (é -> e) and replaced with "?" otherwise.
+ */
+function createSanitizer(font: PDFFont): (text: string) => string {
+  const supported = new Set(font.getCharacterSet());
+
+  return (text: string) => Array.from(text.replace(/\t/g, ' '))
+    .map(char => {
+      if (supported.has(char.codePointAt(0)!)) return char;
+      const base = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+      return base && Array.from(base).every(c => supported.has(c.codePointAt(0)!)) ? base : '?';
+    })
+    .join('');
+}
@@ -0,0 +1,192 @@
+import { DetectionSource, PlaceholderFieldType } from '@smartdocs/common';
+import type { PlaceholderData } from '../agents/PlaceholderExtractor';
+
+export interface DetectedPlaceholder extends PlaceholderData {
+  offset: number;  // Character offset of originalText in the document text
+  detectionSource: DetectionSource;
+}
+
+/**
+ * Placeholder patterns, in priority order. These mirror the patterns listed in
+ * the PlaceholderExtractor system prompt.
+ */
+const PATTERNS: RegExp[] = [
+  /\{\{\s*[A-Za-z_][\w.\- ]*\s*\}\}/,   // {{variable}}
+  /\[[^[\]\n]{1,80}\]/,                  // [TEXT]
+  /\{[^{}\n]{1,60}\}/,                   // {TEXT}
+  /<[A-Za-z_][^<>\n]{0,60}>/,            // <TEXT>
+  /\$[A-Za-z_][A-Za-z0-9_]*/,            // $variable
+  /_{3,}/,                               // __________
+];
+
+const COMBINED_PATTERN = new RegExp(PATTERNS.map(p => `(${p.source})`).join('|'), 'g');
+
+// Bracketed text that is a reference rather than a blank, e.g. [1], [iv], [sic]
+const REFERENCE_PATTERN = /^[[{<]\s*(\d+|[ivxlc]+|sic)\s*[\]}>]$/i;
+
+// How far back on the same line to look for a label such as "Date:" or "$"
+const LABEL_WINDOW = 40;
+
+// Unlabelled blanks only take hints from the last few words, e.g. "dated ____"
+const HINT_WINDOW = 20;
+
+const TYPE_KEYWORDS: Array<{ type: PlaceholderFieldType; pattern: RegExp }> = [
+  { type: PlaceholderFieldType.EMAIL, pattern: /e-?mail/i },
+  { type: PlaceholderFieldType.DATE, pattern: /\b(date|dated|day of|effective|expir\w*)\b/i },
+  { type: PlaceholderFieldType.CURRENCY, pattern: /(\$|\bUSD\b|\b(amount|price|cap|valuation|purchase|fee|salary|payment)\b)/i },
+  { type: PlaceholderFieldType.ADDRESS, pattern: /\b(address|street|city|located at)\b/i },
+  { type: PlaceholderFieldType.NUMBER, pattern: /(%|\b(number|percent\w*|shares|quantity|count|rate)\b)/i },
+];
+
+/**
+ * Detect placeholders in document text using deterministic patterns
+ *
+ * Works without any AI provider, so extraction still produces results when the
+ * LLM is unavailable. Field types are inferred from the placeholder text and
+ * the label immediately before it (e.g. "Date: ____" or "$[_____]").
+ *
+ * @param text - Plain document text
+ * @returns DetectedPlaceholder[] - Placeholders in order of appearance
+ */
+export function detectPlaceholders(text: string): DetectedPlaceholder[] {
+  const detected: DetectedPlaceholder[] = [];
+  if (!text) return detected;
+
+  const usedNames = new Map<string, number>();
+
+  for (const match of text.matchAll(COMBINED_PATTERN)) {
+    const originalText = match[0];
+    const offset = match.index!;
+
+    if (REFERENCE_PATTERN.test(originalText)) continue;
+
+    const precedingText = lineBefore(text, offset);
+    const label = findLabel(precedingText);
+    const baseName = toFieldName(innerText(originalText)) || toFieldName(label) || 'blank';
+    const fieldName = uniqueName(baseName, usedNames);
+
+    detected.push({
+      fieldName,
+      fieldType: inferFieldType(originalText, label, precedingText),
+      originalText,
+      position: detected.length + 1,
+      suggestedQuestion: baseName === 'blank'
+        ? 'What should go in this blank?'
+        : `What is the ${baseName.replace(/_/g, ' ')}?`,
+      offset,
+      detectionSource: DetectionSource.PATTERN,
+    });
+  }
+
+  return detected;
+}
+
+/**
+ * Merge pattern and LLM results, removing duplicates by location
+ *
+ * LLM placeholders are located in the text by their original text (successive
+ * occurrences for repeated text). A pattern match overlapping an LLM match is
+ * the same field: the LLM's name and question are kept, and the pattern's type
+ * is used when the LLM only reported plain text. Positions are renumbered in
+ * order of appearance; LLM results that cannot be located are appended.
+ *
+ * @param text - Plain document text both detectors ran on
+ * @param patternResults - Output of detectPlaceholders
+ * @param llmResults - Output of the PlaceholderExtractor agent
+ * @returns DetectedPlaceholder[] - Merged placeholders ordered by position
+ */
+export function mergePlaceholders(
+  text: string,
+  patternResults: DetectedPlaceholder[],
+  llmResults: PlaceholderData[]
+): DetectedPlaceholder[] {
+  const merged: DetectedPlaceholder[] = patternResults.map(p => ({ ...p }));
+  const unlocated: DetectedPlaceholder[] = [];
+  const searchFrom = new Map<string, number>();
+
+  const sortedLlm = [...llmResults].sort((a, b) => a.position - b.position);
+
+  for (const llm of sortedLlm) {
+    const from = searchFrom.get(llm.originalText) || 0;
+    const offset = llm.originalText ? text.indexOf(llm.originalText, from) : -1;
+
+    if (offset === -1) {
+      unlocated.push({ ...llm, offset: Number.MAX_SAFE_INTEGER, detectionSource: DetectionSource.LLM });
+      continue;
+    }
+    searchFrom.set(llm.originalText, offset + llm.originalText.length);
+
+    const end = offset + llm.originalText.length;
+    const overlapping = merged.findIndex(p =>
+      p.detectionSource === DetectionSource.PATTERN &&
+      p.offset < end && offset < p.offset + p.originalText.length
+    );
+
+    if (overlapping === -1) {
+      merged.push({ ...llm, offset, detectionSource: DetectionSource.LLM });
+      continue;
+    }
+
+    const pattern = merged[overlapping];
+    merged[overlapping] = {
+      ...llm,
+      fieldType: llm.fieldType === PlaceholderFieldType.TEXT ? pattern.fieldType : llm.fieldType,
+      offset: Math.min(offset, pattern.offset),
+      detectionSource: DetectionSource.BOTH,
+    };
+
+    // A wider LLM match (e.g. "Date: ____") may cover further pattern matches
+    for (let i = merged.length - 1; i >= 0; i--) {
+      const p = merged[i];
+      if (i !== overlapping && p.detectionSource === DetectionSource.PATTERN &&
+          p.offset < end && offset < p.offset + p.originalText.length) {
+        merged.splice(i, 1);
+      }
+    }
+  }
+
+  return [...merged.sort((a, b) => a.offset - b.offset), ...unlocated]
+    .map((p, index) => ({ ...p, position: index + 1 }));
+}
+
+function innerText(originalText: string): string {
+  return originalText.replace(/^[[{<$]+|[\]}>]+$/g, '').replace(/_{2,}/g, ' ');
+}
+
+function lineBefore(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  return text.slice(Math.max(lineStart, offset - LABEL_WINDOW), offset);
+}
+
+/**
+ * Label text right before a blank, e.g. "Name" in "Name: ______" (up to three words)
+ */
+function findLabel(precedingText: string): string {
+  const match = precedingText.match(/\b([A-Za-z]+(?:[ '-][A-Za-z]+){0,2})\s*:\s*\$?\s*$/);
+  return match ? match[1] : '';
+}
+
+function inferFieldType(originalText: string, label: string, precedingText: string): PlaceholderFieldType {
+  // The placeholder's own wording is the strongest signal, then its label, then nearby words
+  for (const source of [innerText(originalText), label, precedingText.slice(-HINT_WINDOW)]) {
+    const found = TYPE_KEYWORDS.find(k => k.pattern.test(source));
+    if (found) return found.type;
+  }
+
+  return PlaceholderFieldType.TEXT;
+}
+
+function toFieldName(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 60);
+}
+
+function uniqueName(baseName: string, usedNames: Map<string, number>): string {
+  const count = (usedNames.get(baseName) || 0) + 1;
+  usedNames.set(baseName, count);
+  return count === 1 ? baseName : `${baseName}_${count}`;
+}
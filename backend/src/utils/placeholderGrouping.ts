@@ -0,0 +1,59 @@
+export interface GroupablePlaceholder {
+  id: string;
+  fieldName: string;
+  originalText: string;
+}
+
+/**
+ * Field name with case, punctuation and the numeric suffix given to repeated
+ * names ignored, e.g. "Company Name" and "company_name_2" are both "company_name"
+ */
+export function normalizeFieldName(fieldName: string): string {
+  return fieldName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .replace(/_\d+$/, '');
+}
+
+/**
+ * Key of the logical field a placeholder occurrence belongs to
+ *
+ * Occurrences with the same normalized field name and the same original text
+ * are one field. Blanks without wording of their own (e.g. "______") get no
+ * key: the same line drawn twice is usually two different fields.
+ *
+ * @returns string | null - Grouping key, or null if the occurrence stands alone
+ */
+export function fieldKey(fieldName: string, originalText: string): string | null {
+  if (!originalText || !/[A-Za-z0-9]/.test(originalText)) {
+    return null;
+  }
+
+  return `${normalizeFieldName(fieldName)}\u0000${originalText}`;
+}
+
+/**
+ * Link repeated occurrences of a field to its first occurrence
+ *
+ * @param placeholders - Current placeholders, in document order
+ * @returns Map<string, string> - ID of the first occurrence for each later occurrence
+ */
+export function linkOccurrences(placeholders: GroupablePlaceholder[]): Map<string, string> {
+  const firstByKey = new Map<string, string>();
+  const links = new Map<string, string>();
+
+  for (const placeholder of placeholders) {
+    const key = fieldKey(placeholder.fieldName, placeholder.originalText);
+    if (key === null) continue;
+
+    const first = firstByKey.get(key);
+    if (first) {
+      links.set(placeholder.id, first);
+    } else {
+      firstByKey.set(key, placeholder.id);
+    }
+  }
+
+  return links;
+}
@@ -0,0 +1,94 @@
+import { PlaceholderAnchor } from '@smartdocs/common';
+import { normalizeFieldName } from './placeholderGrouping';
+
+export interface ReconcilablePlaceholder {
+  fieldName: string;
+  originalText: string;
+  anchors: PlaceholderAnchor[];
+}
+
+export interface ExistingPlaceholder extends ReconcilablePlaceholder {
+  id: string;
+  stale?: boolean;
+}
+
+// Names given to placeholders without a label of their own; they say nothing about which blank it is
+const GENERIC_FIELD_NAMES = new Set(['', 'blank', 'field', 'placeholder']);
+
+export interface ReconciliationResult {
+  matches: Array<string | undefined>;  // Existing placeholder ID for each extracted placeholder
+  unmatched: string[];                 // Existing placeholders not found again
+}
+
+/**
+ * Match freshly extracted placeholders to the ones already stored for a document
+ *
+ * A placeholder matches by location first: an anchor overlapping one of the
+ * existing placeholder's anchors, or the same original text when either has no
+ * anchors. Placeholders still unmatched are then paired by field name, when
+ * the name is descriptive and used once on each side: generic or repeated
+ * names (e.g. "blank", "blank_2") could pair unrelated blanks and move a value
+ * onto the wrong one. Each existing placeholder is matched at most once,
+ * current ones before stale ones.
+ *
+ * @param existing - Placeholders stored for the document
+ * @param extracted - Placeholders from the new extraction, in document order
+ * @returns ReconciliationResult - Matched IDs by extracted index, and unmatched IDs
+ */
+export function reconcilePlaceholders(
+  existing: ExistingPlaceholder[],
+  extracted: ReconcilablePlaceholder[]
+): ReconciliationResult {
+  const candidates = [...existing].sort((a, b) => Number(!!a.stale) - Number(!!b.stale));
+  const matchedIds = new Set<string>();
+  const matches: Array<string | undefined> = extracted.map(() => undefined);
+
+  const claim = (index: number, isMatch: (candidate: ExistingPlaceholder) => boolean) => {
+    const found = candidates.find(c => !matchedIds.has(c.id) && isMatch(c));
+    if (found) {
+      matchedIds.add(found.id);
+      matches[index] = found.id;
+    }
+  };
+
+  extracted.forEach((placeholder, index) => {
+    claim(index, candidate => sameLocation(candidate, placeholder));
+  });
+
+  const existingNames = countNames(existing);
+  const extractedNames = countNames(extracted);
+
+  extracted.forEach((placeholder, index) => {
+    const name = normalizeFieldName(placeholder.fieldName);
+    if (matches[index] === undefined && !GENERIC_FIELD_NAMES.has(name)
+      && existingNames.get(name) === 1 && extractedNames.get(name) === 1) {
+      claim(index, candidate => normalizeFieldName(candidate.fieldName) === name);
+    }
+  });
+
+  return {
+    matches,
+    unmatched: existing.filter(p => !matchedIds.has(p.id)).map(p => p.id),
+  };
+}
+
+function countNames(placeholders: ReconcilablePlaceholder[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const placeholder of placeholders) {
+    const name = normalizeFieldName(placeholder.fieldName);
+    counts.set(name, (counts.get(name) || 0) + 1);
+  }
+  return counts;
+}
+
+function sameLocation(a: ReconcilablePlaceholder, b: ReconcilablePlaceholder): boolean {
+  if (a.anchors.length === 0 || b.anchors.length === 0) {
+    return !!a.originalText && a.originalText === b.originalText;
+  }
+
+  return a.anchors.some(x => b.anchors.some(y =>
+    x.part === y.part &&
+    x.paragraphIndex === y.paragraphIndex &&
+    x.start < y.end && y.start < x.end
+  ));
+}
@@ -1,24 +1,48 @@
 // backend/tests/agents/BaseAgent.test.ts
+import { z } from 'zod';
 import { BaseAgent } from '../../src/agents/BaseAgent';
 import { AgentType, TaskType, TaskStatus } from '@smartdocs/common';
 
 // Mock OpenAI
 jest.mock('openai');
 
-// Mock OpenAI config
-jest.mock('../../src/config/openai', () => ({
-  openai: {},
-  calculateCost: jest.fn(),
-}));
-
 // Mock database
 jest.mock('../../src/config/database', () => ({
   query: jest.fn(),
 }));
 
+// Mock LLM providers
+jest.mock('../../src/llm', () => {
+  const provider = { complete: jest.fn(), stream: jest.fn() };
+  return {
+    ...jest.requireActual('../../src/llm/structuredOutput'),
+    getAgentSettings: jest.fn(() => ({ provider: 'fixture' })),
+    getProvider: jest.fn(() => provider),
+  };
+});
+
+// Mock AI budgets
+jest.mock('../../src/services/AIBudgetService', () => ({
+  aiBudgetService: { checkBudget: jest.fn() },
+}));
+
+// Mock AI cache
+jest.mock('../../src/services/AICacheService', () => ({
+  aiCacheService: {
+    isEnabledFor: jest.fn(() => true),
+    buildKey: jest.fn(() => 'cache-key'),
+    get: jest.fn(),
+    set: jest.fn(),
+  },
+}));
+
 class TestAgent extends BaseAgent {
   constructor() {
-    super('test-agent', AgentType.ANALYZER, 'gpt-4-turbo-preview');
+    super('test-agent', AgentType.ANALYZER, 'gpt-4-turbo-preview', 'You are a test agent.', { temperature: 0.2 });
+  }
+
+  ask(prompt: string) {
+    return this.callLLM(prompt);
   }
 
   async execute(input: any): Promise<any> {
@@ -26,6 +50,36 @@ class TestAgent extends BaseAgent {
   }
 }
 
+// Makes two LLM calls per task
+class ChattyAgent extends TestAgent {
+  async execute(input: any): Promise<any> {
+    await this.callLLM('first');
+    await this.callLLM('second');
+    if (input.fail) {
+      throw new Error('Gave up');
+    }
+    return { result: 'chatty' };
+  }
+}
+
+// Falls back to a default answer when the LLM fails
+class FallbackAgent extends TestAgent {
+  async execute(input: any): Promise<any> {
+    try {
+      return JSON.parse((await this.callLLM('Answer')).content);
+    } catch {
+      return { result: 'default' };
+    }
+  }
+}
+
+// Asks for a name as JSON
+class StructuredAgent extends TestAgent {
+  async execute(input: any): Promise<any> {
+    return this.callLLMStructured('Name someone', z.object({ name: z.string().min(1) }));
+  }
+}
+
 describe('BaseAgent', () => {
   let agent: TestAgent;
   let mockQuery: jest.Mock;
@@ -33,7 +87,7 @@ describe('BaseAgent', () => {
   beforeEach(() => {
     const { query } = require('../../src/config/database');
     mockQuery = query as jest.Mock;
-    mockQuery.mockClear();
+    mockQuery.mockReset();
 
     agent = new TestAgent();
   });
@@ -81,4 +135,254 @@ describe('BaseAgent', () => {
     expect(result.status).toBe(TaskStatus.COMPLETED);
     expect(result.outputData).toEqual({ result: 'test' });
   });
+
+  it('should send prompts to the agent\'s provider', async () => {
+    const { getProvider } = require('../../src/llm');
+    const provider = getProvider();
+    const response = { content: '{}', tokens: { prompt: 10, completion: 1, total: 11 } };
+    provider.complete.mockResolvedValueOnce(response);
+
+    await expect(agent.ask('Hello')).resolves.toEqual(response);
+
+    expect(agent.provider).toBe('fixture');
+    expect(getProvider).toHaveBeenCalledWith('fixture');
+    expect(provider.complete).toHaveBeenCalledWith({
+      agent: 'test-agent',
+      model: 'gpt-4-turbo-preview',
+      systemPrompt: 'You are a test agent.',
+      userPrompt: 'Hello',
+      temperature: 0.2,
+      maxTokens: 2000,
+    });
+  });
+
+  it('should use the model configured for the agent', () => {
+    const { getAgentSettings } = require('../../src/llm');
+    getAgentSettings.mockReturnValueOnce({ provider: 'openai-compatible', model: 'llama3.1' });
+
+    const configured = new TestAgent();
+
+    expect(configured.provider).toBe('openai-compatible');
+    expect(configured.model).toBe('llama3.1');
+  });
+
+  describe('usage', () => {
+    const mockProviderTokens = () => {
+      const { getProvider } = require('../../src/llm');
+      getProvider().complete
+        .mockResolvedValueOnce({ content: '{}', tokens: { prompt: 1000, completion: 200, total: 1200 } })
+        .mockResolvedValueOnce({ content: '{}', tokens: { prompt: 500, completion: 100, total: 600 } });
+    };
+
+    const updateParams = () => mockQuery.mock.calls.find(([sql]) => sql.includes('UPDATE ai_tasks'))[1];
+
+    it('should record the tokens and cost of every call, with who and what the task was for', async () => {
+      const { getAgentSettings } = require('../../src/llm');
+      getAgentSettings.mockReturnValueOnce({ provider: 'openai' });
+      const chatty = new ChattyAgent();
+      mockProviderTokens();
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: 'agent-123' }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 'task-456', prompt_tokens: 1500, completion_tokens: 300, tokens_used: 1800, cost: '0.024' }] });
+
+      const task = await chatty.runTask(TaskType.ANALYZE_DOCUMENT, {}, undefined, { userId: 'user-1', documentId: 'doc-1' });
+
+      const insertParams = mockQuery.mock.calls[1][1];
+      expect(insertParams.slice(5, 8)).toEqual(['user-1', 'doc-1', 'gpt-4-turbo-preview']);
+      // gpt-4-turbo-preview: $0.01 per 1K prompt tokens, $0.03 per 1K completion tokens
+      const [, , prompt, completion, total, cost] = updateParams();
+      expect([prompt, completion, total]).toEqual([1500, 300, 1800]);
+      expect(cost).toBeCloseTo(0.024);
+      expect(task).toEqual(expect.objectContaining({ promptTokens: 1500, completionTokens: 300, tokensUsed: 1800, cost: 0.024 }));
+    });
+
+    it('should record usage of a failed task', async () => {
+      const chatty = new ChattyAgent();
+      mockProviderTokens();
+      mockQuery.mockResolvedValue({ rows: [{ id: 'agent-123' }] });
+
+      await expect(chatty.runTask(TaskType.ANALYZE_DOCUMENT, { fail: true })).rejects.toThrow('Gave up');
+
+      const [status, error, prompt, completion, total, cost] = updateParams();
+      expect([status, error, prompt, completion, total]).toEqual([TaskStatus.FAILED, 'Gave up', 1500, 300, 1800]);
+      // Fixture responses cost nothing
+      expect(cost).toBe(0);
+    });
+  });
+
+  describe('structured output', () => {
+    const mockResponses = (...contents: string[]) => {
+      const { getProvider } = require('../../src/llm');
+      getProvider().complete.mockClear();
+      contents.forEach(content =>
+        getProvider().complete.mockResolvedValueOnce({ content, tokens: { prompt: 10, completion: 5, total: 15 } })
+      );
+      return getProvider().complete as jest.Mock;
+    };
+
+    const validationErrorsParam = () => {
+      const [sql, params] = mockQuery.mock.calls.find(([sql]) => sql.includes('UPDATE ai_tasks'));
+      expect(sql).toContain('validation_errors = $7');
+      return params[6];
+    };
+
+    it('should send output that fails its schema back for repair', async () => {
+      const structured = new StructuredAgent();
+      const complete = mockResponses('```json\n{"name": ""}\n```', '{"name": "Jane Doe"}');
+      mockQuery.mockResolvedValue({ rows: [{ id: 'task-456', output_data: { name: 'Jane Doe' } }] });
+
+      const task = await structured.runTask(TaskType.ANALYZE_DOCUMENT, {});
+
+      expect(task.outputData).toEqual({ name: 'Jane Doe' });
+      expect(complete).toHaveBeenCalledTimes(2);
+      const repairPrompt = complete.mock.calls[1][0].userPrompt;
+      expect(repairPrompt).toContain('Name someone');
+      expect(repairPrompt).toContain('{"name": ""}');
+      expect(repairPrompt).toContain('- name: String must contain at least 1 character(s)');
+      expect(JSON.parse(validationErrorsParam())).toEqual([
+        { attempt: 1, errors: ['name: String must contain at least 1 character(s)'] },
+      ]);
+    });
+
+    it('should fail the task once the repairs are used up', async () => {
+      const structured = new StructuredAgent();
+      const complete = mockResponses('Sure! Here is a name: Jane', '{}', '{"name": 42}');
+      mockQuery.mockResolvedValue({ rows: [{ id: 'agent-123' }] });
+
+      await expect(structured.runTask(TaskType.ANALYZE_DOCUMENT, {})).rejects.toThrow(
+        'test-agent returned output that does not match its schema: name: Expected string, received number'
+      );
+
+      expect(complete).toHaveBeenCalledTimes(3);
+      expect(JSON.parse(validationErrorsParam())).toEqual([
+        { attempt: 1, errors: [expect.stringMatching(/^Response is not valid JSON/)] },
+        { attempt: 2, errors: ['name: Required'] },
+        { attempt: 3, errors: ['name: Expected string, received number'] },
+      ]);
+    });
+
+    it('should record no validation errors for valid output', async () => {
+      const structured = new StructuredAgent();
+      mockResponses('{"name": "Jane Doe"}');
+      mockQuery.mockResolvedValue({ rows: [{ id: 'task-456' }] });
+
+      await structured.runTask(TaskType.ANALYZE_DOCUMENT, {});
+
+      expect(validationErrorsParam()).toBeNull();
+    });
+  });
+
+  describe('cache', () => {
+    const { aiCacheService } = require('../../src/services/AICacheService');
+
+    beforeEach(() => {
+      aiCacheService.get.mockReset();
+      aiCacheService.set.mockReset();
+    });
+
+    it('should answer from the cache, recording the task as a cache hit', async () => {
+      const { aiBudgetService } = require('../../src/services/AIBudgetService');
+      aiBudgetService.checkBudget.mockClear();
+      aiCacheService.get.mockResolvedValueOnce({ result: 'cached' });
+      const execute = jest.spyOn(agent, 'execute');
+      mockQuery.mockResolvedValue({ rows: [{ id: 'task-456', output_data: { result: 'cached' }, cache_hit: true, tokens_used: 0 }] });
+
+      const task = await agent.runTask(TaskType.ANALYZE_DOCUMENT, { test: 'data' }, undefined, { userId: 'user-1' });
+
+      expect(aiCacheService.buildKey).toHaveBeenCalledWith('test-agent', 'gpt-4-turbo-preview', agent.promptVersion, { test: 'data' }, undefined);
+      expect(execute).not.toHaveBeenCalled();
+      // A cached answer costs nothing
+      expect(aiBudgetService.checkBudget).not.toHaveBeenCalled();
+      const insertParams = mockQuery.mock.calls[1][1];
+      expect(insertParams[8]).toBe(true);
+      const updateParams = mockQuery.mock.calls.find(([sql]) => sql.includes('UPDATE ai_tasks'))[1];
+      expect(updateParams.slice(0, 6)).toEqual([JSON.stringify({ result: 'cached' }), TaskStatus.COMPLETED, 0, 0, 0, 0]);
+      expect(aiCacheService.set).not.toHaveBeenCalled();
+      expect(task).toEqual(expect.objectContaining({ cacheHit: true, outputData: { result: 'cached' } }));
+    });
+
+    it('should cache the output of a task that ran', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ id: 'task-456' }] });
+
+      await agent.runTask(TaskType.ANALYZE_DOCUMENT, { test: 'data' });
+
+      expect(mockQuery.mock.calls[1][1][8]).toBe(false);
+      expect(aiCacheService.set).toHaveBeenCalledWith('cache-key', {
+        agent: 'test-agent',
+        model: 'gpt-4-turbo-preview',
+        promptVersion: agent.promptVersion,
+        output: { result: 'test' },
+      });
+    });
+
+    it('should not cache a fallback answer after a failed call', async () => {
+      const { getProvider } = require('../../src/llm');
+      getProvider().complete.mockRejectedValueOnce(new Error('OpenAI unavailable'));
+      mockQuery.mockResolvedValue({ rows: [{ id: 'task-456' }] });
+
+      await new FallbackAgent().runTask(TaskType.ANALYZE_DOCUMENT, {});
+
+      expect(aiCacheService.set).not.toHaveBeenCalled();
+    });
+
+    it('should leave out agents that opt out', async () => {
+      class UncachedAgent extends TestAgent {
+        constructor() {
+          super();
+          this.config.cache = false;
+        }
+      }
+      mockQuery.mockResolvedValue({ rows: [{ id: 'task-456' }] });
+
+      await new UncachedAgent().runTask(TaskType.ANALYZE_DOCUMENT, {});
+
+      expect(aiCacheService.get).not.toHaveBeenCalled();
+      expect(aiCacheService.set).not.toHaveBeenCalled();
+    });
+
+    it('should leave the input keys an agent ignores out of the cache key', async () => {
+      class DocumentAgent extends TestAgent {
+        constructor() {
+          super();
+          this.config.cache_ignored_keys = ['documentId'];
+        }
+      }
+      mockQuery.mockResolvedValue({ rows: [{ id: 'task-456' }] });
+
+      await new DocumentAgent().runTask(TaskType.ANALYZE_DOCUMENT, { documentId: 'doc-1', text: 'SAFE' });
+
+      expect(aiCacheService.buildKey).toHaveBeenLastCalledWith(
+        'test-agent', 'gpt-4-turbo-preview', expect.any(String), { documentId: 'doc-1', text: 'SAFE' }, ['documentId']
+      );
+    });
+
+    it('should version prompts by the system prompt unless told otherwise', () => {
+      class RevisedAgent extends BaseAgent {
+        constructor(systemPrompt: string, config: Record<string, any> = {}) {
+          super('revised-agent', AgentType.ANALYZER, 'gpt-4-turbo-preview', systemPrompt, config);
+        }
+
+        async execute(): Promise<any> {
+          return {};
+        }
+      }
+
+      expect(new RevisedAgent('Prompt A').promptVersion).toBe(new RevisedAgent('Prompt A').promptVersion);
+      expect(new RevisedAgent('Prompt B').promptVersion).not.toBe(new RevisedAgent('Prompt A').promptVersion);
+      expect(new RevisedAgent('Prompt A', { prompt_version: '2' }).promptVersion).toBe('2');
+    });
+  });
+
+  it('should not run a task over budget', async () => {
+    const { aiBudgetService } = require('../../src/services/AIBudgetService');
+    aiBudgetService.checkBudget.mockRejectedValueOnce(new Error('The monthly AI budget for your account is used up'));
+
+    await expect(agent.runTask(TaskType.ANALYZE_DOCUMENT, {}, undefined, { userId: 'user-1' }))
+      .rejects.toThrow('The monthly AI budget for your account is used up');
+
+    expect(aiBudgetService.checkBudget).toHaveBeenCalledWith('user-1');
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,84 @@
+// backend/tests/llm/FixtureProvider.test.ts
+import path from 'path';
+import { FixtureProvider } from '../../src/llm/FixtureProvider';
+import { LLMRequest } from '../../src/llm/LLMProvider';
+
+describe('FixtureProvider', () => {
+  const request = (agent: string, userPrompt: string): LLMRequest => ({
+    agent,
+    model: 'gpt-4-turbo-preview',
+    systemPrompt: 'You are a test agent.',
+    userPrompt,
+  });
+
+  const provider = new FixtureProvider({
+    DocumentAnalyzer: [
+      { match: 'SAFE', response: { documentType: 'SAFE Agreement', confidence: 0.9 } },
+      { response: { documentType: 'Legal Agreement', confidence: 0.5 } },
+    ],
+    ConversationalAssistant: [
+      { match: 'User: ([^\\n]+)$', response: { message: 'Got it: $1', extractedValue: '$1' } },
+    ],
+    EntityMatcher: [
+      { response: 'plain text' },
+    ],
+  });
+
+  it('should answer with the first fixture matching the prompt', async () => {
+    const safe = await provider.complete(request('DocumentAnalyzer', 'Analyze this SAFE'));
+    const other = await provider.complete(request('DocumentAnalyzer', 'Analyze this NDA'));
+
+    expect(JSON.parse(safe.content).documentType).toBe('SAFE Agreement');
+    expect(JSON.parse(other.content).documentType).toBe('Legal Agreement');
+  });
+
+  it('should fill in capture groups, keeping JSON responses valid', async () => {
+    const response = await provider.complete(request('ConversationalAssistant', 'User: "Acme" Inc'));
+
+    expect(JSON.parse(response.content)).toEqual({ message: 'Got it: "Acme" Inc', extractedValue: '"Acme" Inc' });
+  });
+
+  it('should estimate token usage from the text', async () => {
+    const response = await provider.complete(request('EntityMatcher', 'abcd'));
+
+    expect(response.content).toBe('plain text');
+    expect(response.tokens).toEqual({ prompt: 7, completion: 3, total: 10 });
+  });
+
+  it('should be deterministic', async () => {
+    const first = await provider.complete(request('DocumentAnalyzer', 'Analyze this SAFE'));
+    const second = await provider.complete(request('DocumentAnalyzer', 'Analyze this SAFE'));
+
+    expect(second).toEqual(first);
+  });
+
+  it('should stream the response word by word', async () => {
+    const deltas: string[] = [];
+
+    const response = await provider.stream(request('ConversationalAssistant', 'User: Acme Inc'), delta => deltas.push(delta));
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join('')).toBe(response.content);
+  });
+
+  it('should fail when no fixture matches', async () => {
+    await expect(provider.complete(request('ConversationalAssistant', 'nothing here'))).rejects
+      .toThrow('No LLM fixture matches the prompt for ConversationalAssistant');
+    await expect(provider.complete(request('InsightsEngine', 'anything'))).rejects
+      .toThrow('No LLM fixture matches the prompt for InsightsEngine');
+  });
+
+  it('should read fixtures from a directory', async () => {
+    const shipped = new FixtureProvider(path.join(__dirname, '../../fixtures/llm'));
+
+    const response = await shipped.complete(request(
+      'ConversationalAssistant',
+      'Conversation History:\nAssistant: What is the company name?\nUser: Acme Inc\n\nBased on the conversation, provide your next response:'
+    ));
+
+    expect(JSON.parse(response.content)).toEqual(expect.objectContaining({
+      suggestedAction: 'fill_field',
+      extractedValue: 'Acme Inc',
+    }));
+  });
+});
@@ -0,0 +1,65 @@
+// backend/tests/llm/index.test.ts
+
+describe('LLM provider settings', () => {
+  const originalEnv = process.env;
+
+  // Settings are read from the environment when the modules load
+  const loadLLM = (env: Record<string, string | undefined>): typeof import('../../src/llm') => {
+    process.env = { ...originalEnv, ...env };
+    let llm: typeof import('../../src/llm');
+    jest.isolateModules(() => {
+      llm = require('../../src/llm');
+    });
+    return llm!;
+  };
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should run every agent on LLM_PROVIDER by default', () => {
+    const llm = loadLLM({ LLM_PROVIDER: 'fixture', LLM_AGENTS: undefined });
+
+    expect(llm.getAgentSettings('DocumentAnalyzer')).toEqual({ provider: 'fixture', model: undefined });
+  });
+
+  it('should let LLM_AGENTS move an agent to another provider and model', () => {
+    const llm = loadLLM({
+      LLM_PROVIDER: 'openai',
+      LLM_AGENTS: JSON.stringify({ ConversationalAssistant: { provider: 'openai-compatible', model: 'llama3.1' } }),
+    });
+
+    expect(llm.getAgentSettings('ConversationalAssistant')).toEqual({ provider: 'openai-compatible', model: 'llama3.1' });
+    expect(llm.getAgentSettings('DocumentAnalyzer')).toEqual({ provider: 'openai', model: undefined });
+  });
+
+  it('should reject an unknown provider', () => {
+    const llm = loadLLM({ LLM_PROVIDER: 'anthropomorphic' });
+
+    expect(() => llm.getAgentSettings('DocumentAnalyzer')).toThrow('Unknown LLM provider: anthropomorphic');
+  });
+
+  it('should reject LLM_AGENTS that is not a JSON object', () => {
+    const llm = loadLLM({ LLM_AGENTS: '["DocumentAnalyzer"]' });
+
+    expect(() => llm.getAgentSettings('DocumentAnalyzer')).toThrow('LLM_AGENTS must be a JSON object');
+  });
+
+  it('should only need an OpenAI key once OpenAI is used', () => {
+    const llm = loadLLM({ LLM_PROVIDER: 'openai', OPENAI_API_KEY: undefined });
+
+    expect(llm.getAgentSettings('DocumentAnalyzer').provider).toBe('openai');
+    expect(llm.getProvider('fixture')).toBeInstanceOf(llm.FixtureProvider);
+    expect(() => llm.getProvider('openai')).toThrow('Missing required environment variable: OPENAI_API_KEY');
+  });
+
+  it('should point openai-compatible at LLM_BASE_URL', () => {
+    const llm = loadLLM({ LLM_BASE_URL: 'http://llama:8080/v1' });
+
+    const provider = llm.getProvider('openai-compatible');
+
+    expect(provider).toBeInstanceOf(llm.OpenAIProvider);
+    expect(provider.type).toBe('openai-compatible');
+    expect((provider as any).client.baseURL).toBe('http://llama:8080/v1');
+  });
+});
@@ -0,0 +1,60 @@
+// backend/tests/llm/structuredOutput.test.ts
+import { z } from 'zod';
+import {
+  buildRepairPrompt,
+  clampedNumber,
+  enumWithFallback,
+  lenientArray,
+  optionalField,
+  parseStructuredOutput,
+} from '../../src/llm/structuredOutput';
+
+describe('structured output', () => {
+  const schema = z.object({
+    title: z.string().min(1),
+    score: clampedNumber(0, 100, true),
+    kind: enumWithFallback(['trend', 'anomaly'] as const, 'trend'),
+    note: optionalField(z.string()),
+    items: lenientArray(z.object({ name: z.string().min(1) })),
+  });
+
+  it('should parse and normalize valid output', () => {
+    const result = parseStructuredOutput(
+      '```json\n{"title": "Report", "score": 123.4, "kind": "spike", "note": null, "items": [{"name": "a"}, {"name": ""}, "b"]}\n```',
+      schema
+    );
+
+    expect(result).toEqual({
+      success: true,
+      data: { title: 'Report', score: 100, kind: 'trend', note: undefined, items: [{ name: 'a' }] },
+    });
+  });
+
+  it('should list what is wrong with invalid output', () => {
+    const result = parseStructuredOutput('{"score": "high", "kind": "", "items": {}}', schema);
+
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        'title: Required',
+        'score: Expected number, received string',
+        'kind: String must contain at least 1 character(s)',
+        'items: Expected array, received object',
+      ],
+    });
+  });
+
+  it('should reject text that is not JSON', () => {
+    const result = parseStructuredOutput('I could not find a title.', schema);
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors[0]).toMatch(/^Response is not valid JSON: /);
+  });
+
+  it('should ask for a repair with the original prompt, the response and its errors', () => {
+    const prompt = buildRepairPrompt('Summarize the documents', '{"score": "high"}', ['title: Required', 'score: Expected number']);
+
+    expect(prompt).toMatch(/^Summarize the documents\n\nYour previous response was:\n\{"score": "high"\}\n/);
+    expect(prompt).toContain('- title: Required\n- score: Expected number');
+  });
+});
@@ -0,0 +1,170 @@
+import { DocumentStatus, VersionChangeType } from '@smartdocs/common';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { attachDocumentSocket } from '../../src/routes/documents.socket';
+import { collaborationService } from '../../src/services/CollaborationService';
+
+jest.mock('../../src/services/AIAgentService');
+jest.mock('../../src/services/DocumentVersionService');
+
+jest.mock('../../src/middleware/authenticate', () => ({
+  verifyToken: jest.fn(async (token: string) => {
+    const users: Record<string, any> = {
+      'token-jane': { id: 'user-1', email: 'jane@example.com', role: 'user', organization: 'Smith LLP' },
+      'token-sam': { id: 'user-2', email: 'sam@example.com', role: 'user', organization: 'Smith LLP' },
+      'token-alex': { id: 'user-3', email: 'alex@example.com', role: 'user', organization: 'Other LLP' },
+    };
+    return users[token] || null;
+  }),
+}));
+
+// Mock database: rows looked up by table and ID, then checked against the other conditions
+jest.mock('../../src/config/knex', () => {
+  const rows: Record<string, Record<string, any>> = {
+    documents: {
+      'doc-123': { id: 'doc-123', user_id: 'user-1' },
+    },
+    placeholders: {
+      'ph-1': { id: 'ph-1', document_id: 'doc-123' },
+      'ph-9': { id: 'ph-9', document_id: 'doc-456' },
+    },
+    users: {
+      'user-1': { id: 'user-1', full_name: 'Jane Lawyer', organization: 'Smith LLP' },
+      'user-2': { id: 'user-2', full_name: 'Sam Partner', organization: 'Smith LLP' },
+      'user-3': { id: 'user-3', full_name: 'Alex Rival', organization: 'Other LLP' },
+    },
+  };
+
+  const mockDbFunction: any = jest.fn((table: string) => {
+    let conditions: Record<string, any> = {};
+    const chain: any = {
+      where: jest.fn((where: Record<string, any>) => {
+        conditions = where;
+        return chain;
+      }),
+      first: jest.fn(async () => {
+        const row = rows[table]?.[conditions.id];
+        return row && Object.entries(conditions).every(([key, value]) => row[key] === value) ? row : undefined;
+      }),
+    };
+    return chain;
+  });
+
+  return { db: mockDbFunction };
+});
+
+describe('live document channel', () => {
+  let server: Server;
+  let url: string;
+  const sockets: WebSocket[] = [];
+
+  // Open a connection, collecting the messages it receives
+  const open = (token: string, documentId = 'doc-123') => {
+    const ws = new WebSocket(`${url}/api/documents/${documentId}/live?token=${token}`);
+    const received: any[] = [];
+    ws.on('message', data => received.push(JSON.parse(data.toString())));
+    sockets.push(ws);
+    return { ws, received };
+  };
+
+  const connected = (ws: WebSocket) => new Promise<void>((resolve, reject) => {
+    ws.once('open', () => resolve());
+    ws.once('error', reject);
+  });
+
+  const rejected = (ws: WebSocket) => new Promise<number>((resolve) => {
+    ws.once('unexpected-response', (_req, res) => resolve(res.statusCode || 0));
+    ws.once('error', () => resolve(0));
+  });
+
+  const until = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(condition()).toBe(true);
+  };
+
+  beforeAll(async () => {
+    server = createServer();
+    attachDocumentSocket(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(sockets.splice(0).map(ws => new Promise<void>((resolve) => {
+      if (ws.readyState === WebSocket.CLOSED) {
+        resolve();
+        return;
+      }
+      ws.once('close', () => resolve());
+      ws.close();
+    })));
+    await until(() => collaborationService.getPresence('doc-123').length === 0);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should let a member of the owner\'s organization lock a field and see the owner\'s changes', async () => {
+    const owner = open('token-jane');
+    await connected(owner.ws);
+    const colleague = open('token-sam');
+    await connected(colleague.ws);
+    await until(() => colleague.received.length > 0);
+
+    expect(colleague.received[0]).toEqual(expect.objectContaining({
+      type: 'welcome',
+      presence: [
+        expect.objectContaining({ user: { id: 'user-1', name: 'Jane Lawyer', email: 'jane@example.com' } }),
+        expect.objectContaining({ user: { id: 'user-2', name: 'Sam Partner', email: 'sam@example.com' } }),
+      ],
+    }));
+
+    colleague.ws.send(JSON.stringify({ type: 'lock', placeholderId: 'ph-1' }));
+    await until(() => owner.received.some(m => m.type === 'locks' && m.locks.length === 1));
+
+    expect(collaborationService.findLock('doc-123', 'ph-1')).toEqual(expect.objectContaining({
+      user: expect.objectContaining({ id: 'user-2' }),
+    }));
+
+    collaborationService.publishChange('doc-123', {
+      changeType: VersionChangeType.EDIT,
+      versionNumber: 4,
+      changedBy: 'user-1',
+      snapshot: { status: DocumentStatus.READY, completionPercentage: 50, metadata: {}, placeholders: [] },
+    });
+    await until(() => colleague.received.some(m => m.type === 'document_changed'));
+
+    expect(colleague.received.find(m => m.type === 'document_changed')).toEqual(expect.objectContaining({
+      changedBy: 'user-1',
+      versionNumber: 4,
+      completionPercentage: 50,
+    }));
+  });
+
+  it('should not lock a field of another document', async () => {
+    const owner = open('token-jane');
+    await connected(owner.ws);
+
+    owner.ws.send(JSON.stringify({ type: 'lock', placeholderId: 'ph-9' }));
+    await until(() => owner.received.some(m => m.type === 'error'));
+
+    expect(owner.received.find(m => m.type === 'error')).toEqual(expect.objectContaining({ code: 'PLACEHOLDER_NOT_FOUND' }));
+    expect(collaborationService.getLocks('doc-123')).toEqual([]);
+  });
+
+  it('should turn away users outside the owner\'s organization', async () => {
+    const outsider = open('token-alex');
+
+    await expect(rejected(outsider.ws)).resolves.toBe(401);
+  });
+
+  it('should turn away connections without a valid token', async () => {
+    const anonymous = open('token-unknown');
+
+    await expect(rejected(anonymous.ws)).resolves.toBe(401);
+  });
+});
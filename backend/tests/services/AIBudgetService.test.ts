@@ -0,0 +1,200 @@
+import { config } from '../../src/config/app';
+import { AIBudgetService, QuotaExceededError } from '../../src/services/AIBudgetService';
+import { logger } from '../../src/utils/logger';
+
+// Mock database with a factory function
+jest.mock('../../src/config/knex', () => {
+  const mockDbChain = {
+    where: jest.fn().mockReturnThis(),
+    orWhere: jest.fn().mockReturnThis(),
+    join: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    first: jest.fn(),
+    orderBy: jest.fn(),
+    insert: jest.fn().mockReturnThis(),
+    update: jest.fn().mockReturnThis(),
+    returning: jest.fn(),
+    del: jest.fn(),
+  };
+
+  const mockDbFunction: any = jest.fn(() => mockDbChain);
+  Object.assign(mockDbFunction, mockDbChain);
+  mockDbFunction.raw = jest.fn((sql: string) => sql);
+
+  return { db: mockDbFunction };
+});
+
+import { db as mockDb } from '../../src/config/knex';
+
+const mockDbChain = mockDb as any;
+
+describe('AIBudgetService', () => {
+  let budgetService: AIBudgetService;
+
+  const testUserId = 'test-user-id';
+  const adminId = 'admin-id';
+  const period = new Date().toISOString().slice(0, 7);
+
+  const userBudget = (overrides: Record<string, any> = {}) => ({
+    id: 'budget-1',
+    scope: 'user',
+    user_id: testUserId,
+    organization: null,
+    monthly_token_limit: 10000,
+    monthly_cost_limit: null,
+    warned_threshold: null,
+    warned_period: null,
+    updated_by: adminId,
+    updated_at: new Date(),
+    ...overrides,
+  });
+
+  const orgBudget = (overrides: Record<string, any> = {}) => userBudget({
+    id: 'budget-2',
+    scope: 'organization',
+    user_id: null,
+    organization: 'Acme Legal',
+    monthly_token_limit: null,
+    monthly_cost_limit: '50.00',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    budgetService = new AIBudgetService();
+  });
+
+  describe('checkBudget', () => {
+    const mockBudgets = (budgets: any[], ...usage: Array<{ tokens: string; cost: string }>) => {
+      mockDbChain.first.mockResolvedValueOnce({ id: testUserId, organization: 'Acme Legal' });
+      mockDbChain.orderBy.mockResolvedValueOnce(budgets);
+      usage.forEach(u => mockDbChain.first.mockResolvedValueOnce(u));
+    };
+
+    it('should let a user under budget through', async () => {
+      mockBudgets([userBudget(), orgBudget()], { tokens: '1000', cost: '0.10' }, { tokens: '5000', cost: '1.00' });
+
+      await expect(budgetService.checkBudget(testUserId)).resolves.toBeUndefined();
+
+      expect(mockDbChain.where).toHaveBeenCalledWith({ scope: 'user', user_id: testUserId });
+      expect(mockDbChain.orWhere).toHaveBeenCalledWith({ scope: 'organization', organization: 'Acme Legal' });
+      expect(mockDbChain.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a user whose token budget is used up', async () => {
+      mockBudgets([userBudget()], { tokens: '10000', cost: '0.30' });
+
+      const error = await budgetService.checkBudget(testUserId).catch(e => e);
+
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect(error.statusCode).toBe(429);
+      expect(error.code).toBe('QUOTA_EXCEEDED');
+      expect(error.message).toBe(
+        'The monthly AI budget for your account is used up (10000 of 10000 tokens); it resets at the start of next month'
+      );
+      expect(error.budget).toEqual(expect.objectContaining({ tokensUsed: 10000, usedFraction: 1, period }));
+    });
+
+    it('should refuse a user whose organization is over its cost budget', async () => {
+      mockBudgets([userBudget(), orgBudget()], { tokens: '100', cost: '0.01' }, { tokens: '900000', cost: '50.20' });
+
+      await expect(budgetService.checkBudget(testUserId)).rejects.toThrow(
+        'The monthly AI budget for organization Acme Legal is used up ($50.20 of $50.00)'
+      );
+    });
+
+    it('should warn once when a threshold is reached', async () => {
+      const warn = jest.spyOn(logger, 'warn');
+      mockBudgets([userBudget()], { tokens: '8500', cost: '0.20' });
+
+      await budgetService.checkBudget(testUserId);
+
+      expect(warn).toHaveBeenCalledWith('AI budget threshold reached', expect.objectContaining({
+        budgetId: 'budget-1',
+        threshold: config.aiBudgetWarningThresholds[0],
+      }));
+      expect(mockDbChain.update).toHaveBeenCalledWith({ warned_threshold: config.aiBudgetWarningThresholds[0], warned_period: period });
+
+      // Already warned at this threshold this month
+      warn.mockClear();
+      mockDbChain.update.mockClear();
+      mockBudgets([userBudget({ warned_threshold: config.aiBudgetWarningThresholds[0], warned_period: period })], { tokens: '8600', cost: '0.20' });
+
+      await budgetService.checkBudget(testUserId);
+
+      expect(warn).not.toHaveBeenCalledWith('AI budget threshold reached', expect.anything());
+      expect(mockDbChain.update).not.toHaveBeenCalled();
+    });
+
+    it('should warn again in a new month', async () => {
+      const warn = jest.spyOn(logger, 'warn');
+      mockBudgets([userBudget({ warned_threshold: 0.95, warned_period: '2000-01' })], { tokens: '8500', cost: '0.20' });
+
+      await budgetService.checkBudget(testUserId);
+
+      expect(warn).toHaveBeenCalledWith('AI budget threshold reached', expect.anything());
+    });
+  });
+
+  describe('setBudget', () => {
+    it('should create an organization budget', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce({ tokens: '0', cost: '0' });
+      mockDbChain.returning.mockResolvedValueOnce([orgBudget()]);
+
+      const budget = await budgetService.setBudget({ scope: 'organization', organization: ' Acme Legal ', monthlyCostLimit: 50 }, adminId);
+
+      expect(mockDbChain.insert).toHaveBeenCalledWith(expect.objectContaining({
+        scope: 'organization',
+        organization: 'Acme Legal',
+        monthly_token_limit: null,
+        monthly_cost_limit: 50,
+        updated_by: adminId,
+      }));
+      expect(budget).toEqual(expect.objectContaining({ organization: 'Acme Legal', monthlyCostLimit: 50, usedFraction: 0 }));
+    });
+
+    it('should replace an existing budget and start its warnings over', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce({ id: testUserId })
+        .mockResolvedValueOnce(userBudget())
+        .mockResolvedValueOnce({ tokens: '0', cost: '0' });
+      mockDbChain.returning.mockResolvedValueOnce([userBudget({ monthly_token_limit: 20000 })]);
+
+      await budgetService.setBudget({ scope: 'user', userId: testUserId, monthlyTokenLimit: 20000 }, adminId);
+
+      expect(mockDbChain.insert).not.toHaveBeenCalled();
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({
+        monthly_token_limit: 20000,
+        warned_threshold: null,
+        warned_period: null,
+      }));
+    });
+
+    it('should validate the budget', async () => {
+      await expect(budgetService.setBudget({ scope: 'user', userId: testUserId }, adminId))
+        .rejects.toThrow('A token or cost limit is required');
+      await expect(budgetService.setBudget({ scope: 'user', userId: testUserId, monthlyTokenLimit: 1.5 }, adminId))
+        .rejects.toThrow('Invalid limit');
+      await expect(budgetService.setBudget({ scope: 'user', userId: testUserId, monthlyCostLimit: -1 }, adminId))
+        .rejects.toThrow('Invalid limit');
+      await expect(budgetService.setBudget({ scope: 'organization', organization: ' ', monthlyCostLimit: 5 }, adminId))
+        .rejects.toThrow('Organization is required');
+      await expect(budgetService.setBudget({ scope: 'team' as any, monthlyCostLimit: 5 }, adminId))
+        .rejects.toThrow('Invalid budget scope');
+
+      mockDbChain.first.mockResolvedValueOnce(undefined);
+      await expect(budgetService.setBudget({ scope: 'user', userId: 'missing', monthlyCostLimit: 5 }, adminId))
+        .rejects.toThrow('User not found');
+    });
+  });
+
+  describe('deleteBudget', () => {
+    it('should throw error if budget not found', async () => {
+      mockDbChain.del.mockResolvedValueOnce(0);
+
+      await expect(budgetService.deleteBudget('missing')).rejects.toThrow('Budget not found');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { config } from '../../src/config/app';
+import { AICacheService } from '../../src/services/AICacheService';
+
+// Mock database with a factory function
+jest.mock('../../src/config/knex', () => {
+  const mockDbChain = {
+    where: jest.fn().mockReturnThis(),
+    first: jest.fn(),
+    insert: jest.fn().mockReturnThis(),
+    onConflict: jest.fn().mockReturnThis(),
+    merge: jest.fn(),
+    del: jest.fn(),
+  };
+
+  const mockDbFunction: any = jest.fn(() => mockDbChain);
+  Object.assign(mockDbFunction, mockDbChain);
+
+  return { db: mockDbFunction };
+});
+
+import { db as mockDb } from '../../src/config/knex';
+
+const mockDbChain = mockDb as any;
+
+describe('AICacheService', () => {
+  let cacheService: AICacheService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cacheService = new AICacheService();
+  });
+
+  describe('buildKey', () => {
+    it('should give the same call the same key, whatever the key order of its input', () => {
+      const key = cacheService.buildKey('DocumentAnalyzer', 'gpt-4-turbo-preview', 'v1', { documentId: 'doc-1', text: 'SAFE' });
+
+      expect(key).toMatch(/^[0-9a-f]{64}$/);
+      expect(cacheService.buildKey('DocumentAnalyzer', 'gpt-4-turbo-preview', 'v1', { text: 'SAFE', documentId: 'doc-1' })).toBe(key);
+    });
+
+    it('should keep IDs in the key, as output may depend on them', async () => {
+      // NLSearchAgent filters on the caller's ID in its output
+      const input = (userId: string) => ({ query: 'my SAFE agreements', userId });
+      const forJane = cacheService.buildKey('NLSearchAgent', 'gpt-4-turbo-preview', 'v1', input('user-1'));
+      const forSam = cacheService.buildKey('NLSearchAgent', 'gpt-4-turbo-preview', 'v1', input('user-2'));
+
+      expect(forSam).not.toBe(forJane);
+
+      await cacheService.set(forJane, {
+        agent: 'NLSearchAgent',
+        model: 'gpt-4-turbo-preview',
+        promptVersion: 'v1',
+        output: { sql: 'SELECT * FROM documents WHERE user_id = $1', sqlParams: ['user-1'] },
+      });
+      mockDbChain.first.mockResolvedValueOnce(undefined);
+
+      await expect(cacheService.get(forSam)).resolves.toBeUndefined();
+      expect(mockDbChain.where).toHaveBeenCalledWith({ cache_key: forSam });
+    });
+
+    it('should give two documents with the same text one cache entry when the agent ignores their ID', () => {
+      const first = cacheService.buildKey('DocumentAnalyzer', 'gpt-4-turbo-preview', 'v1', { documentId: 'doc-1', text: 'SAFE' }, ['documentId']);
+      const second = cacheService.buildKey('DocumentAnalyzer', 'gpt-4-turbo-preview', 'v1', { documentId: 'doc-2', text: 'SAFE' }, ['documentId']);
+
+      expect(second).toBe(first);
+      expect(cacheService.buildKey('DocumentAnalyzer', 'gpt-4-turbo-preview', 'v1', { documentId: 'doc-2', text: 'NDA' }, ['documentId']))
+        .not.toBe(first);
+    });
+
+    it('should give a different key to a different agent, model, prompt version or input', () => {
+      const key = cacheService.buildKey('DocumentAnalyzer', 'gpt-4-turbo-preview', 'v1', { text: 'SAFE' });
+
+      expect(cacheService.buildKey('TemplateAnalyzer', 'gpt-4-turbo-preview', 'v1', { text: 'SAFE' })).not.toBe(key);
+      expect(cacheService.buildKey('DocumentAnalyzer', 'llama3.1', 'v1', { text: 'SAFE' })).not.toBe(key);
+      expect(cacheService.buildKey('DocumentAnalyzer', 'gpt-4-turbo-preview', 'v2', { text: 'SAFE' })).not.toBe(key);
+      expect(cacheService.buildKey('DocumentAnalyzer', 'gpt-4-turbo-preview', 'v1', { text: 'NDA' })).not.toBe(key);
+    });
+  });
+
+  describe('get', () => {
+    it('should return output that has not expired', async () => {
+      mockDbChain.first.mockResolvedValueOnce({ output_data: { documentType: 'SAFE Agreement' } });
+
+      await expect(cacheService.get('key-1')).resolves.toEqual({ documentType: 'SAFE Agreement' });
+
+      expect(mockDbChain.where).toHaveBeenCalledWith({ cache_key: 'key-1' });
+      expect(mockDbChain.where).toHaveBeenCalledWith('expires_at', '>', expect.any(Date));
+    });
+
+    it('should treat a failed lookup as a miss', async () => {
+      mockDbChain.first.mockRejectedValueOnce(new Error('connection refused'));
+
+      await expect(cacheService.get('key-1')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('set', () => {
+    it('should store output until the TTL is up, replacing an earlier entry', async () => {
+      await cacheService.set('key-1', {
+        agent: 'DocumentAnalyzer',
+        model: 'gpt-4-turbo-preview',
+        promptVersion: 'v1',
+        output: { documentType: 'SAFE Agreement' },
+      });
+
+      const row = mockDbChain.insert.mock.calls[0][0];
+      expect(row).toEqual(expect.objectContaining({
+        cache_key: 'key-1',
+        agent_name: 'DocumentAnalyzer',
+        prompt_version: 'v1',
+        output_data: '{"documentType":"SAFE Agreement"}',
+      }));
+      expect(row.expires_at.getTime() - row.created_at.getTime()).toBe(config.aiCacheTtlHours * 60 * 60 * 1000);
+      expect(mockDbChain.onConflict).toHaveBeenCalledWith('cache_key');
+      expect(mockDbChain.where).toHaveBeenCalledWith('expires_at', '<=', row.created_at);
+      expect(mockDbChain.del).toHaveBeenCalled();
+    });
+
+    it('should not fail when the cache cannot be written', async () => {
+      mockDbChain.merge.mockRejectedValueOnce(new Error('connection refused'));
+
+      await expect(cacheService.set('key-1', { agent: 'DocumentAnalyzer', model: 'm', promptVersion: 'v1', output: {} }))
+        .resolves.toBeUndefined();
+    });
+  });
+
+  it('should let agents be left out of the cache', () => {
+    const disabled = config.aiCacheDisabledAgents;
+    config.aiCacheDisabledAgents = ['InsightsEngine'];
+
+    expect(cacheService.isEnabledFor('InsightsEngine')).toBe(false);
+    expect(cacheService.isEnabledFor('DocumentAnalyzer')).toBe(true);
+
+    config.aiCacheDisabledAgents = disabled;
+  });
+});
@@ -0,0 +1,138 @@
+import { AnalyticsService } from '../../src/services/AnalyticsService';
+
+// Mock dependencies
+jest.mock('../../src/services/AIAgentService');
+
+// Mock database with a factory function
+jest.mock('../../src/config/knex', () => {
+  const mockDbChain = {
+    join: jest.fn().mockReturnThis(),
+    leftJoin: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    first: jest.fn(),
+    orderBy: jest.fn(),
+  };
+
+  const mockDbFunction: any = jest.fn(() => mockDbChain);
+  Object.assign(mockDbFunction, mockDbChain);
+  mockDbFunction.raw = jest.fn((sql: string) => sql);
+
+  return { db: mockDbFunction };
+});
+
+import { db as mockDb } from '../../src/config/knex';
+
+const mockDbChain = mockDb as any;
+
+describe('AnalyticsService', () => {
+  let analyticsService: AnalyticsService;
+
+  const testUserId = 'test-user-id';
+
+  const usage = (tasks: number, prompt: number, completion: number, cost: string, cacheHits: number = 0) => ({
+    tasks: String(tasks),
+    prompt_tokens: String(prompt),
+    completion_tokens: String(completion),
+    total_tokens: String(prompt + completion),
+    cost,
+    cache_hits: String(cacheHits),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    analyticsService = new AnalyticsService();
+  });
+
+  describe('getAIUsage', () => {
+    const mockUsageRows = () => {
+      mockDbChain.first.mockResolvedValueOnce(usage(4, 3000, 500, '0.045000', 1));
+      mockDbChain.orderBy
+        .mockResolvedValueOnce([
+          { agent: 'DocumentAnalyzer', ...usage(2, 2000, 300, '0.029000', 1) },
+          { agent: 'ConversationalAssistant', ...usage(2, 1000, 200, '0.016000') },
+        ])
+        .mockResolvedValueOnce([{ model: 'gpt-4-turbo-preview', ...usage(3, 3000, 500, '0.045000') }])
+        .mockResolvedValueOnce([
+          { user_id: testUserId, full_name: 'Jane Lawyer', email: 'jane@example.com', ...usage(3, 3000, 500, '0.045000') },
+        ])
+        .mockResolvedValueOnce([
+          { day: '2026-10-18', ...usage(1, 2000, 300, '0.029000') },
+          { day: '2026-10-19', ...usage(2, 1000, 200, '0.016000') },
+        ]);
+    };
+
+    it('should break the caller\'s usage down by agent, model, user and day', async () => {
+      mockUsageRows();
+      const from = new Date('2026-10-01T00:00:00Z');
+      const to = new Date('2026-10-20T00:00:00Z');
+
+      const report = await analyticsService.getAIUsage(testUserId, { from, to });
+
+      expect(report.from).toBe(from);
+      expect(report.to).toBe(to);
+      expect(report.totals).toEqual({
+        tasks: 4,
+        promptTokens: 3000,
+        completionTokens: 500,
+        totalTokens: 3500,
+        cost: 0.045,
+        cacheHits: 1,
+        cacheHitRate: 0.25,
+      });
+      expect(report.byAgent.map(a => [a.agent, a.tasks, a.cost, a.cacheHitRate])).toEqual([
+        ['DocumentAnalyzer', 2, 0.029, 0.5],
+        ['ConversationalAssistant', 2, 0.016, 0],
+      ]);
+      expect(report.byModel[0]).toEqual(expect.objectContaining({ model: 'gpt-4-turbo-preview', totalTokens: 3500 }));
+      expect(report.byUser[0]).toEqual(expect.objectContaining({ userId: testUserId, name: 'Jane Lawyer', email: 'jane@example.com' }));
+      expect(report.byDay.map(d => d.day)).toEqual(['2026-10-18', '2026-10-19']);
+
+      expect(mockDbChain.where).toHaveBeenCalledWith('ai_tasks.created_at', '>=', from);
+      expect(mockDbChain.where).toHaveBeenCalledWith('ai_tasks.created_at', '<', to);
+      expect(mockDbChain.where).toHaveBeenCalledWith('ai_tasks.user_id', testUserId);
+    });
+
+    it('should include every user\'s tasks when asked', async () => {
+      mockUsageRows();
+
+      await analyticsService.getAIUsage(testUserId, { allUsers: true });
+
+      expect(mockDbChain.where).not.toHaveBeenCalledWith('ai_tasks.user_id', testUserId);
+    });
+
+    it('should default to the last 30 days', async () => {
+      mockUsageRows();
+
+      const report = await analyticsService.getAIUsage(testUserId);
+
+      expect(report.to.getTime() - report.from.getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should count a period without tasks as zero', async () => {
+      mockDbChain.first.mockResolvedValueOnce(undefined);
+      mockDbChain.orderBy.mockResolvedValue([]);
+
+      const report = await analyticsService.getAIUsage(testUserId);
+
+      expect(report.totals).toEqual({
+        tasks: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        cost: 0,
+        cacheHits: 0,
+        cacheHitRate: 0,
+      });
+      expect(report.byAgent).toEqual([]);
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      await expect(analyticsService.getAIUsage(testUserId, {
+        from: new Date('2026-10-20'),
+        to: new Date('2026-10-01'),
+      })).rejects.toThrow('Invalid date range');
+    });
+  });
+});
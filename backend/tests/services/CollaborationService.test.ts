@@ -0,0 +1,181 @@
+import { DocumentStatus, VersionChangeType } from '@smartdocs/common';
+import { config } from '../../src/config/app';
+import { CollaborationMessage, CollaborationService } from '../../src/services/CollaborationService';
+
+describe('CollaborationService', () => {
+  let collaboration: CollaborationService;
+
+  const documentId = 'doc-123';
+  const jane = { id: 'user-1', name: 'Jane Lawyer', email: 'jane@example.com' };
+  const sam = { id: 'user-2', name: 'Sam Partner', email: 'sam@example.com' };
+
+  const connect = (user = jane, document = documentId) => {
+    const received: CollaborationMessage[] = [];
+    const sessionId = collaboration.join(document, user, message => received.push(message));
+    return { sessionId, received };
+  };
+
+  beforeEach(() => {
+    jest.useRealTimers();
+    collaboration = new CollaborationService();
+  });
+
+  describe('presence', () => {
+    it('should welcome a connection and tell the others it joined', () => {
+      const first = connect(jane);
+      const second = connect(sam);
+
+      expect(second.received[0]).toEqual(expect.objectContaining({
+        type: 'welcome',
+        sessionId: second.sessionId,
+        presence: [
+          expect.objectContaining({ sessionId: first.sessionId, user: jane }),
+          expect.objectContaining({ sessionId: second.sessionId, user: sam }),
+        ],
+        locks: [],
+      }));
+      expect(first.received[1]).toEqual({ type: 'presence', presence: collaboration.getPresence(documentId) });
+    });
+
+    it('should keep documents apart', () => {
+      const first = connect(jane, 'doc-1');
+      connect(sam, 'doc-2');
+
+      expect(first.received).toHaveLength(1);
+      expect(collaboration.getPresence('doc-1').map(p => p.user.id)).toEqual(['user-1']);
+    });
+
+    it('should release the locks of a connection that leaves', () => {
+      const first = connect(jane);
+      const second = connect(sam);
+      collaboration.handleRequest(first.sessionId, { type: 'lock', placeholderId: 'ph-1' });
+
+      collaboration.leave(first.sessionId);
+
+      expect(collaboration.getLocks(documentId)).toEqual([]);
+      expect(second.received.slice(-2)).toEqual([
+        { type: 'presence', presence: [expect.objectContaining({ sessionId: second.sessionId })] },
+        { type: 'locks', locks: [] },
+      ]);
+    });
+  });
+
+  describe('locks', () => {
+    it('should lock a field and broadcast the locks', () => {
+      const first = connect(jane);
+      const second = connect(sam);
+
+      collaboration.handleRequest(first.sessionId, { type: 'lock', placeholderId: 'ph-1' });
+
+      const lock = expect.objectContaining({ placeholderId: 'ph-1', sessionId: first.sessionId, user: jane });
+      expect(second.received[second.received.length - 1]).toEqual({ type: 'locks', locks: [lock] });
+      expect(collaboration.findLock(documentId, 'ph-1', sam.id, second.sessionId)).toEqual(lock);
+      expect(collaboration.findLock(documentId, 'ph-1')).toEqual(lock);
+    });
+
+    it('should not report a connection its own lock', () => {
+      const first = connect(jane);
+
+      collaboration.handleRequest(first.sessionId, { type: 'lock', placeholderId: 'ph-1' });
+
+      expect(collaboration.findLock(documentId, 'ph-1', jane.id, first.sessionId)).toBeUndefined();
+    });
+
+    it('should not let another user pass off a connection\'s session ID as their own', () => {
+      const first = connect(jane);
+      connect(sam);
+      collaboration.handleRequest(first.sessionId, { type: 'lock', placeholderId: 'ph-1' });
+
+      // Session IDs are broadcast, so any collaborator can send one
+      expect(collaboration.findLock(documentId, 'ph-1', sam.id, first.sessionId)).toEqual(
+        expect.objectContaining({ sessionId: first.sessionId })
+      );
+      expect(collaboration.findLock(documentId, 'ph-1', jane.id, first.sessionId)).toBeUndefined();
+    });
+
+    it('should deny a field locked by another connection, even of the same user', () => {
+      const first = connect(jane);
+      const second = connect(jane);
+      collaboration.handleRequest(first.sessionId, { type: 'lock', placeholderId: 'ph-1' });
+
+      collaboration.handleRequest(second.sessionId, { type: 'lock', placeholderId: 'ph-1' });
+
+      expect(second.received[second.received.length - 1]).toEqual({
+        type: 'lock_denied',
+        placeholderId: 'ph-1',
+        lock: expect.objectContaining({ sessionId: first.sessionId }),
+      });
+      expect(collaboration.getLocks(documentId)).toHaveLength(1);
+    });
+
+    it('should move a connection\'s lock when it takes another field', () => {
+      const first = connect(jane);
+
+      collaboration.handleRequest(first.sessionId, { type: 'lock', placeholderId: 'ph-1' });
+      collaboration.handleRequest(first.sessionId, { type: 'lock', placeholderId: 'ph-2' });
+
+      expect(collaboration.getLocks(documentId).map(l => l.placeholderId)).toEqual(['ph-2']);
+    });
+
+    it('should only let the holder unlock a field', () => {
+      const first = connect(jane);
+      const second = connect(sam);
+      collaboration.handleRequest(first.sessionId, { type: 'lock', placeholderId: 'ph-1' });
+
+      collaboration.handleRequest(second.sessionId, { type: 'unlock', placeholderId: 'ph-1' });
+      expect(collaboration.getLocks(documentId)).toHaveLength(1);
+
+      collaboration.handleRequest(first.sessionId, { type: 'unlock', placeholderId: 'ph-1' });
+      expect(collaboration.getLocks(documentId)).toEqual([]);
+    });
+
+    it('should drop a lock that was not renewed in time', () => {
+      jest.useFakeTimers();
+      const first = connect(jane);
+      collaboration.handleRequest(first.sessionId, { type: 'lock', placeholderId: 'ph-1' });
+
+      jest.advanceTimersByTime(config.fieldLockTtlMs - 1000);
+      collaboration.handleRequest(first.sessionId, { type: 'lock', placeholderId: 'ph-1' });
+      jest.advanceTimersByTime(config.fieldLockTtlMs - 1000);
+      expect(collaboration.findLock(documentId, 'ph-1')).toBeDefined();
+
+      jest.advanceTimersByTime(1000);
+      expect(collaboration.findLock(documentId, 'ph-1')).toBeUndefined();
+    });
+  });
+
+  describe('publishChange', () => {
+    it('should send the document\'s new state to everyone connected', () => {
+      const first = connect(jane);
+      const second = connect(sam);
+      const placeholders = [{
+        id: 'ph-1',
+        fieldName: 'company_name',
+        fieldType: 'text',
+        originalText: '[Company Name]',
+        position: 1,
+        filledValue: 'Acme Inc',
+        validationStatus: 'validated',
+      }] as any;
+
+      collaboration.publishChange(documentId, {
+        changeType: VersionChangeType.FILL,
+        versionNumber: 4,
+        changedBy: jane.id,
+        snapshot: { status: DocumentStatus.FILLING, completionPercentage: 50, metadata: {}, placeholders },
+      });
+
+      const message = {
+        type: 'document_changed',
+        changeType: VersionChangeType.FILL,
+        versionNumber: 4,
+        changedBy: jane.id,
+        status: DocumentStatus.FILLING,
+        completionPercentage: 50,
+        placeholders,
+      };
+      expect(first.received[first.received.length - 1]).toEqual(message);
+      expect(second.received[second.received.length - 1]).toEqual(message);
+    });
+  });
+});
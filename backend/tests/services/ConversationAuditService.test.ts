@@ -0,0 +1,214 @@
+import { ConversationAuditService } from '../../src/services/ConversationAuditService';
+
+// Mock database with a factory function
+jest.mock('../../src/config/knex', () => {
+  const mockDbChain = {
+    where: jest.fn().mockReturnThis(),
+    whereIn: jest.fn().mockReturnThis(),
+    leftJoin: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    first: jest.fn(),
+    orderBy: jest.fn().mockReturnThis(),
+  };
+
+  const mockDbFunction: any = jest.fn(() => mockDbChain);
+  Object.assign(mockDbFunction, mockDbChain);
+
+  return { db: mockDbFunction };
+});
+
+import { db as mockDb } from '../../src/config/knex';
+
+const mockDbChain = mockDb as any;
+
+describe('ConversationAuditService', () => {
+  let auditService: ConversationAuditService;
+
+  const testUserId = 'test-user-id';
+  const testDocumentId = 'doc-123';
+
+  const documentRow = {
+    id: testDocumentId,
+    user_id: testUserId,
+    filename: 'safe.docx',
+    status: 'completed',
+    document_type: 'SAFE',
+  };
+
+  const conversationRow = {
+    id: 'conv-1',
+    document_id: testDocumentId,
+    user_id: testUserId,
+    user_name: 'Jane Lawyer',
+    user_email: 'jane@example.com',
+    status: 'completed',
+    started_at: '2026-10-01T10:00:00Z',
+    completed_at: '2026-10-01T10:05:00Z',
+  };
+
+  const message = (sequence: number, role: string, content: string, placeholderId: string, metadata: any = {}) => ({
+    id: `msg-${sequence}`,
+    conversation_id: 'conv-1',
+    sequence,
+    role,
+    content,
+    placeholder_id: placeholderId,
+    metadata: JSON.stringify(metadata),
+    created_at: `2026-10-01T10:0${sequence}:00Z`,
+  });
+
+  const placeholderRow = (id: string, fieldName: string, filledValue?: string, linkedTo?: string) => ({
+    id,
+    field_name: fieldName,
+    field_type: 'text',
+    filled_value: filledValue,
+    validation_status: filledValue ? 'validated' : 'pending',
+    filled_by: filledValue ? testUserId : null,
+    filled_by_name: filledValue ? 'Jane Lawyer' : null,
+    filled_by_email: filledValue ? 'jane@example.com' : null,
+    filled_at: filledValue ? '2026-10-01T10:04:00Z' : null,
+    linked_to: linkedTo || null,
+  });
+
+  const mockTranscriptRows = (messages: any[], placeholders: any[]) => {
+    mockDbChain.first.mockResolvedValueOnce(documentRow);
+    mockDbChain.orderBy
+      .mockResolvedValueOnce([conversationRow])
+      .mockResolvedValueOnce(messages)
+      .mockResolvedValueOnce(placeholders);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    auditService = new ConversationAuditService();
+  });
+
+  describe('getTranscript', () => {
+    it('should list each field with the prompt, answer and how its value was accepted', async () => {
+      mockTranscriptRows([
+        message(1, 'assistant', 'What is the company name?', 'ph-1'),
+        message(2, 'user', 'Acme Inc', 'ph-1', {
+          intent: 'fill_field',
+          extractedValue: 'Acme Inc',
+          confidence: 0.95,
+          saved: [{ placeholderId: 'ph-1', fieldName: 'company_name', value: 'Acme Inc' }],
+        }),
+        message(3, 'assistant', 'Who is the investor?', 'ph-2', {
+          suggestions: [{ entityValue: 'Jane Doe', source: 'knowledge_graph', confidence: 0.9, sourceDocumentId: 'dr-1' }],
+        }),
+        message(4, 'user', 'Jane Doe', 'ph-2', {
+          intent: 'suggestion',
+          extractedValue: 'Jane Doe',
+          saved: [{ placeholderId: 'ph-2', fieldName: 'investor_name', value: 'Jane Doe' }],
+        }),
+      ], [
+        placeholderRow('ph-1', 'company_name', 'Acme Inc'),
+        placeholderRow('ph-2', 'investor_name', 'Jane Doe'),
+        placeholderRow('ph-3', 'company_name', 'Acme Inc', 'ph-1'),
+      ]);
+
+      const transcript = await auditService.getTranscript(testDocumentId, testUserId);
+
+      expect(transcript.document).toEqual({ id: testDocumentId, filename: 'safe.docx', status: 'completed', documentType: 'SAFE' });
+      expect(transcript.conversations).toEqual([expect.objectContaining({
+        id: 'conv-1',
+        user: { id: testUserId, name: 'Jane Lawyer', email: 'jane@example.com' },
+      })]);
+      expect(transcript.fields.map(f => f.fieldName)).toEqual(['company_name', 'investor_name']);
+
+      const [company, investor] = transcript.fields;
+      expect(company.occurrences).toBe(2);
+      expect(company.filledBy).toEqual({ id: testUserId, name: 'Jane Lawyer', email: 'jane@example.com' });
+      expect(company.history).toEqual([{
+        conversationId: 'conv-1',
+        prompt: { content: 'What is the company name?', timestamp: new Date('2026-10-01T10:01:00Z') },
+        answer: {
+          content: 'Acme Inc',
+          timestamp: new Date('2026-10-01T10:02:00Z'),
+          user: { id: testUserId, name: 'Jane Lawyer', email: 'jane@example.com' },
+        },
+        savedValue: 'Acme Inc',
+        method: 'typed',
+        aiConfidence: 0.95,
+      }]);
+      expect(investor.history[0]).toEqual(expect.objectContaining({
+        savedValue: 'Jane Doe',
+        method: 'suggestion',
+        suggestion: { source: 'knowledge_graph', confidence: 0.9, sourceDocumentId: 'dr-1' },
+      }));
+    });
+
+    it('should list a value saved from another field\'s prompt under the field it filled', async () => {
+      mockTranscriptRows([
+        message(1, 'assistant', 'What is the company name?', 'ph-1'),
+        message(2, 'user', 'Company is Acme Inc and the investor is Jane Doe', 'ph-1', { intent: 'fill_fields' }),
+        message(3, 'assistant', 'I found values for 2 fields', 'ph-1'),
+        message(4, 'user', 'yes', 'ph-1', {
+          intent: 'confirm',
+          saved: [
+            { placeholderId: 'ph-1', fieldName: 'company_name', value: 'Acme Inc' },
+            { placeholderId: 'ph-2', fieldName: 'investor_name', value: 'Jane Doe' },
+          ],
+        }),
+      ], [
+        placeholderRow('ph-1', 'company_name', 'Acme Inc'),
+        placeholderRow('ph-2', 'investor_name', 'Jane Doe'),
+      ]);
+
+      const transcript = await auditService.getTranscript(testDocumentId, testUserId);
+      const [company, investor] = transcript.fields;
+
+      expect(company.history).toHaveLength(2);
+      expect(company.history[0].savedValue).toBeUndefined();
+      expect(company.history[1]).toEqual(expect.objectContaining({ savedValue: 'Acme Inc', method: 'confirmed' }));
+      expect(investor.history).toEqual([expect.objectContaining({
+        prompt: expect.objectContaining({ content: 'I found values for 2 fields' }),
+        savedValue: 'Jane Doe',
+        method: 'confirmed',
+      })]);
+    });
+
+    it('should throw error if document not found', async () => {
+      mockDbChain.first.mockResolvedValueOnce(null);
+
+      await expect(auditService.getTranscript(testDocumentId, testUserId)).rejects.toThrow('Document not found');
+    });
+  });
+
+  describe('exportTranscript', () => {
+    it('should render the transcript as Markdown', async () => {
+      mockTranscriptRows([
+        message(1, 'assistant', 'What is the company name?', 'ph-1'),
+        message(2, 'user', 'change company_name to Acme Inc', 'ph-1', {
+          intent: 'change',
+          saved: [{ placeholderId: 'ph-1', fieldName: 'company_name', value: 'Acme Inc' }],
+        }),
+      ], [
+        placeholderRow('ph-1', 'company_name', 'Acme Inc'),
+        placeholderRow('ph-2', 'investor_name', 'Jane Doe'),
+      ]);
+
+      const file = await auditService.exportTranscript(testDocumentId, testUserId, 'markdown');
+      const markdown = file.buffer.toString();
+
+      expect(file.filename).toBe('safe_transcript.md');
+      expect(markdown).toContain('# Filling transcript: safe.docx');
+      expect(markdown).toContain('### company_name');
+      expect(markdown).toContain('   - Prompt (2026-10-01T10:01:00.000Z): What is the company name?');
+      expect(markdown).toContain('   - Result: saved "Acme Inc" with a change command');
+      expect(markdown).toContain('_Set outside the filling conversations._');
+    });
+
+    it('should export the transcript as JSON', async () => {
+      mockTranscriptRows([], [placeholderRow('ph-1', 'company_name')]);
+
+      const file = await auditService.exportTranscript(testDocumentId, testUserId, 'json');
+
+      expect(file.filename).toBe('safe_transcript.json');
+      expect(JSON.parse(file.buffer.toString()).fields).toEqual([expect.objectContaining({
+        fieldName: 'company_name',
+        history: [],
+      })]);
+    });
+  });
+});
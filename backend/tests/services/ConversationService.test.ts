@@ -0,0 +1,959 @@
+import { VersionChangeType } from '@smartdocs/common';
+import { ConversationService } from '../../src/services/ConversationService';
+import { AIAgentService } from '../../src/services/AIAgentService';
+import { collaborationService } from '../../src/services/CollaborationService';
+import { DocumentVersionService } from '../../src/services/DocumentVersionService';
+import { KnowledgeGraphService } from '../../src/services/KnowledgeGraphService';
+
+jest.mock('../../src/services/AIAgentService');
+jest.mock('../../src/services/DocumentVersionService');
+jest.mock('../../src/services/KnowledgeGraphService');
+
+// Mock database with a factory function
+jest.mock('../../src/config/knex', () => {
+  const mockDbChain = {
+    where: jest.fn().mockReturnThis(),
+    whereIn: jest.fn().mockReturnThis(),
+    whereNull: jest.fn().mockReturnThis(),
+    whereNotNull: jest.fn().mockReturnThis(),
+    first: jest.fn(),
+    max: jest.fn().mockReturnThis(),
+    count: jest.fn().mockReturnThis(),
+    insert: jest.fn().mockReturnThis(),
+    returning: jest.fn(),
+    update: jest.fn(),
+    orderBy: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    offset: jest.fn(),
+  };
+
+  const mockDbFunction: any = jest.fn(() => mockDbChain);
+  Object.assign(mockDbFunction, mockDbChain);
+  mockDbFunction.transaction = jest.fn((callback: (trx: any) => Promise<any>) => callback(mockDbFunction));
+  mockDbFunction.fn = { now: jest.fn(() => 'now()') };
+
+  return { db: mockDbFunction };
+});
+
+import { db as mockDb } from '../../src/config/knex';
+
+const mockDbChain = mockDb as any;
+
+describe('ConversationService', () => {
+  let conversationService: ConversationService;
+  let mockAIAgentService: jest.Mocked<AIAgentService>;
+  let mockKnowledgeGraphService: jest.Mocked<KnowledgeGraphService>;
+
+  const testUserId = 'test-user-id';
+  const testDocumentId = 'doc-123';
+  const testConversationId = 'conv-123';
+
+  const conversationRow = (overrides: Record<string, any> = {}) => ({
+    id: testConversationId,
+    document_id: testDocumentId,
+    user_id: testUserId,
+    status: 'active',
+    current_placeholder_id: 'ph-1',
+    metadata: { totalPlaceholders: 2, filledCount: 0 },
+    started_at: new Date(),
+    updated_at: new Date(),
+    completed_at: null,
+    ...overrides,
+  });
+
+  const placeholderRow = (id: string, fieldName: string, fieldType = 'text') => ({
+    id,
+    document_id: testDocumentId,
+    field_name: fieldName,
+    field_type: fieldType,
+  });
+
+  // Echo inserted rows back as the database would
+  const returnInserted = () => {
+    mockDbChain.returning.mockImplementationOnce(async () => {
+      const rows = mockDbChain.insert.mock.calls[mockDbChain.insert.mock.calls.length - 1][0];
+      return (Array.isArray(rows) ? rows : [rows]).map((row: any) => ({ ...row, created_at: new Date() }));
+    });
+  };
+
+  const insertedMessages = () =>
+    mockDbChain.insert.mock.calls[mockDbChain.insert.mock.calls.length - 1][0];
+
+  const assistantReply = (outputData: Record<string, any>) => {
+    mockAIAgentService.runAgent = jest.fn().mockResolvedValue({ outputData });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAIAgentService = new AIAgentService() as jest.Mocked<AIAgentService>;
+    (AIAgentService as jest.MockedClass<typeof AIAgentService>).mockImplementation(() => mockAIAgentService);
+
+    mockKnowledgeGraphService = new KnowledgeGraphService() as jest.Mocked<KnowledgeGraphService>;
+    mockKnowledgeGraphService.getEntitySuggestions = jest.fn().mockResolvedValue([]);
+    (KnowledgeGraphService as jest.MockedClass<typeof KnowledgeGraphService>).mockImplementation(() => mockKnowledgeGraphService);
+
+    conversationService = new ConversationService();
+  });
+
+  describe('startConversation', () => {
+    it('should create a conversation and store the opening message', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce({ id: testDocumentId, user_id: testUserId, document_type: 'SAFE' })
+        .mockResolvedValueOnce({ max: null });
+      mockDbChain.orderBy.mockResolvedValueOnce([
+        placeholderRow('ph-1', 'company_name'),
+        placeholderRow('ph-2', 'investor_name'),
+      ]);
+      returnInserted();
+      returnInserted();
+
+      const result = await conversationService.startConversation(testDocumentId, testUserId);
+
+      expect(mockDb).toHaveBeenCalledWith('conversations');
+      expect(result.conversation.documentId).toBe(testDocumentId);
+      expect(result.conversation.currentPlaceholder).toBe('ph-1');
+      expect(result.conversation.metadata).toEqual({ totalPlaceholders: 2, filledCount: 0 });
+      expect(insertedMessages()).toEqual([
+        expect.objectContaining({
+          conversation_id: result.conversation.id,
+          sequence: 1,
+          role: 'assistant',
+          placeholder_id: 'ph-1',
+        }),
+      ]);
+      expect(result.initialMessage.content).toContain('**company_name**');
+      expect(result.initialMessage.placeholderId).toBe('ph-1');
+    });
+
+    it('should throw error if document not found', async () => {
+      mockDbChain.first.mockResolvedValueOnce(undefined);
+
+      await expect(conversationService.startConversation(testDocumentId, testUserId))
+        .rejects.toThrow('Document not found');
+      expect(mockDbChain.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendMessage', () => {
+    const document = { id: testDocumentId, user_id: testUserId, document_type: 'SAFE', completion_percentage: 0 };
+
+    it('should save the value the assistant extracted and move to the next field', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow())
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce(document)
+        // fillPlaceholder: document, placeholder, then completion counts
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce({ count: '2' })
+        .mockResolvedValueOnce({ count: '1' })
+        // Then the latest message number
+        .mockResolvedValueOnce({ max: 1 });
+      mockDbChain.limit.mockResolvedValueOnce([
+        { role: 'assistant', content: 'Let\'s start with: **company_name**' },
+      ]);
+      // Recent messages and open fields for the assistant, then the unfilled placeholders
+      mockDbChain.orderBy
+        .mockReturnValueOnce(mockDbChain)
+        .mockResolvedValueOnce([placeholderRow('ph-1', 'company_name'), placeholderRow('ph-2', 'investor_name')])
+        .mockResolvedValueOnce([placeholderRow('ph-2', 'investor_name')]);
+      assistantReply({ message: 'Got it.', suggestedAction: 'fill_field', extractedValue: 'Acme Inc.', confidence: 0.95 });
+      returnInserted();
+
+      const response = await conversationService.sendMessage(testConversationId, testUserId, 'It\'s Acme Inc.');
+
+      expect(mockAIAgentService.runAgent).toHaveBeenCalledWith('ConversationalAssistant', expect.objectContaining({
+        conversationHistory: [
+          { role: 'assistant', content: 'Let\'s start with: **company_name**' },
+          { role: 'user', content: 'It\'s Acme Inc.' },
+        ],
+        currentPlaceholder: expect.objectContaining({ fieldName: 'company_name', fieldType: 'text' }),
+        openFields: [{ fieldName: 'investor_name', fieldType: 'text' }],
+      }), undefined, { userId: testUserId, documentId: testDocumentId });
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({ filled_value: 'Acme Inc.' }));
+      // Repeated occurrences of the field take the value; only fields are asked for
+      expect(mockDbChain.where).toHaveBeenCalledWith({ linked_to: 'ph-1', value_override: false });
+      expect(mockDbChain.where).toHaveBeenCalledWith({ document_id: testDocumentId, stale: false, linked_to: null });
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({
+        current_placeholder_id: 'ph-2',
+        metadata: JSON.stringify({ totalPlaceholders: 2, filledCount: 1, skipped: [], trail: ['ph-1'] }),
+      }));
+      expect(insertedMessages()).toEqual([
+        expect.objectContaining({ sequence: 2, role: 'user', content: 'It\'s Acme Inc.', placeholder_id: 'ph-1' }),
+        expect.objectContaining({ sequence: 3, role: 'assistant', placeholder_id: 'ph-2' }),
+      ]);
+      expect(response.role).toBe('assistant');
+      expect(response.content).toContain('"**Acme Inc.**"');
+      expect(response.metadata).toEqual(expect.objectContaining({ placeholderId: 'ph-2' }));
+    });
+
+    it('should answer a question without filling the field', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow())
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'valuation_cap', 'currency'))
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce({ max: 2 });
+      mockDbChain.limit.mockResolvedValueOnce([]);
+      mockDbChain.orderBy.mockReturnValueOnce(mockDbChain).mockResolvedValueOnce([]);
+      assistantReply({
+        message: 'A valuation cap is the highest valuation at which the SAFE converts. What cap should we use?',
+        suggestedAction: 'answer',
+        confidence: 0.9,
+      });
+      returnInserted();
+
+      const response = await conversationService.sendMessage(testConversationId, testUserId, 'What\'s a valuation cap?');
+
+      expect(mockDbChain.update).not.toHaveBeenCalledWith(expect.objectContaining({ filled_value: expect.anything() }));
+      expect(mockDbChain.update).not.toHaveBeenCalledWith(expect.objectContaining({ current_placeholder_id: expect.anything() }));
+      expect(insertedMessages()[0].metadata).toEqual(JSON.stringify({
+        fieldName: 'valuation_cap',
+        fieldType: 'currency',
+        intent: 'answer',
+        confidence: 0.9,
+      }));
+      expect(response.content).toContain('A valuation cap is');
+      expect(response.placeholderId).toBe('ph-1');
+    });
+
+    it('should confirm a low-confidence value before saving it', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow())
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce({ max: 2 });
+      mockDbChain.limit.mockResolvedValueOnce([]);
+      mockDbChain.orderBy.mockReturnValueOnce(mockDbChain).mockResolvedValueOnce([]);
+      assistantReply({ message: 'Is it Acme?', suggestedAction: 'fill_field', extractedValue: 'Acme', confidence: 0.5 });
+      returnInserted();
+
+      const response = await conversationService.sendMessage(testConversationId, testUserId, 'acme I think');
+
+      expect(mockDbChain.update).not.toHaveBeenCalledWith(expect.objectContaining({ filled_value: expect.anything() }));
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({
+        metadata: JSON.stringify({
+          totalPlaceholders: 2,
+          filledCount: 0,
+          pendingValue: { placeholderId: 'ph-1', value: 'Acme' },
+        }),
+      }));
+      expect(response.content).toContain('Just to confirm');
+      expect(response.metadata?.awaitingConfirmation).toBe('Acme');
+    });
+
+    it('should number messages after locking the conversation in the same transaction', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow())
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce({ max: 2 });
+      mockDbChain.limit.mockResolvedValueOnce([]);
+      mockDbChain.orderBy.mockReturnValueOnce(mockDbChain).mockResolvedValueOnce([]);
+      assistantReply({ message: 'What is the company called?', suggestedAction: 'clarify', confidence: 0 });
+      returnInserted();
+
+      await conversationService.sendMessage(testConversationId, testUserId, 'Which company?');
+
+      // Writing the conversation row locks it until the messages are stored
+      expect(mockDbChain.transaction).toHaveBeenCalledTimes(1);
+      expect(mockDbChain.update.mock.invocationCallOrder[0]).toBeLessThan(mockDbChain.max.mock.invocationCallOrder[0]);
+      expect(insertedMessages().map((m: any) => m.sequence)).toEqual([3, 4]);
+    });
+
+    it('should save the pending value when the user confirms it', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow({
+          metadata: { totalPlaceholders: 2, filledCount: 0, pendingValue: { placeholderId: 'ph-1', value: 'Acme' } },
+        }))
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce({ count: '2' })
+        .mockResolvedValueOnce({ count: '1' })
+        .mockResolvedValueOnce({ max: 4 });
+      mockDbChain.orderBy.mockResolvedValueOnce([placeholderRow('ph-2', 'investor_name')]);
+      mockAIAgentService.runAgent = jest.fn();
+      returnInserted();
+
+      await conversationService.sendMessage(testConversationId, testUserId, 'Yes');
+
+      expect(mockAIAgentService.runAgent).not.toHaveBeenCalled();
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({ filled_value: 'Acme' }));
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({
+        current_placeholder_id: 'ph-2',
+        metadata: JSON.stringify({ totalPlaceholders: 2, filledCount: 1, skipped: [], trail: ['ph-1'] }),
+      }));
+    });
+
+    it('should not fill a field someone else is editing', async () => {
+      const sessionId = collaborationService.join(testDocumentId, { id: 'user-2', name: 'Sam Partner', email: 'sam@example.com' }, jest.fn());
+      collaborationService.handleRequest(sessionId, { type: 'lock', placeholderId: 'ph-1' });
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow({
+          metadata: { totalPlaceholders: 2, filledCount: 0, pendingValue: { placeholderId: 'ph-1', value: 'Acme' } },
+        }))
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce({ max: 4 });
+      returnInserted();
+
+      try {
+        const response = await conversationService.sendMessage(testConversationId, testUserId, 'Yes', undefined, 'my-session');
+
+        expect(mockDbChain.update).not.toHaveBeenCalledWith(expect.objectContaining({ filled_value: expect.anything() }));
+        expect(response.content).toContain('Sam Partner is editing this field right now.');
+        expect(response.placeholderId).toBe('ph-1');
+      } finally {
+        collaborationService.leave(sessionId);
+      }
+    });
+
+    it('should store a rejected value and ask for the same field again', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow())
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'effective_date', 'date'))
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'effective_date', 'date'))
+        .mockResolvedValueOnce({ max: 4 });
+      mockDbChain.limit.mockResolvedValueOnce([]);
+      mockDbChain.orderBy.mockReturnValueOnce(mockDbChain).mockResolvedValueOnce([]);
+      assistantReply({ message: 'Noted.', suggestedAction: 'fill_field', extractedValue: 'tomorrowish', confidence: 0.9 });
+      returnInserted();
+
+      const response = await conversationService.sendMessage(testConversationId, testUserId, 'tomorrowish');
+
+      expect(mockDbChain.update).not.toHaveBeenCalledWith(expect.objectContaining({ current_placeholder_id: expect.anything() }));
+      expect(insertedMessages()).toEqual([
+        expect.objectContaining({ sequence: 5, role: 'user', placeholder_id: 'ph-1' }),
+        expect.objectContaining({ sequence: 6, role: 'assistant', placeholder_id: 'ph-1' }),
+      ]);
+      expect(response.content).toContain('I couldn\'t use "tomorrowish"');
+      expect(response.metadata?.validationNotes).toMatch(/date/);
+    });
+
+    it('should ask before taking the message as the value if the assistant fails', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow())
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce({ max: 2 });
+      mockDbChain.limit.mockResolvedValueOnce([]);
+      mockDbChain.orderBy.mockReturnValueOnce(mockDbChain).mockResolvedValueOnce([]);
+      mockAIAgentService.runAgent = jest.fn().mockRejectedValue(new Error('OpenAI unavailable'));
+      returnInserted();
+
+      const response = await conversationService.sendMessage(testConversationId, testUserId, 'What does this field mean?');
+
+      expect(mockDbChain.update).not.toHaveBeenCalledWith(expect.objectContaining({ filled_value: expect.anything() }));
+      expect(response.placeholderId).toBe('ph-1');
+      expect(response.content).toContain('Just to confirm');
+      expect(response.metadata?.awaitingConfirmation).toBe('What does this field mean?');
+    });
+
+    it('should report streamed text and progress events', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow())
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce({ count: '2' })
+        .mockResolvedValueOnce({ count: '1' })
+        .mockResolvedValueOnce({ max: 1 });
+      mockDbChain.limit.mockResolvedValueOnce([]);
+      mockDbChain.orderBy
+        .mockReturnValueOnce(mockDbChain)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([placeholderRow('ph-2', 'investor_name')]);
+      mockAIAgentService.runAgent = jest.fn().mockImplementation(async (_name, _input, onDelta) => {
+        onDelta('Got ');
+        onDelta('it.');
+        return { outputData: { message: 'Got it.', suggestedAction: 'fill_field', extractedValue: 'Acme Inc.', confidence: 0.95 } };
+      });
+      returnInserted();
+      const events: any[] = [];
+
+      await conversationService.sendMessage(testConversationId, testUserId, 'Acme Inc.', event => events.push(event));
+
+      expect(events).toEqual([
+        { type: 'delta', text: 'Got ' },
+        { type: 'delta', text: 'it.' },
+        { type: 'value_captured', placeholderId: 'ph-1', fieldName: 'company_name', value: 'Acme Inc.' },
+        { type: 'field_advanced', placeholderId: 'ph-2', fieldName: 'investor_name', fieldType: 'text' },
+      ]);
+    });
+
+    it('should report a rejected value', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow())
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'effective_date', 'date'))
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'effective_date', 'date'))
+        .mockResolvedValueOnce({ max: 4 });
+      mockDbChain.limit.mockResolvedValueOnce([]);
+      mockDbChain.orderBy.mockReturnValueOnce(mockDbChain).mockResolvedValueOnce([]);
+      assistantReply({ message: 'Noted.', suggestedAction: 'fill_field', extractedValue: 'tomorrowish', confidence: 0.9 });
+      returnInserted();
+      const events: any[] = [];
+
+      await conversationService.sendMessage(testConversationId, testUserId, 'tomorrowish', event => events.push(event));
+
+      expect(events).toEqual([
+        expect.objectContaining({ type: 'validation_failed', placeholderId: 'ph-1', value: 'tomorrowish' }),
+      ]);
+    });
+
+    it('should propose the values found in one message for confirmation', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow({ metadata: { totalPlaceholders: 3, filledCount: 0 } }))
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce({ max: 1 });
+      mockDbChain.limit.mockResolvedValueOnce([]);
+      mockDbChain.orderBy
+        .mockReturnValueOnce(mockDbChain)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          placeholderRow('ph-1', 'company_name'),
+          placeholderRow('ph-2', 'purchase_amount', 'currency'),
+          placeholderRow('ph-3', 'effective_date', 'date'),
+        ]);
+      assistantReply({
+        message: 'Here is what I found.',
+        suggestedAction: 'fill_fields',
+        extractedValues: [
+          { fieldName: 'Company Name', value: 'Acme Inc.' },
+          { fieldName: 'purchase_amount', value: '$250k' },
+          { fieldName: 'effective_date', value: 'sometime soon' },
+          { fieldName: 'governing_law', value: 'Delaware' },
+        ],
+        confidence: 0.9,
+      });
+      returnInserted();
+
+      const response = await conversationService.sendMessage(
+        testConversationId,
+        testUserId,
+        'Company: Acme Inc., $250k, dated sometime soon, Delaware law'
+      );
+
+      expect(mockDbChain.update).not.toHaveBeenCalledWith(expect.objectContaining({ filled_value: expect.anything() }));
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({
+        metadata: JSON.stringify({
+          totalPlaceholders: 3,
+          filledCount: 0,
+          pendingValues: [
+            { placeholderId: 'ph-1', fieldName: 'company_name', value: 'Acme Inc.' },
+            { placeholderId: 'ph-2', fieldName: 'purchase_amount', value: '$250,000' },
+          ],
+        }),
+      }));
+      expect(response.content).toContain('| purchase_amount | $250,000 |');
+      expect(response.content).toContain('I couldn\'t use "sometime soon" for **effective_date**');
+      expect(response.placeholderId).toBe('ph-1');
+    });
+
+    it('should save confirmed values together and move on', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow({
+          metadata: {
+            totalPlaceholders: 3,
+            filledCount: 0,
+            skipped: ['ph-2'],
+            pendingValues: [
+              { placeholderId: 'ph-1', fieldName: 'company_name', value: 'Acme Inc.' },
+              { placeholderId: 'ph-2', fieldName: 'investor_name', value: 'Jane Doe' },
+            ],
+          },
+        }))
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce({ max: 4 });
+      mockDbChain.orderBy
+        .mockResolvedValueOnce([
+          placeholderRow('ph-1', 'company_name'),
+          placeholderRow('ph-2', 'investor_name'),
+          placeholderRow('ph-3', 'valuation_cap', 'currency'),
+        ])
+        .mockResolvedValueOnce([placeholderRow('ph-3', 'valuation_cap', 'currency')]);
+      mockAIAgentService.runAgent = jest.fn();
+      returnInserted();
+      const events: any[] = [];
+
+      const response = await conversationService.sendMessage(testConversationId, testUserId, 'yes', event => events.push(event));
+
+      expect(mockAIAgentService.runAgent).not.toHaveBeenCalled();
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({ filled_value: 'Acme Inc.' }));
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({ filled_value: 'Jane Doe' }));
+      expect(mockDbChain.update).toHaveBeenCalledWith({ completion_percentage: 67 });
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({
+        current_placeholder_id: 'ph-3',
+        metadata: JSON.stringify({ totalPlaceholders: 3, filledCount: 2, skipped: [], trail: ['ph-1'] }),
+      }));
+      expect(events.filter(e => e.type === 'value_captured')).toHaveLength(2);
+      expect(response.content).toContain('- **company_name**: Acme Inc.\n- **investor_name**: Jane Doe');
+      expect(response.placeholderId).toBe('ph-3');
+    });
+
+    it('should throw error if conversation is not active', async () => {
+      mockDbChain.first.mockResolvedValueOnce(conversationRow({ status: 'completed' }));
+
+      await expect(conversationService.sendMessage(testConversationId, testUserId, 'Acme Inc.'))
+        .rejects.toThrow('Conversation is not active');
+      expect(mockDbChain.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('suggestions', () => {
+    const suggestion = {
+      entityValue: 'Jane Doe',
+      entityType: 'investor_name',
+      confidence: 0.9,
+      source: 'Acme Inc. SAFE',
+      sourceDocumentId: 'dr-1',
+      usageCount: 3,
+      lastUsed: new Date(),
+    };
+
+    it('should offer data room values with the next field', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow())
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce({ max: 2 });
+      mockDbChain.orderBy.mockResolvedValueOnce([placeholderRow('ph-2', 'investor_name')]);
+      mockKnowledgeGraphService.getEntitySuggestions = jest.fn().mockResolvedValue([suggestion]);
+      returnInserted();
+
+      const response = await conversationService.sendMessage(testConversationId, testUserId, 'skip');
+
+      expect(mockKnowledgeGraphService.getEntitySuggestions)
+        .toHaveBeenCalledWith('ph-2', 'investor_name', 'text', testUserId);
+      expect(response.metadata?.suggestions).toEqual([
+        expect.objectContaining({ entityValue: 'Jane Doe', source: 'Acme Inc. SAFE', confidence: 0.9 }),
+      ]);
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({
+        metadata: JSON.stringify({
+          totalPlaceholders: 2,
+          filledCount: 0,
+          skipped: ['ph-1'],
+          trail: ['ph-1'],
+          quickPicks: [{ entityType: 'investor_name', entityValue: 'Jane Doe' }],
+        }),
+      }));
+    });
+
+    it('should fill a picked suggestion and record its use', async () => {
+      const document = { id: testDocumentId, user_id: testUserId };
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow({
+          current_placeholder_id: 'ph-2',
+          metadata: {
+            totalPlaceholders: 2,
+            filledCount: 1,
+            quickPicks: [{ entityType: 'investor_name', entityValue: 'Jane Doe' }],
+          },
+        }))
+        .mockResolvedValueOnce(placeholderRow('ph-2', 'investor_name'))
+        .mockResolvedValueOnce(document)
+        .mockResolvedValueOnce(placeholderRow('ph-2', 'investor_name'))
+        .mockResolvedValueOnce({ count: '2' })
+        .mockResolvedValueOnce({ count: '2' })
+        .mockResolvedValueOnce({ max: 3 });
+      mockDbChain.orderBy.mockResolvedValueOnce([]);
+      mockAIAgentService.runAgent = jest.fn();
+      returnInserted();
+
+      await conversationService.sendMessage(testConversationId, testUserId, 'jane doe');
+
+      expect(mockAIAgentService.runAgent).not.toHaveBeenCalled();
+      expect(mockKnowledgeGraphService.updateEntityUsage).toHaveBeenCalledWith('investor_name', 'Jane Doe');
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({ filled_value: 'Jane Doe' }));
+      expect(insertedMessages()[0].metadata).toEqual(JSON.stringify({
+        fieldName: 'investor_name',
+        fieldType: 'text',
+        intent: 'suggestion',
+        extractedValue: 'Jane Doe',
+        saved: [{ placeholderId: 'ph-2', fieldName: 'investor_name', value: 'Jane Doe' }],
+      }));
+    });
+  });
+
+  describe('navigation', () => {
+    it('should skip the current field and remember it', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow())
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce({ max: 2 });
+      mockDbChain.orderBy.mockResolvedValueOnce([
+        placeholderRow('ph-1', 'company_name'),
+        placeholderRow('ph-2', 'investor_name'),
+      ]);
+      mockAIAgentService.runAgent = jest.fn();
+      returnInserted();
+
+      const response = await conversationService.sendMessage(testConversationId, testUserId, 'skip this for now');
+
+      expect(mockAIAgentService.runAgent).not.toHaveBeenCalled();
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({
+        current_placeholder_id: 'ph-2',
+        metadata: JSON.stringify({ totalPlaceholders: 2, filledCount: 0, skipped: ['ph-1'], trail: ['ph-1'] }),
+      }));
+      expect(response.content).toContain('we\'ll come back to **company_name** at the end');
+      expect(response.placeholderId).toBe('ph-2');
+    });
+
+    it('should revisit skipped fields once the rest are filled', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow({
+          current_placeholder_id: 'ph-2',
+          metadata: { totalPlaceholders: 2, filledCount: 0, skipped: ['ph-1'], trail: ['ph-1'] },
+        }))
+        .mockResolvedValueOnce(placeholderRow('ph-2', 'investor_name'))
+        .mockResolvedValueOnce({ id: testDocumentId, user_id: testUserId })
+        .mockResolvedValueOnce({ id: testDocumentId, user_id: testUserId })
+        .mockResolvedValueOnce(placeholderRow('ph-2', 'investor_name'))
+        .mockResolvedValueOnce({ count: '2' })
+        .mockResolvedValueOnce({ count: '1' })
+        .mockResolvedValueOnce({ max: 3 });
+      mockDbChain.limit.mockResolvedValueOnce([]);
+      mockDbChain.orderBy
+        .mockReturnValueOnce(mockDbChain)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([placeholderRow('ph-1', 'company_name')]);
+      assistantReply({ message: 'Got it.', suggestedAction: 'fill_field', extractedValue: 'Jane Doe', confidence: 0.95 });
+      returnInserted();
+
+      const response = await conversationService.sendMessage(testConversationId, testUserId, 'Jane Doe');
+
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({
+        current_placeholder_id: 'ph-1',
+        metadata: JSON.stringify({ totalPlaceholders: 2, filledCount: 1, skipped: [], trail: ['ph-1', 'ph-2'] }),
+      }));
+      expect(response.content).toContain('Let\'s come back to **company_name**, which you skipped earlier.');
+    });
+
+    it('should go back to the previous field', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow({
+          current_placeholder_id: 'ph-2',
+          metadata: { totalPlaceholders: 2, filledCount: 1, trail: ['ph-1'] },
+        }))
+        .mockResolvedValueOnce(placeholderRow('ph-2', 'investor_name'))
+        .mockResolvedValueOnce({ ...placeholderRow('ph-1', 'company_name'), filled_value: 'Acme Inc.' })
+        .mockResolvedValueOnce({ max: 3 });
+      returnInserted();
+
+      const response = await conversationService.sendMessage(testConversationId, testUserId, 'go back');
+
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({
+        current_placeholder_id: 'ph-1',
+        metadata: JSON.stringify({ totalPlaceholders: 2, filledCount: 1, trail: [], skipped: [] }),
+      }));
+      expect(response.content).toContain('It\'s currently "**Acme Inc.**"');
+    });
+
+    it('should jump to a field by name through the actions API', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow())
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce({ max: 2 });
+      mockDbChain.orderBy.mockResolvedValueOnce([
+        placeholderRow('ph-1', 'company_name'),
+        placeholderRow('ph-2', 'investor_name'),
+      ]);
+      returnInserted();
+
+      const response = await conversationService.performAction(testConversationId, testUserId, {
+        action: 'goto',
+        field: 'Investor Name',
+      });
+
+      expect(insertedMessages()[0]).toEqual(expect.objectContaining({ role: 'user', content: 'go to Investor Name' }));
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({ current_placeholder_id: 'ph-2' }));
+      expect(response.placeholderId).toBe('ph-2');
+    });
+
+    it('should list the fields when a name does not match', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow())
+        .mockResolvedValueOnce(placeholderRow('ph-1', 'company_name'))
+        .mockResolvedValueOnce({ max: 2 });
+      mockDbChain.orderBy.mockResolvedValueOnce([
+        placeholderRow('ph-1', 'company_name'),
+        placeholderRow('ph-2', 'investor_name'),
+      ]);
+      returnInserted();
+
+      const response = await conversationService.sendMessage(testConversationId, testUserId, 'go to purchase price');
+
+      expect(mockDbChain.update).not.toHaveBeenCalledWith(expect.objectContaining({ current_placeholder_id: expect.anything() }));
+      expect(response.content).toContain('I couldn\'t find a field called "purchase price"');
+      expect(response.content).toContain('**company_name**, **investor_name**');
+    });
+
+    it('should change a previous answer and stay on the current field', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow({ current_placeholder_id: 'ph-2' }))
+        .mockResolvedValueOnce(placeholderRow('ph-2', 'investor_name'))
+        // fillPlaceholder: document, placeholder, then completion counts
+        .mockResolvedValueOnce({ id: testDocumentId, user_id: testUserId })
+        .mockResolvedValueOnce({ ...placeholderRow('ph-1', 'company_name'), filled_value: 'Acme Inc.' })
+        .mockResolvedValueOnce({ count: '2' })
+        .mockResolvedValueOnce({ count: '1' })
+        .mockResolvedValueOnce({ max: 3 });
+      mockDbChain.orderBy.mockResolvedValueOnce([
+        { ...placeholderRow('ph-1', 'company_name'), filled_value: 'Acme Inc.' },
+        placeholderRow('ph-2', 'investor_name'),
+      ]);
+      returnInserted();
+
+      const response = await conversationService.sendMessage(testConversationId, testUserId, 'change company name to Globex LLC');
+
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({ filled_value: 'Globex LLC' }));
+      expect(mockDbChain.update).not.toHaveBeenCalledWith(expect.objectContaining({ current_placeholder_id: expect.anything() }));
+      expect(response.content).toContain('Updated **company_name** to "**Globex LLC**"');
+      expect(response.content).toContain('Let\'s continue with **investor_name**.');
+    });
+
+    it('should reply with a review table of all fields', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow({
+          current_placeholder_id: 'ph-3',
+          metadata: { totalPlaceholders: 3, filledCount: 1, skipped: ['ph-2'] },
+        }))
+        .mockResolvedValueOnce(placeholderRow('ph-3', 'valuation_cap', 'currency'))
+        .mockResolvedValueOnce({ max: 6 });
+      mockDbChain.orderBy.mockResolvedValueOnce([
+        { ...placeholderRow('ph-1', 'company_name'), filled_value: 'Acme Inc.', validation_status: 'validated' },
+        placeholderRow('ph-2', 'investor_name'),
+        placeholderRow('ph-3', 'valuation_cap', 'currency'),
+      ]);
+      returnInserted();
+
+      const response = await conversationService.sendMessage(testConversationId, testUserId, 'what do we have so far?');
+
+      expect(response.content).toContain('| company_name | Acme Inc. | Filled |');
+      expect(response.content).toContain('| investor_name | — | Skipped |');
+      expect(response.content).toContain('| **valuation_cap** (current) | — | Not filled |');
+    });
+  });
+
+  describe('fillPlaceholder', () => {
+    const fillMocks = (placeholder: Record<string, any>) => {
+      mockDbChain.first
+        .mockResolvedValueOnce({ id: testDocumentId, user_id: testUserId })
+        .mockResolvedValueOnce(placeholder)
+        .mockResolvedValueOnce({ count: '3' })
+        .mockResolvedValueOnce({ count: '1' });
+    };
+
+    it('should fill the repeated occurrences that follow a field', async () => {
+      fillMocks(placeholderRow('ph-1', 'company_name'));
+
+      await conversationService.fillPlaceholder(testDocumentId, 'ph-1', 'Acme Inc.', testUserId);
+
+      expect(mockDbChain.update.mock.calls[0][0]).toEqual(expect.objectContaining({ filled_value: 'Acme Inc.' }));
+      expect(mockDbChain.update.mock.calls[0][0]).not.toHaveProperty('value_override');
+      expect(mockDbChain.where).toHaveBeenCalledWith({ linked_to: 'ph-1', value_override: false });
+    });
+
+    it('should mark a value given for one occurrence as overriding its field', async () => {
+      fillMocks({ ...placeholderRow('ph-3', 'company_name'), linked_to: 'ph-1' });
+
+      await conversationService.fillPlaceholder(testDocumentId, 'ph-3', 'Acme Holdings', testUserId);
+
+      expect(mockDbChain.update.mock.calls[0][0]).toEqual(expect.objectContaining({
+        filled_value: 'Acme Holdings',
+        value_override: true,
+      }));
+    });
+
+    it('should save the value and record the version in one transaction', async () => {
+      fillMocks(placeholderRow('ph-1', 'company_name'));
+      const recordVersion = DocumentVersionService.prototype.recordVersion as jest.Mock;
+      recordVersion.mockRejectedValueOnce(new Error('duplicate key value violates unique constraint'));
+
+      await expect(conversationService.fillPlaceholder(testDocumentId, 'ph-1', 'Acme Inc.', testUserId))
+        .rejects.toThrow('duplicate key value');
+
+      expect(mockDbChain.transaction).toHaveBeenCalledTimes(1);
+      expect(recordVersion).toHaveBeenCalledWith(testDocumentId, VersionChangeType.FILL, testUserId, mockDbChain);
+    });
+  });
+
+  describe('getReview', () => {
+    it('should report each field with its value and status', async () => {
+      mockDbChain.first.mockResolvedValueOnce(conversationRow({
+        metadata: { totalPlaceholders: 2, filledCount: 0, skipped: ['ph-2'] },
+      }));
+      mockDbChain.orderBy.mockResolvedValueOnce([
+        { ...placeholderRow('ph-1', 'effective_date', 'date'), validation_status: 'flagged' },
+        placeholderRow('ph-2', 'investor_name'),
+      ]);
+
+      const fields = await conversationService.getReview(testConversationId, testUserId);
+
+      expect(fields).toEqual([
+        { placeholderId: 'ph-1', fieldName: 'effective_date', fieldType: 'date', value: undefined, status: 'flagged', current: true },
+        { placeholderId: 'ph-2', fieldName: 'investor_name', fieldType: 'text', value: undefined, status: 'skipped', current: false },
+      ]);
+    });
+  });
+
+  describe('getConversationHistory', () => {
+    it('should return a page of the transcript in order', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow())
+        .mockResolvedValueOnce({ count: '5' });
+      mockDbChain.offset.mockResolvedValueOnce([
+        { id: 'msg-3', conversation_id: testConversationId, sequence: 3, role: 'assistant', content: 'Next?', placeholder_id: 'ph-2', metadata: '{}', created_at: new Date() },
+        { id: 'msg-4', conversation_id: testConversationId, sequence: 4, role: 'user', content: 'Jane Doe', placeholder_id: 'ph-2', metadata: '{}', created_at: new Date() },
+      ]);
+
+      const history = await conversationService.getConversationHistory(testConversationId, testUserId, { limit: 2, offset: 2 });
+
+      expect(mockDbChain.orderBy).toHaveBeenCalledWith('sequence', 'asc');
+      expect(mockDbChain.limit).toHaveBeenCalledWith(2);
+      expect(mockDbChain.offset).toHaveBeenCalledWith(2);
+      expect(history.conversation.id).toBe(testConversationId);
+      expect(history.messages.map(m => m.id)).toEqual(['msg-3', 'msg-4']);
+      expect(history.messages[1]).toEqual(expect.objectContaining({ role: 'user', placeholderId: 'ph-2' }));
+      expect(history.pagination).toEqual({ total: 5, limit: 2, offset: 2, hasMore: true });
+    });
+
+    it('should throw error if conversation belongs to another user', async () => {
+      mockDbChain.first.mockResolvedValueOnce(undefined);
+
+      await expect(conversationService.getConversationHistory(testConversationId, 'other-user'))
+        .rejects.toThrow('Conversation not found');
+    });
+  });
+
+  describe('getConversations', () => {
+    it('should list the document conversations newest first', async () => {
+      mockDbChain.first.mockResolvedValueOnce({ id: testDocumentId, user_id: testUserId });
+      mockDbChain.orderBy.mockResolvedValueOnce([
+        conversationRow({ id: 'conv-2' }),
+        conversationRow({ id: 'conv-1', status: 'completed', current_placeholder_id: null, completed_at: new Date() }),
+      ]);
+
+      const conversations = await conversationService.getConversations(testDocumentId, testUserId);
+
+      expect(mockDbChain.orderBy).toHaveBeenCalledWith('started_at', 'desc');
+      expect(conversations.map(c => c.id)).toEqual(['conv-2', 'conv-1']);
+      expect(conversations[1].status).toBe('completed');
+      expect(conversations[1].currentPlaceholder).toBeUndefined();
+    });
+
+    it('should pause conversations left idle', async () => {
+      const idleSince = new Date(Date.now() - 2 * 60 * 60 * 1000);
+      mockDbChain.first.mockResolvedValueOnce({ id: testDocumentId, user_id: testUserId });
+      mockDbChain.orderBy.mockResolvedValueOnce([conversationRow({ updated_at: idleSince })]);
+
+      const [conversation] = await conversationService.getConversations(testDocumentId, testUserId);
+
+      expect(mockDbChain.whereIn).toHaveBeenCalledWith('id', [testConversationId]);
+      expect(mockDbChain.update).toHaveBeenCalledWith({ status: 'paused' });
+      expect(conversation.status).toBe('paused');
+      expect(conversation.updatedAt).toEqual(idleSince);
+    });
+  });
+
+  describe('pause, resume and abandon', () => {
+    it('should pause an active conversation', async () => {
+      mockDbChain.first.mockResolvedValueOnce(conversationRow());
+      mockDbChain.update.mockReturnValueOnce(mockDbChain);
+      mockDbChain.returning.mockResolvedValueOnce([conversationRow({ status: 'paused' })]);
+
+      const conversation = await conversationService.pauseConversation(testConversationId, testUserId);
+
+      expect(mockDbChain.update).toHaveBeenCalledWith({ status: 'paused', updated_at: 'now()' });
+      expect(conversation.status).toBe('paused');
+    });
+
+    it('should refuse messages once an idle conversation is paused', async () => {
+      mockDbChain.first.mockResolvedValueOnce(conversationRow({ updated_at: new Date(Date.now() - 2 * 60 * 60 * 1000) }));
+
+      await expect(conversationService.sendMessage(testConversationId, testUserId, 'Acme Inc.'))
+        .rejects.toThrow('Conversation is paused');
+      expect(mockDbChain.update).toHaveBeenCalledWith({ status: 'paused' });
+      expect(mockDbChain.insert).not.toHaveBeenCalled();
+    });
+
+    it('should resume on the field it left off and drop pending confirmations', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow({
+          status: 'paused',
+          current_placeholder_id: 'ph-2',
+          metadata: {
+            totalPlaceholders: 2,
+            filledCount: 1,
+            pendingValue: { placeholderId: 'ph-2', value: 'Jane' },
+          },
+        }))
+        .mockResolvedValueOnce(placeholderRow('ph-2', 'investor_name'))
+        .mockResolvedValueOnce({ max: 6 });
+      mockDbChain.update.mockReturnValueOnce(mockDbChain);
+      mockDbChain.returning.mockResolvedValueOnce([conversationRow({ current_placeholder_id: 'ph-2' })]);
+      returnInserted();
+
+      const result = await conversationService.resumeConversation(testConversationId, testUserId);
+
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'active',
+        current_placeholder_id: 'ph-2',
+        metadata: JSON.stringify({ totalPlaceholders: 2, filledCount: 1 }),
+      }));
+      expect(insertedMessages()).toEqual([
+        expect.objectContaining({ sequence: 7, role: 'assistant', placeholder_id: 'ph-2' }),
+      ]);
+      expect(result.message.content).toContain('Welcome back! 1 of 2 fields are filled so far.');
+      expect(result.message.content).toContain('**investor_name**');
+      expect(result.conversation.status).toBe('active');
+    });
+
+    it('should throw error if the conversation is not paused', async () => {
+      mockDbChain.first.mockResolvedValueOnce(conversationRow());
+
+      await expect(conversationService.resumeConversation(testConversationId, testUserId))
+        .rejects.toThrow('Conversation is not paused');
+      expect(mockDbChain.update).not.toHaveBeenCalled();
+    });
+
+    it('should abandon a conversation without completing the document', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow({ status: 'paused' }))
+        .mockResolvedValueOnce(undefined);
+
+      await conversationService.abandonConversation(testConversationId, testUserId);
+
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'abandoned',
+        current_placeholder_id: null,
+      }));
+      expect(mockDbChain.whereIn).toHaveBeenCalledWith('status', ['active', 'paused']);
+      expect(mockDbChain.where).toHaveBeenCalledWith({ id: testDocumentId, status: 'filling' });
+      expect(mockDbChain.update).toHaveBeenCalledWith({ status: 'ready' });
+      expect(mockDbChain.update).not.toHaveBeenCalledWith(expect.objectContaining({ status: 'completed' }));
+    });
+
+    it('should keep the document filling while another conversation is open', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce(conversationRow())
+        .mockResolvedValueOnce(conversationRow({ id: 'conv-2' }));
+
+      await conversationService.abandonConversation(testConversationId, testUserId);
+
+      expect(mockDbChain.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw error if the conversation is already completed', async () => {
+      mockDbChain.first.mockResolvedValueOnce(conversationRow({ status: 'completed' }));
+
+      await expect(conversationService.abandonConversation(testConversationId, testUserId))
+        .rejects.toThrow('Conversation is closed');
+    });
+  });
+});
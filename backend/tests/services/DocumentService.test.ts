@@ -1,18 +1,23 @@
 import { DocumentService } from '../../src/services/DocumentService';
 import { AIAgentService } from '../../src/services/AIAgentService';
+import { QuotaExceededError } from '../../src/services/AIBudgetService';
+import { collaborationService } from '../../src/services/CollaborationService';
 import { parseDocx } from '../../src/utils/docxParser';
-import { DocumentStatus, TaskStatus, TaskType, ValidationStatus } from '@smartdocs/common';
+import { DocumentStatus, PlaceholderFieldType, TaskStatus, TaskType, ValidationStatus } from '@smartdocs/common';
 import * as fs from 'fs';
+import JSZip from 'jszip';
 import * as path from 'path';
 
 // Mock dependencies
 jest.mock('../../src/utils/docxParser');
 jest.mock('../../src/services/AIAgentService');
+jest.mock('../../src/services/DocumentVersionService');
 
 // Mock database with a factory function
 jest.mock('../../src/config/knex', () => {
   const mockDbChain = {
     where: jest.fn().mockReturnThis(),
+    whereIn: jest.fn().mockReturnThis(),
     first: jest.fn(),
     insert: jest.fn().mockReturnThis(),
     returning: jest.fn(),
@@ -21,8 +26,9 @@ jest.mock('../../src/config/knex', () => {
     orderBy: jest.fn().mockReturnThis(),
   };
 
-  const mockDbFunction = jest.fn(() => mockDbChain);
+  const mockDbFunction: any = jest.fn(() => mockDbChain);
   Object.assign(mockDbFunction, mockDbChain);
+  mockDbFunction.transaction = jest.fn((callback: (trx: any) => Promise<any>) => callback(mockDbFunction));
 
   return { db: mockDbFunction };
 });
@@ -39,6 +45,10 @@ describe('DocumentService', () => {
   const testUserId = 'test-user-id';
   const testFilesDir = path.join(__dirname, '../fixtures/uploads');
 
+  const mockDocx = () => new JSZip()
+    .file('word/document.xml', '<w:document/>')
+    .generateAsync({ type: 'nodebuffer' });
+
   beforeAll(() => {
     // Ensure test fixtures directory exists
     if (!fs.existsSync(testFilesDir)) {
@@ -139,9 +149,9 @@ describe('DocumentService', () => {
     const documentId = 'doc-123';
     const mockFilePath = path.join(testFilesDir, 'test-analyze.docx');
 
-    beforeEach(() => {
-      // Create mock file
-      fs.writeFileSync(mockFilePath, 'mock content');
+    beforeEach(async () => {
+      // Create mock file; parsing is mocked, but the file must still be a .docx package
+      fs.writeFileSync(mockFilePath, await mockDocx());
     });
 
     afterEach(() => {
@@ -191,12 +201,39 @@ describe('DocumentService', () => {
       expect(mockAIAgentService.runAgent).toHaveBeenCalledWith('DocumentAnalyzer', {
         documentId,
         text: mockText,
-      });
+      }, undefined, { userId: testUserId, documentId });
 
       // Verify update was called
       expect(mockDbChain.update).toHaveBeenCalled();
     });
 
+    it('should put the status back when the analysis is refused', async () => {
+      (parseDocx as jest.Mock).mockResolvedValue('Sample legal document text for analysis');
+      mockDbChain.first.mockResolvedValueOnce({
+        id: documentId,
+        user_id: testUserId,
+        file_path: mockFilePath,
+        status: DocumentStatus.UPLOADED,
+      });
+      const quotaError = new QuotaExceededError({
+        id: 'budget-1',
+        scope: 'user',
+        userId: testUserId,
+        monthlyTokenLimit: 1000,
+        period: '2026-10',
+        tokensUsed: 1000,
+        costUsed: 0.5,
+        usedFraction: 1,
+        updatedAt: new Date(),
+      });
+      mockAIAgentService.runAgent = jest.fn().mockRejectedValue(quotaError);
+
+      await expect(documentService.analyzeDocument(documentId, testUserId)).rejects.toBe(quotaError);
+
+      expect(mockDbChain.update).toHaveBeenNthCalledWith(1, { status: DocumentStatus.ANALYZING });
+      expect(mockDbChain.update).toHaveBeenLastCalledWith({ status: DocumentStatus.UPLOADED });
+    });
+
     it('should throw error if document does not exist', async () => {
       // Mock database response - document not found
       mockDbChain.first.mockResolvedValueOnce(undefined);
@@ -220,9 +257,9 @@ describe('DocumentService', () => {
     const documentId = 'doc-456';
     const mockFilePath = path.join(testFilesDir, 'test-extract.docx');
 
-    beforeEach(() => {
-      // Create mock file
-      fs.writeFileSync(mockFilePath, 'mock content');
+    beforeEach(async () => {
+      // Create mock file; parsing is mocked, but the file must still be a .docx package
+      fs.writeFileSync(mockFilePath, await mockDocx());
     });
 
     afterEach(() => {
@@ -298,11 +335,120 @@ describe('DocumentService', () => {
           confidence: 0,
         }]);
 
-      const placeholders = await documentService.extractPlaceholders(documentId, testUserId);
+      // No placeholders from earlier extractions
+      mockDbChain.orderBy.mockResolvedValueOnce([]);
+
+      const { placeholders, summary } = await documentService.extractPlaceholders(documentId, testUserId);
 
       expect(placeholders).toHaveLength(2);
+      expect(summary).toEqual({ added: ['placeholder1', 'placeholder2'], removed: [], kept: [] });
       expect(placeholders[0].fieldName).toBe('placeholder1');
       expect(placeholders[1].fieldName).toBe('placeholder2');
+      expect(mockDbChain.insert).toHaveBeenCalledWith(expect.objectContaining({
+        original_text: '[PLACEHOLDER1]',
+        detection_source: 'both',
+      }));
+    });
+
+    it('should fall back to pattern detection if the AI agent fails', async () => {
+      const mockText = 'Effective Date: ________';
+      (parseDocx as jest.Mock).mockResolvedValue(mockText);
+
+      mockDbChain.first.mockResolvedValueOnce({
+        id: documentId,
+        user_id: testUserId,
+        filename: 'test-extract.docx',
+        file_path: mockFilePath,
+        status: DocumentStatus.READY,
+      });
+
+      mockAIAgentService.runAgent = jest.fn().mockRejectedValue(new Error('Rate limit exceeded'));
+
+      mockDbChain.returning.mockResolvedValueOnce([{
+        id: 'ph-1',
+        document_id: documentId,
+        field_name: 'effective_date',
+        field_type: 'date',
+        original_text: '________',
+        position: 1,
+        validation_status: ValidationStatus.PENDING,
+        confidence: 0,
+        detection_source: 'pattern',
+      }]);
+
+      mockDbChain.orderBy.mockResolvedValueOnce([]);
+
+      const { placeholders } = await documentService.extractPlaceholders(documentId, testUserId);
+
+      expect(placeholders).toHaveLength(1);
+      expect(placeholders[0].detectionSource).toBe('pattern');
+      expect(mockDbChain.insert).toHaveBeenCalledWith(expect.objectContaining({
+        field_name: 'effective_date',
+        field_type: 'date',
+        detection_source: 'pattern',
+      }));
+    });
+
+    it('should link repeated occurrences of a field to the first one', async () => {
+      const mockText = 'This agreement is between [Company Name] and the Investor.\nSigned for [Company Name]';
+      (parseDocx as jest.Mock).mockResolvedValue(mockText);
+
+      mockDbChain.first.mockResolvedValueOnce({
+        id: documentId,
+        user_id: testUserId,
+        filename: 'test-extract.docx',
+        file_path: mockFilePath,
+        status: DocumentStatus.READY,
+      });
+
+      mockAIAgentService.runAgent = jest.fn().mockRejectedValue(new Error('Rate limit exceeded'));
+
+      const inserted = (id: string, fieldName: string, position: number) => ({
+        id,
+        document_id: documentId,
+        field_name: fieldName,
+        field_type: 'text',
+        original_text: '[Company Name]',
+        position,
+        validation_status: ValidationStatus.PENDING,
+        confidence: 0,
+        linked_to: null,
+        value_override: false,
+      });
+      mockDbChain.returning
+        .mockResolvedValueOnce([inserted('ph-1', 'company_name', 1)])
+        .mockResolvedValueOnce([inserted('ph-2', 'company_name_2', 2)]);
+
+      mockDbChain.orderBy.mockResolvedValueOnce([]);
+
+      const { placeholders } = await documentService.extractPlaceholders(documentId, testUserId);
+
+      expect(placeholders.map(p => p.linkedTo)).toEqual([undefined, 'ph-1']);
+      expect(placeholders[1].valueOverride).toBe(false);
+      expect(mockDbChain.where).toHaveBeenCalledWith({ id: 'ph-2' });
+      expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({
+        linked_to: 'ph-1',
+        value_override: false,
+        filled_value: null,
+      }));
+    });
+
+    it('should rethrow AI agent errors if no patterns are found', async () => {
+      (parseDocx as jest.Mock).mockResolvedValue('Document with no placeholders');
+
+      mockDbChain.first.mockResolvedValueOnce({
+        id: documentId,
+        user_id: testUserId,
+        filename: 'test-extract.docx',
+        file_path: mockFilePath,
+        status: DocumentStatus.READY,
+      });
+
+      mockAIAgentService.runAgent = jest.fn().mockRejectedValue(new Error('Rate limit exceeded'));
+
+      await expect(
+        documentService.extractPlaceholders(documentId, testUserId)
+      ).rejects.toThrow('Rate limit exceeded');
     });
 
     it('should return empty array if no placeholders found', async () => {
@@ -331,11 +477,94 @@ describe('DocumentService', () => {
 
       mockAIAgentService.runAgent = jest.fn().mockResolvedValue(mockExtractionTask);
 
-      const placeholders = await documentService.extractPlaceholders(documentId, testUserId);
+      mockDbChain.orderBy.mockResolvedValueOnce([]);
+
+      const { placeholders } = await documentService.extractPlaceholders(documentId, testUserId);
 
       expect(placeholders).toHaveLength(0);
     });
 
+    it('should reconcile with placeholders from an earlier extraction', async () => {
+      const mockText = 'Between [COMPANY] and [INVESTOR]';
+      (parseDocx as jest.Mock).mockResolvedValue(mockText);
+
+      mockDbChain.first.mockResolvedValueOnce({
+        id: documentId,
+        user_id: testUserId,
+        filename: 'test-extract.docx',
+        file_path: mockFilePath,
+        status: DocumentStatus.FILLING,
+      });
+
+      mockAIAgentService.runAgent = jest.fn().mockResolvedValue({
+        outputData: {
+          placeholders: [
+            { fieldName: 'company', fieldType: 'text', originalText: '[COMPANY]', position: 1 },
+            { fieldName: 'investor', fieldType: 'text', originalText: '[INVESTOR]', position: 2 },
+          ],
+        },
+      });
+
+      // First extraction found the company (since filled) and a field no longer in the document
+      mockDbChain.orderBy.mockResolvedValueOnce([
+        {
+          id: 'ph-1',
+          document_id: documentId,
+          field_name: 'company_name',
+          field_type: 'text',
+          original_text: '[COMPANY]',
+          position: 1,
+          filled_value: 'Acme Inc.',
+          validation_status: ValidationStatus.VALIDATED,
+          validation_notes: 'Confirmed by user',
+          confidence: 0,
+          anchors: '[]',
+          stale: false,
+        },
+        {
+          id: 'ph-old',
+          document_id: documentId,
+          field_name: 'purchase_amount',
+          field_type: 'currency',
+          original_text: '[PURCHASE AMOUNT]',
+          position: 2,
+          validation_status: ValidationStatus.PENDING,
+          confidence: 0,
+          anchors: '[]',
+          stale: false,
+        },
+      ]);
+
+      mockDbChain.returning.mockResolvedValueOnce([{
+        id: 'ph-2',
+        document_id: documentId,
+        field_name: 'investor',
+        field_type: 'text',
+        original_text: '[INVESTOR]',
+        position: 2,
+        validation_status: ValidationStatus.PENDING,
+        confidence: 0,
+      }]);
+
+      const { placeholders, summary } = await documentService.extractPlaceholders(documentId, testUserId);
+
+      expect(summary).toEqual({ added: ['investor'], removed: ['purchase_amount'], kept: ['company_name'] });
+      expect(placeholders).toHaveLength(2);
+      expect(placeholders[0]).toMatchObject({
+        id: 'ph-1',
+        fieldName: 'company_name',
+        filledValue: 'Acme Inc.',
+        validationStatus: ValidationStatus.VALIDATED,
+        validationNotes: 'Confirmed by user',
+        stale: false,
+      });
+      expect(mockDbChain.insert).toHaveBeenCalledTimes(1);
+      expect(mockDbChain.whereIn).toHaveBeenCalledWith('id', ['ph-old']);
+      expect(mockDbChain.update).toHaveBeenCalledWith({ stale: true });
+      expect(mockDbChain.update).toHaveBeenCalledWith({ completion_percentage: 50 });
+      expect(mockDbChain.transaction).toHaveBeenCalledTimes(1);
+    });
+
     it('should throw error if document does not exist', async () => {
       // Mock database response - document not found
       mockDbChain.first.mockResolvedValueOnce(undefined);
@@ -346,6 +575,249 @@ describe('DocumentService', () => {
     });
   });
 
+  describe('updatePlaceholders', () => {
+    const documentId = 'doc-789';
+
+    const dbPlaceholders = () => [
+      {
+        id: 'ph-1',
+        document_id: documentId,
+        field_name: 'company_name',
+        field_type: 'text',
+        original_text: '[COMPANY]',
+        position: 1,
+        filled_value: 'Acme',
+        filled_by: testUserId,
+        validation_status: ValidationStatus.VALIDATED,
+        confidence: 0,
+      },
+      {
+        id: 'ph-2',
+        document_id: documentId,
+        field_name: 'investor_name',
+        field_type: 'text',
+        original_text: '[INVESTOR]',
+        position: 2,
+        ai_suggested_value: 'Jane Doe',
+        validation_status: ValidationStatus.PENDING,
+        confidence: 0.9,
+      },
+      {
+        id: 'ph-3',
+        document_id: documentId,
+        field_name: 'date',
+        field_type: 'text',
+        original_text: '________',
+        position: 3,
+        validation_status: ValidationStatus.PENDING,
+        confidence: 0,
+      },
+    ];
+
+    beforeEach(() => {
+      mockDbChain.first.mockResolvedValueOnce({ id: documentId, user_id: testUserId });
+    });
+
+    it('should apply a batch of edits and recalculate completion once', async () => {
+      mockDbChain.orderBy.mockResolvedValueOnce(dbPlaceholders());
+
+      const placeholders = await documentService.updatePlaceholders(documentId, testUserId, [
+        { id: 'ph-3', value: '2026-01-15', fieldType: PlaceholderFieldType.DATE, fieldName: 'effective_date' },
+        { id: 'ph-2', acceptSuggestion: true },
+        { id: 'ph-1', value: null },
+      ]);
+
+      expect(placeholders.map(p => p.id)).toEqual(['ph-3', 'ph-2', 'ph-1']);
+      expect(placeholders[0]).toMatchObject({
+        fieldName: 'effective_date',
+        fieldType: PlaceholderFieldType.DATE,
+        filledValue: 'January 15, 2026',
+        filledBy: testUserId,
+        validationStatus: ValidationStatus.VALIDATED,
+      });
+      expect(placeholders[1].filledValue).toBe('Jane Doe');
+      expect(placeholders[2]).toMatchObject({ filledValue: null, validationStatus: ValidationStatus.PENDING });
+
+      const completionUpdates = mockDbChain.update.mock.calls
+        .filter(([changes]: [any]) => 'completion_percentage' in changes);
+      expect(completionUpdates).toEqual([[{ completion_percentage: 67 }]]);
+    });
+
+    it('should save invalid values flagged with the reason', async () => {
+      mockDbChain.orderBy.mockResolvedValueOnce(dbPlaceholders());
+
+      const [placeholder] = await documentService.updatePlaceholders(documentId, testUserId, [
+        { id: 'ph-3', value: 'tomorrowish', fieldType: PlaceholderFieldType.DATE },
+      ]);
+
+      expect(placeholder.filledValue).toBe('tomorrowish');
+      expect(placeholder.validationStatus).toBe(ValidationStatus.FLAGGED);
+      expect(placeholder.validationNotes).toMatch(/date/);
+    });
+
+    it('should re-check the existing value when the field type changes', async () => {
+      mockDbChain.orderBy.mockResolvedValueOnce(dbPlaceholders());
+
+      const [placeholder] = await documentService.updatePlaceholders(documentId, testUserId, [
+        { id: 'ph-1', fieldType: PlaceholderFieldType.EMAIL },
+      ]);
+
+      expect(placeholder.filledValue).toBe('Acme');
+      expect(placeholder.validationStatus).toBe(ValidationStatus.FLAGGED);
+      expect(placeholder.filledBy).toBe(testUserId);
+    });
+
+    it('should reject a field name used by another placeholder', async () => {
+      mockDbChain.orderBy.mockResolvedValueOnce(dbPlaceholders());
+
+      await expect(
+        documentService.updatePlaceholders(documentId, testUserId, [{ id: 'ph-3', fieldName: 'company_name' }])
+      ).rejects.toThrow('Field name already in use');
+    });
+
+    it('should reject accepting a suggestion when there is none', async () => {
+      mockDbChain.orderBy.mockResolvedValueOnce(dbPlaceholders());
+
+      await expect(
+        documentService.updatePlaceholders(documentId, testUserId, [{ id: 'ph-3', acceptSuggestion: true }])
+      ).rejects.toThrow('No suggested value to accept');
+    });
+
+    it('should throw error if a placeholder is not part of the document', async () => {
+      mockDbChain.orderBy.mockResolvedValueOnce(dbPlaceholders());
+
+      await expect(
+        documentService.updatePlaceholders(documentId, testUserId, [{ id: 'ph-other', value: 'x' }])
+      ).rejects.toThrow('Placeholder not found');
+      expect(mockDbChain.update).not.toHaveBeenCalled();
+    });
+
+    describe('repeated occurrences', () => {
+      const withOccurrence = (overrides: Record<string, any> = {}) => [
+        ...dbPlaceholders(),
+        {
+          id: 'ph-4',
+          document_id: documentId,
+          field_name: 'company_name_2',
+          field_type: 'text',
+          original_text: '[COMPANY]',
+          position: 4,
+          filled_value: 'Acme',
+          filled_by: testUserId,
+          validation_status: ValidationStatus.VALIDATED,
+          confidence: 0,
+          linked_to: 'ph-1',
+          value_override: false,
+          ...overrides,
+        },
+      ];
+
+      it('should carry a field value over to its occurrences', async () => {
+        mockDbChain.orderBy.mockResolvedValueOnce(withOccurrence());
+
+        await documentService.updatePlaceholders(documentId, testUserId, [{ id: 'ph-1', value: 'Acme Inc.' }]);
+
+        expect(mockDbChain.where).toHaveBeenCalledWith({ id: 'ph-4' });
+        expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({
+          filled_value: 'Acme Inc.',
+          validation_status: ValidationStatus.VALIDATED,
+        }));
+        expect(mockDbChain.update).toHaveBeenCalledTimes(3);  // Field, occurrence, completion
+      });
+
+      it('should keep an overridden occurrence when the field changes', async () => {
+        mockDbChain.orderBy.mockResolvedValueOnce(withOccurrence({ filled_value: 'Acme Holdings', value_override: true }));
+
+        await documentService.updatePlaceholders(documentId, testUserId, [{ id: 'ph-1', value: 'Acme Inc.' }]);
+
+        const occurrenceUpdates = mockDbChain.update.mock.calls
+          .filter(([changes]: [any]) => changes.filled_value === 'Acme Holdings');
+        expect(occurrenceUpdates).toEqual([]);
+        expect(mockDbChain.where).not.toHaveBeenCalledWith({ id: 'ph-4' });
+      });
+
+      it('should override an occurrence given its own value', async () => {
+        mockDbChain.orderBy.mockResolvedValueOnce(withOccurrence());
+
+        const [placeholder] = await documentService.updatePlaceholders(documentId, testUserId, [
+          { id: 'ph-4', value: 'Acme Holdings' },
+        ]);
+
+        expect(placeholder).toMatchObject({ filledValue: 'Acme Holdings', linkedTo: 'ph-1', valueOverride: true });
+      });
+
+      it('should make an overridden occurrence follow the field again', async () => {
+        mockDbChain.orderBy.mockResolvedValueOnce(withOccurrence({ filled_value: 'Acme Holdings', value_override: true }));
+
+        const [placeholder] = await documentService.updatePlaceholders(documentId, testUserId, [
+          { id: 'ph-4', override: false },
+        ]);
+
+        expect(placeholder).toMatchObject({ filledValue: 'Acme', valueOverride: false });
+      });
+
+      it('should reject overriding a placeholder that is not an occurrence', async () => {
+        mockDbChain.orderBy.mockResolvedValueOnce(withOccurrence());
+
+        await expect(
+          documentService.updatePlaceholders(documentId, testUserId, [{ id: 'ph-1', override: true }])
+        ).rejects.toThrow('Placeholder is not a repeated occurrence');
+      });
+    });
+
+    it('should reject updating the same placeholder twice in one batch', async () => {
+      await expect(
+        documentService.updatePlaceholders(documentId, testUserId, [
+          { id: 'ph-1', value: 'a' },
+          { id: 'ph-1', value: 'b' },
+        ])
+      ).rejects.toThrow('Duplicate placeholder in updates');
+    });
+
+    describe('field locks', () => {
+      let sessionId: string;
+
+      beforeEach(() => {
+        sessionId = collaborationService.join(documentId, { id: 'user-2', name: 'Sam Partner', email: 'sam@example.com' }, jest.fn());
+        collaborationService.handleRequest(sessionId, { type: 'lock', placeholderId: 'ph-1' });
+      });
+
+      afterEach(() => {
+        collaborationService.leave(sessionId);
+      });
+
+      it('should refuse to edit a field locked by another connection', async () => {
+        await expect(
+          documentService.updatePlaceholders(documentId, testUserId, [{ id: 'ph-1', value: 'Other Co' }], 'other-session')
+        ).rejects.toThrow('Placeholder is locked');
+        expect(mockDbChain.update).not.toHaveBeenCalled();
+      });
+
+      it('should refuse a caller who presents another user\'s session ID', async () => {
+        await expect(
+          documentService.updatePlaceholders(documentId, testUserId, [{ id: 'ph-1', value: 'Other Co' }], sessionId)
+        ).rejects.toThrow('Placeholder is locked');
+        expect(mockDbChain.update).not.toHaveBeenCalled();
+      });
+
+      it('should let the connection holding the lock edit the field', async () => {
+        collaborationService.leave(sessionId);
+        sessionId = collaborationService.join(documentId, { id: testUserId, name: 'Jane Lawyer', email: 'jane@example.com' }, jest.fn());
+        collaborationService.handleRequest(sessionId, { type: 'lock', placeholderId: 'ph-1' });
+        mockDbChain.orderBy.mockResolvedValueOnce(dbPlaceholders());
+
+        const [placeholder] = await documentService.updatePlaceholders(
+          documentId,
+          testUserId,
+          [{ id: 'ph-1', value: 'Other Co' }],
+          sessionId
+        );
+
+        expect(placeholder.filledValue).toBe('Other Co');
+      });
+    });
+  });
+
   describe('getDocument', () => {
     it('should retrieve document by id', async () => {
       const documentId = 'doc-789';
@@ -387,6 +859,28 @@ describe('DocumentService', () => {
         documentService.getDocument('doc-789', 'other-user-id')
       ).rejects.toThrow('Document not found');
     });
+
+    it('should share the document with members of the owner\'s organization', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce({ id: 'doc-789', user_id: testUserId, filename: 'test.docx', metadata: {} })
+        .mockResolvedValueOnce({ id: 'colleague-id', organization: 'Smith LLP' })
+        .mockResolvedValueOnce({ id: testUserId, organization: 'Smith LLP' });
+
+      const document = await documentService.getDocument('doc-789', 'colleague-id');
+
+      expect(document.userId).toBe(testUserId);
+    });
+
+    it('should not share the document outside the owner\'s organization', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce({ id: 'doc-789', user_id: testUserId, filename: 'test.docx', metadata: {} })
+        .mockResolvedValueOnce({ id: 'outsider-id', organization: null })
+        .mockResolvedValueOnce({ id: testUserId, organization: null });
+
+      await expect(
+        documentService.getDocument('doc-789', 'outsider-id')
+      ).rejects.toThrow('Document not found');
+    });
   });
 
   describe('getDocuments', () => {
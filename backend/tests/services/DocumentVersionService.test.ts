@@ -0,0 +1,312 @@
+import { DocumentSnapshot, DocumentStatus, PlaceholderFieldType, ValidationStatus, VersionChangeType } from '@smartdocs/common';
+import { collaborationService } from '../../src/services/CollaborationService';
+import { DocumentVersionService } from '../../src/services/DocumentVersionService';
+
+// Mock database with a factory function
+jest.mock('../../src/config/knex', () => {
+  const mockDbChain = {
+    where: jest.fn().mockReturnThis(),
+    whereNotIn: jest.fn().mockReturnThis(),
+    first: jest.fn(),
+    max: jest.fn().mockReturnThis(),
+    insert: jest.fn().mockReturnThis(),
+    onConflict: jest.fn().mockReturnThis(),
+    merge: jest.fn(),
+    returning: jest.fn(),
+    update: jest.fn(),
+    del: jest.fn(),
+    orderBy: jest.fn().mockReturnThis(),
+    forUpdate: jest.fn().mockReturnThis(),
+  };
+
+  const mockDbFunction: any = jest.fn(() => mockDbChain);
+  Object.assign(mockDbFunction, mockDbChain);
+  mockDbFunction.transaction = jest.fn((callback: (trx: any) => Promise<any>) => callback(mockDbFunction));
+
+  return { db: mockDbFunction };
+});
+
+import { db as mockDb } from '../../src/config/knex';
+
+const mockDbChain = mockDb as any;
+
+describe('DocumentVersionService', () => {
+  let versionService: DocumentVersionService;
+
+  const testUserId = 'test-user-id';
+  const testDocumentId = 'doc-123';
+
+  const placeholder = (id: string, fieldName: string, filledValue?: string) => ({
+    id,
+    fieldName,
+    fieldType: PlaceholderFieldType.TEXT,
+    originalText: `[${fieldName}]`,
+    position: 1,
+    filledValue,
+    validationStatus: filledValue ? ValidationStatus.VALIDATED : ValidationStatus.PENDING,
+  });
+
+  const versionRow = (versionNumber: number, snapshot: DocumentSnapshot) => ({
+    id: `version-${versionNumber}`,
+    document_id: testDocumentId,
+    version_number: versionNumber,
+    change_type: VersionChangeType.FILL,
+    created_by: testUserId,
+    created_at: new Date(),
+    snapshot: JSON.stringify(snapshot),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    versionService = new DocumentVersionService();
+  });
+
+  describe('recordVersion', () => {
+    it('should snapshot the document as the next version', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce({
+          id: testDocumentId,
+          status: DocumentStatus.FILLING,
+          document_type: 'SAFE',
+          completion_percentage: 50,
+          metadata: { parties: 2 },
+        })
+        .mockResolvedValueOnce({ max: 2 });
+      mockDbChain.orderBy.mockResolvedValueOnce([{
+        id: 'ph-1',
+        field_name: 'company_name',
+        field_type: 'text',
+        original_text: '[Company Name]',
+        position: 1,
+        filled_value: 'Acme Inc.',
+        filled_by: testUserId,
+        filled_at: '2026-10-19T10:00:00.000Z',
+        validation_status: 'validated',
+        validation_notes: 'Check the legal name',
+        ai_suggested_value: 'Acme, Inc.',
+        confidence: 0.8,
+        anchors: '[]',
+        detection_source: 'both',
+      }]);
+      mockDbChain.returning.mockImplementationOnce(async () => [{
+        ...mockDbChain.insert.mock.calls[0][0],
+        created_at: new Date(),
+      }]);
+
+      const version = await versionService.recordVersion(testDocumentId, VersionChangeType.FILL, testUserId);
+
+      expect(version.versionNumber).toBe(3);
+      expect(version.changeType).toBe(VersionChangeType.FILL);
+      expect(version.createdBy).toBe(testUserId);
+      expect(version.snapshot.status).toBe(DocumentStatus.FILLING);
+      expect(version.snapshot.metadata).toEqual({ parties: 2 });
+      expect(version.snapshot.placeholders).toEqual([
+        expect.objectContaining({
+          id: 'ph-1',
+          fieldName: 'company_name',
+          filledValue: 'Acme Inc.',
+          filledAt: '2026-10-19T10:00:00.000Z',
+          validationNotes: 'Check the legal name',
+          aiSuggestedValue: 'Acme, Inc.',
+          confidence: 0.8,
+        }),
+      ]);
+    });
+
+    it('should start numbering at 1', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce({ id: testDocumentId, status: DocumentStatus.UPLOADED, metadata: {} })
+        .mockResolvedValueOnce({ max: null });
+      mockDbChain.orderBy.mockResolvedValueOnce([]);
+      mockDbChain.returning.mockImplementationOnce(async () => [mockDbChain.insert.mock.calls[0][0]]);
+
+      const version = await versionService.recordVersion(testDocumentId, VersionChangeType.UPLOAD, testUserId);
+
+      expect(version.versionNumber).toBe(1);
+      expect(version.snapshot.placeholders).toEqual([]);
+    });
+
+    it('should number the version in a transaction holding the document row', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce({ id: testDocumentId, status: DocumentStatus.FILLING, metadata: {} })
+        .mockResolvedValueOnce({ max: 4 });
+      mockDbChain.orderBy.mockResolvedValueOnce([]);
+      mockDbChain.returning.mockImplementationOnce(async () => [mockDbChain.insert.mock.calls[0][0]]);
+
+      await versionService.recordVersion(testDocumentId, VersionChangeType.FILL, testUserId);
+
+      expect(mockDb.transaction).toHaveBeenCalled();
+      expect(mockDb).toHaveBeenNthCalledWith(1, 'documents');
+      expect(mockDbChain.forUpdate.mock.invocationCallOrder[0])
+        .toBeLessThan(mockDbChain.max.mock.invocationCallOrder[0]);
+    });
+
+    it('should publish the new state to collaborators once the transaction commits', async () => {
+      const publishChange = jest.spyOn(collaborationService, 'publishChange');
+      let commit!: () => void;
+      const trx = Object.assign(jest.fn(() => mockDbChain), {
+        isTransaction: true,
+        executionPromise: new Promise<void>(resolve => { commit = resolve; }),
+      });
+      mockDbChain.first
+        .mockResolvedValueOnce({ id: testDocumentId, status: DocumentStatus.FILLING, completion_percentage: 50, metadata: {} })
+        .mockResolvedValueOnce({ max: 3 });
+      mockDbChain.orderBy.mockResolvedValueOnce([]);
+      mockDbChain.returning.mockImplementationOnce(async () => [mockDbChain.insert.mock.calls[0][0]]);
+
+      await versionService.recordVersion(testDocumentId, VersionChangeType.EDIT, testUserId, trx as any);
+      expect(publishChange).not.toHaveBeenCalled();
+
+      commit();
+      await trx.executionPromise;
+
+      expect(publishChange).toHaveBeenCalledWith(testDocumentId, {
+        changeType: VersionChangeType.EDIT,
+        versionNumber: 4,
+        changedBy: testUserId,
+        snapshot: expect.objectContaining({ status: DocumentStatus.FILLING, completionPercentage: 50 }),
+      });
+      publishChange.mockRestore();
+    });
+  });
+
+  describe('diffVersions', () => {
+    const baseSnapshot: DocumentSnapshot = {
+      status: DocumentStatus.READY,
+      documentType: 'SAFE',
+      completionPercentage: 0,
+      metadata: { parties: 2 },
+      placeholders: [placeholder('ph-1', 'company_name'), placeholder('ph-2', 'investor_name')],
+    };
+
+    it('should report document, metadata and placeholder changes', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce({ id: testDocumentId, user_id: testUserId })
+        .mockResolvedValueOnce(versionRow(1, baseSnapshot))
+        .mockResolvedValueOnce(versionRow(3, {
+          ...baseSnapshot,
+          status: DocumentStatus.FILLING,
+          completionPercentage: 50,
+          metadata: { parties: 3 },
+          placeholders: [placeholder('ph-1', 'company_name', 'Acme Inc.'), placeholder('ph-3', 'valuation_cap')],
+        }));
+
+      const diff = await versionService.diffVersions(testDocumentId, testUserId, 1, 3);
+
+      expect(diff.fromVersion).toBe(1);
+      expect(diff.toVersion).toBe(3);
+      expect(diff.document).toEqual([
+        { field: 'status', from: DocumentStatus.READY, to: DocumentStatus.FILLING },
+        { field: 'completionPercentage', from: 0, to: 50 },
+        { field: 'metadata.parties', from: 2, to: 3 },
+      ]);
+      expect(diff.placeholders.added.map(p => p.id)).toEqual(['ph-3']);
+      expect(diff.placeholders.removed.map(p => p.id)).toEqual(['ph-2']);
+      expect(diff.placeholders.changed).toEqual([{
+        placeholderId: 'ph-1',
+        fieldName: 'company_name',
+        changes: [
+          { field: 'filledValue', from: null, to: 'Acme Inc.' },
+          { field: 'validationStatus', from: ValidationStatus.PENDING, to: ValidationStatus.VALIDATED },
+        ],
+      }]);
+    });
+
+    it('should report no changes between identical versions', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce({ id: testDocumentId, user_id: testUserId })
+        .mockResolvedValueOnce(versionRow(2, baseSnapshot))
+        .mockResolvedValueOnce(versionRow(2, baseSnapshot));
+
+      const diff = await versionService.diffVersions(testDocumentId, testUserId, 2, 2);
+
+      expect(diff.document).toEqual([]);
+      expect(diff.placeholders).toEqual({ added: [], removed: [], changed: [] });
+    });
+
+    it('should throw error if a version does not exist', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce({ id: testDocumentId, user_id: testUserId })
+        .mockResolvedValueOnce(versionRow(1, baseSnapshot))
+        .mockResolvedValueOnce(undefined);
+
+      await expect(versionService.diffVersions(testDocumentId, testUserId, 1, 9))
+        .rejects.toThrow('Version not found');
+    });
+
+    it('should throw error if user does not own document', async () => {
+      mockDbChain.first.mockResolvedValueOnce(undefined);
+
+      await expect(versionService.diffVersions(testDocumentId, 'other-user', 1, 2))
+        .rejects.toThrow('Document not found');
+    });
+  });
+
+  describe('restoreVersion', () => {
+    it('should reset the document and placeholders and record a restore version', async () => {
+      const snapshot: DocumentSnapshot = {
+        status: DocumentStatus.READY,
+        documentType: 'SAFE',
+        completionPercentage: 0,
+        metadata: { parties: 2 },
+        placeholders: [{
+          ...placeholder('ph-1', 'company_name'),
+          validationNotes: 'Check the legal name',
+          aiSuggestedValue: 'Acme, Inc.',
+          confidence: 0.8,
+        }],
+      };
+
+      mockDbChain.first
+        .mockResolvedValueOnce({
+          id: testDocumentId,
+          user_id: testUserId,
+          metadata: { parties: 3 },
+        })
+        .mockResolvedValueOnce(versionRow(1, snapshot))
+        // Snapshot of the restored state, then the latest version number
+        .mockResolvedValueOnce({ id: testDocumentId, status: DocumentStatus.READY, metadata: {} })
+        .mockResolvedValueOnce({ max: 4 });
+      mockDbChain.orderBy.mockResolvedValueOnce([]);
+      mockDbChain.returning.mockImplementationOnce(async () => [mockDbChain.insert.mock.calls[1][0]]);
+
+      const version = await versionService.restoreVersion(testDocumentId, testUserId, 1);
+
+      expect(mockDbChain.transaction).toHaveBeenCalled();
+      expect(mockDbChain.update).toHaveBeenCalledWith({
+        status: DocumentStatus.READY,
+        document_type: 'SAFE',
+        completion_percentage: 0,
+        metadata: JSON.stringify({ parties: 2 }),
+      });
+      // Placeholders added since are kept, out of the document, for the messages linked to them
+      expect(mockDbChain.whereNotIn).toHaveBeenCalledWith('id', ['ph-1']);
+      expect(mockDbChain.update).toHaveBeenCalledWith({ stale: true });
+      expect(mockDbChain.del).not.toHaveBeenCalled();
+      expect(mockDbChain.insert.mock.calls[0][0]).toEqual([
+        expect.objectContaining({
+          id: 'ph-1',
+          document_id: testDocumentId,
+          filled_value: null,
+          validation_notes: 'Check the legal name',
+          ai_suggested_value: 'Acme, Inc.',
+          confidence: 0.8,
+        }),
+      ]);
+      expect(mockDbChain.onConflict).toHaveBeenCalledWith('id');
+      expect(version.versionNumber).toBe(5);
+      expect(version.changeType).toBe(VersionChangeType.RESTORE);
+      expect(version.restoredFrom).toBe(1);
+    });
+
+    it('should throw error if the version does not exist', async () => {
+      mockDbChain.first
+        .mockResolvedValueOnce({ id: testDocumentId, user_id: testUserId, metadata: {} })
+        .mockResolvedValueOnce(undefined);
+
+      await expect(versionService.restoreVersion(testDocumentId, testUserId, 7))
+        .rejects.toThrow('Version not found');
+      expect(mockDbChain.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describeCommand, findFieldByName, parseConversationCommand } from '../../src/utils/conversationCommands';
+
+describe('conversationCommands', () => {
+  describe('parseConversationCommand', () => {
+    it.each([
+      ['skip', { action: 'skip' }],
+      ['Skip this for now.', { action: 'skip' }],
+      ['/skip', { action: 'skip' }],
+      ['go back', { action: 'back' }],
+      ['Previous', { action: 'back' }],
+      ['review', { action: 'review' }],
+      ['What do we have so far?', { action: 'review' }],
+      ['show me the summary', { action: 'review' }],
+      ['go to company name', { action: 'goto', field: 'company name' }],
+      ['jump to the valuation cap field', { action: 'goto', field: 'valuation cap' }],
+      ['goto investor_name', { action: 'goto', field: 'investor_name' }],
+      ['change company name to Acme Inc.', { action: 'change', field: 'company name', value: 'Acme Inc.' }],
+      ['update the purchase amount field to $50,000', { action: 'change', field: 'purchase amount', value: '$50,000' }],
+      ['change the effective date', { action: 'goto', field: 'effective date' }],
+    ])('should parse %s', (message, expected) => {
+      expect(parseConversationCommand(message)).toEqual(expected);
+    });
+
+    it.each(['Acme Inc.', 'skip the intro and use Acme', 'What is a valuation cap?', 'backend services LLC'])(
+      'should not treat %s as a command',
+      (message) => {
+        expect(parseConversationCommand(message)).toBeNull();
+      }
+    );
+  });
+
+  describe('describeCommand', () => {
+    it('should write commands as a user would type them', () => {
+      expect(describeCommand({ action: 'skip' })).toBe('skip');
+      expect(describeCommand({ action: 'goto', field: 'company_name' })).toBe('go to company_name');
+      expect(describeCommand({ action: 'change', field: 'company_name', value: 'Acme' })).toBe('change company_name to Acme');
+    });
+  });
+
+  describe('findFieldByName', () => {
+    const fields = [
+      { field_name: 'company_name' },
+      { field_name: 'investor_name' },
+      { field_name: 'valuation_cap' },
+    ];
+
+    it('should match ignoring case, spaces and underscores', () => {
+      expect(findFieldByName(fields, 'Company Name')).toBe(fields[0]);
+      expect(findFieldByName(fields, 'valuation-cap')).toBe(fields[2]);
+    });
+
+    it('should match a unique partial name', () => {
+      expect(findFieldByName(fields, 'investor')).toBe(fields[1]);
+    });
+
+    it('should not guess between several partial matches', () => {
+      expect(findFieldByName(fields, 'name')).toBeUndefined();
+      expect(findFieldByName(fields, 'purchase price')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,336 @@
+import { fillDocx } from '../../src/utils/docxFiller';
+import * as fs from 'fs';
+import * as path from 'path';
+import JSZip from 'jszip';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+function wrapPart(root: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:${root} xmlns:w="${W_NS}">${body}</w:${root}>`;
+}
+
+async function writeDocx(filePath: string, parts: Record<string, string>): Promise<void> {
+  const zip = new JSZip();
+  Object.entries(parts).forEach(([name, xml]) => zip.file(name, xml));
+  fs.writeFileSync(filePath, await zip.generateAsync({ type: 'nodebuffer' }));
+}
+
+async function readPart(buffer: Buffer, partName: string): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  return zip.file(partName)!.async('string');
+}
+
+describe('docxFiller', () => {
+  const testFilesDir = path.join(__dirname, '../fixtures/filler');
+
+  beforeAll(() => {
+    if (!fs.existsSync(testFilesDir)) {
+      fs.mkdirSync(testFilesDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(testFilesDir)) {
+      fs.readdirSync(testFilesDir).forEach(file => fs.unlinkSync(path.join(testFilesDir, file)));
+      fs.rmdirSync(testFilesDir);
+    }
+  });
+
+  describe('fillDocx - Validation', () => {
+    it('should throw an error if file path is empty', async () => {
+      await expect(fillDocx('', [])).rejects.toThrow('File path is required');
+    });
+
+    it('should throw an error if file does not exist', async () => {
+      await expect(fillDocx(path.join(testFilesDir, 'missing.docx'), [])).rejects.toThrow('File does not exist');
+    });
+
+    it('should throw an error if file is not a .docx file', async () => {
+      const txtFile = path.join(testFilesDir, 'test.txt');
+      fs.writeFileSync(txtFile, 'test content');
+
+      await expect(fillDocx(txtFile, [])).rejects.toThrow('File must be a .docx file');
+    });
+
+    it('should wrap errors for files that are not valid archives', async () => {
+      const badFile = path.join(testFilesDir, 'corrupted.docx');
+      fs.writeFileSync(badFile, 'not a zip');
+
+      await expect(fillDocx(badFile, [])).rejects.toThrow(/^Failed to fill DOCX file:/);
+    });
+  });
+
+  describe('fillDocx - Substitution', () => {
+    it('should replace a placeholder contained in a single run', async () => {
+      const docxFile = path.join(testFilesDir, 'single-run.docx');
+      await writeDocx(docxFile, {
+        'word/document.xml': wrapPart('document',
+          '<w:body><w:p><w:r><w:t>Company: [COMPANY NAME]</w:t></w:r></w:p></w:body>'),
+      });
+
+      const result = await fillDocx(docxFile, [{ originalText: '[COMPANY NAME]', value: 'Acme Inc.' }]);
+      const xml = await readPart(result, 'word/document.xml');
+
+      expect(xml).toContain('Company: Acme Inc.');
+      expect(xml).not.toContain('[COMPANY NAME]');
+    });
+
+    it('should replace a placeholder split across runs and keep the first run formatting', async () => {
+      const docxFile = path.join(testFilesDir, 'split-runs.docx');
+      await writeDocx(docxFile, {
+        'word/document.xml': wrapPart('document',
+          '<w:body><w:p>' +
+          '<w:r><w:rPr><w:b/></w:rPr><w:t>[COMPANY</w:t></w:r>' +
+          '<w:r><w:t xml:space="preserve"> NAME</w:t></w:r>' +
+          '<w:r><w:t>] agrees</w:t></w:r>' +
+          '</w:p></w:body>'),
+      });
+
+      const result = await fillDocx(docxFile, [{ originalText: '[COMPANY NAME]', value: 'Acme Inc.' }]);
+      const xml = await readPart(result, 'word/document.xml');
+
+      expect(xml).toMatch(/<w:rPr><w:b\/><\/w:rPr><w:t xml:space="preserve">Acme Inc\.<\/w:t>/);
+      expect(xml).toContain('> agrees</w:t>');
+      expect(xml).not.toContain('NAME');
+    });
+
+    it('should fill headers, footers and table cells', async () => {
+      const docxFile = path.join(testFilesDir, 'parts.docx');
+      await writeDocx(docxFile, {
+        'word/document.xml': wrapPart('document',
+          '<w:body><w:tbl><w:tr><w:tc><w:p><w:r><w:t>[INVESTOR]</w:t></w:r></w:p></w:tc></w:tr></w:tbl></w:body>'),
+        'word/header1.xml': wrapPart('hdr', '<w:p><w:r><w:t>[INVESTOR] - Confidential</w:t></w:r></w:p>'),
+        'word/footer1.xml': wrapPart('ftr', '<w:p><w:r><w:t>Prepared for [INVESTOR]</w:t></w:r></w:p>'),
+      });
+
+      const result = await fillDocx(docxFile, [{ originalText: '[INVESTOR]', value: 'Jane Doe' }]);
+
+      expect(await readPart(result, 'word/document.xml')).toContain('>Jane Doe</w:t>');
+      expect(await readPart(result, 'word/header1.xml')).toContain('Jane Doe - Confidential');
+      expect(await readPart(result, 'word/footer1.xml')).toContain('Prepared for Jane Doe');
+    });
+
+    it('should assign repeated blanks to their values in document order', async () => {
+      const docxFile = path.join(testFilesDir, 'blanks.docx');
+      await writeDocx(docxFile, {
+        'word/document.xml': wrapPart('document',
+          '<w:body>' +
+          '<w:p><w:r><w:t>Name: ________</w:t></w:r></w:p>' +
+          '<w:p><w:r><w:t>Title: ________</w:t></w:r></w:p>' +
+          '</w:body>'),
+      });
+
+      const result = await fillDocx(docxFile, [
+        { originalText: '________', value: 'Jane Doe' },
+        { originalText: '________', value: 'CEO' },
+      ]);
+      const xml = await readPart(result, 'word/document.xml');
+
+      expect(xml).toContain('Name: Jane Doe');
+      expect(xml).toContain('Title: CEO');
+    });
+
+    it('should leave blanks that are not filled yet as they are', async () => {
+      const docxFile = path.join(testFilesDir, 'unfilled-blanks.docx');
+      await writeDocx(docxFile, {
+        'word/document.xml': wrapPart('document',
+          '<w:body>' +
+          '<w:p><w:r><w:t>Name: ________</w:t></w:r></w:p>' +
+          '<w:p><w:r><w:t>Title: ________</w:t></w:r></w:p>' +
+          '<w:p><w:r><w:t>Date: ________</w:t></w:r></w:p>' +
+          '</w:body>'),
+      });
+
+      const result = await fillDocx(docxFile, [
+        { originalText: '________', value: null },
+        { originalText: '________', value: 'CEO' },
+        { originalText: '________', value: null },
+      ]);
+      const xml = await readPart(result, 'word/document.xml');
+
+      expect(xml).toContain('Name: ________');
+      expect(xml).toContain('Title: CEO');
+      expect(xml).toContain('Date: ________');
+    });
+
+    it('should not reuse a value for more blanks than were filled', async () => {
+      const docxFile = path.join(testFilesDir, 'extra-blanks.docx');
+      await writeDocx(docxFile, {
+        'word/document.xml': wrapPart('document',
+          '<w:body>' +
+          '<w:p><w:r><w:t>Name: ________</w:t></w:r></w:p>' +
+          '<w:p><w:r><w:t>Title: ________</w:t></w:r></w:p>' +
+          '<w:p><w:r><w:t>Date: ________</w:t></w:r></w:p>' +
+          '</w:body>'),
+      });
+
+      const result = await fillDocx(docxFile, [
+        { originalText: '________', value: 'Jane Doe' },
+        { originalText: '________', value: 'CEO' },
+      ]);
+      const xml = await readPart(result, 'word/document.xml');
+
+      expect(xml).toContain('Title: CEO');
+      expect(xml).toContain('Date: ________');
+    });
+
+    it('should replace exactly at anchors when they are provided', async () => {
+      const docxFile = path.join(testFilesDir, 'anchored.docx');
+      await writeDocx(docxFile, {
+        'word/document.xml': wrapPart('document',
+          '<w:body>' +
+          '<w:p><w:r><w:t>Name: ________</w:t></w:r></w:p>' +
+          '<w:p><w:r><w:t>Title: ________</w:t></w:r></w:p>' +
+          '</w:body>'),
+      });
+
+      const result = await fillDocx(docxFile, [
+        {
+          originalText: '________',
+          value: 'CEO',
+          anchors: [{ part: 'word/document.xml', paragraphIndex: 1, start: 7, end: 15 }],
+        },
+      ]);
+      const xml = await readPart(result, 'word/document.xml');
+
+      expect(xml).toContain('Name: ________');
+      expect(xml).toContain('Title: CEO');
+    });
+
+    it('should ignore anchors whose text no longer matches', async () => {
+      const docxFile = path.join(testFilesDir, 'stale-anchor.docx');
+      await writeDocx(docxFile, {
+        'word/document.xml': wrapPart('document',
+          '<w:body><w:p><w:r><w:t>Company: [COMPANY NAME]</w:t></w:r></w:p></w:body>'),
+      });
+
+      const result = await fillDocx(docxFile, [
+        {
+          originalText: '[COMPANY NAME]',
+          value: 'Acme Inc.',
+          anchors: [{ part: 'word/document.xml', paragraphIndex: 0, start: 0, end: 14 }],
+        },
+      ]);
+      const xml = await readPart(result, 'word/document.xml');
+
+      expect(xml).toContain('Company: [COMPANY NAME]');
+    });
+
+    it('should escape values that contain XML special characters', async () => {
+      const docxFile = path.join(testFilesDir, 'escape.docx');
+      await writeDocx(docxFile, {
+        'word/document.xml': wrapPart('document',
+          '<w:body><w:p><w:r><w:t>[COMPANY NAME]</w:t></w:r></w:p></w:body>'),
+      });
+
+      const result = await fillDocx(docxFile, [{ originalText: '[COMPANY NAME]', value: 'Smith & Sons <LLC>' }]);
+      const xml = await readPart(result, 'word/document.xml');
+
+      expect(xml).toContain('Smith &amp; Sons &lt;LLC&gt;');
+    });
+
+    it('should leave the document unchanged when there is nothing to replace', async () => {
+      const docxFile = path.join(testFilesDir, 'unchanged.docx');
+      const original = wrapPart('document', '<w:body><w:p><w:r><w:t>[COMPANY NAME]</w:t></w:r></w:p></w:body>');
+      await writeDocx(docxFile, { 'word/document.xml': original });
+
+      const result = await fillDocx(docxFile, []);
+
+      expect(await readPart(result, 'word/document.xml')).toBe(original);
+    });
+  });
+
+  describe('fillDocx - Tracked changes', () => {
+    const revision = { author: 'Jane Doe', date: new Date('2026-10-19T09:30:00.123Z') };
+
+    it('should write the value as an insertion after the deleted placeholder', async () => {
+      const docxFile = path.join(testFilesDir, 'redline.docx');
+      await writeDocx(docxFile, {
+        'word/document.xml': wrapPart('document',
+          '<w:body><w:p><w:r><w:t>Company: [COMPANY NAME] agrees</w:t></w:r></w:p></w:body>'),
+      });
+
+      const result = await fillDocx(
+        docxFile,
+        [{ originalText: '[COMPANY NAME]', value: 'Acme Inc.', revision }],
+        { trackChanges: true }
+      );
+      const xml = await readPart(result, 'word/document.xml');
+
+      expect(xml).toContain(
+        '<w:r><w:t xml:space="preserve">Company: </w:t></w:r>' +
+        '<w:del w:id="100000" w:author="Jane Doe" w:date="2026-10-19T09:30:00Z">' +
+        '<w:r><w:delText xml:space="preserve">[COMPANY NAME]</w:delText></w:r></w:del>' +
+        '<w:ins w:id="100001" w:author="Jane Doe" w:date="2026-10-19T09:30:00Z">' +
+        '<w:r><w:t xml:space="preserve">Acme Inc.</w:t></w:r></w:ins>' +
+        '<w:r><w:t xml:space="preserve"> agrees</w:t></w:r>'
+      );
+    });
+
+    it('should split runs around a placeholder spanning several runs', async () => {
+      const docxFile = path.join(testFilesDir, 'redline-split.docx');
+      await writeDocx(docxFile, {
+        'word/document.xml': wrapPart('document',
+          '<w:body><w:p>' +
+          '<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">By [INVESTOR</w:t></w:r>' +
+          '<w:r><w:t xml:space="preserve"> NAME], Investor</w:t><w:tab/><w:t>Date</w:t></w:r>' +
+          '</w:p></w:body>'),
+      });
+
+      const result = await fillDocx(
+        docxFile,
+        [{ originalText: '[INVESTOR NAME]', value: 'Jane Doe', revision }],
+        { trackChanges: true }
+      );
+      const xml = await readPart(result, 'word/document.xml');
+
+      expect(xml).toContain(
+        '<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">By </w:t></w:r>' +
+        '<w:del w:id="100000" w:author="Jane Doe" w:date="2026-10-19T09:30:00Z">' +
+        '<w:r><w:rPr><w:b/></w:rPr><w:delText xml:space="preserve">[INVESTOR</w:delText></w:r>' +
+        '<w:r><w:delText xml:space="preserve"> NAME]</w:delText></w:r></w:del>' +
+        '<w:ins w:id="100001" w:author="Jane Doe" w:date="2026-10-19T09:30:00Z">' +
+        '<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">Jane Doe</w:t></w:r></w:ins>' +
+        '<w:r><w:t xml:space="preserve">, Investor</w:t><w:tab/><w:t>Date</w:t></w:r>'
+      );
+    });
+
+    it('should give each change a unique id and its own author', async () => {
+      const docxFile = path.join(testFilesDir, 'redline-authors.docx');
+      await writeDocx(docxFile, {
+        'word/document.xml': wrapPart('document',
+          '<w:body><w:p><w:r><w:t>[NAME] and [TITLE]</w:t></w:r></w:p></w:body>'),
+        'word/header1.xml': wrapPart('hdr', '<w:p><w:r><w:t>[NAME]</w:t></w:r></w:p>'),
+      });
+
+      const result = await fillDocx(
+        docxFile,
+        [
+          { originalText: '[NAME]', value: 'Jane Doe', revision: { author: 'Jane Doe' } },
+          { originalText: '[TITLE]', value: 'CEO' },
+        ],
+        { trackChanges: true }
+      );
+      const xml = await readPart(result, 'word/document.xml') + await readPart(result, 'word/header1.xml');
+      const ids = Array.from(xml.matchAll(/w:id="(\d+)"/g)).map(m => m[1]);
+
+      expect(new Set(ids).size).toBe(6);
+      expect(xml).toMatch(/<w:ins w:id="\d+" w:author="Jane Doe"><w:r><w:t xml:space="preserve">Jane Doe</);
+      expect(xml).toMatch(/<w:ins w:id="\d+" w:author="SmartDocs"><w:r><w:t xml:space="preserve">CEO</);
+    });
+
+    it('should only delete the placeholder when the value is empty', async () => {
+      const docxFile = path.join(testFilesDir, 'redline-empty.docx');
+      await writeDocx(docxFile, {
+        'word/document.xml': wrapPart('document',
+          '<w:body><w:p><w:r><w:t>Optional: [NOTE]</w:t></w:r></w:p></w:body>'),
+      });
+
+      const result = await fillDocx(docxFile, [{ originalText: '[NOTE]', value: '' }], { trackChanges: true });
+      const xml = await readPart(result, 'word/document.xml');
+
+      expect(xml).toContain('<w:delText xml:space="preserve">[NOTE]</w:delText>');
+      expect(xml).not.toContain('<w:ins');
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { locatePlaceholders, locateText, parseDocxStructure, parseDocxStructureFromBuffer } from '../../src/utils/docxStructure';
+import * as fs from 'fs';
+import * as path from 'path';
+import JSZip from 'jszip';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+function wrapPart(root: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:${root} xmlns:w="${W_NS}">${body}</w:${root}>`;
+}
+
+async function writeDocx(filePath: string, parts: Record<string, string>): Promise<void> {
+  const zip = new JSZip();
+  Object.entries(parts).forEach(([name, xml]) => zip.file(name, xml));
+  fs.writeFileSync(filePath, await zip.generateAsync({ type: 'nodebuffer' }));
+}
+
+describe('docxStructure', () => {
+  const testFilesDir = path.join(__dirname, '../fixtures/structure');
+  const docxFile = path.join(testFilesDir, 'agreement.docx');
+
+  beforeAll(async () => {
+    if (!fs.existsSync(testFilesDir)) {
+      fs.mkdirSync(testFilesDir, { recursive: true });
+    }
+
+    await writeDocx(docxFile, {
+      'word/document.xml': wrapPart('document',
+        '<w:body>' +
+        '<w:p><w:pPr><w:pStyle w:val="Title"/></w:pPr><w:r><w:t>SAFE Agreement</w:t></w:r></w:p>' +
+        '<w:p>' +
+        '<w:r><w:t xml:space="preserve">This agreement with </w:t></w:r>' +
+        '<w:r><w:rPr><w:b/></w:rPr><w:t>[COMPANY</w:t></w:r>' +
+        '<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve"> NAME]</w:t></w:r>' +
+        '<w:r><w:t xml:space="preserve"> is dated ________.</w:t></w:r>' +
+        '</w:p>' +
+        '<w:tbl><w:tr>' +
+        '<w:tc><w:p><w:r><w:t>Investor</w:t></w:r></w:p></w:tc>' +
+        '<w:tc><w:p><w:r><w:t>________</w:t></w:r></w:p></w:tc>' +
+        '</w:tr></w:tbl>' +
+        '</w:body>'),
+      'word/header1.xml': wrapPart('hdr', '<w:p><w:r><w:rPr><w:i/></w:rPr><w:t>[COMPANY NAME]</w:t></w:r></w:p>'),
+      'word/footer1.xml': wrapPart('ftr', '<w:p><w:r><w:t>Page footer</w:t></w:r></w:p>'),
+    });
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(testFilesDir)) {
+      fs.readdirSync(testFilesDir).forEach(file => fs.unlinkSync(path.join(testFilesDir, file)));
+      fs.rmdirSync(testFilesDir);
+    }
+  });
+
+  describe('parseDocxStructure - Validation', () => {
+    it('should throw an error if file path is empty', async () => {
+      await expect(parseDocxStructure('')).rejects.toThrow('File path is required');
+    });
+
+    it('should throw an error if file does not exist', async () => {
+      await expect(parseDocxStructure(path.join(testFilesDir, 'missing.docx'))).rejects.toThrow('File does not exist');
+    });
+
+    it('should wrap errors for files that are not valid archives', async () => {
+      const badFile = path.join(testFilesDir, 'corrupted.docx');
+      fs.writeFileSync(badFile, 'not a zip');
+
+      await expect(parseDocxStructure(badFile)).rejects.toThrow(/^Failed to parse DOCX structure:/);
+    });
+  });
+
+  describe('parseDocxStructure - Model', () => {
+    it('should return the body first, then headers and footers', async () => {
+      const structure = await parseDocxStructure(docxFile);
+
+      expect(structure.parts.map(p => [p.name, p.type])).toEqual([
+        ['word/document.xml', 'body'],
+        ['word/footer1.xml', 'footer'],
+        ['word/header1.xml', 'header'],
+      ]);
+    });
+
+    it('should join split runs into paragraph text with run offsets and formatting', async () => {
+      const structure = await parseDocxStructure(docxFile);
+      const paragraph = structure.parts[0].paragraphs[1];
+
+      expect(paragraph.text).toBe('This agreement with [COMPANY NAME] is dated ________.');
+      expect(paragraph.runs).toHaveLength(4);
+      expect(paragraph.runs[1]).toEqual({
+        text: '[COMPANY',
+        start: 20,
+        end: 28,
+        bold: true,
+        italic: false,
+        underline: false,
+      });
+    });
+
+    it('should record paragraph styles and table cell locations', async () => {
+      const structure = await parseDocxStructure(docxFile);
+      const body = structure.parts[0];
+
+      expect(body.paragraphs[0].style).toBe('Title');
+      expect(body.tables).toEqual([{ index: 0, rows: [[[2], [3]]] }]);
+      expect(body.paragraphs[3].table).toEqual({ tableIndex: 0, row: 0, cell: 1 });
+    });
+
+    it('should expose the body text', async () => {
+      const structure = await parseDocxStructure(docxFile);
+
+      expect(structure.text).toBe(
+        'SAFE Agreement\nThis agreement with [COMPANY NAME] is dated ________.\nInvestor\n________'
+      );
+    });
+
+    it('should parse file contents from a buffer', async () => {
+      const fromFile = await parseDocxStructure(docxFile);
+      const fromBuffer = await parseDocxStructureFromBuffer(fs.readFileSync(docxFile));
+
+      expect(fromBuffer).toEqual(fromFile);
+    });
+  });
+
+  describe('locateText', () => {
+    it('should find occurrences across parts with character offsets', async () => {
+      const structure = await parseDocxStructure(docxFile);
+
+      expect(locateText(structure, '[COMPANY NAME]')).toEqual([
+        { part: 'word/document.xml', paragraphIndex: 1, start: 20, end: 34 },
+        { part: 'word/header1.xml', paragraphIndex: 0, start: 0, end: 14 },
+      ]);
+    });
+  });
+
+  describe('locatePlaceholders', () => {
+    it('should give a unique placeholder every occurrence of its text', async () => {
+      const structure = await parseDocxStructure(docxFile);
+      const [companyAnchors] = locatePlaceholders(structure, ['[COMPANY NAME]']);
+
+      expect(companyAnchors).toHaveLength(2);
+    });
+
+    it('should assign repeated blanks to successive occurrences', async () => {
+      const structure = await parseDocxStructure(docxFile);
+      const [dateAnchors, investorAnchors, extraAnchors] = locatePlaceholders(structure, ['________', '________', '________']);
+
+      expect(dateAnchors).toEqual([{ part: 'word/document.xml', paragraphIndex: 1, start: 44, end: 52 }]);
+      expect(investorAnchors).toEqual([{ part: 'word/document.xml', paragraphIndex: 3, start: 0, end: 8 }]);
+      expect(extraAnchors).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { PlaceholderFieldType } from '@smartdocs/common';
+import { validateFieldValue } from '../../src/utils/fieldValidation';
+
+describe('fieldValidation', () => {
+  describe('date', () => {
+    it.each([
+      ['2026-01-15', 'January 15, 2026'],
+      ['01/15/2026', 'January 15, 2026'],
+      ['1/5/26', 'January 5, 2026'],
+      ['15/01/2026', 'January 15, 2026'],
+      ['Jan 15, 2026', 'January 15, 2026'],
+      ['January 15th, 2026', 'January 15, 2026'],
+      ['15 January 2026', 'January 15, 2026'],
+      ['the 15th day of January, 2026', 'January 15, 2026'],
+      ['Sept. 3 2026', 'September 3, 2026'],
+    ])('should normalize %s', (input, expected) => {
+      expect(validateFieldValue(PlaceholderFieldType.DATE, input)).toEqual({ valid: true, value: expected });
+    });
+
+    it.each(['tomorrowish', '2026-02-30', '13/13/2026', 'Ma 5 2026', 'next Friday'])(
+      'should reject %s',
+      (input) => {
+        const result = validateFieldValue(PlaceholderFieldType.DATE, input);
+        expect(result.valid).toBe(false);
+        expect(result.value).toBe(input);
+        expect(result.notes).toMatch(/date/);
+      }
+    );
+  });
+
+  describe('currency', () => {
+    it.each([
+      ['$10,000', '$10,000'],
+      ['10000', '$10,000'],
+      ['$2,500.5', '$2,500.50'],
+      ['5000 USD', '$5,000'],
+      ['$1.5M', '$1,500,000'],
+      ['2.5 million dollars', '$2,500,000'],
+      ['€250k', '€250,000'],
+      ['GBP 75', '£75'],
+    ])('should normalize %s', (input, expected) => {
+      expect(validateFieldValue(PlaceholderFieldType.CURRENCY, input)).toEqual({ valid: true, value: expected });
+    });
+
+    it.each(['a lot', '-$100', '$1,00', '10 apples'])('should reject %s', (input) => {
+      expect(validateFieldValue(PlaceholderFieldType.CURRENCY, input).valid).toBe(false);
+    });
+  });
+
+  describe('number', () => {
+    it.each([
+      ['1000000', '1,000,000'],
+      ['1,000', '1,000'],
+      ['5.5', '5.5'],
+      ['5%', '5%'],
+      ['12.5 percent', '12.5%'],
+      ['-3', '-3'],
+      ['10k', '10,000'],
+    ])('should normalize %s', (input, expected) => {
+      expect(validateFieldValue(PlaceholderFieldType.NUMBER, input)).toEqual({ valid: true, value: expected });
+    });
+
+    it.each(['ten', '1.2.3', '5 shares'])('should reject %s', (input) => {
+      expect(validateFieldValue(PlaceholderFieldType.NUMBER, input).valid).toBe(false);
+    });
+  });
+
+  describe('email', () => {
+    it('should lowercase valid addresses', () => {
+      expect(validateFieldValue(PlaceholderFieldType.EMAIL, ' John.Smith@Acme.COM '))
+        .toEqual({ valid: true, value: 'john.smith@acme.com' });
+    });
+
+    it.each(['john at acme', 'john@acme', '@acme.com'])('should reject %s', (input) => {
+      expect(validateFieldValue(PlaceholderFieldType.EMAIL, input).valid).toBe(false);
+    });
+  });
+
+  describe('address', () => {
+    it('should accept a street address and collapse whitespace', () => {
+      expect(validateFieldValue(PlaceholderFieldType.ADDRESS, '123  Main Street,\n New York, NY 10001'))
+        .toEqual({ valid: true, value: '123 Main Street, New York, NY 10001' });
+    });
+
+    it.each(['New York', '12345'])('should reject %s', (input) => {
+      expect(validateFieldValue(PlaceholderFieldType.ADDRESS, input).valid).toBe(false);
+    });
+  });
+
+  describe('text', () => {
+    it('should accept any non-empty text', () => {
+      expect(validateFieldValue(PlaceholderFieldType.TEXT, ' Acme Inc. ')).toEqual({ valid: true, value: 'Acme Inc.' });
+    });
+
+    it('should treat unknown field types as text', () => {
+      expect(validateFieldValue('phone', '555-1234')).toEqual({ valid: true, value: '555-1234' });
+    });
+
+    it('should reject empty values for every type', () => {
+      for (const type of Object.values(PlaceholderFieldType)) {
+        expect(validateFieldValue(type, '   ')).toEqual({ valid: false, value: '', notes: 'A value is required.' });
+      }
+    });
+  });
+});
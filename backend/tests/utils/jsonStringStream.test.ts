@@ -0,0 +1,32 @@
+import { createJsonStringStream } from '../../src/utils/jsonStringStream';
+
+describe('jsonStringStream', () => {
+  const collect = (chunks: string[]) => {
+    const pieces: string[] = [];
+    const write = createJsonStringStream('message', text => pieces.push(text));
+    chunks.forEach(write);
+    return pieces;
+  };
+
+  it('should pass on the value as it arrives', () => {
+    const pieces = collect(['{"mess', 'age": "Hel', 'lo there', '", "confidence": 0.9}']);
+
+    expect(pieces).toEqual(['Hel', 'lo there']);
+  });
+
+  it('should decode escapes, including ones split across chunks', () => {
+    const pieces = collect(['{"message":"Say \\', '"hi\\"\\nthen \\u00', 'e9', '"}']);
+
+    expect(pieces.join('')).toBe('Say "hi"\nthen é');
+  });
+
+  it('should ignore everything after the closing quote', () => {
+    const pieces = collect(['{"message": "Done", "fieldName": "company_name"', ', "message": "again"}']);
+
+    expect(pieces).toEqual(['Done']);
+  });
+
+  it('should send nothing when the property never appears', () => {
+    expect(collect(['{"confidence": 0.5}'])).toEqual([]);
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  extractText,
+  isSupportedUpload,
+  parseDocument,
+  parseStructure,
+  sniffFileType,
+} from '../../src/utils/parsers';
+import { parseRtf } from '../../src/utils/parsers/rtf';
+import * as fs from 'fs';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const ODT_NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+].join(' ');
+
+describe('parsers', () => {
+  const testFilesDir = path.join(__dirname, '../fixtures/parsers');
+  const file = (name: string) => path.join(testFilesDir, name);
+
+  beforeAll(async () => {
+    if (!fs.existsSync(testFilesDir)) {
+      fs.mkdirSync(testFilesDir, { recursive: true });
+    }
+
+    const docx = new JSZip();
+    docx.file('word/document.xml',
+      `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="${W_NS}"><w:body>` +
+      '<w:p><w:r><w:t>Company: [COMPANY NAME]</w:t></w:r></w:p></w:body></w:document>');
+    const docxBuffer = await docx.generateAsync({ type: 'nodebuffer' });
+    fs.writeFileSync(file('agreement.docx'), docxBuffer);
+    fs.writeFileSync(file('agreement-docx.bin'), docxBuffer);
+
+    const odt = new JSZip();
+    odt.file('mimetype', 'application/vnd.oasis.opendocument.text');
+    odt.file('content.xml',
+      `<?xml version="1.0" encoding="UTF-8"?><office:document-content ${ODT_NAMESPACES}>` +
+      '<office:automatic-styles>' +
+      '<style:style style:name="P1" style:family="paragraph" style:parent-style-name="Title"/>' +
+      '<style:style style:name="T1" style:family="text"><style:text-properties fo:font-weight="bold"/></style:style>' +
+      '</office:automatic-styles>' +
+      '<office:body><office:text>' +
+      '<text:p text:style-name="P1">SAFE Agreement</text:p>' +
+      '<text:h text:outline-level="2">Parties</text:h>' +
+      '<text:p>Company:<text:s/><text:span text:style-name="T1">[COMPANY NAME]</text:span><text:note><text:note-body><text:p>Footnote</text:p></text:note-body></text:note></text:p>' +
+      '<table:table><table:table-row>' +
+      '<table:table-cell><text:p>Investor</text:p></table:table-cell>' +
+      '<table:table-cell><text:p>________</text:p></table:table-cell>' +
+      '</table:table-row></table:table>' +
+      '</office:text></office:body></office:document-content>');
+    fs.writeFileSync(file('agreement.odt'), await odt.generateAsync({ type: 'nodebuffer' }));
+
+    const pdf = await PDFDocument.create();
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const page = pdf.addPage();
+    page.drawText('Company: [COMPANY NAME]', { x: 50, y: 700, size: 12, font });
+    page.drawText('Date: ________', { x: 50, y: 680, size: 12, font });
+    // Classic cross-reference table: pdf-parse's pdf.js cannot read pdf-lib's object streams
+    fs.writeFileSync(file('agreement.pdf'), Buffer.from(await pdf.save({ useObjectStreams: false })));
+
+    fs.writeFileSync(file('agreement.rtf'),
+      '{\\rtf1\\ansi{\\fonttbl{\\f0 Helvetica;}}{\\*\\generator Test;}' +
+      '{\\header Confidential\\par}' +
+      '\\b Company:\\b0  [COMPANY NAME]\\par\n' +
+      'Date: ________\\par}');
+    fs.writeFileSync(file('agreement.txt'), '﻿Company: [COMPANY NAME]\r\nDate: ________\r\n');
+    fs.writeFileSync(file('agreement.md'), '# SAFE Agreement\n\nCompany: **[COMPANY NAME]**\n');
+    fs.writeFileSync(file('notes'), 'Plain text without an extension');
+    fs.writeFileSync(file('image.txt'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00]));
+    fs.writeFileSync(file('image.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00]));
+    fs.writeFileSync(file('broken.pdf'), '%PDF-1.4\nnot a pdf');
+    fs.writeFileSync(file('fake.pdf'), 'not a pdf');
+    fs.writeFileSync(file('fake.docx'), 'not a zip');
+    fs.writeFileSync(file('bom.rtf'), '\uFEFF{\\rtf1\\ansi Company: [COMPANY NAME]\\par}');
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(testFilesDir)) {
+      fs.readdirSync(testFilesDir).forEach(name => fs.unlinkSync(path.join(testFilesDir, name)));
+      fs.rmdirSync(testFilesDir);
+    }
+  });
+
+  describe('sniffFileType', () => {
+    it.each([
+      ['agreement.docx', 'docx'],
+      ['agreement.odt', 'odt'],
+      ['agreement.pdf', 'pdf'],
+      ['agreement.rtf', 'rtf'],
+      ['agreement.txt', 'txt'],
+      ['agreement.md', 'md'],
+    ])('should detect %s as %s', async (name, fileType) => {
+      expect(await sniffFileType(file(name))).toBe(fileType);
+    });
+
+    it('should detect files by content regardless of extension', async () => {
+      expect(await sniffFileType(file('agreement-docx.bin'))).toBe('docx');
+    });
+
+    it('should reject binary formats whose content does not match', async () => {
+      expect(await sniffFileType(file('fake.pdf'))).toBeNull();
+      expect(await sniffFileType(file('fake.docx'))).toBeNull();
+    });
+
+    it('should fall back to the extension for text formats', async () => {
+      expect(await sniffFileType(file('bom.rtf'))).toBe('rtf');
+    });
+
+    it('should treat text without an extension as plain text', async () => {
+      expect(await sniffFileType(file('notes'))).toBe('txt');
+    });
+
+    it('should reject binary files', async () => {
+      expect(await sniffFileType(file('image.txt'))).toBeNull();
+      expect(await sniffFileType(file('image.png'))).toBeNull();
+    });
+  });
+
+  describe('isSupportedUpload', () => {
+    it('should accept supported MIME types or extensions', () => {
+      expect(isSupportedUpload('contract.pdf', 'application/pdf')).toBe(true);
+      expect(isSupportedUpload('contract.rtf', 'application/octet-stream')).toBe(true);
+      expect(isSupportedUpload('contract', 'text/plain')).toBe(true);
+    });
+
+    it('should reject other files', () => {
+      expect(isSupportedUpload('photo.png', 'image/png')).toBe(false);
+    });
+  });
+
+  describe('extractText', () => {
+    it('should throw an error if file path is empty', async () => {
+      await expect(extractText('')).rejects.toThrow('File path is required');
+    });
+
+    it('should throw an error if file does not exist', async () => {
+      await expect(extractText(file('missing.pdf'))).rejects.toThrow('File does not exist');
+    });
+
+    it('should throw an error for unsupported files', async () => {
+      await expect(extractText(file('image.png'))).rejects.toThrow('Unsupported file type');
+    });
+
+    it('should wrap parser errors', async () => {
+      await expect(extractText(file('broken.pdf'))).rejects.toThrow(/^Failed to parse PDF file:/);
+    });
+
+    it.each(['agreement.docx', 'agreement.odt', 'agreement.rtf', 'agreement.txt', 'agreement.pdf'])(
+      'should extract text from %s',
+      async name => {
+        const text = await extractText(file(name));
+        expect(text).toContain('[COMPANY NAME]');
+      }
+    );
+
+    it('should keep markdown text verbatim apart from heading markers', async () => {
+      expect(await extractText(file('agreement.md'))).toBe('SAFE Agreement\n\nCompany: **[COMPANY NAME]**');
+    });
+  });
+
+  describe('parseStructure', () => {
+    it('should parse ODT headings, formatting and tables', async () => {
+      const structure = await parseStructure(file('agreement.odt'));
+      const [part] = structure.parts;
+
+      expect(part.name).toBe('content.xml');
+      expect(part.paragraphs.map(p => [p.text, p.style])).toEqual([
+        ['SAFE Agreement', 'Title'],
+        ['Parties', 'Heading2'],
+        ['Company: [COMPANY NAME]', undefined],
+        ['Investor', undefined],
+        ['________', undefined],
+      ]);
+      expect(part.paragraphs[2].runs[1]).toMatchObject({ text: '[COMPANY NAME]', start: 9, end: 23, bold: true });
+      expect(part.tables).toEqual([{ index: 0, rows: [[[3], [4]]] }]);
+      expect(part.paragraphs[4].table).toEqual({ tableIndex: 0, row: 0, cell: 1 });
+    });
+
+    it('should parse RTF paragraphs without headers or metadata', async () => {
+      const structure = await parseStructure(file('agreement.rtf'));
+
+      expect(structure.text).toBe('Company: [COMPANY NAME]\nDate: ________');
+      expect(structure.parts[0].paragraphs[0].runs[0]).toMatchObject({ text: 'Company:', bold: true });
+    });
+
+    it('should give markdown headings a heading style', async () => {
+      const structure = await parseStructure(file('agreement.md'));
+
+      expect(structure.parts[0].paragraphs[0]).toMatchObject({ text: 'SAFE Agreement', style: 'Heading1' });
+    });
+
+    it('should split PDF text into paragraphs by line', async () => {
+      const structure = await parseStructure(file('agreement.pdf'));
+
+      expect(structure.parts[0].paragraphs.map(p => p.text)).toEqual(
+        expect.arrayContaining(['Company: [COMPANY NAME]', 'Date: ________'])
+      );
+    });
+  });
+
+  describe('parseDocument', () => {
+    it('should return the file type, text and structure', async () => {
+      const parsed = await parseDocument(file('agreement.txt'));
+
+      expect(parsed.fileType).toBe('txt');
+      expect(parsed.text).toBe('Company: [COMPANY NAME]\nDate: ________');
+      expect(parsed.structure.parts[0].paragraphs).toHaveLength(3);
+    });
+  });
+
+  describe('parseRtf', () => {
+    it('should decode escapes, code page and unicode characters', () => {
+      const paragraphs = parseRtf('{\\rtf1\\ansi Caf\\\'e9 \\{x\\} \\u8364?5 \\ldblquote a\\rdblquote\\par}');
+
+      expect(paragraphs[0].runs.map(r => r.text).join('')).toBe('Café {x} €5 “a”');
+    });
+
+    it('should track formatting per group', () => {
+      const paragraphs = parseRtf('{\\rtf1 {\\i italic} plain {\\ul under}\\par}');
+
+      expect(paragraphs[0].runs).toEqual([
+        { text: 'italic', bold: false, italic: true, underline: false },
+        { text: ' plain ', bold: false, italic: false, underline: false },
+        { text: 'under', bold: false, italic: false, underline: true },
+      ]);
+    });
+
+    it('should separate table cells and end paragraphs at rows', () => {
+      const paragraphs = parseRtf('{\\rtf1 \\trowd Name\\cell ________\\cell\\row}');
+
+      expect(paragraphs[0].runs.map(r => r.text).join('')).toBe('Name\t________\t');
+    });
+  });
+});
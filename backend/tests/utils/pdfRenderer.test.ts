@@ -0,0 +1,96 @@
+import { renderPdf } from '../../src/utils/pdfRenderer';
+import { DocxParagraph, DocxStructure } from '../../src/utils/docxStructure';
+import { PageSizes, PDFDocument } from 'pdf-lib';
+
+function paragraph(index: number, text: string, extra: Partial<DocxParagraph> = {}): DocxParagraph {
+  return {
+    index,
+    text,
+    runs: [{ text, start: 0, end: text.length, bold: false, italic: false, underline: false }],
+    ...extra,
+  };
+}
+
+function structure(paragraphs: DocxParagraph[], extraParts: DocxStructure['parts'] = []): DocxStructure {
+  return {
+    parts: [{ name: 'word/document.xml', type: 'body', paragraphs, tables: [] }, ...extraParts],
+    text: paragraphs.map(p => p.text).join('\n'),
+  };
+}
+
+describe('pdfRenderer', () => {
+  it('should render a valid PDF with the requested page size', async () => {
+    const buffer = await renderPdf(structure([paragraph(0, 'SAFE Agreement', { style: 'Title' })]), {
+      pageSize: 'A4',
+    });
+
+    expect(buffer.subarray(0, 5).toString()).toBe('%PDF-');
+
+    const pdf = await PDFDocument.load(buffer);
+    const { width, height } = pdf.getPage(0).getSize();
+    expect([width, height]).toEqual(PageSizes.A4);
+  });
+
+  it('should default to Letter pages', async () => {
+    const pdf = await PDFDocument.load(await renderPdf(structure([paragraph(0, 'Text')])));
+    const { width, height } = pdf.getPage(0).getSize();
+
+    expect([width, height]).toEqual(PageSizes.Letter);
+  });
+
+  it('should embed document metadata', async () => {
+    const buffer = await renderPdf(structure([paragraph(0, 'Text')]), {
+      metadata: {
+        title: 'SAFE Agreement',
+        author: 'Jane Doe',
+        subject: 'SAFE Agreement',
+        keywords: ['SAFE Agreement'],
+      },
+    });
+    const pdf = await PDFDocument.load(buffer);
+
+    expect(pdf.getTitle()).toBe('SAFE Agreement');
+    expect(pdf.getAuthor()).toBe('Jane Doe');
+    expect(pdf.getSubject()).toBe('SAFE Agreement');
+    expect(pdf.getKeywords()).toBe('SAFE Agreement');
+  });
+
+  it('should add pages when content overflows', async () => {
+    const paragraphs = Array.from({ length: 80 }, (_, i) =>
+      paragraph(i, `Section ${i + 1}. The Company shall deliver the shares to the Investor on the closing date.`)
+    );
+    const pdf = await PDFDocument.load(await renderPdf(structure(paragraphs)));
+
+    expect(pdf.getPageCount()).toBeGreaterThan(1);
+  });
+
+  it('should wrap long words that do not fit on a line', async () => {
+    const pdf = await PDFDocument.load(await renderPdf(structure([paragraph(0, 'x'.repeat(2000))])));
+
+    expect(pdf.getPageCount()).toBe(1);
+  });
+
+  it('should render tables, headers, footers and a watermark', async () => {
+    const body = structure([
+      paragraph(0, 'Signatures'),
+      paragraph(1, 'Investor', { table: { tableIndex: 0, row: 0, cell: 0 } }),
+      paragraph(2, 'Jane Doe', { table: { tableIndex: 0, row: 0, cell: 1 } }),
+    ], [
+      { name: 'word/header1.xml', type: 'header', paragraphs: [paragraph(0, 'Confidential')], tables: [] },
+      { name: 'word/footer1.xml', type: 'footer', paragraphs: [paragraph(0, 'Acme Inc.')], tables: [] },
+    ]);
+    body.parts[0].tables = [{ index: 0, rows: [[[1], [2]]] }];
+
+    const pdf = await PDFDocument.load(await renderPdf(body, { watermark: 'DRAFT' }));
+
+    expect(pdf.getPageCount()).toBe(1);
+  });
+
+  it('should replace characters the standard fonts cannot encode', async () => {
+    const text = 'Société Générale “quoted” – 株式会社 😀';
+
+    await expect(renderPdf(structure([paragraph(0, text)]), {
+      metadata: { title: text },
+    })).resolves.toBeInstanceOf(Buffer);
+  });
+});
@@ -0,0 +1,180 @@
+import { detectPlaceholders, mergePlaceholders } from '../../src/utils/placeholderDetector';
+import { DetectionSource, PlaceholderFieldType } from '@smartdocs/common';
+
+describe('placeholderDetector', () => {
+  describe('detectPlaceholders', () => {
+    it('should return an empty array for empty text', () => {
+      expect(detectPlaceholders('')).toEqual([]);
+    });
+
+    it('should detect bracket, brace, angle and template variable placeholders', () => {
+      const text = 'Between [COMPANY NAME], {investor} and <Agent Name> for {{ city }} and $governing_law.';
+      const detected = detectPlaceholders(text);
+
+      expect(detected.map(p => p.originalText)).toEqual([
+        '[COMPANY NAME]',
+        '{investor}',
+        '<Agent Name>',
+        '{{ city }}',
+        '$governing_law',
+      ]);
+      expect(detected.map(p => p.fieldName)).toEqual([
+        'company_name',
+        'investor',
+        'agent_name',
+        'city',
+        'governing_law',
+      ]);
+      expect(detected.every(p => p.detectionSource === DetectionSource.PATTERN)).toBe(true);
+    });
+
+    it('should record offsets and positions in order of appearance', () => {
+      const detected = detectPlaceholders('Name: ____\nTitle: ____');
+
+      expect(detected.map(p => [p.offset, p.position])).toEqual([[6, 1], [18, 2]]);
+    });
+
+    it('should name blanks after their labels', () => {
+      const detected = detectPlaceholders('Investor Name: __________\nBy: __________\n__________');
+
+      expect(detected.map(p => p.fieldName)).toEqual(['investor_name', 'by', 'blank']);
+      expect(detected[0].suggestedQuestion).toBe('What is the investor name?');
+    });
+
+    it('should make repeated field names unique', () => {
+      const detected = detectPlaceholders('[NAME] and [NAME]');
+
+      expect(detected.map(p => p.fieldName)).toEqual(['name', 'name_2']);
+    });
+
+    it('should infer field types from nearby labels', () => {
+      const text = [
+        'Date: ________',
+        'Purchase Amount: $[_____________]',
+        'Email: ________',
+        'Address: ________',
+        'Number of shares: ________',
+        'is dated ________',
+        'Name: ________',
+      ].join('\n');
+
+      expect(detectPlaceholders(text).map(p => p.fieldType)).toEqual([
+        PlaceholderFieldType.DATE,
+        PlaceholderFieldType.CURRENCY,
+        PlaceholderFieldType.EMAIL,
+        PlaceholderFieldType.ADDRESS,
+        PlaceholderFieldType.NUMBER,
+        PlaceholderFieldType.DATE,
+        PlaceholderFieldType.TEXT,
+      ]);
+    });
+
+    it('should infer field types from the placeholder text itself', () => {
+      const detected = detectPlaceholders('On [EFFECTIVE DATE] the [Valuation Cap] applies');
+
+      expect(detected.map(p => p.fieldType)).toEqual([
+        PlaceholderFieldType.DATE,
+        PlaceholderFieldType.CURRENCY,
+      ]);
+    });
+
+    it('should not take type hints from a previous field on the same line', () => {
+      const detected = detectPlaceholders('Date: ________ Company Name: ________');
+
+      expect(detected[1].fieldType).toBe(PlaceholderFieldType.TEXT);
+    });
+
+    it('should ignore numeric and editorial references', () => {
+      expect(detectPlaceholders('See Section [1], clause [iv] and the quote [sic].')).toEqual([]);
+    });
+  });
+
+  describe('mergePlaceholders', () => {
+    it('should merge overlapping results and keep the LLM field details', () => {
+      const text = 'This SAFE is issued by [COMPANY NAME] on ________.';
+      const merged = mergePlaceholders(text, detectPlaceholders(text), [
+        {
+          fieldName: 'company_name',
+          fieldType: PlaceholderFieldType.TEXT,
+          originalText: '[COMPANY NAME]',
+          position: 1,
+          suggestedQuestion: 'What is the legal name of the company?',
+        },
+      ]);
+
+      expect(merged).toHaveLength(2);
+      expect(merged[0]).toMatchObject({
+        fieldName: 'company_name',
+        suggestedQuestion: 'What is the legal name of the company?',
+        detectionSource: DetectionSource.BOTH,
+        position: 1,
+      });
+      expect(merged[1]).toMatchObject({
+        originalText: '________',
+        detectionSource: DetectionSource.PATTERN,
+        position: 2,
+      });
+    });
+
+    it('should use the pattern field type when the LLM reports plain text', () => {
+      const text = 'Date: ________';
+      const merged = mergePlaceholders(text, detectPlaceholders(text), [
+        {
+          fieldName: 'signing_date',
+          fieldType: PlaceholderFieldType.TEXT,
+          originalText: '________',
+          position: 1,
+          suggestedQuestion: 'When is it signed?',
+        },
+      ]);
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0].fieldName).toBe('signing_date');
+      expect(merged[0].fieldType).toBe(PlaceholderFieldType.DATE);
+    });
+
+    it('should collapse pattern matches covered by a wider LLM match', () => {
+      const text = 'Between [FIRST] [LAST] and the Company';
+      const merged = mergePlaceholders(text, detectPlaceholders(text), [
+        {
+          fieldName: 'investor_full_name',
+          fieldType: PlaceholderFieldType.TEXT,
+          originalText: '[FIRST] [LAST]',
+          position: 1,
+          suggestedQuestion: 'What is the investor name?',
+        },
+      ]);
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0].fieldName).toBe('investor_full_name');
+      expect(merged[0].detectionSource).toBe(DetectionSource.BOTH);
+    });
+
+    it('should match repeated LLM texts to successive locations', () => {
+      const text = 'Name: ________\nTitle: ________';
+      const merged = mergePlaceholders(text, detectPlaceholders(text), [
+        { fieldName: 'signer_name', fieldType: PlaceholderFieldType.TEXT, originalText: '________', position: 1, suggestedQuestion: 'Name?' },
+        { fieldName: 'signer_title', fieldType: PlaceholderFieldType.TEXT, originalText: '________', position: 2, suggestedQuestion: 'Title?' },
+      ]);
+
+      expect(merged.map(p => [p.fieldName, p.detectionSource])).toEqual([
+        ['signer_name', DetectionSource.BOTH],
+        ['signer_title', DetectionSource.BOTH],
+      ]);
+    });
+
+    it('should keep LLM-only results in document order and append unlocated ones', () => {
+      const text = 'The Investor, Jane Doe, pays [AMOUNT].';
+      const merged = mergePlaceholders(text, detectPlaceholders(text), [
+        { fieldName: 'missing', fieldType: PlaceholderFieldType.TEXT, originalText: 'not in text', position: 1, suggestedQuestion: '?' },
+        { fieldName: 'investor_name', fieldType: PlaceholderFieldType.TEXT, originalText: 'Jane Doe', position: 2, suggestedQuestion: '?' },
+      ]);
+
+      expect(merged.map(p => [p.fieldName, p.detectionSource, p.position])).toEqual([
+        ['investor_name', DetectionSource.LLM, 1],
+        ['amount', DetectionSource.PATTERN, 2],
+        ['missing', DetectionSource.LLM, 3],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { fieldKey, linkOccurrences, normalizeFieldName } from '../../src/utils/placeholderGrouping';
+
+describe('placeholderGrouping', () => {
+  describe('normalizeFieldName', () => {
+    it('should ignore case, punctuation and repeat suffixes', () => {
+      expect(normalizeFieldName('Company Name')).toBe('company_name');
+      expect(normalizeFieldName('company_name_2')).toBe('company_name');
+      expect(normalizeFieldName('__Company-Name__')).toBe('company_name');
+    });
+  });
+
+  describe('fieldKey', () => {
+    it('should give the same key to repeated occurrences', () => {
+      expect(fieldKey('company_name', '[Company Name]')).toBe(fieldKey('company_name_3', '[Company Name]'));
+    });
+
+    it('should tell apart different wording', () => {
+      expect(fieldKey('company_name', '[Company Name]')).not.toBe(fieldKey('company_name', '[COMPANY]'));
+    });
+
+    it('should not group blanks without wording', () => {
+      expect(fieldKey('blank', '______')).toBeNull();
+      expect(fieldKey('date', '')).toBeNull();
+    });
+  });
+
+  describe('linkOccurrences', () => {
+    it('should link later occurrences to the first one', () => {
+      const links = linkOccurrences([
+        { id: 'ph-1', fieldName: 'company_name', originalText: '[Company Name]' },
+        { id: 'ph-2', fieldName: 'investor_name', originalText: '[Investor Name]' },
+        { id: 'ph-3', fieldName: 'company_name_2', originalText: '[Company Name]' },
+        { id: 'ph-4', fieldName: 'company_name_3', originalText: '[Company Name]' },
+      ]);
+
+      expect(Array.from(links.entries())).toEqual([
+        ['ph-3', 'ph-1'],
+        ['ph-4', 'ph-1'],
+      ]);
+    });
+
+    it('should leave separate blanks unlinked', () => {
+      const links = linkOccurrences([
+        { id: 'ph-1', fieldName: 'blank', originalText: '_____' },
+        { id: 'ph-2', fieldName: 'blank_2', originalText: '_____' },
+      ]);
+
+      expect(links.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { reconcilePlaceholders } from '../../src/utils/placeholderReconciler';
+
+describe('placeholderReconciler', () => {
+  const anchor = (paragraphIndex: number, start: number, end: number) => ({
+    part: 'word/document.xml',
+    paragraphIndex,
+    start,
+    end,
+  });
+
+  it('should match placeholders by overlapping anchors', () => {
+    const result = reconcilePlaceholders(
+      [{ id: 'ph-1', fieldName: 'company', originalText: '[COMPANY]', anchors: [anchor(0, 10, 19)] }],
+      [{ fieldName: 'company_name', originalText: 'Company: [COMPANY]', anchors: [anchor(0, 1, 19)] }]
+    );
+
+    expect(result.matches).toEqual(['ph-1']);
+    expect(result.unmatched).toEqual([]);
+  });
+
+  it('should not match anchors in different paragraphs', () => {
+    const result = reconcilePlaceholders(
+      [{ id: 'ph-1', fieldName: 'date', originalText: '____', anchors: [anchor(0, 0, 4)] }],
+      [{ fieldName: 'signing_date', originalText: '____', anchors: [anchor(5, 0, 4)] }]
+    );
+
+    expect(result.matches).toEqual([undefined]);
+    expect(result.unmatched).toEqual(['ph-1']);
+  });
+
+  it('should match by original text when anchors are missing', () => {
+    const result = reconcilePlaceholders(
+      [
+        { id: 'ph-1', fieldName: 'blank', originalText: '____', anchors: [] },
+        { id: 'ph-2', fieldName: 'blank_2', originalText: '____', anchors: [] },
+      ],
+      [
+        { fieldName: 'first', originalText: '____', anchors: [anchor(0, 0, 4)] },
+        { fieldName: 'second', originalText: '____', anchors: [anchor(1, 0, 4)] },
+      ]
+    );
+
+    expect(result.matches).toEqual(['ph-1', 'ph-2']);
+  });
+
+  it('should fall back to field names for placeholders that moved', () => {
+    const result = reconcilePlaceholders(
+      [
+        { id: 'ph-1', fieldName: 'investor_name', originalText: '[Investor]', anchors: [anchor(2, 0, 10)] },
+        { id: 'ph-2', fieldName: 'purchase_amount', originalText: '[$____]', anchors: [anchor(3, 0, 7)] },
+      ],
+      [
+        { fieldName: 'investor_name', originalText: '[INVESTOR NAME]', anchors: [anchor(4, 0, 15)] },
+        { fieldName: 'valuation_cap', originalText: '[CAP]', anchors: [anchor(5, 0, 5)] },
+      ]
+    );
+
+    expect(result.matches).toEqual(['ph-1', undefined]);
+    expect(result.unmatched).toEqual(['ph-2']);
+  });
+
+  it('should not pair unlabelled blanks by their generated names after they swap places', () => {
+    const result = reconcilePlaceholders(
+      [
+        { id: 'ph-1', fieldName: 'blank', originalText: '________', anchors: [anchor(2, 6, 14)] },
+        { id: 'ph-2', fieldName: 'blank_2', originalText: '________', anchors: [anchor(3, 7, 15)] },
+      ],
+      [
+        { fieldName: 'blank', originalText: '________', anchors: [anchor(4, 7, 15)] },
+        { fieldName: 'blank_2', originalText: '________', anchors: [anchor(6, 6, 14)] },
+      ]
+    );
+
+    expect(result.matches).toEqual([undefined, undefined]);
+    expect(result.unmatched).toEqual(['ph-1', 'ph-2']);
+  });
+
+  it('should only fall back to names used once on each side', () => {
+    const result = reconcilePlaceholders(
+      [
+        { id: 'ph-1', fieldName: 'signature', originalText: '[Sign]', anchors: [anchor(8, 0, 6)] },
+        { id: 'ph-2', fieldName: 'signature_2', originalText: '[Sign]', anchors: [anchor(9, 0, 6)] },
+        { id: 'ph-3', fieldName: 'Company Name', originalText: '[Company]', anchors: [anchor(1, 0, 9)] },
+      ],
+      [
+        { fieldName: 'signature', originalText: '[SIGNATURE]', anchors: [anchor(10, 0, 11)] },
+        { fieldName: 'company_name', originalText: '[COMPANY]', anchors: [anchor(2, 0, 9)] },
+      ]
+    );
+
+    expect(result.matches).toEqual([undefined, 'ph-3']);
+    expect(result.unmatched).toEqual(['ph-1', 'ph-2']);
+  });
+
+  it('should match each existing placeholder once, preferring current over stale ones', () => {
+    const result = reconcilePlaceholders(
+      [
+        { id: 'ph-stale', fieldName: 'company', originalText: '[COMPANY]', anchors: [], stale: true },
+        { id: 'ph-current', fieldName: 'company', originalText: '[COMPANY]', anchors: [] },
+      ],
+      [
+        { fieldName: 'company', originalText: '[COMPANY]', anchors: [] },
+        { fieldName: 'company', originalText: '[COMPANY]', anchors: [] },
+      ]
+    );
+
+    expect(result.matches).toEqual(['ph-current', 'ph-stale']);
+    expect(result.unmatched).toEqual([]);
+  });
+
+  it('should report every existing placeholder as unmatched when nothing is extracted', () => {
+    const result = reconcilePlaceholders(
+      [{ id: 'ph-1', fieldName: 'company', originalText: '[COMPANY]', anchors: [] }],
+      []
+    );
+
+    expect(result.matches).toEqual([]);
+    expect(result.unmatched).toEqual(['ph-1']);
+  });
+});
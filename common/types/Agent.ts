@@ -22,7 +22,8 @@ export enum TaskType {
   CALCULATE_HEALTH = 'calculate_health',
   DETECT_CONFLICTS = 'detect_conflicts',
   SEARCH_NL = 'search_nl',
-  LINK_DOCUMENTS = 'link_documents'
+  LINK_DOCUMENTS = 'link_documents',
+  ASSIST_CONVERSATION = 'assist_conversation'
 }
 
 export interface AIAgent {
@@ -35,6 +36,12 @@ export interface AIAgent {
   active: boolean;
 }
 
+// A model response that did not match the agent's output schema
+export interface OutputValidationFailure {
+  attempt: number;          // 1 for the first response, then one per repair
+  errors: string[];
+}
+
 export interface AITask {
   id: string;
   agentId: string;
@@ -42,8 +49,15 @@ export interface AITask {
   inputData: Record<string, any>;
   outputData?: Record<string, any>;
   status: TaskStatus;
-  tokensUsed?: number;
-  cost?: number;
+  userId?: string;          // User the task was run for
+  documentId?: string;      // Document the task was run on
+  model?: string;           // Model used, as configured when the task ran
+  promptTokens?: number;
+  completionTokens?: number;
+  tokensUsed?: number;      // Prompt and completion tokens of every call the task made
+  cost?: number;            // USD
+  validationErrors?: OutputValidationFailure[];  // Responses sent back for repair, and the last one if it still failed
+  cacheHit?: boolean;       // Output taken from the cache; no LLM calls were made
   createdAt: Date;
   completedAt?: Date;
   error?: string;
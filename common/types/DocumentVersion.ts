@@ -0,0 +1,77 @@
+import { DocumentStatus } from './Document';
+import { DetectionSource, PlaceholderAnchor, PlaceholderFieldType, ValidationStatus } from './Placeholder';
+
+export enum VersionChangeType {
+  UPLOAD = 'upload',
+  ANALYSIS = 'analysis',
+  EXTRACTION = 'extraction',
+  FILL = 'fill',
+  EDIT = 'edit',
+  COMPLETION = 'completion',
+  RESTORE = 'restore'
+}
+
+export interface PlaceholderSnapshot {
+  id: string;
+  fieldName: string;
+  fieldType: PlaceholderFieldType;
+  originalText: string;
+  position: number;
+  filledValue?: string;
+  filledBy?: string;
+  filledAt?: string;
+  validationStatus: ValidationStatus;
+  validationNotes?: string;
+  aiSuggestedValue?: string;
+  confidence?: number;
+  anchors?: PlaceholderAnchor[];
+  detectionSource?: DetectionSource;
+  stale?: boolean;
+  linkedTo?: string;
+  valueOverride?: boolean;
+}
+
+/**
+ * State of a document at one version
+ */
+export interface DocumentSnapshot {
+  status: DocumentStatus;
+  documentType?: string;
+  completionPercentage: number;
+  metadata: Record<string, any>;
+  placeholders: PlaceholderSnapshot[];
+}
+
+export interface DocumentVersion {
+  id: string;
+  documentId: string;
+  versionNumber: number;
+  changeType: VersionChangeType;
+  restoredFrom?: number;
+  createdBy?: string;
+  createdAt: Date;
+  snapshot: DocumentSnapshot;
+}
+
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface PlaceholderChange {
+  placeholderId: string;
+  fieldName: string;
+  changes: FieldChange[];
+}
+
+export interface DocumentVersionDiff {
+  fromVersion: number;
+  toVersion: number;
+  document: FieldChange[];
+  placeholders: {
+    added: PlaceholderSnapshot[];
+    removed: PlaceholderSnapshot[];
+    changed: PlaceholderChange[];
+  };
+}
@@ -13,6 +13,23 @@ export enum ValidationStatus {
   FLAGGED = 'flagged'
 }
 
+export enum DetectionSource {
+  PATTERN = 'pattern',
+  LLM = 'llm',
+  BOTH = 'both'
+}
+
+/**
+ * Exact location of a placeholder occurrence in the source document.
+ * Offsets are character positions within the paragraph text.
+ */
+export interface PlaceholderAnchor {
+  part: string;  // Package part, e.g. word/document.xml or word/header1.xml
+  paragraphIndex: number;
+  start: number;
+  end: number;
+}
+
 export interface Placeholder {
   id: string;
   documentId: string;
@@ -21,9 +38,16 @@ export interface Placeholder {
   originalText: string;
   position: number;
   filledValue?: string;
+  filledBy?: string;
+  filledAt?: Date;
   aiSuggestedValue?: string;
   suggestionSource?: string;
   confidence: number;
   validationStatus: ValidationStatus;
   validationNotes?: string;
+  anchors?: PlaceholderAnchor[];
+  detectionSource?: DetectionSource;
+  stale?: boolean;  // No longer found in the document by the latest extraction
+  linkedTo?: string;  // First occurrence of the same field; this occurrence follows its value
+  valueOverride?: boolean;  // Linked occurrence whose value differs on purpose
 }
@@ -1,4 +1,5 @@
 export * from './Document';
 export * from './Placeholder';
+export * from './DocumentVersion';
 export * from './Agent';
 export * from './User';
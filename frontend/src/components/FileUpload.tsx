@@ -1,4 +1,5 @@
 import { useState } from 'react'
+import { isSupportedUpload, SUPPORTED_UPLOAD_EXTENSIONS } from '../lib/api'
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void
@@ -18,8 +19,8 @@ function FileUpload({ onFileSelect, isUploading }: FileUploadProps) {
 
   const validateAndUpload = (file: File) => {
     // Validate file type
-    if (!file.name.endsWith('.docx')) {
-      alert('Please upload a .docx file')
+    if (!isSupportedUpload(file.name)) {
+      alert(`Please upload a ${SUPPORTED_UPLOAD_EXTENSIONS.join(', ')} file`)
       return
     }
 
@@ -73,7 +74,7 @@ function FileUpload({ onFileSelect, isUploading }: FileUploadProps) {
         <input
           // ref={fileInputRef} // Removed
           type="file"
-          accept=".docx"
+          accept={SUPPORTED_UPLOAD_EXTENSIONS.join(',')}
           onChange={handleFileChange}
           className="hidden"
           disabled={isUploading}
@@ -95,11 +96,11 @@ function FileUpload({ onFileSelect, isUploading }: FileUploadProps) {
 
           {/* Replaced Button with a div */}
           <div className="inline-block px-4 py-2 bg-black text-white rounded-md">
-            Select .docx File
+            Select File
           </div>
 
           <p className="text-xs text-gray-500">
-            Supported format: .docx • Max size: 10MB
+            Supported formats: {SUPPORTED_UPLOAD_EXTENSIONS.join(', ')} • Max size: 10MB
           </p>
         </div>
       </label>
@@ -1,13 +1,16 @@
-import { Message } from '../../lib/types'
+import { EntitySuggestion, Message } from '../../lib/types'
 import { clsx } from 'clsx'
 
 interface MessageBubbleProps {
   message: Message
+  streaming?: boolean  // Content is still arriving
+  onPickSuggestion?: (value: string) => void  // Show the message's suggestions as quick picks
 }
 
-function MessageBubble({ message }: MessageBubbleProps) {
+function MessageBubble({ message, streaming = false, onPickSuggestion }: MessageBubbleProps) {
   const isUser = message.role === 'user'
   const isSystem = message.role === 'system'
+  const suggestions: EntitySuggestion[] = message.metadata?.suggestions || []
 
   return (
     <div
@@ -42,13 +45,40 @@ function MessageBubble({ message }: MessageBubbleProps) {
             <span className="text-xs font-medium text-blue-600">System</span>
           </div>
         )}
-        <div className="text-sm whitespace-pre-wrap">{message.content}</div>
-        <div className={clsx(
-          'text-xs mt-2',
-          isUser ? 'text-primary-100' : 'text-gray-500'
-        )}>
-          {new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-        </div>
+        {streaming && !message.content ? (
+          <div className="text-sm text-gray-500">
+            Thinking<span className="animate-bounce-slow">...</span>
+          </div>
+        ) : (
+          <div className="text-sm whitespace-pre-wrap">
+            {message.content}
+            {streaming && <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />}
+          </div>
+        )}
+        {onPickSuggestion && suggestions.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {suggestions.map((suggestion) => (
+              <button
+                key={suggestion.entityValue}
+                type="button"
+                onClick={() => onPickSuggestion(suggestion.entityValue)}
+                title={`From ${suggestion.source} (${Math.round(suggestion.confidence * 100)}% confidence)`}
+                className="text-xs bg-white border border-gray-300 rounded-full px-3 py-1 hover:bg-gray-50 hover:border-gray-400"
+              >
+                {suggestion.entityValue}
+                <span className="ml-1 text-gray-400">{suggestion.source}</span>
+              </button>
+            ))}
+          </div>
+        )}
+        {!streaming && (
+          <div className={clsx(
+            'text-xs mt-2',
+            isUser ? 'text-primary-100' : 'text-gray-500'
+          )}>
+            {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </div>
+        )}
       </div>
     </div>
   )
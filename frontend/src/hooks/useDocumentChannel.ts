@@ -0,0 +1,120 @@
+import { useQueryClient } from '@tanstack/react-query'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { documentsAPI, setLiveSession } from '../lib/api'
+import type { Collaborator, FieldLock, LiveDocumentMessage, PresenceEntry } from '../lib/types'
+
+// The server drops a lock that is not renewed within its TTL (90 s by default)
+const LOCK_RENEW_MS = 30000
+const RECONNECT_MS = 3000
+
+interface DocumentChannelOptions {
+  onLockDenied?: (lock: FieldLock) => void
+}
+
+/**
+ * Follow a document live: refresh it when anyone changes it, see who else has
+ * it open, and lock the field being edited so nobody overwrites it meanwhile
+ */
+export function useDocumentChannel(documentId: string | undefined, options: DocumentChannelOptions = {}) {
+  const queryClient = useQueryClient()
+  const socketRef = useRef<WebSocket | null>(null)
+  const heldRef = useRef<string | null>(null)
+  const onLockDeniedRef = useRef(options.onLockDenied)
+  onLockDeniedRef.current = options.onLockDenied
+
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [presence, setPresence] = useState<PresenceEntry[]>([])
+  const [locks, setLocks] = useState<FieldLock[]>([])
+
+  const send = useCallback((request: { type: 'lock' | 'unlock'; placeholderId: string }) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify(request))
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!documentId) return
+    let closed = false
+    let retry: ReturnType<typeof setTimeout> | undefined
+
+    const connect = () => {
+      const socket = new WebSocket(documentsAPI.liveUrl(documentId))
+      socketRef.current = socket
+
+      socket.onmessage = (event) => {
+        const message: LiveDocumentMessage = JSON.parse(event.data)
+        switch (message.type) {
+          case 'welcome':
+            setSessionId(message.sessionId)
+            setLiveSession(message.sessionId)
+            setPresence(message.presence)
+            setLocks(message.locks)
+            // Take the field back after reconnecting
+            if (heldRef.current) send({ type: 'lock', placeholderId: heldRef.current })
+            break
+          case 'presence':
+            setPresence(message.presence)
+            break
+          case 'locks':
+            setLocks(message.locks)
+            break
+          case 'lock_denied':
+            if (heldRef.current === message.placeholderId) heldRef.current = null
+            onLockDeniedRef.current?.(message.lock)
+            break
+          case 'document_changed':
+            queryClient.invalidateQueries({ queryKey: ['document', documentId] })
+            queryClient.invalidateQueries({ queryKey: ['placeholders', documentId] })
+            break
+        }
+      }
+
+      socket.onclose = () => {
+        socketRef.current = null
+        setSessionId(null)
+        setLiveSession(null)
+        if (!closed) retry = setTimeout(connect, RECONNECT_MS)
+      }
+    }
+
+    connect()
+
+    return () => {
+      closed = true
+      clearTimeout(retry)
+      socketRef.current?.close()
+      setLiveSession(null)
+    }
+  }, [documentId, queryClient, send])
+
+  // Keep the held lock alive
+  useEffect(() => {
+    const timer = setInterval(() => {
+      if (heldRef.current) send({ type: 'lock', placeholderId: heldRef.current })
+    }, LOCK_RENEW_MS)
+    return () => clearInterval(timer)
+  }, [send])
+
+  const lockField = useCallback((placeholderId: string) => {
+    heldRef.current = placeholderId
+    send({ type: 'lock', placeholderId })
+  }, [send])
+
+  const unlockField = useCallback(() => {
+    if (!heldRef.current) return
+    send({ type: 'unlock', placeholderId: heldRef.current })
+    heldRef.current = null
+  }, [send])
+
+  // Who else is editing a field, ignoring locks that have lapsed
+  const lockedBy = (placeholderId: string): Collaborator | undefined =>
+    locks.find(l =>
+      l.placeholderId === placeholderId &&
+      l.sessionId !== sessionId &&
+      new Date(l.expiresAt).getTime() > Date.now()
+    )?.user
+
+  const others = presence.filter(p => p.sessionId !== sessionId)
+
+  return { connected: sessionId !== null, others, lockedBy, lockField, unlockField }
+}
@@ -4,23 +4,39 @@ import type {
   ApiResponse,
   AuthResponse,
   Conversation,
+  ConversationAction,
+  ConversationHistory,
+  ConversationStreamEvent,
   DataRoomDocument,
   Document,
   DocumentStats,
+  EntitySuggestion,
+  ExtractionResult,
   LoginRequest,
   Message,
   Placeholder,
+  PlaceholderUpdate,
   RegisterRequest,
+  ReviewField,
 } from './types'
 
+const API_BASE_URL = import.meta.env.VITE_API_URL || '/api'
+
 // Create axios instance with base configuration
 const api = axios.create({
-  baseURL: import.meta.env.VITE_API_URL || '/api',
+  baseURL: API_BASE_URL,
   headers: {
     'Content-Type': 'application/json',
   },
 })
 
+// Session on the live document channel, sent so the server knows which field locks are ours
+let liveSession: string | null = null
+
+export const setLiveSession = (sessionId: string | null) => {
+  liveSession = sessionId
+}
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
   (config) => {
@@ -28,6 +44,9 @@ api.interceptors.request.use(
     if (token) {
       config.headers.Authorization = `Bearer ${token}`
     }
+    if (liveSession) {
+      config.headers['X-Live-Session'] = liveSession
+    }
     return config
   },
   (error) => {
@@ -35,22 +54,36 @@ api.interceptors.request.use(
   }
 )
 
+// Clear auth state and redirect to login
+const signOut = () => {
+  localStorage.removeItem('token')
+  localStorage.removeItem('user')
+  window.location.href = '/login'
+}
+
 // Response interceptor for error handling
 api.interceptors.response.use(
   (response) => response,
   (error: AxiosError<ApiError>) => {
     if (error.response?.status === 401) {
-      // Clear auth state and redirect to login
-      localStorage.removeItem('token')
-      localStorage.removeItem('user')
-      window.location.href = '/login'
+      signOut()
     }
     return Promise.reject(error)
   }
 )
 
+// Error reported by a streaming endpoint, which does not go through axios
+class StreamError extends Error {
+  constructor(public readonly apiError: ApiError) {
+    super(apiError.message)
+  }
+}
+
 // Helper function to handle API errors
 export const handleApiError = (error: unknown): ApiError => {
+  if (error instanceof StreamError) {
+    return error.apiError
+  }
   if (axios.isAxiosError(error)) {
     const axiosError = error as AxiosError<ApiError>
     if (axiosError.response?.data) {
@@ -80,6 +113,12 @@ export const authAPI = {
   },
 }
 
+// File types the backend can parse, for upload inputs
+export const SUPPORTED_UPLOAD_EXTENSIONS = ['.docx', '.pdf', '.odt', '.rtf', '.txt', '.md']
+
+export const isSupportedUpload = (fileName: string): boolean =>
+  SUPPORTED_UPLOAD_EXTENSIONS.some((ext) => fileName.toLowerCase().endsWith(ext))
+
 // Documents API
 export const documentsAPI = {
   getAll: async (): Promise<Document[]> => {
@@ -111,9 +150,10 @@ export const documentsAPI = {
     return data.data
   },
 
-  extractPlaceholders: async (id: string): Promise<Placeholder[]> => {
-    const { data } = await api.post<ApiResponse<Placeholder[]>>(`/documents/${id}/placeholders`)
-    return data.data || []
+  extractPlaceholders: async (id: string): Promise<ExtractionResult> => {
+    const { data } = await api.post<ApiResponse<ExtractionResult>>(`/documents/${id}/placeholders`)
+    if (!data.data) throw new Error('Extraction failed')
+    return data.data
   },
 
   getPlaceholders: async (documentId: string): Promise<Placeholder[]> => {
@@ -121,13 +161,64 @@ export const documentsAPI = {
     return data.data || []
   },
 
-  updatePlaceholder: async (documentId: string, placeholderId: string, value: string): Promise<Placeholder> => {
-    const { data } = await api.patch<ApiResponse<Placeholder>>(
+  download: async (id: string): Promise<Blob> => {
+    const { data } = await api.get<Blob>(`/documents/${id}/download`, {
+      responseType: 'blob',
+    })
+    return data
+  },
+
+  exportDocument: async (
+    id: string,
+    format: 'pdf' | 'redline',
+    pageSize?: 'A4' | 'Letter' | 'Legal'
+  ): Promise<Blob> => {
+    const { data } = await api.get<Blob>(`/documents/${id}/export`, {
+      params: { format, pageSize },
+      responseType: 'blob',
+    })
+    return data
+  },
+
+  // WebSocket address of the document's live channel
+  liveUrl: (id: string): string => {
+    const url = new URL(`${API_BASE_URL}/documents/${id}/live`, window.location.href)
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:'
+    url.searchParams.set('token', localStorage.getItem('token') || '')
+    return url.toString()
+  },
+
+  downloadAuditTranscript: async (id: string, format: 'markdown' | 'json'): Promise<Blob> => {
+    const { data } = await api.get<Blob>(`/documents/${id}/audit-transcript`, {
+      params: { format },
+      responseType: 'blob',
+    })
+    return data
+  },
+
+  updatePlaceholder: async (documentId: string, placeholderId: string, value: string | null): Promise<Placeholder> => {
+    const { data } = await api.patch<ApiResponse<{ placeholder: Placeholder }>>(
       `/documents/${documentId}/placeholders/${placeholderId}`,
       { value }
     )
     if (!data.data) throw new Error('Update failed')
-    return data.data
+    return data.data.placeholder
+  },
+
+  updatePlaceholders: async (documentId: string, updates: PlaceholderUpdate[]): Promise<Placeholder[]> => {
+    const { data } = await api.patch<ApiResponse<{ placeholders: Placeholder[] }>>(
+      `/documents/${documentId}/placeholders`,
+      { updates }
+    )
+    if (!data.data) throw new Error('Update failed')
+    return data.data.placeholders
+  },
+
+  getPlaceholderSuggestions: async (documentId: string, placeholderId: string): Promise<EntitySuggestion[]> => {
+    const { data } = await api.get<ApiResponse<{ suggestions: EntitySuggestion[] }>>(
+      `/documents/${documentId}/placeholders/${placeholderId}/suggestions`
+    )
+    return data.data?.suggestions || []
   },
 }
 
@@ -142,10 +233,11 @@ export const conversationsAPI = {
     }
   },
 
-  getById: async (id: string): Promise<Conversation> => {
-    const { data } = await api.get<ApiResponse<Conversation>>(`/conversations/${id}`)
-    if (!data.data) throw new Error('Conversation not found')
-    return data.data
+  list: async (documentId: string): Promise<Conversation[]> => {
+    const { data } = await api.get<ApiResponse<{ conversations: Conversation[] }>>('/conversations', {
+      params: { documentId },
+    })
+    return data.data?.conversations || []
   },
 
   sendMessage: async (conversationId: string, content: string): Promise<Message> => {
@@ -156,11 +248,104 @@ export const conversationsAPI = {
     return data.data.response
   },
 
+  // Send a message and follow the reply as it streams; resolves with the saved reply
+  streamMessage: async (
+    conversationId: string,
+    content: string,
+    onEvent: (event: ConversationStreamEvent) => void
+  ): Promise<Message> => {
+    const token = localStorage.getItem('token')
+    const response = await fetch(`${API_BASE_URL}/conversations/${conversationId}/message/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(liveSession ? { 'X-Live-Session': liveSession } : {}),
+      },
+      body: JSON.stringify({ message: content }),
+    })
+
+    if (response.status === 401) {
+      signOut()
+    }
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null)
+      throw new StreamError(body?.error || { code: 'NETWORK_ERROR', message: response.statusText || 'Network error occurred' })
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+    let buffer = ''
+
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) break
+      buffer += value
+
+      // Events are separated by a blank line
+      let boundary: number
+      while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+        const block = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary + 2)
+
+        const type = block.match(/^event: (.*)$/m)?.[1]
+        const data = JSON.parse(block.match(/^data: (.*)$/m)?.[1] || '{}')
+
+        if (type === 'message') return data.response
+        if (type === 'error') throw new StreamError(data)
+        onEvent({ type, ...data } as ConversationStreamEvent)
+      }
+    }
+
+    throw new StreamError({ code: 'NETWORK_ERROR', message: 'The response ended unexpectedly' })
+  },
+
+  performAction: async (conversationId: string, action: ConversationAction): Promise<Message> => {
+    const { data } = await api.post<ApiResponse<{ response: Message }>>(`/conversations/${conversationId}/actions`, action)
+    if (!data.data?.response) throw new Error('Failed to perform action')
+    return data.data.response
+  },
+
+  pause: async (conversationId: string): Promise<Conversation> => {
+    const { data } = await api.post<ApiResponse<{ conversation: Conversation }>>(`/conversations/${conversationId}/pause`)
+    if (!data.data) throw new Error('Failed to pause conversation')
+    return data.data.conversation
+  },
+
+  // Resume a paused conversation; the message asks again for the field it was on
+  resume: async (conversationId: string): Promise<{ conversation: Conversation; message: Message }> => {
+    const { data } = await api.post<ApiResponse<{ conversation: Conversation; message: Message }>>(`/conversations/${conversationId}/resume`)
+    if (!data.data) throw new Error('Failed to resume conversation')
+    return data.data
+  },
+
+  abandon: async (conversationId: string): Promise<void> => {
+    await api.post(`/conversations/${conversationId}/abandon`)
+  },
+
+  getReview: async (conversationId: string): Promise<ReviewField[]> => {
+    const { data } = await api.get<ApiResponse<{ fields: ReviewField[] }>>(`/conversations/${conversationId}/review`)
+    return data.data?.fields || []
+  },
+
+  getHistory: async (conversationId: string, page: { limit?: number; offset?: number } = {}): Promise<ConversationHistory> => {
+    const { data } = await api.get<ApiResponse<ConversationHistory>>(`/conversations/${conversationId}/history`, {
+      params: page,
+    })
+    if (!data.data) throw new Error('Conversation not found')
+    return data.data
+  },
+
+  // Full transcript, fetched page by page
   getMessages: async (conversationId: string): Promise<Message[]> => {
-    await api.get<ApiResponse<{ history: Conversation }>>(`/conversations/${conversationId}/history`)
-    // Since messages aren't stored separately, we return an empty array
-    // Messages will be managed in component state
-    return []
+    const messages: Message[] = []
+    let hasMore = true
+    while (hasMore) {
+      const history = await conversationsAPI.getHistory(conversationId, { limit: 200, offset: messages.length })
+      messages.push(...history.messages)
+      hasMore = history.pagination.hasMore && history.messages.length > 0
+    }
+    return messages
   },
 }
 
@@ -93,27 +93,134 @@ export interface Placeholder {
   position: number
   isRequired: boolean
   isCompleted: boolean
+  linkedTo?: string  // First occurrence of the same field, whose value this one follows
+  valueOverride?: boolean  // Linked occurrence given a different value on purpose
   createdAt: string
   updatedAt: string
 }
 
+// A direct placeholder edit; omitted fields are left unchanged
+// Value from the data room that could fill a placeholder
+export interface EntitySuggestion {
+  entityValue: string
+  entityType?: string
+  confidence: number
+  source: string
+  sourceDocumentId?: string
+  usageCount: number
+  lastUsed: string
+}
+
+export interface PlaceholderUpdate {
+  id: string
+  value?: string | null
+  fieldType?: PlaceholderType
+  fieldName?: string
+  acceptSuggestion?: boolean
+  override?: boolean  // Repeated occurrences only; false follows the field again
+}
+
+// Field names added, removed (marked stale) and kept by a re-extraction
+export interface ExtractionSummary {
+  added: string[]
+  removed: string[]
+  kept: string[]
+}
+
+export interface ExtractionResult {
+  placeholders: Placeholder[]
+  summary: ExtractionSummary
+}
+
 // Conversation types
 export interface Message {
   id: string
   conversationId: string
   role: 'user' | 'assistant' | 'system'
   content: string
-  createdAt: string
+  placeholderId?: string
+  timestamp: string
+  metadata?: Record<string, any>
 }
 
 export interface Conversation {
   id: string
   documentId: string
   userId: string
-  status: 'active' | 'completed' | 'abandoned'
-  messages: Message[]
-  createdAt: string
+  status: 'active' | 'paused' | 'completed' | 'abandoned'
+  currentPlaceholder?: string
+  metadata: Record<string, any>
+  startedAt: string
   updatedAt: string
+  completedAt?: string
+}
+
+export interface ConversationHistory {
+  conversation: Conversation
+  messages: Message[]
+  pagination: {
+    total: number
+    limit: number
+    offset: number
+    hasMore: boolean
+  }
+}
+
+// Events streamed while a message is handled
+export type ConversationStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'value_captured'; placeholderId: string; fieldName: string; value: string }
+  | { type: 'validation_failed'; placeholderId: string; fieldName: string; value: string; notes?: string }
+  | { type: 'field_advanced'; placeholderId: string; fieldName: string; fieldType: string }
+
+// Live document channel
+export interface Collaborator {
+  id: string
+  name: string
+  email: string
+}
+
+export interface PresenceEntry {
+  sessionId: string
+  user: Collaborator
+  joinedAt: string
+}
+
+export interface FieldLock {
+  placeholderId: string
+  sessionId: string
+  user: Collaborator
+  expiresAt: string
+}
+
+export type LiveDocumentMessage =
+  | { type: 'welcome'; sessionId: string; presence: PresenceEntry[]; locks: FieldLock[] }
+  | { type: 'presence'; presence: PresenceEntry[] }
+  | { type: 'locks'; locks: FieldLock[] }
+  | { type: 'lock_denied'; placeholderId: string; lock: FieldLock }
+  | {
+    type: 'document_changed'
+    changeType: string
+    versionNumber: number
+    changedBy?: string
+    status: string
+    completionPercentage: number
+    placeholders: Array<{ id: string; fieldName: string; filledValue?: string }>
+  }
+  | { type: 'error'; code: string; message: string }
+
+export type ConversationAction =
+  | { action: 'skip' | 'back' | 'review' }
+  | { action: 'goto'; field: string }
+  | { action: 'change'; field: string; value: string }
+
+export interface ReviewField {
+  placeholderId: string
+  fieldName: string
+  fieldType: string
+  value?: string
+  status: 'filled' | 'skipped' | 'flagged' | 'pending'
+  current: boolean
 }
 
 // Data room types
@@ -7,6 +7,7 @@ import Card from '../components/ui/Card'
 import Input from '../components/ui/Input'
 import Spinner from '../components/ui/Spinner'
 import { toast } from '../components/ui/Toast'
+import { useDocumentChannel } from '../hooks/useDocumentChannel'
 import { conversationsAPI, documentsAPI, handleApiError } from '../lib/api'
 import { Message } from '../lib/types'
 
@@ -17,23 +18,51 @@ function Conversation() {
   const [message, setMessage] = useState('')
   const [conversationId, setConversationId] = useState<string | null>(null)
   const [messages, setMessages] = useState<Message[]>([])
+  const [streamingReply, setStreamingReply] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
-  // Get document details
+  // Get document details; the live channel refreshes them when anyone fills a field
   const { data: document, isLoading: docLoading } = useQuery({
     queryKey: ['document', documentId],
     queryFn: () => documentsAPI.getById(documentId!),
     enabled: !!documentId,
-    refetchInterval: 2000, // Refetch every 2 seconds to update completion percentage
   })
 
-  // Start or get existing conversation
+  const live = useDocumentChannel(documentId, {
+    onLockDenied: (lock) => toast.warning(`${lock.user.name} is editing this field right now.`),
+  })
+
+  // The field being asked about is locked for everyone else while we answer
+  const currentField = [...messages].reverse().find(m => m.role === 'assistant')?.placeholderId
+  const { lockField, unlockField } = live
+  useEffect(() => {
+    if (currentField) {
+      lockField(currentField)
+    } else {
+      unlockField()
+    }
+  }, [currentField, lockField, unlockField])
+  const currentFieldEditor = currentField ? live.lockedBy(currentField) : undefined
+
+  // Pick up the document's open conversation where it left off, or start a new one
   const startConversationMutation = useMutation({
-    mutationFn: (docId: string) => conversationsAPI.start(docId),
+    mutationFn: async (docId: string) => {
+      const conversations = await conversationsAPI.list(docId)
+      const open = conversations.find(c => c.status === 'active' || c.status === 'paused')
+      if (open) {
+        const messages = await conversationsAPI.getMessages(open.id)
+        if (open.status === 'paused') {
+          const resumed = await conversationsAPI.resume(open.id)
+          messages.push(resumed.message)
+        }
+        return { id: open.id, messages }
+      }
+      const started = await conversationsAPI.start(docId)
+      return { id: started.id, messages: [started.initialMessage] }
+    },
     onSuccess: (data) => {
       setConversationId(data.id)
-      // Add the initial message from the AI
-      setMessages([data.initialMessage])
+      setMessages(data.messages)
     },
     onError: (error) => {
       const apiError = handleApiError(error)
@@ -41,35 +70,60 @@ function Conversation() {
     },
   })
 
-  // Send message
+  // Send message, showing the reply as it streams in
   const sendMessageMutation = useMutation({
-    mutationFn: (content: string) => conversationsAPI.sendMessage(conversationId!, content),
+    mutationFn: async (content: string) => {
+      const stream = () => conversationsAPI.streamMessage(conversationId!, content, (event) => {
+        if (event.type === 'delta') {
+          setStreamingReply(prev => (prev || '') + event.text)
+        } else if (event.type === 'value_captured') {
+          queryClient.invalidateQueries({ queryKey: ['document', documentId] })
+        }
+      })
+
+      try {
+        return await stream()
+      } catch (error) {
+        if (handleApiError(error).code !== 'CONVERSATION_PAUSED') throw error
+        // Paused after sitting idle: resume, keeping the new message last, and send again
+        const resumed = await conversationsAPI.resume(conversationId!)
+        setMessages(prev => [...prev.slice(0, -1), resumed.message, ...prev.slice(-1)])
+        return stream()
+      }
+    },
+    onMutate: (content) => {
+      const userMessage: Message = {
+        id: Date.now().toString(),
+        conversationId: conversationId!,
+        role: 'user',
+        content,
+        timestamp: new Date().toISOString(),
+      }
+      setMessages(prev => [...prev, userMessage])
+      setStreamingReply('')
+      setMessage('')
+      return { userMessage }
+    },
     onSuccess: (response) => {
-      // Add user message and AI response to messages
-      setMessages(prev => [
-        ...prev,
-        {
-          id: Date.now().toString(),
-          conversationId: conversationId!,
-          role: 'user',
-          content: message,
-          createdAt: new Date().toISOString(),
-        },
-        response
-      ])
+      // The saved reply replaces the streamed text
+      setMessages(prev => [...prev, response])
       queryClient.invalidateQueries({ queryKey: ['document', documentId] })
-      setMessage('')
     },
-    onError: (error) => {
+    onError: (error, content, context) => {
+      setMessages(prev => prev.filter(m => m.id !== context?.userMessage.id))
+      setMessage(content)
       const apiError = handleApiError(error)
       toast.error(`Failed to send message: ${apiError.message}`)
     },
+    onSettled: () => {
+      setStreamingReply(null)
+    },
   })
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages])
+  }, [messages, streamingReply])
 
   // Start conversation on mount
   useEffect(() => {
@@ -89,6 +143,39 @@ function Conversation() {
     navigate(`/documents/${documentId}`)
   }
 
+  // Leave for now; the document page offers to resume
+  const pauseMutation = useMutation({
+    mutationFn: () => conversationsAPI.pause(conversationId!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['conversations', documentId] })
+      navigate(`/documents/${documentId}`)
+    },
+    onError: (error) => {
+      const apiError = handleApiError(error)
+      toast.error(`Failed to pause conversation: ${apiError.message}`)
+    },
+  })
+
+  // Give up on this conversation; values filled so far are kept
+  const abandonMutation = useMutation({
+    mutationFn: () => conversationsAPI.abandon(conversationId!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['conversations', documentId] })
+      queryClient.invalidateQueries({ queryKey: ['document', documentId] })
+      navigate(`/documents/${documentId}`)
+    },
+    onError: (error) => {
+      const apiError = handleApiError(error)
+      toast.error(`Failed to abandon conversation: ${apiError.message}`)
+    },
+  })
+
+  const handleAbandonConversation = () => {
+    if (window.confirm('Abandon this conversation? Values filled so far are kept, but the conversation cannot be resumed.')) {
+      abandonMutation.mutate()
+    }
+  }
+
   if (docLoading) {
     return (
       <div className="flex justify-center items-center min-h-[400px]">
@@ -120,6 +207,26 @@ function Conversation() {
         <Button variant="outline" onClick={() => navigate(`/documents/${documentId}`)}>
           ← Back to Document
         </Button>
+        {conversationId && completionPercentage < 100 && (
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => pauseMutation.mutate()}
+              isLoading={pauseMutation.isPending}
+              disabled={sendMessageMutation.isPending}
+            >
+              <span>⏸️</span> Pause
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleAbandonConversation}
+              isLoading={abandonMutation.isPending}
+              disabled={sendMessageMutation.isPending}
+            >
+              Abandon
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Document Info Card */}
@@ -131,6 +238,11 @@ function Conversation() {
               Fill Document with AI Assistant
             </h1>
             <p className="text-gray-600 mt-1">{document.filename}</p>
+            {live.others.length > 0 && (
+              <p className="text-sm text-gray-500 mt-1">
+                👥 Also here: {Array.from(new Set(live.others.map(p => p.user.name))).join(', ')}
+              </p>
+            )}
           </div>
           <div className="text-right">
             <div className="text-3xl font-bold text-gray-900">{completionPercentage}%</div>
@@ -162,17 +274,26 @@ function Conversation() {
             <>
               {messages.map((msg, index) => (
                 <div key={msg.id} className={`animate-fade-in-delay-${Math.min(index + 1, 5)}`}>
-                  <MessageBubble message={msg} />
+                  <MessageBubble
+                    message={msg}
+                    onPickSuggestion={index === messages.length - 1 && !sendMessageMutation.isPending
+                      ? (value) => sendMessageMutation.mutate(value)
+                      : undefined}
+                  />
                 </div>
               ))}
-              {sendMessageMutation.isPending && (
-                <div className="flex justify-end animate-fade-in">
-                  <div className="bg-gray-900 text-white rounded-lg px-4 py-3 max-w-[80%]">
-                    <div className="flex items-center space-x-2">
-                      <span className="text-sm">🤖 AI is thinking</span>
-                      <span className="animate-bounce-slow">...</span>
-                    </div>
-                  </div>
+              {streamingReply !== null && (
+                <div className="animate-fade-in">
+                  <MessageBubble
+                    streaming
+                    message={{
+                      id: 'streaming',
+                      conversationId: conversationId!,
+                      role: 'assistant',
+                      content: streamingReply,
+                      timestamp: new Date().toISOString(),
+                    }}
+                  />
                 </div>
               )}
               <div ref={messagesEndRef} />
@@ -190,6 +311,11 @@ function Conversation() {
 
         {/* Input Area */}
         <div className="border-t border-gray-200 p-4">
+          {currentFieldEditor && (
+            <p className="mb-2 text-sm text-gray-600">
+              🔒 {currentFieldEditor.name} is editing this field right now; answers for it will not be saved until they finish.
+            </p>
+          )}
           <form onSubmit={handleSendMessage} className="flex space-x-2">
             <Input
               value={message}
@@ -4,7 +4,7 @@ import Button from '../components/ui/Button'
 import Card from '../components/ui/Card'
 import Spinner from '../components/ui/Spinner'
 import { toast } from '../components/ui/Toast'
-import { dataRoomAPI, handleApiError } from '../lib/api'
+import { dataRoomAPI, handleApiError, isSupportedUpload, SUPPORTED_UPLOAD_EXTENSIONS } from '../lib/api'
 
 function DataRoom() {
   const queryClient = useQueryClient()
@@ -59,8 +59,8 @@ function DataRoom() {
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
-      if (file.type !== 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-        toast.error('Please select a .docx file')
+      if (!isSupportedUpload(file.name)) {
+        toast.error(`Please select a ${SUPPORTED_UPLOAD_EXTENSIONS.join(', ')} file`)
         return
       }
       if (file.size > 10 * 1024 * 1024) {
@@ -111,7 +111,7 @@ function DataRoom() {
         <div className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Select Document (.docx)
+              Select Document ({SUPPORTED_UPLOAD_EXTENSIONS.join(', ')})
             </label>
             <div className="flex items-center space-x-4">
               <label className="cursor-pointer inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-primary-500">
@@ -122,7 +122,7 @@ function DataRoom() {
                 <input
                   type="file"
                   className="sr-only"
-                  accept=".docx"
+                  accept={SUPPORTED_UPLOAD_EXTENSIONS.join(',')}
                   onChange={handleFileSelect}
                 />
               </label>
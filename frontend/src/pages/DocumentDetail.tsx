@@ -4,7 +4,8 @@ import { useNavigate, useParams } from 'react-router-dom'
 import Button from '../components/ui/Button'
 import Card from '../components/ui/Card'
 import Input from '../components/ui/Input'
-import { documentsAPI, handleApiError } from '../lib/api'
+import { useDocumentChannel } from '../hooks/useDocumentChannel'
+import { conversationsAPI, documentsAPI, handleApiError } from '../lib/api'
 
 function DocumentDetail() {
   const { id } = useParams<{ id: string }>()
@@ -13,6 +14,14 @@ function DocumentDetail() {
   const [editingPlaceholder, setEditingPlaceholder] = useState<string | null>(null)
   const [placeholderValues, setPlaceholderValues] = useState<Record<string, string>>({})
 
+  // Changes by others arrive live; the field being edited is locked for everyone else
+  const live = useDocumentChannel(id, {
+    onLockDenied: (lock) => {
+      setEditingPlaceholder(null)
+      alert(`${lock.user.name} is editing this field right now.`)
+    },
+  })
+
   const { data: docData, isLoading: docLoading } = useQuery({
     queryKey: ['document', id],
     queryFn: () => documentsAPI.getById(id!),
@@ -33,6 +42,14 @@ function DocumentDetail() {
     enabled: !!id,
   })
 
+  // An unfinished conversation is picked up rather than started again
+  const { data: conversations } = useQuery({
+    queryKey: ['conversations', id],
+    queryFn: () => conversationsAPI.list(id!),
+    enabled: !!id,
+  })
+  const openConversation = conversations?.find(c => c.status === 'active' || c.status === 'paused')
+
   const extractMutation = useMutation({
     mutationFn: (documentId: string) => documentsAPI.extractPlaceholders(documentId),
     onSuccess: () => {
@@ -51,6 +68,7 @@ function DocumentDetail() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['placeholders', id] })
       queryClient.invalidateQueries({ queryKey: ['document', id] })
+      live.unlockField()
       setEditingPlaceholder(null)
     },
     onError: (error) => {
@@ -59,6 +77,20 @@ function DocumentDetail() {
     },
   })
 
+  // Stop overriding a repeated occurrence so it takes the field's value again
+  const followFieldMutation = useMutation({
+    mutationFn: (placeholderId: string) =>
+      documentsAPI.updatePlaceholders(id!, [{ id: placeholderId, override: false }]),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['placeholders', id] })
+      queryClient.invalidateQueries({ queryKey: ['document', id] })
+    },
+    onError: (error) => {
+      const apiError = handleApiError(error)
+      alert(`Update failed: ${apiError.message}`)
+    },
+  })
+
   const analyzeMutation = useMutation({
     mutationFn: (documentId: string) => documentsAPI.analyze(documentId),
     onSuccess: () => {
@@ -90,10 +122,16 @@ function DocumentDetail() {
   }
 
   const handleEditPlaceholder = (placeholderId: string, currentValue?: string) => {
+    live.lockField(placeholderId)
     setEditingPlaceholder(placeholderId)
     setPlaceholderValues({ ...placeholderValues, [placeholderId]: currentValue || '' })
   }
 
+  const handleCancelEdit = () => {
+    live.unlockField()
+    setEditingPlaceholder(null)
+  }
+
   if (docLoading) {
     return (
       <div className="text-center py-12">
@@ -117,44 +155,64 @@ function DocumentDetail() {
   const totalPlaceholders = placeholders?.length || 0
   const completionPercentage = totalPlaceholders > 0 ? Math.round((completedPlaceholders / totalPlaceholders) * 100) : 0
 
-  const handleDownload = () => {
-    // Generate a simple text representation of the filled document
-    const filledFields = placeholders?.filter(p => p.value).map(p =>
-      `${p.fieldName}: ${p.value}`
-    ).join('\n') || 'No fields filled yet'
-
-    const unfilledFields = placeholders?.filter(p => !p.value).map(p =>
-      `${p.fieldName}: [NOT FILLED]`
-    ).join('\n') || ''
-
-    const content = `
-FILLED DOCUMENT: ${docData?.originalName || docData?.filename}
-Generated: ${new Date().toLocaleString()}
-Completion: ${completionPercentage}%
-
-==================== FILLED FIELDS ====================
-${filledFields}
-
-==================== UNFILLED FIELDS ====================
-${unfilledFields || 'All fields completed!'}
-
-===========================================================
-This is a simple text representation.
-Full DOCX generation coming soon!
-    `.trim()
-
-    // Create a blob and download it
-    const blob = new Blob([content], { type: 'text/plain' })
+  const saveBlob = (blob: Blob, filename: string) => {
+    // Create an object URL and trigger the browser download
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = `${docData?.originalName || 'document'}_filled.txt`
+    a.download = filename
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
     URL.revokeObjectURL(url)
   }
 
+  const baseName = () => (docData.originalName || docData.filename || 'document').replace(/\.docx$/i, '')
+
+  const handleDownload = async () => {
+    if (!id) return
+    try {
+      const blob = await documentsAPI.download(id)
+      saveBlob(blob, `${baseName()}_filled.docx`)
+    } catch (error) {
+      const apiError = handleApiError(error)
+      alert(`Download failed: ${apiError.message}`)
+    }
+  }
+
+  const handleExportPdf = async () => {
+    if (!id) return
+    try {
+      const blob = await documentsAPI.exportDocument(id, 'pdf')
+      saveBlob(blob, `${baseName()}.pdf`)
+    } catch (error) {
+      const apiError = handleApiError(error)
+      alert(`Export failed: ${apiError.message}`)
+    }
+  }
+
+  const handleExportRedline = async () => {
+    if (!id) return
+    try {
+      const blob = await documentsAPI.exportDocument(id, 'redline')
+      saveBlob(blob, `${baseName()}_redline.docx`)
+    } catch (error) {
+      const apiError = handleApiError(error)
+      alert(`Export failed: ${apiError.message}`)
+    }
+  }
+
+  const handleExportTranscript = async (format: 'markdown' | 'json') => {
+    if (!id) return
+    try {
+      const blob = await documentsAPI.downloadAuditTranscript(id, format)
+      saveBlob(blob, `${baseName()}_transcript.${format === 'json' ? 'json' : 'md'}`)
+    } catch (error) {
+      const apiError = handleApiError(error)
+      alert(`Export failed: ${apiError.message}`)
+    }
+  }
+
   const handleStartConversation = () => {
     navigate(`/conversation/${id}`)
   }
@@ -173,7 +231,15 @@ Full DOCX generation coming soon!
                 className="bg-gray-100 hover:bg-gray-200 text-gray-900 hover-scale"
                 onClick={handleStartConversation}
               >
-                <span>💬</span> Fill with AI Chat
+                {openConversation ? (
+                  <>
+                    <span>💬</span> Resume where you left off ({openConversation.metadata.filledCount || 0}/{openConversation.metadata.totalPlaceholders || 0})
+                  </>
+                ) : (
+                  <>
+                    <span>💬</span> Fill with AI Chat
+                  </>
+                )}
               </Button>
               <Button
                 className="bg-black hover:bg-gray-800 text-white hover-scale"
@@ -181,6 +247,30 @@ Full DOCX generation coming soon!
               >
                 <span>⬇️</span> Download Filled Document
               </Button>
+              <Button
+                className="bg-gray-100 hover:bg-gray-200 text-gray-900 hover-scale"
+                onClick={handleExportPdf}
+              >
+                <span>📑</span> Export PDF
+              </Button>
+              <Button
+                className="bg-gray-100 hover:bg-gray-200 text-gray-900 hover-scale"
+                onClick={handleExportRedline}
+              >
+                <span>🖍️</span> Export Redline
+              </Button>
+              <Button
+                className="bg-gray-100 hover:bg-gray-200 text-gray-900 hover-scale"
+                onClick={() => handleExportTranscript('markdown')}
+              >
+                <span>🧾</span> Transcript (Markdown)
+              </Button>
+              <Button
+                className="bg-gray-100 hover:bg-gray-200 text-gray-900 hover-scale"
+                onClick={() => handleExportTranscript('json')}
+              >
+                <span>🧾</span> Transcript (JSON)
+              </Button>
             </>
           )}
         </div>
@@ -278,6 +368,11 @@ Full DOCX generation coming soon!
                 {completedPlaceholders} of {totalPlaceholders} completed ({completionPercentage}%)
               </span>
             </div>
+            {live.others.length > 0 && (
+              <p className="text-sm text-gray-600 mb-2">
+                👥 Also here: {Array.from(new Set(live.others.map(p => p.user.name))).join(', ')}
+              </p>
+            )}
             <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
               <div
                 className="bg-gray-900 h-2 rounded-full transition-all duration-500"
@@ -306,6 +401,18 @@ Full DOCX generation coming soon!
                           Completed
                         </span>
                       )}
+                      {live.lockedBy(placeholder.id) && (
+                        <span className="text-xs px-2 py-1 bg-gray-900 text-white rounded">
+                          🔒 {live.lockedBy(placeholder.id)!.name} is editing
+                        </span>
+                      )}
+                      {placeholder.linkedTo && (
+                        <span className="text-xs px-2 py-1 bg-gray-100 text-gray-600 rounded">
+                          {placeholder.valueOverride
+                            ? 'Own value'
+                            : `Same as ${placeholders.find(p => p.id === placeholder.linkedTo)?.fieldName || 'first occurrence'}`}
+                        </span>
+                      )}
                     </div>
                     {placeholder.description && (
                       <p className="text-sm text-gray-600 mt-1">{placeholder.description}</p>
@@ -340,7 +447,7 @@ Full DOCX generation coming soon!
                       </Button>
                       <Button
                         className="bg-gray-100 hover:bg-gray-200 text-gray-900"
-                        onClick={() => setEditingPlaceholder(null)}
+                        onClick={handleCancelEdit}
                       >
                         Cancel
                       </Button>
@@ -350,13 +457,27 @@ Full DOCX generation coming soon!
                       <p className="text-gray-900">
                         {placeholder.value || <span className="text-gray-400 italic">Not filled</span>}
                       </p>
-                      <Button
-                        className="bg-gray-100 hover:bg-gray-200 text-gray-900"
-                        size="sm"
-                        onClick={() => handleEditPlaceholder(placeholder.id, placeholder.value)}
-                      >
-                        {placeholder.value ? 'Edit' : 'Fill'}
-                      </Button>
+                      <div className="flex space-x-2">
+                        {placeholder.linkedTo && placeholder.valueOverride && (
+                          <Button
+                            className="bg-gray-100 hover:bg-gray-200 text-gray-900"
+                            size="sm"
+                            onClick={() => followFieldMutation.mutate(placeholder.id)}
+                            disabled={!!live.lockedBy(placeholder.id)}
+                            isLoading={followFieldMutation.isPending && followFieldMutation.variables === placeholder.id}
+                          >
+                            Use field value
+                          </Button>
+                        )}
+                        <Button
+                          className="bg-gray-100 hover:bg-gray-200 text-gray-900"
+                          size="sm"
+                          onClick={() => handleEditPlaceholder(placeholder.id, placeholder.value)}
+                          disabled={!!live.lockedBy(placeholder.id)}
+                        >
+                          {placeholder.value ? 'Edit' : 'Fill'}
+                        </Button>
+                      </div>
                     </div>
                   )}
                 </div>